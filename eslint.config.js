@@ -29,5 +29,11 @@ export default tseslint.config(
       ],
       '@typescript-eslint/no-explicit-any': 'off'
     },
+  },
+  {
+    files: ['worker/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
   }
 );
@@ -13,6 +13,13 @@ const Auth = lazy(() => import('./pages/Auth').then(m => ({ default: m.Auth })))
 const Choice = lazy(() => import('./pages/Choice').then(m => ({ default: m.Choice })));
 const Movies = lazy(() => import('./pages/Movies').then(m => ({ default: m.Movies })));
 const Music = lazy(() => import('./pages/Music').then(m => ({ default: m.Music })));
+const MovieDetail = lazy(() => import('./pages/MovieDetail').then(m => ({ default: m.MovieDetail })));
+const SeriesDetail = lazy(() => import('./pages/SeriesDetail').then(m => ({ default: m.SeriesDetail })));
+const TrackDetail = lazy(() => import('./pages/TrackDetail').then(m => ({ default: m.TrackDetail })));
+const ArtistDetail = lazy(() => import('./pages/ArtistDetail').then(m => ({ default: m.ArtistDetail })));
+const AlbumDetail = lazy(() => import('./pages/AlbumDetail').then(m => ({ default: m.AlbumDetail })));
+const Playlists = lazy(() => import('./pages/Playlists').then(m => ({ default: m.Playlists })));
+const PlaylistDetail = lazy(() => import('./pages/PlaylistDetail').then(m => ({ default: m.PlaylistDetail })));
 const Upload = lazy(() => import('./pages/Upload'));
 const Admin = lazy(() => import('./pages/Admin').then(m => ({ default: m.Admin })));
 const StreamingAdmin = lazy(() => import('./pages/StreamingAdmin').then(m => ({ default: m.StreamingAdmin })));
@@ -56,6 +63,62 @@ function App() {
                         </ProtectedRoute>
                       }
                     />
+                    <Route
+                      path="/movies/:id"
+                      element={
+                        <ProtectedRoute>
+                          <MovieDetail />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/series/:id"
+                      element={
+                        <ProtectedRoute>
+                          <SeriesDetail />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/music/:id"
+                      element={
+                        <ProtectedRoute>
+                          <TrackDetail />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/artists/:id"
+                      element={
+                        <ProtectedRoute>
+                          <ArtistDetail />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/albums/:id"
+                      element={
+                        <ProtectedRoute>
+                          <AlbumDetail />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/playlists"
+                      element={
+                        <ProtectedRoute>
+                          <Playlists />
+                        </ProtectedRoute>
+                      }
+                    />
+                    <Route
+                      path="/playlists/:id"
+                      element={
+                        <ProtectedRoute>
+                          <PlaylistDetail />
+                        </ProtectedRoute>
+                      }
+                    />
                     <Route
                       path="/upload"
                       element={
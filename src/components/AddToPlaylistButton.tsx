@@ -0,0 +1,126 @@
+import { useState, useEffect, useRef } from 'react';
+import { ListPlus, Plus, Check } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PlaylistContentType, PlaylistSummary } from '../lib/supabase';
+import { playlistService } from '../lib/playlistService';
+import { handleError } from '../lib/errorHandler';
+
+interface AddToPlaylistButtonProps {
+  contentId: string;
+  contentType: PlaylistContentType;
+}
+
+// Menu of the user's playlists to add a title to, or to start a new one with it
+export const AddToPlaylistButton = ({ contentId, contentType }: AddToPlaylistButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [playlists, setPlaylists] = useState<PlaylistSummary[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [addedTo, setAddedTo] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Shared playlists the user may edit are offered after their own
+    Promise.all([playlistService.listMyPlaylists(), playlistService.listSharedWithMe()])
+      .then(([own, shared]) => setPlaylists([...own, ...shared.filter(playlist => playlist.role === 'editor')]))
+      .catch(error => handleError(error, 'Loading playlists'));
+
+    const closeOnOutsideClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [isOpen]);
+
+  const addTo = async (playlist: Pick<PlaylistSummary, 'id' | 'name'>) => {
+    setBusy(true);
+    try {
+      await playlistService.addItem(playlist.id, contentType, contentId);
+      setAddedTo(ids => [...ids, playlist.id]);
+      toast.success(`Added to ${playlist.name}`);
+    } catch (error) {
+      handleError(error, 'Adding to playlist');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createWithTitle = async () => {
+    if (!newName.trim()) return;
+
+    setBusy(true);
+    try {
+      const playlist = await playlistService.createPlaylist({
+        name: newName.trim(),
+        description: null,
+        is_public: false
+      });
+      setNewName('');
+      setPlaylists(current => [{ ...playlist, item_count: 0 }, ...(current || [])]);
+      setBusy(false);
+      await addTo(playlist);
+    } catch (error) {
+      handleError(error, 'Creating playlist');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+      >
+        <ListPlus className="w-5 h-5" />
+        Add to Playlist
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-64 bg-slate-800 border border-slate-700 rounded-xl shadow-xl z-50 p-2 space-y-1">
+          {playlists === null ? (
+            <p className="px-3 py-2 text-sm text-slate-400">Loading playlists...</p>
+          ) : playlists.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-slate-400">You have no playlists yet.</p>
+          ) : (
+            <div className="max-h-60 overflow-y-auto">
+              {playlists.map(playlist => (
+                <button
+                  key={playlist.id}
+                  onClick={() => addTo(playlist)}
+                  disabled={busy}
+                  className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-50 transition-colors"
+                >
+                  <span className="flex-1 truncate">{playlist.name}</span>
+                  {addedTo.includes(playlist.id) && <Check className="w-4 h-4 text-green-400" />}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t border-slate-700 pt-2 flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && createWithTitle()}
+              placeholder="New playlist"
+              className="flex-1 min-w-0 px-3 py-2 bg-slate-700 text-white text-sm rounded-lg border border-slate-600"
+            />
+            <button
+              onClick={createWithTitle}
+              disabled={busy || !newName.trim()}
+              className="p-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white transition-colors"
+              title="Create playlist"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
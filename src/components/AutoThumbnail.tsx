@@ -2,10 +2,13 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Image, ImageIcon, Loader2, AlertCircle } from 'lucide-react';
 import { useThumbnailGenerator } from '../hooks/useThumbnailGenerator';
+import { blurhashToDataUrl } from '../lib/posterService';
 
 interface AutoThumbnailProps {
   videoUrl: string;
   fallbackUrl?: string;
+  blurhash?: string | null; // Painted until the image has loaded
+  movieId?: string; // Store a generated thumbnail on the movie
   alt?: string;
   className?: string;
   width?: number;
@@ -20,6 +23,8 @@ interface AutoThumbnailProps {
 export const AutoThumbnail = ({
   videoUrl,
   fallbackUrl,
+  blurhash,
+  movieId,
   alt = 'Video thumbnail',
   className = '',
   width = 320,
@@ -44,8 +49,10 @@ export const AutoThumbnail = ({
     height,
     quality,
     fallbackUrl,
+    movieId,
     autoGenerate: true
   });
+  const placeholderUrl = blurhash ? blurhashToDataUrl(blurhash) : null;
 
   // Handle errors gracefully
   React.useEffect(() => {
@@ -69,7 +76,11 @@ export const AutoThumbnail = ({
   return (
     <div 
       className={`relative overflow-hidden bg-slate-800 rounded-lg ${className}`}
-      style={{ width, height }}
+      style={{
+        width,
+        height,
+        ...(placeholderUrl && { backgroundImage: `url(${placeholderUrl})`, backgroundSize: 'cover' })
+      }}
       onClick={onClick}
     >
       <AnimatePresence mode="wait">
@@ -144,7 +155,7 @@ export const AutoThumbnail = ({
       </AnimatePresence>
 
       {/* Thumbnail Generation Indicator */}
-      {thumbnail && (
+      {thumbnail && thumbnail !== fallbackUrl && !movieId && (
         <div className="absolute top-2 right-2 bg-black/60 backdrop-blur-sm px-2 py-1 rounded text-xs text-white">
           {timeOffset}s
         </div>
@@ -0,0 +1,439 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Globe, Save, Activity, Trash2, Flame, Link, Loader, CheckCircle, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { streamingService, CDNConfig, DEFAULT_CDN_CONFIG } from '../lib/streamingService';
+import type { CdnHealth, CdnWarmResult } from '../lib/cdnAdapters';
+import { handleError } from '../lib/errorHandler';
+
+const PROVIDERS: Array<{ id: CDNConfig['provider']; label: string }> = [
+  { id: 'custom', label: 'Custom origin' },
+  { id: 'cloudflare', label: 'Cloudflare' },
+  { id: 'aws', label: 'AWS CloudFront (custom origin)' },
+  { id: 'azure', label: 'Azure CDN (custom origin)' }
+];
+
+const inputClass = 'w-full p-2 bg-slate-700 border border-slate-600 rounded text-white text-sm';
+
+const parsePaths = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const CdnSettings = () => {
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [draft, setDraft] = useState<CDNConfig>(DEFAULT_CDN_CONFIG);
+  const [saved, setSaved] = useState<CDNConfig>(DEFAULT_CDN_CONFIG);
+  const [health, setHealth] = useState<CdnHealth | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [pathsText, setPathsText] = useState('');
+  const [busy, setBusy] = useState<'purge' | 'purge-all' | 'warm' | null>(null);
+  const [warmResults, setWarmResults] = useState<CdnWarmResult[]>([]);
+  const [signPath, setSignPath] = useState('');
+  const [signedUrl, setSignedUrl] = useState('');
+
+  // Checks, cache actions and signing hold the CDN's secrets, so the server
+  // runs them with the saved settings
+  const update = <K extends keyof CDNConfig>(key: K, value: CDNConfig[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const save = async () => {
+    if (enabled && !draft.endpoint.trim()) {
+      toast.error('Enter the endpoint to serve media through the CDN');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await streamingService.saveCDNSettings({ enabled, config: draft });
+      setSaved(draft);
+      toast.success('CDN settings saved');
+    } catch (error) {
+      handleError(error, 'Saving CDN settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const checkHealth = useCallback(async () => {
+    setChecking(true);
+    try {
+      setHealth(await streamingService.checkCDNHealth());
+    } catch (error) {
+      setHealth({
+        healthy: false,
+        latencyMs: null,
+        status: null,
+        message: error instanceof Error ? error.message : 'Health check failed',
+        checkedAt: new Date().toISOString()
+      });
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  // Load the saved settings and check them once when the tab opens
+  useEffect(() => {
+    streamingService.getCDNSettings()
+      .then((settings) => {
+        setEnabled(settings.enabled);
+        setDraft(settings.config);
+        setSaved(settings.config);
+        setLoaded(true);
+        if (settings.config.endpoint) {
+          checkHealth();
+        }
+      })
+      .catch(error => handleError(error, 'Loading CDN settings'));
+  }, [checkHealth]);
+
+  const purge = async (all: boolean) => {
+    const paths = parsePaths(pathsText);
+    if (!all && paths.length === 0) {
+      toast.error('Enter the paths to purge');
+      return;
+    }
+    if (all && !confirm('Purge everything cached by the CDN?')) return;
+
+    setBusy(all ? 'purge-all' : 'purge');
+    try {
+      await streamingService.purgeCDN(all ? 'all' : paths);
+      toast.success(all ? 'CDN cache purged' : `Purged ${paths.length} path${paths.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      handleError(error, 'Purging CDN cache');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const warm = async () => {
+    const paths = parsePaths(pathsText);
+    if (paths.length === 0) {
+      toast.error('Enter the paths to warm');
+      return;
+    }
+
+    setBusy('warm');
+    try {
+      const results = await streamingService.warmCDN(paths);
+      setWarmResults(results);
+      const failed = results.filter(result => !result.ok).length;
+      if (failed > 0) {
+        toast.error(`${failed} of ${results.length} paths failed to warm`);
+      } else {
+        toast.success(`Warmed ${results.length} path${results.length === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      handleError(error, 'Warming CDN cache');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sign = async () => {
+    if (!signPath.trim()) return;
+    try {
+      const [signed] = await streamingService.signCDNUrls(saved.endpoint, [signPath.trim()]);
+      setSignedUrl(signed.url);
+    } catch (error) {
+      handleError(error, 'Signing URL');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Provider Configuration */}
+      <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Globe className="w-5 h-5 text-blue-400" />
+            CDN Configuration
+          </h3>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700 text-blue-500"
+            />
+            <span className="text-slate-300 text-sm">Serve media through the CDN</span>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm text-slate-300 mb-2">Provider</label>
+            <select
+              value={draft.provider}
+              onChange={(e) => update('provider', e.target.value as CDNConfig['provider'])}
+              className={inputClass}
+            >
+              {PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-300 mb-2">Endpoint</label>
+            <input
+              type="url"
+              value={draft.endpoint}
+              onChange={(e) => update('endpoint', e.target.value)}
+              placeholder="https://cdn.example.com"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-300 mb-2">Failover Endpoints</label>
+            <input
+              type="text"
+              value={draft.failoverEndpoints.join(', ')}
+              onChange={(e) => update('failoverEndpoints', e.target.value.split(',').map(endpoint => endpoint.trim()))}
+              placeholder="e.g. https://eu.cdn.example.com, comma separated"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-300 mb-2">Signed URL Lifetime (seconds)</label>
+            <input
+              type="number"
+              min="60"
+              value={draft.cacheTtl}
+              onChange={(e) => update('cacheTtl', Math.max(60, parseInt(e.target.value) || 60))}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-300 mb-2">Signing Key Secret</label>
+            <input
+              type="text"
+              value={draft.signingKeySecret || ''}
+              onChange={(e) => update('signingKeySecret', e.target.value)}
+              placeholder="Vault secret name, empty for unsigned URLs"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-300 mb-2">Health Check Path</label>
+            <input
+              type="text"
+              value={draft.healthPath || ''}
+              onChange={(e) => update('healthPath', e.target.value)}
+              placeholder="e.g. health.txt"
+              className={inputClass}
+            />
+          </div>
+
+          {draft.provider === 'cloudflare' ? (
+            <>
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">Zone ID</label>
+                <input
+                  type="text"
+                  value={draft.zoneId || ''}
+                  onChange={(e) => update('zoneId', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">API Token Secret</label>
+                <input
+                  type="text"
+                  value={draft.apiTokenSecret || ''}
+                  onChange={(e) => update('apiTokenSecret', e.target.value)}
+                  placeholder="Vault secret name"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">API Base URL</label>
+                <input
+                  type="url"
+                  value={draft.apiBaseUrl || ''}
+                  onChange={(e) => update('apiBaseUrl', e.target.value)}
+                  placeholder="https://api.cloudflare.com/client/v4"
+                  className={inputClass}
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">Purge URL</label>
+                <input
+                  type="url"
+                  value={draft.purgeUrl || ''}
+                  onChange={(e) => update('purgeUrl', e.target.value)}
+                  placeholder="Receives POST { paths } or { all: true }"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">Purge Token Secret</label>
+                <input
+                  type="text"
+                  value={draft.apiTokenSecret || ''}
+                  onChange={(e) => update('apiTokenSecret', e.target.value)}
+                  placeholder="Vault secret name, sent as a bearer token"
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.sslEnabled}
+              onChange={(e) => update('sslEnabled', e.target.checked)}
+              className="rounded border-slate-600 bg-slate-700 text-blue-500"
+            />
+            <span className="text-slate-300">Force HTTPS</span>
+          </label>
+        </div>
+
+        <p className="text-slate-500 text-xs mt-4">
+          Settings apply to every viewer. Keys and tokens stay on the server: store them in Supabase Vault
+          and enter the secret names here. Checks, cache actions and signing use the saved settings.
+        </p>
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={save}
+            disabled={!loaded || saving}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Settings
+          </button>
+        </div>
+      </div>
+
+      {/* Health */}
+      <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Activity className="w-5 h-5 text-green-400" />
+            Health
+          </h3>
+          <button
+            onClick={checkHealth}
+            disabled={checking}
+            className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+          >
+            {checking ? <Loader className="w-4 h-4 animate-spin" /> : <Activity className="w-4 h-4" />}
+            Check Now
+          </button>
+        </div>
+
+        {health ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="flex items-center gap-2">
+              {health.healthy ? (
+                <CheckCircle className="w-5 h-5 text-green-400" />
+              ) : (
+                <AlertTriangle className="w-5 h-5 text-red-400" />
+              )}
+              <span className={health.healthy ? 'text-green-400' : 'text-red-400'}>{health.message}</span>
+            </div>
+            <div className="text-slate-300">
+              Latency: <span className="text-white">{health.latencyMs !== null ? `${health.latencyMs}ms` : '-'}</span>
+              {health.status !== null && <span className="text-slate-500"> (HTTP {health.status})</span>}
+            </div>
+            <div className="text-slate-400 text-sm md:text-right">
+              Checked {new Date(health.checkedAt).toLocaleTimeString()}
+            </div>
+          </div>
+        ) : (
+          <p className="text-slate-500 text-sm">{draft.endpoint ? 'Checking...' : 'No endpoint configured'}</p>
+        )}
+      </div>
+
+      {/* Cache Management */}
+      <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-4">Cache Management</h3>
+        <label className="block text-sm text-slate-300 mb-2">Paths (one per line, relative to the endpoint)</label>
+        <textarea
+          value={pathsText}
+          onChange={(e) => setPathsText(e.target.value)}
+          rows={4}
+          placeholder={'transcoded/<job id>/hls/master.m3u8\ntranscoded/<job id>/hls/720p/segment_000.ts'}
+          className={`${inputClass} font-mono`}
+        />
+        <div className="flex flex-wrap gap-4 mt-4">
+          <button
+            onClick={() => purge(false)}
+            disabled={busy !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {busy === 'purge' ? <Loader className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Purge Paths
+          </button>
+          <button
+            onClick={() => purge(true)}
+            disabled={busy !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {busy === 'purge-all' ? <Loader className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Purge All Cache
+          </button>
+          <button
+            onClick={warm}
+            disabled={busy !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {busy === 'warm' ? <Loader className="w-4 h-4 animate-spin" /> : <Flame className="w-4 h-4" />}
+            Warm Paths
+          </button>
+        </div>
+
+        {warmResults.length > 0 && (
+          <div className="mt-4 space-y-1">
+            {warmResults.map(result => (
+              <div key={result.path} className="flex items-center justify-between p-2 bg-slate-700/50 rounded text-sm">
+                <span className="text-slate-300 font-mono truncate">{result.path}</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  {result.cacheStatus && <span className="text-slate-400">{result.cacheStatus}</span>}
+                  <span className={result.ok ? 'text-green-400' : 'text-red-400'}>
+                    {result.status !== null ? `HTTP ${result.status}` : 'Failed'}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* URL Signing */}
+      <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          <Link className="w-5 h-5 text-purple-400" />
+          Test URL Signing
+        </h3>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={signPath}
+            onChange={(e) => setSignPath(e.target.value)}
+            placeholder="Object path in the media bucket"
+            className={inputClass}
+          />
+          <button
+            onClick={sign}
+            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors shrink-0"
+          >
+            Sign
+          </button>
+        </div>
+        {signedUrl && (
+          <p className="mt-3 p-2 bg-slate-900 rounded text-slate-300 text-sm font-mono break-all">{signedUrl}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -12,7 +12,8 @@ import {
   MoreVertical
 } from 'lucide-react';
 import { personalizationService, ContinueWatching as ContinueWatchingType, UserProfile } from '../lib/personalizationService';
-import { supabase } from '../lib/supabase';
+import { supabase, NextEpisode } from '../lib/supabase';
+import { seriesService, formatEpisodeNumber } from '../lib/seriesService';
 
 interface ContinueWatchingProps {
   profile: UserProfile;
@@ -33,6 +34,9 @@ interface ContentItem {
   album?: string;
 }
 
+// Past this share of an episode, the card moves on to the next one
+const EPISODE_FINISHED_RATIO = 0.9;
+
 export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
   profile,
   onPlayContent,
@@ -40,6 +44,7 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
 }) => {
   const [continueWatchingItems, setContinueWatchingItems] = useState<ContinueWatchingType[]>([]);
   const [contentItems, setContentItems] = useState<ContentItem[]>([]);
+  const [nextEpisodes, setNextEpisodes] = useState<Record<string, NextEpisode>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -82,8 +87,21 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
         return null;
       });
 
-      const contentResults = await Promise.all(contentPromises);
+      // Finished episodes of a series continue with the episode after them
+      const nextPromises = items
+        .filter(item => item.content_type === 'movie' && item.total_duration > 0 &&
+          item.current_time / item.total_duration >= EPISODE_FINISHED_RATIO)
+        .map(async (item) => {
+          const next = await seriesService.getNextEpisode(item.content_id).catch(() => null);
+          return next ? [item.content_id, next] as const : null;
+        });
+
+      const [contentResults, nextResults] = await Promise.all([
+        Promise.all(contentPromises),
+        Promise.all(nextPromises)
+      ]);
       setContentItems(contentResults.filter(Boolean) as ContentItem[]);
+      setNextEpisodes(Object.fromEntries(nextResults.filter(result => result !== null)));
     } catch (error) {
       console.error('Error loading continue watching:', error);
     } finally {
@@ -192,8 +210,13 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
           const contentItem = contentItems.find(c => c.id === item.content_id);
           if (!contentItem) return null;
 
-          const progressPercentage = getProgressPercentage(item.current_time, item.total_duration);
+          const nextEpisode = nextEpisodes[item.content_id];
+          const progressPercentage = nextEpisode ? 0 : getProgressPercentage(item.current_time, item.total_duration);
           const remainingTime = getRemainingTime(item.current_time, item.total_duration);
+          const thumbnailUrl = nextEpisode ? nextEpisode.thumbnail_url : contentItem.thumbnail_url;
+          const playItem = () => nextEpisode
+            ? onPlayContent?.(nextEpisode.movie_id, 'movie', 0)
+            : onPlayContent?.(contentItem.id, contentItem.type, item.current_time);
 
           return (
             <motion.div
@@ -204,10 +227,10 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
             >
               {/* Thumbnail */}
               <div className="aspect-video bg-gray-200 dark:bg-gray-700 relative overflow-hidden">
-                {contentItem.thumbnail_url ? (
+                {thumbnailUrl ? (
                   <img
-                    src={contentItem.thumbnail_url}
-                    alt={contentItem.title}
+                    src={thumbnailUrl}
+                    alt={nextEpisode ? nextEpisode.title : contentItem.title}
                     className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
                   />
                 ) : (
@@ -231,7 +254,7 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
                 {/* Overlay */}
                 <div className="absolute inset-0 bg-black/0 group-hover:bg-black/30 transition-colors duration-300 flex items-center justify-center">
                   <button
-                    onClick={() => onPlayContent?.(contentItem.id, contentItem.type, item.current_time)}
+                    onClick={playItem}
                     className="opacity-0 group-hover:opacity-100 transform scale-75 group-hover:scale-100 transition-all duration-300 bg-white/90 hover:bg-white rounded-full p-3"
                   >
                     <Play className="w-6 h-6 text-gray-900 ml-1" />
@@ -249,8 +272,13 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
               
               {/* Content Info */}
               <div className="p-4">
+                {nextEpisode && (
+                  <p className="text-xs font-medium uppercase tracking-wide text-blue-600 dark:text-blue-400 mb-1">
+                    Up next · {nextEpisode.series_title} {formatEpisodeNumber(nextEpisode.season_number, nextEpisode.episode_number)}
+                  </p>
+                )}
                 <h3 className="font-semibold text-gray-900 dark:text-white mb-1 line-clamp-2">
-                  {contentItem.title}
+                  {nextEpisode ? nextEpisode.title : contentItem.title}
                 </h3>
                 
                 {contentItem.type === 'music' && contentItem.artist && (
@@ -261,14 +289,21 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
                 
                 {/* Progress Info */}
                 <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-500 dark:text-gray-400">
-                      {formatDuration(item.current_time)} / {formatDuration(item.total_duration)}
-                    </span>
-                    <span className="text-gray-500 dark:text-gray-400">
-                      {remainingTime} left
-                    </span>
-                  </div>
+                  {nextEpisode ? (
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      Finished {contentItem.title}
+                      {nextEpisode.duration > 0 && ` · next is ${formatDuration(nextEpisode.duration)}`}
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {formatDuration(item.current_time)} / {formatDuration(item.total_duration)}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {remainingTime} left
+                      </span>
+                    </div>
+                  )}
                   
                   <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
                     <div className="flex items-center space-x-1">
@@ -282,11 +317,11 @@ export const ContinueWatching: React.FC<ContinueWatchingProps> = ({
                 {/* Action Buttons */}
                 <div className="flex items-center space-x-2 mt-3">
                   <button
-                    onClick={() => onPlayContent?.(contentItem.id, contentItem.type, item.current_time)}
+                    onClick={playItem}
                     className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm py-2 px-3 rounded-lg transition-colors flex items-center justify-center space-x-1"
                   >
                     <Play className="w-4 h-4" />
-                    <span>Resume</span>
+                    <span>{nextEpisode ? 'Play Next' : 'Resume'}</span>
                   </button>
                   
                   <button
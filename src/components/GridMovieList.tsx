@@ -11,7 +11,11 @@ import {
   ChevronDown
 } from 'lucide-react';
 import { Movie } from '../lib/supabase';
+import { findTile } from '../lib/trickPlay';
+import { usePreviewSession, useTrickPlay } from '../hooks/useTrickPlay';
+import { usePersonalization } from '../hooks/usePersonalization';
 import { AutoThumbnail } from './AutoThumbnail';
+import { TrickPlayPreview } from './TrickPlayPreview';
 
 interface GridMovieListProps {
   movies: Movie[];
@@ -24,6 +28,53 @@ interface GridMovieListProps {
   className?: string;
 }
 
+// Card artwork that scrubs through the movie's trick-play tiles as the
+// pointer moves across it; the track is only fetched on first hover, with a
+// playback session of the viewer's profile
+const MovieCardMedia = ({ movie, profileId, children }: { movie: Movie; profileId?: string; children: React.ReactNode }) => {
+  const [hovered, setHovered] = useState(false);
+  const [scrub, setScrub] = useState<{ fraction: number; width: number } | null>(null);
+  const session = usePreviewSession(movie.id, movie.thumbnails_vtt_url, profileId, hovered);
+  const tiles = useTrickPlay(movie.thumbnails_vtt_url, session, hovered);
+  const tile = scrub && movie.duration ? findTile(tiles, scrub.fraction * movie.duration) : null;
+
+  return (
+    <div
+      className="relative aspect-[16/9] rounded-xl overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 shadow-lg group-hover:shadow-2xl transition-all duration-300"
+      onMouseEnter={() => setHovered(true)}
+      onMouseMove={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+        setScrub({ fraction, width: rect.width });
+      }}
+      onMouseLeave={() => setScrub(null)}
+    >
+      <AutoThumbnail
+        videoUrl={movie.video_url}
+        fallbackUrl={movie.thumbnail_sizes?.card || movie.thumbnail_url}
+        blurhash={movie.thumbnail_blurhash}
+        movieId={movie.id}
+        alt={movie.title}
+        className="w-full h-full group-hover:scale-105 transition-transform duration-500 ease-out"
+        width={400}
+        height={225}
+        timeOffset={5}
+        quality={0.8}
+      />
+
+      {/* Hover scrubbing */}
+      {scrub && tile && (
+        <>
+          <TrickPlayPreview tile={tile} session={session} width={scrub.width} className="absolute inset-0 pointer-events-none" />
+          <div className="absolute bottom-0 left-0 h-1 bg-blue-500 pointer-events-none" style={{ width: `${scrub.fraction * 100}%` }} />
+        </>
+      )}
+
+      {children}
+    </div>
+  );
+};
+
 export const GridMovieList = memo(({
   movies,
   title,
@@ -35,6 +86,12 @@ export const GridMovieList = memo(({
   className = ''
 }: GridMovieListProps) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const { selectedProfile } = usePersonalization({
+    enableContinueWatching: false,
+    enableWatchlist: false,
+    enableRecentlyWatched: false
+  });
+  const profileId = selectedProfile?.id;
   const [scrollPosition, setScrollPosition] = useState(0);
   const [isScrolling, setIsScrolling] = useState(false);
   const [canScrollUp, setCanScrollUp] = useState(false);
@@ -170,18 +227,7 @@ export const GridMovieList = memo(({
               className="group relative cursor-pointer transition-all duration-300"
             >
               {/* Movie Card */}
-              <div className="relative aspect-[16/9] rounded-xl overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 shadow-lg group-hover:shadow-2xl transition-all duration-300">
-                <AutoThumbnail
-                  videoUrl={movie.video_url}
-                  fallbackUrl={movie.thumbnail_url}
-                  alt={movie.title}
-                  className="w-full h-full group-hover:scale-105 transition-transform duration-500 ease-out"
-                  width={400}
-                  height={225}
-                  timeOffset={5}
-                  quality={0.8}
-                />
-                
+              <MovieCardMedia movie={movie} profileId={profileId}>
                 {/* Gradient Overlay */}
                 <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
                 
@@ -254,7 +300,7 @@ export const GridMovieList = memo(({
                     </motion.button>
                   )}
                 </div>
-              </div>
+              </MovieCardMedia>
 
               {/* Movie Info */}
               <div className="mt-4 px-1">
@@ -280,7 +326,7 @@ export const GridMovieList = memo(({
                 )}
               </div>
             </motion.div>
-          )), [movies, onPlay, onInfo, onAddToList, isInList, formatDuration])}
+          )), [movies, onPlay, onInfo, onAddToList, isInList, formatDuration, profileId])}
         </div>
       </div>
 
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback, memo, useMemo } from 'react';
+import { useState, useRef, useEffect, useCallback, memo, useMemo, ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Play, 
@@ -9,9 +9,11 @@ import {
   Clock, 
   Music as MusicIcon, 
   ChevronUp,
-  ChevronDown
+  ChevronDown,
+  Disc,
+  Mic2
 } from 'lucide-react';
-import { Music as MusicType } from '../lib/supabase';
+import { Music as MusicType, AlbumSummary, ArtistSummary } from '../lib/supabase';
 import { AutoThumbnail } from './AutoThumbnail';
 
 interface GridMusicListProps {
@@ -26,17 +28,57 @@ interface GridMusicListProps {
   className?: string;
 }
 
-export const GridMusicList = memo(({
-  tracks,
+interface GridAlbumListProps {
+  albums: AlbumSummary[];
+  title: string;
+  subtitle?: string;
+  onOpen: (album: AlbumSummary) => void;
+  onPlay: (album: AlbumSummary) => void;
+  className?: string;
+}
+
+interface GridArtistListProps {
+  artists: ArtistSummary[];
+  title: string;
+  subtitle?: string;
+  onOpen: (artist: ArtistSummary) => void;
+  onPlay: (artist: ArtistSummary) => void;
+  className?: string;
+}
+
+const EmptyGrid = ({ title, subtitle, className = '', label }: {
+  title: string;
+  subtitle?: string;
+  className?: string;
+  label: string;
+}) => (
+  <div className={`mb-8 ${className}`}>
+    <div className="mb-6">
+      <h2 className="text-2xl font-bold text-white mb-2">{title}</h2>
+      {subtitle && <p className="text-slate-400">{subtitle}</p>}
+    </div>
+    <div className="bg-slate-800/30 rounded-xl p-8 text-center">
+      <p className="text-slate-400">{label}</p>
+    </div>
+  </div>
+);
+
+interface ScrollableGridProps {
+  title: string;
+  subtitle?: string;
+  className?: string;
+  columns?: string;
+  children: ReactNode;
+}
+
+// Titled grid in a fixed-height pane with scroll buttons and progress
+const ScrollableGrid = ({
   title,
   subtitle,
-  currentTrack,
-  isPlaying,
-  onTrackSelect,
-  onLike,
-  isLiked,
-  className = ''
-}: GridMusicListProps) => {
+  className = '',
+  columns = 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3',
+  children
+}: ScrollableGridProps) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [scrollPosition, setScrollPosition] = useState(0);
   const [isScrolling, setIsScrolling] = useState(false);
@@ -95,26 +137,6 @@ export const GridMusicList = memo(({
     };
   }, [updateScrollState]);
 
-  const formatDuration = useCallback((seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = Math.floor(seconds % 60);
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  }, []);
-
-  if (tracks.length === 0) {
-    return (
-      <div className={`mb-8 ${className}`}>
-        <div className="mb-6">
-          <h2 className="text-2xl font-bold text-white mb-2">{title}</h2>
-          {subtitle && <p className="text-slate-400">{subtitle}</p>}
-        </div>
-        <div className="bg-slate-800/30 rounded-xl p-8 text-center">
-          <p className="text-slate-400">No tracks available</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className={`relative ${className}`}>
       {/* Header */}
@@ -161,135 +183,8 @@ export const GridMusicList = memo(({
           scrollBehavior: 'smooth'
         }}
       >
-        {/* 3-Column Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {useMemo(() => tracks.map((track, index) => (
-            <motion.div
-              key={track.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.05 }}
-              onClick={() => onTrackSelect(track)}
-              className="group relative cursor-pointer transition-all duration-300"
-            >
-              {/* Track Card */}
-              <div className="relative aspect-square rounded-xl overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 shadow-lg group-hover:shadow-2xl transition-all duration-300">
-                {track.video_url ? (
-                  <AutoThumbnail
-                    videoUrl={track.video_url}
-                    fallbackUrl={track.album_art_url}
-                    alt={track.album || track.title}
-                    className="w-full h-full group-hover:scale-105 transition-transform duration-500 ease-out"
-                    width={400}
-                    height={400}
-                    timeOffset={5}
-                    quality={0.8}
-                  />
-                ) : track.album_art_url ? (
-                  <img 
-                    src={track.album_art_url} 
-                    alt={track.album} 
-                    className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500 ease-out" 
-                  />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-pink-500/20 to-purple-500/20">
-                    <MusicIcon className="w-20 h-20 text-pink-400" />
-                  </div>
-                )}
-                
-                {/* Gradient Overlay */}
-                <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
-                
-                {/* Top Badges */}
-                <div className="absolute top-3 left-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                  {track.rating && (
-                    <div className="flex items-center gap-1 bg-black/60 backdrop-blur-sm px-2 py-1 rounded-full">
-                      <Star className="w-3 h-3 text-yellow-400" fill="currentColor" />
-                      <span className="text-white text-xs font-medium">{track.rating}</span>
-                    </div>
-                  )}
-                </div>
-
-                {/* Duration Badge */}
-                {track.duration && (
-                  <div className="absolute top-3 right-3 bg-black/60 backdrop-blur-sm px-2 py-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                    <div className="flex items-center gap-1">
-                      <Clock className="w-3 h-3 text-white" />
-                      <span className="text-white text-xs">{formatDuration(track.duration)}</span>
-                    </div>
-                  </div>
-                )}
-
-                {/* Play/Pause Button Overlay */}
-                <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300">
-                  <motion.div
-                    whileHover={{ scale: 1.1 }}
-                    whileTap={{ scale: 0.95 }}
-                    className="w-16 h-16 bg-white/95 hover:bg-white rounded-full flex items-center justify-center shadow-2xl"
-                  >
-                    {currentTrack?.id === track.id && isPlaying ? (
-                      <Pause className="w-6 h-6 text-slate-900" fill="currentColor" />
-                    ) : (
-                      <Play className="w-6 h-6 text-slate-900 ml-1" fill="currentColor" />
-                    )}
-                  </motion.div>
-                </div>
-
-                {/* Current Track Indicator */}
-                {currentTrack?.id === track.id && (
-                  <div className="absolute inset-0 bg-pink-500/20 flex items-center justify-center">
-                    <div className="w-12 h-12 bg-pink-500 rounded-full flex items-center justify-center">
-                      <div className="w-4 h-4 bg-white rounded-full animate-pulse"></div>
-                    </div>
-                  </div>
-                )}
-
-                {/* Action Buttons */}
-                <div className="absolute bottom-3 right-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-all duration-300">
-                  {onLike && (
-                    <motion.button
-                      whileHover={{ scale: 1.1 }}
-                      whileTap={{ scale: 0.9 }}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onLike(track);
-                      }}
-                      className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${
-                        isLiked?.(track)
-                          ? 'bg-pink-600 hover:bg-pink-700 text-white'
-                          : 'bg-black/60 hover:bg-black/80 text-white'
-                      }`}
-                    >
-                      <Heart className={`w-4 h-4 ${isLiked?.(track) ? 'fill-current' : ''}`} />
-                    </motion.button>
-                  )}
-
-                  <motion.button
-                    whileHover={{ scale: 1.1 }}
-                    whileTap={{ scale: 0.9 }}
-                    className="w-8 h-8 bg-black/60 hover:bg-black/80 text-white rounded-full flex items-center justify-center transition-colors"
-                  >
-                    <MoreHorizontal className="w-4 h-4" />
-                  </motion.button>
-                </div>
-              </div>
-
-              {/* Track Info */}
-              <div className="mt-4 px-1">
-                <h3 className={`font-semibold text-lg mb-2 line-clamp-2 transition-colors ${
-                  currentTrack?.id === track.id ? 'text-pink-400' : 'text-white group-hover:text-pink-300'
-                }`}>
-                  {track.title}
-                </h3>
-                
-                <p className="text-slate-400 text-sm mb-1 line-clamp-1">{track.artist}</p>
-                
-                {track.album && (
-                  <p className="text-slate-500 text-sm line-clamp-1">{track.album}</p>
-                )}
-              </div>
-            </motion.div>
-          )), [tracks, currentTrack, isPlaying, onTrackSelect, onLike, isLiked, formatDuration])}
+        <div className={`grid ${columns} gap-6`}>
+          {children}
         </div>
       </div>
 
@@ -324,4 +219,293 @@ export const GridMusicList = memo(({
       </AnimatePresence>
     </div>
   );
+};
+
+export const GridMusicList = memo(({
+  tracks,
+  title,
+  subtitle,
+  currentTrack,
+  isPlaying,
+  onTrackSelect,
+  onLike,
+  isLiked,
+  className = ''
+}: GridMusicListProps) => {
+  const formatDuration = useCallback((seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }, []);
+
+  if (tracks.length === 0) {
+    return <EmptyGrid title={title} subtitle={subtitle} className={className} label="No tracks available" />;
+  }
+
+  return (
+    <ScrollableGrid title={title} subtitle={subtitle} className={className}>
+      {useMemo(() => tracks.map((track, index) => (
+        <motion.div
+          key={track.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: index * 0.05 }}
+          onClick={() => onTrackSelect(track)}
+          className="group relative cursor-pointer transition-all duration-300"
+        >
+          {/* Track Card */}
+          <div className="relative aspect-square rounded-xl overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 shadow-lg group-hover:shadow-2xl transition-all duration-300">
+            {track.video_url ? (
+              <AutoThumbnail
+                videoUrl={track.video_url}
+                fallbackUrl={track.album_art_url}
+                alt={track.album || track.title}
+                className="w-full h-full group-hover:scale-105 transition-transform duration-500 ease-out"
+                width={400}
+                height={400}
+                timeOffset={5}
+                quality={0.8}
+              />
+            ) : track.album_art_url ? (
+              <img 
+                src={track.album_art_url} 
+                alt={track.album} 
+                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500 ease-out" 
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-pink-500/20 to-purple-500/20">
+                <MusicIcon className="w-20 h-20 text-pink-400" />
+              </div>
+            )}
+            
+            {/* Gradient Overlay */}
+            <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+            
+            {/* Top Badges */}
+            <div className="absolute top-3 left-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+              {track.rating && (
+                <div className="flex items-center gap-1 bg-black/60 backdrop-blur-sm px-2 py-1 rounded-full">
+                  <Star className="w-3 h-3 text-yellow-400" fill="currentColor" />
+                  <span className="text-white text-xs font-medium">{track.rating}</span>
+                </div>
+              )}
+            </div>
+
+            {/* Duration Badge */}
+            {track.duration && (
+              <div className="absolute top-3 right-3 bg-black/60 backdrop-blur-sm px-2 py-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                <div className="flex items-center gap-1">
+                  <Clock className="w-3 h-3 text-white" />
+                  <span className="text-white text-xs">{formatDuration(track.duration)}</span>
+                </div>
+              </div>
+            )}
+
+            {/* Play/Pause Button Overlay */}
+            <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300">
+              <motion.div
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.95 }}
+                className="w-16 h-16 bg-white/95 hover:bg-white rounded-full flex items-center justify-center shadow-2xl"
+              >
+                {currentTrack?.id === track.id && isPlaying ? (
+                  <Pause className="w-6 h-6 text-slate-900" fill="currentColor" />
+                ) : (
+                  <Play className="w-6 h-6 text-slate-900 ml-1" fill="currentColor" />
+                )}
+              </motion.div>
+            </div>
+
+            {/* Current Track Indicator */}
+            {currentTrack?.id === track.id && (
+              <div className="absolute inset-0 bg-pink-500/20 flex items-center justify-center">
+                <div className="w-12 h-12 bg-pink-500 rounded-full flex items-center justify-center">
+                  <div className="w-4 h-4 bg-white rounded-full animate-pulse"></div>
+                </div>
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            <div className="absolute bottom-3 right-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-all duration-300">
+              {onLike && (
+                <motion.button
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onLike(track);
+                  }}
+                  className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${
+                    isLiked?.(track)
+                      ? 'bg-pink-600 hover:bg-pink-700 text-white'
+                      : 'bg-black/60 hover:bg-black/80 text-white'
+                  }`}
+                >
+                  <Heart className={`w-4 h-4 ${isLiked?.(track) ? 'fill-current' : ''}`} />
+                </motion.button>
+              )}
+
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                className="w-8 h-8 bg-black/60 hover:bg-black/80 text-white rounded-full flex items-center justify-center transition-colors"
+              >
+                <MoreHorizontal className="w-4 h-4" />
+              </motion.button>
+            </div>
+          </div>
+
+          {/* Track Info */}
+          <div className="mt-4 px-1">
+            <h3 className={`font-semibold text-lg mb-2 line-clamp-2 transition-colors ${
+              currentTrack?.id === track.id ? 'text-pink-400' : 'text-white group-hover:text-pink-300'
+            }`}>
+              {track.title}
+            </h3>
+            
+            <p className="text-slate-400 text-sm mb-1 line-clamp-1">{track.artist}</p>
+            
+            {track.album && (
+              <p className="text-slate-500 text-sm line-clamp-1">{track.album}</p>
+            )}
+          </div>
+        </motion.div>
+      )), [tracks, currentTrack, isPlaying, onTrackSelect, onLike, isLiked, formatDuration])}
+    </ScrollableGrid>
+  );
+});
+
+// Round play button shown over a card on hover
+const CardPlayButton = ({ label, onPlay }: { label: string; onPlay: () => void }) => (
+  <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300">
+    <motion.button
+      whileHover={{ scale: 1.1 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onPlay();
+      }}
+      title={label}
+      className="w-16 h-16 bg-white/95 hover:bg-white rounded-full flex items-center justify-center shadow-2xl"
+    >
+      <Play className="w-6 h-6 text-slate-900 ml-1" fill="currentColor" />
+    </motion.button>
+  </div>
+);
+
+export const GridAlbumList = memo(({
+  albums,
+  title,
+  subtitle,
+  onOpen,
+  onPlay,
+  className = ''
+}: GridAlbumListProps) => {
+  if (albums.length === 0) {
+    return <EmptyGrid title={title} subtitle={subtitle} className={className} label="No albums available" />;
+  }
+
+  return (
+    <ScrollableGrid
+      title={title}
+      subtitle={subtitle}
+      className={className}
+      columns="grid-cols-2 md:grid-cols-3 lg:grid-cols-4"
+    >
+      {albums.map((album, index) => (
+        <motion.div
+          key={album.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: Math.min(index, 20) * 0.05 }}
+          onClick={() => onOpen(album)}
+          className="group relative cursor-pointer"
+        >
+          <div className="relative aspect-square rounded-xl overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 shadow-lg group-hover:shadow-2xl transition-all duration-300">
+            {album.album_art_url ? (
+              <img
+                src={album.album_art_url}
+                alt={album.title}
+                loading="lazy"
+                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500 ease-out"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-pink-500/20 to-purple-500/20">
+                <Disc className="w-16 h-16 text-pink-400" />
+              </div>
+            )}
+            <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+            <CardPlayButton label="Play album" onPlay={() => onPlay(album)} />
+          </div>
+
+          <div className="mt-3 px-1">
+            <h3 className="font-semibold text-white group-hover:text-pink-300 line-clamp-1 transition-colors">{album.title}</h3>
+            <p className="text-slate-400 text-sm line-clamp-1">{album.artist.name}</p>
+            <p className="text-slate-500 text-sm">
+              {album.release_date && `${album.release_date.slice(0, 4)} • `}
+              {album.track_count} {album.track_count === 1 ? 'track' : 'tracks'}
+            </p>
+          </div>
+        </motion.div>
+      ))}
+    </ScrollableGrid>
+  );
+});
+
+export const GridArtistList = memo(({
+  artists,
+  title,
+  subtitle,
+  onOpen,
+  onPlay,
+  className = ''
+}: GridArtistListProps) => {
+  if (artists.length === 0) {
+    return <EmptyGrid title={title} subtitle={subtitle} className={className} label="No artists available" />;
+  }
+
+  return (
+    <ScrollableGrid
+      title={title}
+      subtitle={subtitle}
+      className={className}
+      columns="grid-cols-2 md:grid-cols-3 lg:grid-cols-5"
+    >
+      {artists.map((artist, index) => (
+        <motion.div
+          key={artist.id}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: Math.min(index, 20) * 0.05 }}
+          onClick={() => onOpen(artist)}
+          className="group relative cursor-pointer text-center"
+        >
+          <div className="relative aspect-square rounded-full overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 shadow-lg group-hover:shadow-2xl transition-all duration-300">
+            {artist.cover_url ? (
+              <img
+                src={artist.cover_url}
+                alt={artist.name}
+                loading="lazy"
+                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500 ease-out"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-pink-500/20 to-purple-500/20">
+                <Mic2 className="w-14 h-14 text-pink-400" />
+              </div>
+            )}
+            <div className="absolute inset-0 bg-black/0 group-hover:bg-black/40 transition-colors duration-300" />
+            <CardPlayButton label="Play artist" onPlay={() => onPlay(artist)} />
+          </div>
+
+          <div className="mt-3 px-1">
+            <h3 className="font-semibold text-white group-hover:text-pink-300 line-clamp-1 transition-colors">{artist.name}</h3>
+            <p className="text-slate-500 text-sm">
+              {artist.album_count > 0 && `${artist.album_count} ${artist.album_count === 1 ? 'album' : 'albums'} • `}
+              {artist.track_count} {artist.track_count === 1 ? 'track' : 'tracks'}
+            </p>
+          </div>
+        </motion.div>
+      ))}
+    </ScrollableGrid>
+  );
 });
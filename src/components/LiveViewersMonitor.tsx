@@ -0,0 +1,242 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Radio, Users, Loader, Smartphone, Monitor, AlertTriangle, Film, Music as MusicIcon, Pause, Play } from 'lucide-react';
+import { streamingService } from '../lib/streamingService';
+import { dataService } from '../lib/dataService';
+import { handleError } from '../lib/errorHandler';
+import type { LiveViewer, LivePlaybackError } from '../lib/livePresence';
+
+const MAX_FEED_ERRORS = 20;
+const DEVICE_COUNT_REFRESH_MS = 60000;
+
+const formatPosition = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatAgo = (timestamp: string, now: number): string => {
+  const seconds = Math.max(0, Math.round((now - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.floor(seconds / 60)}m ago`;
+};
+
+const STATE_STYLES: { [state in LiveViewer['state']]: string } = {
+  starting: 'bg-slate-500/20 text-slate-300',
+  playing: 'bg-green-500/20 text-green-400',
+  paused: 'bg-blue-500/20 text-blue-400',
+  buffering: 'bg-yellow-500/20 text-yellow-400'
+};
+
+export const LiveViewersMonitor = () => {
+  const [viewers, setViewers] = useState<LiveViewer[]>([]);
+  const [errors, setErrors] = useState<LivePlaybackError[]>([]);
+  const [activeDevices, setActiveDevices] = useState<number | null>(null);
+  const [titles, setTitles] = useState<{ [id: string]: string }>({});
+  const [isConnected, setIsConnected] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    return streamingService.subscribeToLiveViewers(
+      (current) => {
+        setViewers(current);
+        setIsConnected(true);
+      },
+      (error) => setErrors(prev => [error, ...prev].slice(0, MAX_FEED_ERRORS))
+    );
+  }, []);
+
+  // Viewers only carry media ids
+  useEffect(() => {
+    const loadTitles = async () => {
+      try {
+        const [movies, music] = await Promise.all([dataService.fetchMovies(), dataService.fetchMusic()]);
+        const byId: { [id: string]: string } = {};
+        movies.forEach(movie => { byId[movie.id] = movie.title; });
+        music.forEach(track => { byId[track.id] = `${track.title} - ${track.artist}`; });
+        setTitles(byId);
+      } catch (error) {
+        handleError(error, 'Loading titles');
+      }
+    };
+
+    loadTitles();
+  }, []);
+
+  useEffect(() => {
+    const loadDeviceCount = async () => {
+      try {
+        setActiveDevices(await streamingService.getActiveDeviceSessionCount());
+      } catch (error) {
+        console.error('Failed to load active device sessions:', error);
+      }
+    };
+
+    loadDeviceCount();
+    const interval = setInterval(loadDeviceCount, DEVICE_COUNT_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Keeps "buffering for" and "last seen" labels moving between syncs
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const titleOf = (mediaId: string) => titles[mediaId] || mediaId;
+
+  // Concurrency per title, busiest first
+  const perTitle = useMemo(() => {
+    const groups = new Map<string, { mediaId: string; mediaType: LiveViewer['mediaType']; viewers: LiveViewer[] }>();
+    viewers.forEach(viewer => {
+      const group = groups.get(viewer.mediaId) || { mediaId: viewer.mediaId, mediaType: viewer.mediaType, viewers: [] };
+      group.viewers.push(viewer);
+      groups.set(viewer.mediaId, group);
+    });
+
+    return Array.from(groups.values())
+      .map(group => {
+        const qualities: { [quality: string]: number } = {};
+        group.viewers.forEach(viewer => {
+          qualities[viewer.quality] = (qualities[viewer.quality] || 0) + 1;
+        });
+        return {
+          ...group,
+          qualities: Object.entries(qualities).sort((a, b) => b[1] - a[1]),
+          buffering: group.viewers.filter(viewer => viewer.state === 'buffering').length
+        };
+      })
+      .sort((a, b) => b.viewers.length - a.viewers.length);
+  }, [viewers]);
+
+  const bufferingCount = viewers.filter(viewer => viewer.state === 'buffering').length;
+
+  return (
+    <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Radio className="w-5 h-5 text-red-400" />
+          Live Now
+        </h3>
+        <div className="flex items-center gap-2 text-sm">
+          <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-slate-500'}`}></div>
+          <span className={isConnected ? 'text-green-400' : 'text-slate-400'}>
+            {isConnected ? 'Connected' : 'Connecting...'}
+          </span>
+        </div>
+      </div>
+
+      {/* Live Counters */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="p-4 bg-slate-700/50 rounded-lg">
+          <p className="text-slate-400 text-sm flex items-center gap-1"><Users className="w-4 h-4" /> Watching</p>
+          <p className="text-2xl font-bold text-white">{viewers.length}</p>
+        </div>
+        <div className="p-4 bg-slate-700/50 rounded-lg">
+          <p className="text-slate-400 text-sm flex items-center gap-1"><Loader className="w-4 h-4" /> Buffering</p>
+          <p className={`text-2xl font-bold ${bufferingCount > 0 ? 'text-yellow-400' : 'text-white'}`}>{bufferingCount}</p>
+        </div>
+        <div className="p-4 bg-slate-700/50 rounded-lg">
+          <p className="text-slate-400 text-sm flex items-center gap-1"><Film className="w-4 h-4" /> Titles Playing</p>
+          <p className="text-2xl font-bold text-white">{perTitle.length}</p>
+        </div>
+        <div className="p-4 bg-slate-700/50 rounded-lg">
+          <p className="text-slate-400 text-sm flex items-center gap-1"><Monitor className="w-4 h-4" /> Active Devices (15 min)</p>
+          <p className="text-2xl font-bold text-white">{activeDevices ?? '-'}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Per Title Concurrency */}
+        <div className="lg:col-span-2 space-y-3">
+          <h4 className="text-sm font-medium text-slate-300">Concurrent Viewers by Title</h4>
+          {perTitle.length === 0 && (
+            <p className="text-slate-500 text-sm">Nobody is watching right now</p>
+          )}
+          {perTitle.map(group => (
+            <div key={group.mediaId} className="p-3 bg-slate-700/50 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {group.mediaType === 'music' ? (
+                    <MusicIcon className="w-4 h-4 text-purple-400 shrink-0" />
+                  ) : (
+                    <Film className="w-4 h-4 text-blue-400 shrink-0" />
+                  )}
+                  <span className="text-white text-sm font-medium truncate">{titleOf(group.mediaId)}</span>
+                </div>
+                <div className="flex items-center gap-3 text-sm shrink-0">
+                  {group.buffering > 0 && (
+                    <span className="text-yellow-400">{group.buffering} buffering</span>
+                  )}
+                  <span className="text-white font-semibold">{group.viewers.length}</span>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {group.qualities.map(([quality, count]) => (
+                  <span key={quality} className="px-2 py-0.5 bg-slate-600/60 rounded text-xs text-slate-300">
+                    {quality} &times; {count}
+                  </span>
+                ))}
+              </div>
+              <div className="space-y-1">
+                {group.viewers.map(viewer => (
+                  <div key={viewer.sessionId} className="flex items-center justify-between text-xs text-slate-400">
+                    <div className="flex items-center gap-2">
+                      {viewer.device === 'Mobile' ? <Smartphone className="w-3 h-3" /> : <Monitor className="w-3 h-3" />}
+                      <span title={viewer.userId}>User {viewer.userId.slice(0, 8)}</span>
+                      <span className={`px-1.5 py-0.5 rounded flex items-center gap-1 ${STATE_STYLES[viewer.state]}`}>
+                        {viewer.state === 'paused' ? <Pause className="w-3 h-3" /> : viewer.state === 'playing' ? <Play className="w-3 h-3" /> : null}
+                        {viewer.state === 'buffering' && viewer.bufferingSince
+                          ? `buffering ${formatAgo(viewer.bufferingSince, now).replace(' ago', '')}`
+                          : viewer.state}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span>{formatPosition(viewer.position)}</span>
+                      <span>{viewer.quality}</span>
+                      <span title="Rebuffers this session">
+                        {viewer.rebufferCount} stalls ({(viewer.rebufferMs / 1000).toFixed(1)}s)
+                      </span>
+                      <span className="text-slate-500">{formatAgo(viewer.updatedAt, now)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Live Error Feed */}
+        <div>
+          <h4 className="text-sm font-medium text-slate-300 mb-3">Live Errors</h4>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {errors.length === 0 && (
+              <p className="text-slate-500 text-sm">No errors since this page was opened</p>
+            )}
+            <AnimatePresence initial={false}>
+              {errors.map((error, index) => (
+                <motion.div
+                  key={`${error.sessionId}-${error.occurredAt}-${index}`}
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  className={`p-2 rounded border ${error.recoverable ? 'bg-yellow-500/10 border-yellow-500/20' : 'bg-red-500/10 border-red-500/20'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className={`w-4 h-4 shrink-0 ${error.recoverable ? 'text-yellow-400' : 'text-red-400'}`} />
+                    <p className={`text-sm font-medium truncate ${error.recoverable ? 'text-yellow-400' : 'text-red-400'}`}>
+                      {error.errorCode}
+                    </p>
+                  </div>
+                  <p className="text-slate-300 text-xs mt-1 truncate" title={error.message}>{error.message}</p>
+                  <p className="text-slate-500 text-xs">
+                    {titleOf(error.mediaId)} at {formatPosition(error.position)} - {formatAgo(error.occurredAt, now)}
+                  </p>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
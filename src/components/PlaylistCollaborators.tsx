@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Users, UserPlus, X, Crown, LogOut } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PlaylistCollaboratorRole, PlaylistMember } from '../lib/supabase';
+import { playlistService } from '../lib/playlistService';
+import { handleError } from '../lib/errorHandler';
+
+interface PlaylistCollaboratorsProps {
+  playlistId: string;
+  members: PlaylistMember[];
+  currentUserId?: string;
+  onChanged: () => void; // Reload members after an invite, role change or removal
+  onLeft: () => void;
+}
+
+const ROLE_LABELS: Record<PlaylistMember['role'], string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view'
+};
+
+// Members of a playlist. The owner invites by email and manages roles;
+// collaborators see who else is in and can leave.
+export const PlaylistCollaborators = ({
+  playlistId,
+  members,
+  currentUserId,
+  onChanged,
+  onLeft
+}: PlaylistCollaboratorsProps) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<PlaylistCollaboratorRole>('editor');
+  const [busy, setBusy] = useState(false);
+
+  const me = members.find(member => member.user_id === currentUserId);
+  const isOwner = me?.role === 'owner';
+
+  const run = async (action: () => Promise<unknown>, context: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error: unknown) {
+      handleError(error, context);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const invite = () => {
+    const address = email.trim().toLowerCase();
+    if (!address.includes('@')) {
+      toast.error('Enter an email address');
+      return;
+    }
+    if (members.some(member => member.email === address)) {
+      toast.error(`${address} is already on this playlist`);
+      return;
+    }
+
+    run(async () => {
+      await playlistService.inviteCollaborator(playlistId, address, role);
+      setEmail('');
+      toast.success(`Invited ${address}`);
+    }, 'Inviting collaborator');
+  };
+
+  const leave = async (collaboratorId: string) => {
+    if (!confirm('Leave this playlist? You will lose access unless it is public.')) return;
+
+    setBusy(true);
+    try {
+      await playlistService.removeCollaborator(collaboratorId);
+      toast.success('You left the playlist');
+      onLeft();
+    } catch (error) {
+      handleError(error, 'Leaving playlist');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="bg-slate-800/50 rounded-xl p-6 border border-slate-700/50 space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+        <Users className="w-5 h-5" />
+        Collaborators
+      </h2>
+
+      <ul className="space-y-2">
+        {members.map(member => (
+          <li key={member.collaborator_id || 'owner'} className="flex items-center gap-3 text-sm">
+            <span className="flex-1 min-w-0 truncate text-slate-300">
+              {member.email}
+              {member.user_id === currentUserId && <span className="text-slate-500"> (you)</span>}
+              {!member.user_id && <span className="text-slate-500"> (invited, not joined yet)</span>}
+            </span>
+            {member.role === 'owner' ? (
+              <span className="flex items-center gap-1 text-yellow-400">
+                <Crown className="w-4 h-4" />
+                {ROLE_LABELS.owner}
+              </span>
+            ) : isOwner && member.collaborator_id ? (
+              <>
+                <select
+                  value={member.role}
+                  onChange={(e) => {
+                    const collaboratorId = member.collaborator_id as string;
+                    const newRole = e.target.value as PlaylistCollaboratorRole;
+                    run(() => playlistService.updateCollaboratorRole(collaboratorId, newRole), 'Changing role');
+                  }}
+                  disabled={busy}
+                  className="px-2 py-1 bg-slate-700 text-white rounded-lg border border-slate-600"
+                >
+                  <option value="editor">{ROLE_LABELS.editor}</option>
+                  <option value="viewer">{ROLE_LABELS.viewer}</option>
+                </select>
+                <button
+                  onClick={() => {
+                    const collaboratorId = member.collaborator_id as string;
+                    run(() => playlistService.removeCollaborator(collaboratorId), 'Removing collaborator');
+                  }}
+                  disabled={busy}
+                  className="p-1 text-slate-400 hover:text-red-400"
+                  title="Remove collaborator"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <span className="text-slate-400">{ROLE_LABELS[member.role]}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && invite()}
+            placeholder="Invite by email"
+            className="flex-1 min-w-0 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as PlaylistCollaboratorRole)}
+            className="px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+          >
+            <option value="editor">{ROLE_LABELS.editor}</option>
+            <option value="viewer">{ROLE_LABELS.viewer}</option>
+          </select>
+          <button
+            onClick={invite}
+            disabled={busy || !email.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            Invite
+          </button>
+        </div>
+      ) : me?.collaborator_id && (
+        <button
+          onClick={() => leave(me.collaborator_id as string)}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-700 text-slate-300 hover:bg-red-500/20 hover:text-red-400 disabled:opacity-50 transition-colors"
+        >
+          <LogOut className="w-4 h-4" />
+          Leave Playlist
+        </button>
+      )}
+      {isOwner && (
+        <p className="text-xs text-slate-500">
+          Invited accounts find this playlist under "Shared with me" once they sign in with that email and have confirmed it.
+        </p>
+      )}
+    </section>
+  );
+};
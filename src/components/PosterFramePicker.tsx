@@ -0,0 +1,240 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { X, Save, ImageIcon } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Movie, StoredThumbnail } from '../lib/supabase';
+import { streamingService } from '../lib/streamingService';
+import { mediaUrlService, PlaybackUrlSession } from '../lib/mediaUrlService';
+import { selectPosterFrames, PosterCandidate } from '../lib/thumbnailGenerator';
+import { posterService } from '../lib/posterService';
+import { handleError } from '../lib/errorHandler';
+
+interface PosterFramePickerProps {
+  movie: Movie;
+  onClose: () => void;
+  onSaved: (thumbnail: StoredThumbnail) => void;
+}
+
+const CANDIDATE_SAMPLES = 32;
+const CANDIDATES_SHOWN = 8;
+
+const METRIC_LABELS: Array<[keyof Omit<PosterCandidate['metrics'], 'score'>, string]> = [
+  ['brightness', 'Brightness'],
+  ['contrast', 'Contrast'],
+  ['sharpness', 'Sharpness'],
+  ['colorfulness', 'Color']
+];
+
+const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const PosterFramePicker = ({ movie, onClose, onSaved }: PosterFramePickerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [candidates, setCandidates] = useState<PosterCandidate[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [analyzing, setAnalyzing] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const playbackUrl = streamingService.getPlaybackUrl(movie);
+
+  // Loads the stream like the skip marker editor does and scores frames
+  // across it once the metadata is in
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let hls: import('hls.js').default | null = null;
+    let session: PlaybackUrlSession | null = null;
+    let cancelled = false;
+
+    const analyze = async () => {
+      try {
+        if (mediaUrlService.isProtected(playbackUrl)) {
+          session = await mediaUrlService.openPlaybackSession(movie.id, 'movie');
+          if (cancelled) {
+            session.close();
+            return;
+          }
+        }
+
+        const metadataLoaded = new Promise<void>((resolve, reject) => {
+          video.addEventListener('loadedmetadata', () => resolve(), { once: true });
+          video.addEventListener('error', () => reject(new Error('Video load error')), { once: true });
+        });
+
+        if (playbackUrl.includes('.m3u8')) {
+          const { default: Hls } = await import('hls.js');
+          if (cancelled) return;
+          if (Hls.isSupported()) {
+            hls = new Hls(session ? { loader: mediaUrlService.createHlsLoader(Hls, session) } : {});
+            // Posters come from the best rendition, not whatever ABR starts on
+            hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+              if (hls) hls.currentLevel = data.levels.length - 1;
+            });
+            hls.loadSource(playbackUrl);
+            hls.attachMedia(video);
+          }
+        }
+        if (!hls) {
+          video.src = session ? await session.sign(playbackUrl) : playbackUrl;
+        }
+
+        await metadataLoaded;
+        if (cancelled) return;
+
+        const found = await selectPosterFrames(video, { samples: CANDIDATE_SAMPLES, keep: CANDIDATES_SHOWN });
+        if (!cancelled) {
+          setCandidates(found);
+          setSelectedIndex(0);
+        }
+      } catch (error: unknown) {
+        if (!cancelled) {
+          handleError(error, 'Finding poster frames');
+        }
+      } finally {
+        if (!cancelled) {
+          setAnalyzing(false);
+        }
+      }
+    };
+
+    analyze();
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+      session?.close();
+    };
+  }, [playbackUrl, movie.id]);
+
+  const selected = candidates[selectedIndex] || null;
+
+  const handleSave = useCallback(async () => {
+    if (!selected) return;
+
+    setSaving(true);
+    try {
+      const thumbnail = await posterService.setMoviePoster(movie.id, selected.blob);
+      toast.success('Poster saved');
+      onSaved(thumbnail);
+      onClose();
+    } catch (error: unknown) {
+      handleError(error, 'Saving poster');
+    } finally {
+      setSaving(false);
+    }
+  }, [movie.id, selected, onSaved, onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-slate-900 rounded-2xl p-6 max-w-5xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <ImageIcon className="w-6 h-6 text-purple-400" />
+            <h2 className="text-xl font-bold text-white">Poster: {movie.title}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Decodes the frames, never shown */}
+        <video ref={videoRef} muted playsInline crossOrigin="anonymous" preload="auto" className="hidden" />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <p className="text-sm text-slate-400 mb-2">Current</p>
+            <div className="aspect-video bg-slate-800 rounded-lg overflow-hidden flex items-center justify-center">
+              {movie.thumbnail_url ? (
+                <img src={movie.thumbnail_url} alt={movie.title} className="w-full h-full object-cover" />
+              ) : (
+                <ImageIcon className="w-12 h-12 text-slate-600" />
+              )}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm text-slate-400 mb-2">
+              {selected ? `Selected frame at ${formatTimestamp(selected.time)}` : 'Selected frame'}
+            </p>
+            <div className="aspect-video bg-slate-800 rounded-lg overflow-hidden flex items-center justify-center">
+              {selected ? (
+                <img src={selected.dataUrl} alt="Selected frame" className="w-full h-full object-cover" />
+              ) : (
+                <p className="text-slate-500 text-sm">{analyzing ? 'Scoring frames...' : 'No candidates'}</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Candidates, best first */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          {analyzing && candidates.length === 0
+            ? Array.from({ length: CANDIDATES_SHOWN }, (_, index) => (
+                <div key={index} className="aspect-video bg-slate-800 rounded-lg animate-pulse" />
+              ))
+            : candidates.map((candidate, index) => (
+                <button
+                  key={candidate.time}
+                  onClick={() => setSelectedIndex(index)}
+                  className={`text-left rounded-lg overflow-hidden bg-slate-800 transition-all ${
+                    index === selectedIndex ? 'ring-2 ring-purple-500' : 'hover:ring-2 hover:ring-slate-500'
+                  }`}
+                >
+                  <img src={candidate.dataUrl} alt={`Frame at ${formatTimestamp(candidate.time)}`} className="w-full aspect-video object-cover" />
+                  <div className="p-2 text-xs">
+                    <div className="flex justify-between text-white font-medium mb-1">
+                      <span>{formatTimestamp(candidate.time)}</span>
+                      <span>{Math.round(candidate.metrics.score * 100)}</span>
+                    </div>
+                    {METRIC_LABELS.map(([metric, label]) => (
+                      <div key={metric} className="flex items-center gap-2 text-slate-400">
+                        <span className="w-16">{label}</span>
+                        <div className="flex-1 h-1 bg-slate-700 rounded-full">
+                          <div
+                            className="h-full bg-purple-500 rounded-full"
+                            style={{ width: `${candidate.metrics[metric] * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </button>
+              ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving || !selected}
+            className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Use as Poster'}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-slate-600 hover:bg-slate-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Film, Music as MusicIcon } from 'lucide-react';
+import { searchService, Recommendation } from '../lib/searchService';
+import { moviePath, trackPath } from '../lib/shareLinks';
+
+interface RelatedTitlesProps {
+  content: {
+    id: string;
+    type: 'movie' | 'music';
+    genre: string;
+  };
+  limit?: number;
+}
+
+// Titles similar to the one on a detail page, linking to their own pages
+export const RelatedTitles = ({ content, limit = 8 }: RelatedTitlesProps) => {
+  const [related, setRelated] = useState<Recommendation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { id, type, genre } = content;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    searchService.getRecommendations({ currentContent: { id, type, genre } })
+      .then(recommendations => {
+        if (!cancelled) {
+          setRelated(recommendations.filter(rec => rec.id !== id).slice(0, limit));
+        }
+      })
+      .catch(error => console.error('Error fetching related titles:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, type, genre, limit]);
+
+  if (!loading && related.length === 0) return null;
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold text-white mb-4">More Like This</h2>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        {loading
+          ? Array.from({ length: 4 }, (_, index) => (
+              <div key={index} className="aspect-video bg-slate-800 rounded-lg animate-pulse" />
+            ))
+          : related.map(rec => (
+              <Link
+                key={`${rec.type}-${rec.id}`}
+                to={rec.type === 'movie' ? moviePath(rec.id) : trackPath(rec.id)}
+                className="group block bg-slate-800/50 rounded-lg overflow-hidden hover:bg-slate-800 transition-colors"
+              >
+                <div className="aspect-video bg-slate-800 flex items-center justify-center overflow-hidden">
+                  {rec.thumbnailUrl ? (
+                    <img
+                      src={rec.thumbnailUrl}
+                      alt={rec.title}
+                      loading="lazy"
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                    />
+                  ) : rec.type === 'movie' ? (
+                    <Film className="w-8 h-8 text-slate-600" />
+                  ) : (
+                    <MusicIcon className="w-8 h-8 text-slate-600" />
+                  )}
+                </div>
+                <div className="p-3">
+                  <p className="text-white text-sm font-medium truncate">{rec.title}</p>
+                  {rec.genre && <p className="text-slate-400 text-xs truncate">{rec.genre}</p>}
+                </div>
+              </Link>
+            ))}
+      </div>
+    </section>
+  );
+};
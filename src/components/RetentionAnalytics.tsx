@@ -0,0 +1,382 @@
+import { useState, useEffect, useMemo } from 'react';
+import { TrendingDown, Film, Music as MusicIcon, Users, Clock, AlertTriangle, Wifi } from 'lucide-react';
+import { streamingService, PlaybackRetention } from '../lib/streamingService';
+import { dataService } from '../lib/dataService';
+import { handleError } from '../lib/errorHandler';
+
+interface RetentionTitle {
+  id: string;
+  title: string;
+  type: 'movie' | 'music';
+}
+
+type TimeRangeOption = '7d' | '30d' | '90d';
+
+const RANGE_DAYS: { [range in TimeRangeOption]: number } = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+};
+
+// The curve is drawn in a fixed viewBox and stretched to the card width
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 200;
+const MAX_CURVE_POINTS = 500;
+
+interface RetentionAnalyticsProps {
+  mediaId?: string;
+}
+
+const formatPosition = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// Buckets standing out from the rest of the title: more than two standard
+// deviations above the mean, and at least two events so a single stray
+// event on a quiet title is not flagged
+const findHotspots = (values: number[]): Set<number> => {
+  if (values.length === 0) return new Set();
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const threshold = mean + 2 * Math.sqrt(variance);
+
+  return new Set(
+    values
+      .map((value, index) => [value, index] as const)
+      .filter(([value]) => value >= 2 && value > threshold)
+      .map(([, index]) => index)
+  );
+};
+
+export const RetentionAnalytics = ({ mediaId: initialMediaId }: RetentionAnalyticsProps) => {
+  const [titles, setTitles] = useState<RetentionTitle[]>([]);
+  const [mediaId, setMediaId] = useState(initialMediaId || '');
+  const [timeRange, setTimeRange] = useState<TimeRangeOption>('30d');
+  const [retention, setRetention] = useState<PlaybackRetention | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hoveredBucket, setHoveredBucket] = useState<number | null>(null);
+
+  // Titles to pick from, movies first
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTitles = async () => {
+      try {
+        const [movies, music] = await Promise.all([dataService.fetchMovies(), dataService.fetchMusic()]);
+        if (cancelled) return;
+
+        const options: RetentionTitle[] = [
+          ...movies.map(movie => ({ id: movie.id, title: movie.title, type: 'movie' as const })),
+          ...music.map(track => ({ id: track.id, title: `${track.title} - ${track.artist}`, type: 'music' as const }))
+        ];
+        setTitles(options);
+        setMediaId(current => current || options[0]?.id || '');
+      } catch (error) {
+        if (!cancelled) {
+          handleError(error, 'Loading titles');
+        }
+      }
+    };
+
+    loadTitles();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!mediaId) return;
+    let cancelled = false;
+
+    const loadRetention = async () => {
+      setIsLoading(true);
+      setHoveredBucket(null);
+
+      const end = new Date();
+      const start = new Date(end.getTime() - RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000);
+
+      try {
+        const data = await streamingService.getRetention(mediaId, { start, end });
+        if (!cancelled) {
+          setRetention(data);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          handleError(error, 'Loading audience retention');
+          setRetention(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadRetention();
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId, timeRange]);
+
+  const hotspots = useMemo(() => ({
+    dropOffs: findHotspots(retention?.dropOffs || []),
+    buffering: findHotspots(retention?.buffering.map(bucket => bucket.count) || []),
+    errors: findHotspots(retention?.errors || [])
+  }), [retention]);
+
+  const curvePath = useMemo(() => {
+    if (!retention || retention.retention.length < 2) return '';
+
+    const points = retention.retention;
+    const step = Math.max(1, Math.ceil(points.length / MAX_CURVE_POINTS));
+    const last = points.length - 1;
+    const coordinates: string[] = [];
+
+    for (let second = 0; second <= last; second += step) {
+      coordinates.push(`${(second / last) * CHART_WIDTH},${CHART_HEIGHT - (points[second] / 100) * CHART_HEIGHT}`);
+    }
+    if (last % step !== 0) {
+      coordinates.push(`${CHART_WIDTH},${CHART_HEIGHT - (points[last] / 100) * CHART_HEIGHT}`);
+    }
+
+    return `M${coordinates.join(' L')}`;
+  }, [retention]);
+
+  const selectedTitle = titles.find(title => title.id === mediaId);
+  const bucketCount = retention?.dropOffs.length || 0;
+  const hasData = Boolean(retention && retention.views > 0 && bucketCount > 0);
+
+  // Mean of the curve: how much of the title an average view covers
+  const averageRetention = retention && retention.retention.length > 0
+    ? retention.retention.reduce((sum, value) => sum + value, 0) / retention.retention.length
+    : 0;
+
+  const bucketStart = (bucket: number) => bucket * (retention?.bucketSeconds || 1);
+  const bucketX = (bucket: number) => ((bucket + 0.5) / bucketCount) * CHART_WIDTH;
+  const retentionAt = (seconds: number) => retention?.retention[Math.min(seconds, retention.retention.length - 1)] ?? 0;
+
+  const renderHeatmapRow = (
+    label: string,
+    values: number[],
+    hot: Set<number>,
+    color: string
+  ) => {
+    const max = Math.max(...values, 1);
+
+    return (
+      <div className="flex items-center gap-3">
+        <span className="w-20 text-xs text-slate-400 shrink-0">{label}</span>
+        <div className="flex flex-1 h-5 rounded overflow-hidden bg-slate-700/50">
+          {values.map((value, index) => (
+            <div
+              key={index}
+              onMouseEnter={() => setHoveredBucket(index)}
+              className={`flex-1 ${hot.has(index) ? 'ring-1 ring-inset ring-white' : ''}`}
+              style={{ backgroundColor: color, opacity: value > 0 ? 0.15 + 0.85 * (value / max) : 0 }}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const hovered = hoveredBucket !== null && retention && hoveredBucket < bucketCount
+    ? {
+        start: bucketStart(hoveredBucket),
+        retention: retentionAt(bucketStart(hoveredBucket)),
+        dropOffs: retention.dropOffs[hoveredBucket],
+        buffering: retention.buffering[hoveredBucket],
+        errors: retention.errors[hoveredBucket]
+      }
+    : null;
+
+  return (
+    <div className="p-6 bg-slate-900 rounded-xl">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-2">
+          <TrendingDown className="w-6 h-6 text-purple-400" />
+          <h2 className="text-2xl font-bold text-white">Audience Retention</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={mediaId}
+            onChange={(e) => setMediaId(e.target.value)}
+            className="px-3 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm max-w-xs"
+          >
+            {titles.length === 0 && <option value="">No titles</option>}
+            <optgroup label="Movies">
+              {titles.filter(title => title.type === 'movie').map(title => (
+                <option key={title.id} value={title.id}>{title.title}</option>
+              ))}
+            </optgroup>
+            <optgroup label="Music">
+              {titles.filter(title => title.type === 'music').map(title => (
+                <option key={title.id} value={title.id}>{title.title}</option>
+              ))}
+            </optgroup>
+          </select>
+          <select
+            value={timeRange}
+            onChange={(e) => setTimeRange(e.target.value as TimeRangeOption)}
+            className="px-3 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm"
+          >
+            <option value="7d">Last 7 days</option>
+            <option value="30d">Last 30 days</option>
+            <option value="90d">Last 90 days</option>
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+        </div>
+      ) : !retention || !hasData ? (
+        <div className="text-center py-12">
+          {selectedTitle?.type === 'music' ? (
+            <MusicIcon className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+          ) : (
+            <Film className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+          )}
+          <p className="text-slate-400">
+            {selectedTitle ? `No views of ${selectedTitle.title} in this period` : 'Select a title to see its retention'}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
+                <Users className="w-4 h-4" />
+                Views
+              </div>
+              <p className="text-2xl font-bold text-white">{retention.views}</p>
+            </div>
+            <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
+                <Clock className="w-4 h-4" />
+                Average Retention
+              </div>
+              <p className="text-2xl font-bold text-white">{averageRetention.toFixed(1)}%</p>
+            </div>
+            <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
+                <TrendingDown className="w-4 h-4" />
+                Watched to the End
+              </div>
+              <p className="text-2xl font-bold text-white">{retentionAt(retention.duration).toFixed(1)}%</p>
+            </div>
+            <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                Hot Spots
+              </div>
+              <p className="text-2xl font-bold text-white">
+                {hotspots.dropOffs.size + hotspots.buffering.size + hotspots.errors.size}
+              </p>
+            </div>
+          </div>
+
+          {/* Retention Curve */}
+          <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-white">Viewers Still Watching</h3>
+              <div className="text-sm text-slate-400 h-5">
+                {hovered && (
+                  <span>
+                    {formatPosition(hovered.start)}: <span className="text-white">{hovered.retention.toFixed(1)}%</span> watching
+                    {' · '}{hovered.dropOffs} drop-offs
+                    {' · '}{hovered.buffering.count} stalls ({(hovered.buffering.ms / 1000).toFixed(1)}s)
+                    {' · '}{hovered.errors} errors
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="flex gap-2" onMouseLeave={() => setHoveredBucket(null)}>
+              <div className="flex flex-col justify-between text-xs text-slate-500 h-48 w-20 text-right pr-1 shrink-0">
+                <span>100%</span>
+                <span>50%</span>
+                <span>0%</span>
+              </div>
+              <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                preserveAspectRatio="none"
+                className="flex-1 h-48"
+                onMouseMove={(e) => {
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  const ratio = (e.clientX - rect.left) / rect.width;
+                  setHoveredBucket(Math.min(bucketCount - 1, Math.max(0, Math.floor(ratio * bucketCount))));
+                }}
+              >
+                <line x1="0" y1={CHART_HEIGHT / 2} x2={CHART_WIDTH} y2={CHART_HEIGHT / 2} stroke="#334155" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+
+                {/* Drop-off spikes */}
+                {Array.from(hotspots.dropOffs).map(bucket => (
+                  <line
+                    key={`drop-${bucket}`}
+                    x1={bucketX(bucket)}
+                    y1="0"
+                    x2={bucketX(bucket)}
+                    y2={CHART_HEIGHT}
+                    stroke="#f87171"
+                    strokeOpacity="0.6"
+                    strokeWidth="2"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+
+                <path d={`${curvePath} L${CHART_WIDTH},${CHART_HEIGHT} L0,${CHART_HEIGHT} Z`} fill="#a855f7" fillOpacity="0.15" />
+                <path d={curvePath} fill="none" stroke="#a855f7" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+
+                {hoveredBucket !== null && (
+                  <line
+                    x1={bucketX(hoveredBucket)}
+                    y1="0"
+                    x2={bucketX(hoveredBucket)}
+                    y2={CHART_HEIGHT}
+                    stroke="#e2e8f0"
+                    strokeWidth="1"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </svg>
+            </div>
+
+            {/* Timeline Heatmap */}
+            <div className="space-y-1 mt-3" onMouseLeave={() => setHoveredBucket(null)}>
+              {renderHeatmapRow('Drop-offs', retention.dropOffs, hotspots.dropOffs, '#f87171')}
+              {renderHeatmapRow('Buffering', retention.buffering.map(bucket => bucket.count), hotspots.buffering, '#facc15')}
+              {renderHeatmapRow('Errors', retention.errors, hotspots.errors, '#fb923c')}
+            </div>
+
+            <div className="flex justify-between text-xs text-slate-500 mt-2 pl-[5.75rem]">
+              {[0, 0.25, 0.5, 0.75, 1].map(ratio => (
+                <span key={ratio}>{formatPosition(retention.duration * ratio)}</span>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-slate-400">
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-0.5 bg-red-400" /> Drop-off spike
+              </span>
+              <span className="flex items-center gap-1">
+                <Wifi className="w-3 h-3 text-yellow-400" /> Buffering hot spot
+              </span>
+              <span className="flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 text-orange-400" /> Error cluster
+              </span>
+              <span>Outlined cells stand out from the rest of the title</span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
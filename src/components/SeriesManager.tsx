@@ -0,0 +1,422 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronUp, Plus, Trash2, Tv, Save, X, ArrowUp, ArrowDown, Edit2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Movie, Series, SeriesWithSeasons, SeasonWithEpisodes } from '../lib/supabase';
+import { seriesService, SeriesInput, formatEpisodeNumber } from '../lib/seriesService';
+import { posterService } from '../lib/posterService';
+import { handleError } from '../lib/errorHandler';
+
+interface SeriesManagerProps {
+  movies: Movie[];
+  onEpisodesChanged: () => void; // Episode changes flip movies' is_episode
+}
+
+interface SeriesForm {
+  title: string;
+  description: string;
+  genre: string;
+  releaseYear: string;
+  rating: string;
+  poster: File | null;
+}
+
+const EMPTY_FORM: SeriesForm = { title: '', description: '', genre: '', releaseYear: '', rating: '', poster: null };
+
+const toSeriesForm = (series: Series): SeriesForm => ({
+  title: series.title,
+  description: series.description || '',
+  genre: series.genre || '',
+  releaseYear: series.release_year?.toString() || '',
+  rating: series.rating?.toString() || '',
+  poster: null
+});
+
+const toSeriesInput = async (form: SeriesForm, posterUrl: string | null): Promise<SeriesInput> => ({
+  title: form.title.trim(),
+  description: form.description.trim() || null,
+  genre: form.genre.trim() || null,
+  release_year: parseInt(form.releaseYear) || null,
+  rating: parseFloat(form.rating) || null,
+  // Posters go through the thumbnail sizes like movie posters, the hero size is kept
+  poster_url: form.poster ? (await posterService.uploadThumbnail(form.poster)).thumbnail_url : posterUrl
+});
+
+const inputClass = 'w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600';
+
+const SeriesFormFields = ({ form, onChange }: { form: SeriesForm; onChange: (form: SeriesForm) => void }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+    <input
+      type="text"
+      value={form.title}
+      onChange={(e) => onChange({ ...form, title: e.target.value })}
+      className={inputClass}
+      placeholder="Series title"
+    />
+    <input
+      type="text"
+      value={form.genre}
+      onChange={(e) => onChange({ ...form, genre: e.target.value })}
+      className={inputClass}
+      placeholder="Genre"
+    />
+    <input
+      type="number"
+      value={form.releaseYear}
+      onChange={(e) => onChange({ ...form, releaseYear: e.target.value })}
+      className={inputClass}
+      placeholder="Year"
+    />
+    <input
+      type="number"
+      step="0.1"
+      min="0"
+      max="10"
+      value={form.rating}
+      onChange={(e) => onChange({ ...form, rating: e.target.value })}
+      className={inputClass}
+      placeholder="Rating"
+    />
+    <textarea
+      value={form.description}
+      onChange={(e) => onChange({ ...form, description: e.target.value })}
+      className={`${inputClass} md:col-span-2`}
+      placeholder="Description"
+      rows={3}
+    />
+    <label className="md:col-span-2 text-sm text-slate-400">
+      Poster image
+      <input
+        type="file"
+        accept="image/*"
+        onChange={(e) => onChange({ ...form, poster: e.target.files?.[0] || null })}
+        className="block w-full mt-1 text-slate-300"
+      />
+    </label>
+  </div>
+);
+
+// Seasons and episode order of one series
+const SeasonsEditor = ({ seriesId, movies, onEpisodesChanged }: { seriesId: string } & SeriesManagerProps) => {
+  const [series, setSeries] = useState<SeriesWithSeasons | null>(null);
+  const [selectedMovies, setSelectedMovies] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setSeries(await seriesService.getSeries(seriesId));
+    } catch (error: unknown) {
+      handleError(error, 'Loading seasons');
+    }
+  }, [seriesId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Runs a change, then reloads the seasons and tells the page
+  const run = async (action: () => Promise<unknown>, context: string, episodesChanged = false) => {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+      if (episodesChanged) onEpisodesChanged();
+    } catch (error: unknown) {
+      handleError(error, context);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!series) {
+    return <div className="h-16 bg-slate-700/50 rounded-lg animate-pulse" />;
+  }
+
+  const availableMovies = movies.filter(movie => !movie.is_episode);
+  const nextSeasonNumber = Math.max(0, ...series.seasons.map(season => season.season_number)) + 1;
+
+  const addEpisode = (season: SeasonWithEpisodes) => {
+    const movieId = selectedMovies[season.id];
+    if (!movieId) return;
+    const episodeNumber = Math.max(0, ...season.episodes.map(episode => episode.episode_number)) + 1;
+    run(async () => {
+      await seriesService.addEpisode(season.id, movieId, episodeNumber);
+      setSelectedMovies(prev => ({ ...prev, [season.id]: '' }));
+    }, 'Adding episode', true);
+  };
+
+  const moveEpisode = (season: SeasonWithEpisodes, index: number, offset: number) => {
+    const ids = season.episodes.map(episode => episode.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    run(() => seriesService.reorderEpisodes(season.id, ids), 'Reordering episodes');
+  };
+
+  return (
+    <div className="space-y-4">
+      {series.seasons.map(season => (
+        <div key={season.id} className="bg-slate-900/40 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-white font-medium">
+              Season {season.season_number}{season.title ? `: ${season.title}` : ''}
+            </h4>
+            <button
+              onClick={() => {
+                if (!confirm(`Delete season ${season.season_number}? Its episodes go back to the movie catalog.`)) return;
+                run(() => seriesService.deleteSeason(season.id), 'Deleting season', true);
+              }}
+              disabled={busy}
+              className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+              title="Delete season"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {season.episodes.length === 0 ? (
+            <p className="text-sm text-slate-500 mb-3">No episodes yet</p>
+          ) : (
+            <ul className="space-y-1 mb-3">
+              {season.episodes.map((episode, index) => (
+                <li key={episode.id} className="flex items-center gap-2 text-sm bg-slate-800/60 rounded px-3 py-2">
+                  <span className="text-slate-400 w-14">{formatEpisodeNumber(season.season_number, episode.episode_number)}</span>
+                  <span className="flex-1 text-white truncate">{episode.movie.title}</span>
+                  <button
+                    onClick={() => moveEpisode(season, index, -1)}
+                    disabled={busy || index === 0}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveEpisode(season, index, 1)}
+                    disabled={busy || index === season.episodes.length - 1}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => run(() => seriesService.removeEpisode(episode.id), 'Removing episode', true)}
+                    disabled={busy}
+                    className="p-1 text-slate-400 hover:text-red-400"
+                    title="Remove from season"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <select
+              value={selectedMovies[season.id] || ''}
+              onChange={(e) => setSelectedMovies(prev => ({ ...prev, [season.id]: e.target.value }))}
+              className="flex-1 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 text-sm"
+            >
+              <option value="">Add an uploaded video as the next episode...</option>
+              {availableMovies.map(movie => (
+                <option key={movie.id} value={movie.id}>{movie.title}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => addEpisode(season)}
+              disabled={busy || !selectedMovies[season.id]}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-slate-600 text-white px-3 py-2 rounded-lg"
+              title="Add episode"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => run(() => seriesService.createSeason(series.id, {
+          season_number: nextSeasonNumber,
+          title: null,
+          description: null,
+          release_year: null
+        }), 'Adding season')}
+        disabled={busy}
+        className="w-full border border-dashed border-slate-600 hover:border-blue-400 text-slate-300 hover:text-white rounded-lg py-2 flex items-center justify-center gap-2 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Season {nextSeasonNumber}
+      </button>
+    </div>
+  );
+};
+
+// Series tab of the Admin page
+export const SeriesManager = ({ movies, onEpisodesChanged }: SeriesManagerProps) => {
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<SeriesForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadSeries = useCallback(async () => {
+    try {
+      setSeriesList(await seriesService.listSeries());
+    } catch (error: unknown) {
+      handleError(error, 'Loading series');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!form?.title.trim()) {
+      toast.error('A series needs a title');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const existing = seriesList.find(series => series.id === editingId);
+      const input = await toSeriesInput(form, existing?.poster_url || null);
+      if (existing) {
+        await seriesService.updateSeries(existing.id, input);
+        toast.success('Series updated');
+      } else {
+        const created = await seriesService.createSeries(input);
+        setExpandedId(created.id);
+        toast.success('Series created, add its seasons below');
+      }
+      closeForm();
+      await loadSeries();
+    } catch (error: unknown) {
+      handleError(error, 'Saving series');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (series: Series) => {
+    if (!confirm(`Delete "${series.title}"? Its episodes go back to the movie catalog.`)) return;
+
+    try {
+      await seriesService.deleteSeries(series.id);
+      setSeriesList(prev => prev.filter(item => item.id !== series.id));
+      onEpisodesChanged();
+      toast.success('Series deleted');
+    } catch (error: unknown) {
+      handleError(error, 'Deleting series');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">Series</h2>
+        {!form && (
+          <button
+            onClick={() => setForm(EMPTY_FORM)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            New Series
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700/50 space-y-4">
+          <h3 className="text-white font-semibold">{editingId ? 'Edit Series' : 'New Series'}</h3>
+          <SeriesFormFields form={form} onChange={setForm} />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={closeForm}
+              className="flex-1 bg-slate-600 hover:bg-slate-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="h-24 bg-slate-800/50 rounded-xl animate-pulse" />
+      ) : seriesList.length === 0 ? (
+        <div className="bg-slate-800/50 rounded-xl p-8 text-center">
+          <Tv className="w-12 h-12 text-slate-500 mx-auto mb-4" />
+          <p className="text-slate-400">No series yet</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {seriesList.map(series => (
+            <div key={series.id} className="bg-slate-800/50 rounded-xl p-6 border border-slate-700/50">
+              <div className="flex items-center gap-4">
+                <div className="w-32 aspect-video bg-slate-700 rounded-lg overflow-hidden flex items-center justify-center flex-shrink-0">
+                  {series.poster_url ? (
+                    <img src={series.poster_url} alt={series.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <Tv className="w-8 h-8 text-slate-500" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-white font-semibold truncate">{series.title}</h3>
+                  <div className="flex items-center gap-4 text-sm text-slate-500">
+                    {series.genre && <span>{series.genre}</span>}
+                    {series.release_year && <span>{series.release_year}</span>}
+                    {series.rating !== null && <span>⭐ {series.rating}</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => {
+                    setEditingId(series.id);
+                    setForm(toSeriesForm(series));
+                  }}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg"
+                  title="Edit"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(series)}
+                  className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-lg"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setExpandedId(expandedId === series.id ? null : series.id)}
+                  className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg"
+                  title="Seasons and episodes"
+                >
+                  {expandedId === series.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+              </div>
+
+              {expandedId === series.id && (
+                <div className="mt-4">
+                  <SeasonsEditor seriesId={series.id} movies={movies} onEpisodesChanged={onEpisodesChanged} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
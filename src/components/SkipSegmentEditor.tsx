@@ -0,0 +1,361 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { X, Save, Plus, Trash2, Flag, Scissors } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Movie, SkipSegmentType } from '../lib/supabase';
+import { skipSegmentService } from '../lib/skipSegmentService';
+import { streamingService } from '../lib/streamingService';
+import { mediaUrlService, PlaybackUrlSession } from '../lib/mediaUrlService';
+import { handleError } from '../lib/errorHandler';
+
+interface EditableSegment {
+  key: string;
+  type: SkipSegmentType;
+  start_time: number;
+  end_time: number;
+}
+
+interface SkipSegmentEditorProps {
+  movie: Movie;
+  onClose: () => void;
+}
+
+const SEGMENT_COLORS: Record<SkipSegmentType, string> = {
+  intro: 'bg-blue-500/70',
+  recap: 'bg-amber-500/70',
+  credits: 'bg-pink-500/70'
+};
+
+const SEGMENT_LABELS: Record<SkipSegmentType, string> = {
+  intro: 'Intro',
+  recap: 'Recap',
+  credits: 'Credits'
+};
+
+const formatTimestamp = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
+// Accepts "ss", "mm:ss" or "h:mm:ss", with optional decimals
+const parseTimestamp = (value: string): number | null => {
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => isNaN(part) || part < 0)) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+let nextKey = 0;
+const newKey = () => `segment-${nextKey++}`;
+
+export const SkipSegmentEditor = ({ movie, onClose }: SkipSegmentEditorProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const [segments, setSegments] = useState<EditableSegment[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [duration, setDuration] = useState(movie.duration || 0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const playbackUrl = streamingService.getPlaybackUrl(movie);
+
+  useEffect(() => {
+    const loadSegments = async () => {
+      try {
+        const existing = await skipSegmentService.getMovieSkipSegments(movie.id);
+        setSegments(existing.map(segment => ({
+          key: newKey(),
+          type: segment.type,
+          start_time: segment.start_time,
+          end_time: segment.end_time
+        })));
+      } catch (error: unknown) {
+        handleError(error, 'Loading skip markers');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSegments();
+  }, [movie.id]);
+
+  // Preview the same stream viewers get; hls.js for HLS, native otherwise.
+  // Stored media is signed through a playback session like in the player.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let hls: import('hls.js').default | null = null;
+    let session: PlaybackUrlSession | null = null;
+    let cancelled = false;
+
+    const loadPreview = async () => {
+      try {
+        if (mediaUrlService.isProtected(playbackUrl)) {
+          session = await mediaUrlService.openPlaybackSession(movie.id, 'movie');
+          if (cancelled) {
+            session.close();
+            return;
+          }
+        }
+
+        if (playbackUrl.includes('.m3u8')) {
+          const { default: Hls } = await import('hls.js');
+          if (cancelled) return;
+          if (Hls.isSupported()) {
+            hls = new Hls(session ? { loader: mediaUrlService.createHlsLoader(Hls, session) } : {});
+            hls.loadSource(playbackUrl);
+            hls.attachMedia(video);
+            return;
+          }
+        }
+
+        const src = session ? await session.sign(playbackUrl) : playbackUrl;
+        if (!cancelled) {
+          video.src = src;
+        }
+      } catch (error: unknown) {
+        if (!cancelled) {
+          handleError(error, 'Loading preview');
+        }
+      }
+    };
+
+    loadPreview();
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+      session?.close();
+    };
+  }, [playbackUrl, movie.id]);
+
+  const selected = segments.find(segment => segment.key === selectedKey) || null;
+
+  const updateSegment = useCallback((key: string, updates: Partial<EditableSegment>) => {
+    setSegments(prev => prev.map(segment => segment.key === key ? { ...segment, ...updates } : segment));
+  }, []);
+
+  const addSegment = useCallback((type: SkipSegmentType) => {
+    const start = videoRef.current?.currentTime || 0;
+    // Credits usually run to the end, intros and recaps are short
+    const end = type === 'credits' ? duration : Math.min(duration || start + 30, start + 30);
+    const segment = { key: newKey(), type, start_time: start, end_time: Math.max(end, start + 1) };
+    setSegments(prev => [...prev, segment].sort((a, b) => a.start_time - b.start_time));
+    setSelectedKey(segment.key);
+  }, [duration]);
+
+  const removeSegment = useCallback((key: string) => {
+    setSegments(prev => prev.filter(segment => segment.key !== key));
+    setSelectedKey(null);
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  }, []);
+
+  const handleTimelineClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (!timelineRef.current || duration <= 0) return;
+    const rect = timelineRef.current.getBoundingClientRect();
+    seek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration);
+  }, [duration, seek]);
+
+  const handleTimeInput = useCallback((key: string, field: 'start_time' | 'end_time', value: string) => {
+    const time = parseTimestamp(value);
+    if (time === null) {
+      toast.error('Use mm:ss or h:mm:ss');
+      return;
+    }
+    updateSegment(key, { [field]: time });
+  }, [updateSegment]);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    try {
+      await skipSegmentService.replaceMovieSkipSegments(movie.id, segments.map(segment => ({
+        type: segment.type,
+        start_time: segment.start_time,
+        end_time: segment.end_time
+      })));
+      toast.success('Skip markers saved');
+      onClose();
+    } catch (error: unknown) {
+      handleError(error, 'Saving skip markers');
+    } finally {
+      setSaving(false);
+    }
+  }, [movie.id, segments, onClose]);
+
+  const percent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-slate-900 rounded-2xl p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <Scissors className="w-6 h-6 text-purple-400" />
+            <h2 className="text-xl font-bold text-white">Skip Markers: {movie.title}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <video
+          ref={videoRef}
+          controls
+          preload="metadata"
+          className="w-full aspect-video bg-black rounded-lg mb-4"
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration || movie.duration || 0)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+
+        {/* Timeline */}
+        <div
+          ref={timelineRef}
+          onClick={handleTimelineClick}
+          className="relative h-10 bg-slate-700 rounded-lg cursor-pointer overflow-hidden mb-2"
+        >
+          {segments.map(segment => (
+            <div
+              key={segment.key}
+              onClick={(e) => {
+                e.stopPropagation();
+                setSelectedKey(segment.key);
+                seek(segment.start_time);
+              }}
+              className={`absolute top-0 h-full ${SEGMENT_COLORS[segment.type]} ${
+                segment.key === selectedKey ? 'ring-2 ring-white' : ''
+              } flex items-center justify-center text-xs text-white font-medium`}
+              style={{
+                left: `${percent(segment.start_time)}%`,
+                width: `${Math.max(0.5, percent(segment.end_time) - percent(segment.start_time))}%`
+              }}
+              title={`${SEGMENT_LABELS[segment.type]} ${formatTimestamp(segment.start_time)} - ${formatTimestamp(segment.end_time)}`}
+            >
+              <span className="truncate px-1">{SEGMENT_LABELS[segment.type]}</span>
+            </div>
+          ))}
+          <div
+            className="absolute top-0 h-full w-0.5 bg-white pointer-events-none"
+            style={{ left: `${percent(currentTime)}%` }}
+          />
+        </div>
+        <div className="flex justify-between text-xs text-slate-400 mb-4">
+          <span>{formatTimestamp(currentTime)}</span>
+          <span>{formatTimestamp(duration)}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {(Object.keys(SEGMENT_LABELS) as SkipSegmentType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => addSegment(type)}
+              disabled={loading}
+              className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              {SEGMENT_LABELS[type]} at {formatTimestamp(currentTime)}
+            </button>
+          ))}
+        </div>
+
+        {/* Selected marker */}
+        {selected ? (
+          <div className="bg-slate-800 rounded-lg p-4 mb-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <select
+                value={selected.type}
+                onChange={(e) => updateSegment(selected.key, { type: e.target.value as SkipSegmentType })}
+                className="px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+              >
+                {(Object.keys(SEGMENT_LABELS) as SkipSegmentType[]).map(type => (
+                  <option key={type} value={type}>{SEGMENT_LABELS[type]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeSegment(selected.key)}
+                className="ml-auto bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove
+              </button>
+            </div>
+            {(['start_time', 'end_time'] as const).map(field => (
+              <div key={`${selected.key}-${field}`} className="flex items-center gap-3">
+                <label className="w-12 text-sm text-slate-400">{field === 'start_time' ? 'Start' : 'End'}</label>
+                <input
+                  type="text"
+                  defaultValue={formatTimestamp(selected[field])}
+                  key={selected[field]}
+                  onBlur={(e) => handleTimeInput(selected.key, field, e.target.value)}
+                  className="w-32 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600 font-mono text-sm"
+                />
+                <button
+                  onClick={() => updateSegment(selected.key, { [field]: videoRef.current?.currentTime || 0 })}
+                  className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2"
+                >
+                  <Flag className="w-4 h-4" />
+                  Set to playhead
+                </button>
+                <button
+                  onClick={() => seek(selected[field])}
+                  className="text-sm text-slate-400 hover:text-white transition-colors"
+                >
+                  Jump
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-400 text-sm mb-4">
+            {loading
+              ? 'Loading markers...'
+              : segments.length === 0
+                ? 'No markers yet. Play to the start of the intro, recap or credits and add a marker.'
+                : 'Select a marker on the timeline to edit it.'}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-slate-600 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            {saving ? 'Saving...' : 'Save Markers'}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-slate-600 hover:bg-slate-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
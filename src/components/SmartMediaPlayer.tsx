@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
 import { 
   Play, 
   Pause, 
@@ -27,6 +28,13 @@ import {
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useStreamingAnalytics } from '../hooks/useStreamingAnalytics';
 import { usePersonalization } from '../hooks/usePersonalization';
+import { mediaUrlService, PlaybackUrlSession } from '../lib/mediaUrlService';
+import { getDirectSources, getPlaybackSources, PlaybackSource } from '../lib/playbackSources';
+import { handleError } from '../lib/errorHandler';
+import { findTile } from '../lib/trickPlay';
+import { shareUrl as buildShareUrl, shareLink } from '../lib/shareLinks';
+import { useTrickPlay } from '../hooks/useTrickPlay';
+import { TrickPlayPreview } from './TrickPlayPreview';
 
 // Type declarations for external libraries
 declare global {
@@ -40,11 +48,32 @@ declare global {
 interface QualityLevel {
   id: string;
   label: string;
+  width?: number;
   height: number;
   bitrate: number;
   url: string;
+  levelIndex?: number; // Rendition of the loaded HLS/DASH manifest
 }
 
+// Width of the trick-play tile shown above the progress bar
+const BAR_PREVIEW_WIDTH = 160;
+
+// Seconds the "Up Next" card counts down before playing the next episode
+const UP_NEXT_COUNTDOWN = 10;
+
+// Menu entry for one rendition of an adaptive manifest
+const toManifestLevel = (levelIndex: number, width: number, height: number, bitrate: number): QualityLevel => ({
+  id: `level-${levelIndex}`,
+  label: height > 0
+    ? `${height}p (${(bitrate / 1_000_000).toFixed(1)} Mbps)`
+    : `${Math.round(bitrate / 1000)} kbps`,
+  width,
+  height,
+  bitrate,
+  url: '',
+  levelIndex
+});
+
 interface SubtitleTrack {
   id: string;
   label: string;
@@ -59,6 +88,8 @@ interface AudioTrack {
   language: string;
   url: string;
   isDefault?: boolean;
+  isAudioDescription?: boolean;
+  trackIndex?: number; // Alternate audio rendition of the loaded HLS manifest
 }
 
 interface SkipSegment {
@@ -67,6 +98,21 @@ interface SkipSegment {
   type: 'intro' | 'recap' | 'credits';
 }
 
+interface UpNext {
+  title: string;
+  subtitle?: string; // e.g. "S1 E3"
+  thumbnail?: string | null;
+  onPlay: () => void;
+}
+
+interface ActivePlayback {
+  asset: string; // The src prop: stored path or external URL
+  src: string; // Loadable URL of the asset on the current source
+  session: PlaybackUrlSession | null;
+  sources: PlaybackSource[];
+  sourceIndex: number;
+}
+
 interface MediaPlayerProps {
   src: string;
   title: string;
@@ -75,6 +121,10 @@ interface MediaPlayerProps {
   album?: string;
   duration?: number;
   poster?: string;
+  thumbnailsUrl?: string | null; // WebVTT trick-play track for seek previews
+  shareUrl?: string; // Link the share button hands out, defaults to the current page
+  startTime?: number; // Seconds to start at (shared ?t= links), takes over from resume
+  upNext?: UpNext | null; // Next episode, offered with a countdown when this one ends
   type: 'audio' | 'video';
   onNext?: () => void;
   onPrevious?: () => void;
@@ -110,6 +160,10 @@ export const SmartMediaPlayer = ({
   album,
   duration,
   poster,
+  thumbnailsUrl,
+  shareUrl,
+  startTime,
+  upNext,
   type,
   onNext,
   onPrevious,
@@ -129,7 +183,7 @@ export const SmartMediaPlayer = ({
   qualityLevels = [],
   subtitleTracks = [],
   audioTracks = [],
-  skipSegments: _skipSegments = [], // eslint-disable-line @typescript-eslint/no-unused-vars
+  skipSegments = [],
   enableAutoPlay = true,
   enableResume = true,
   enablePiP = true,
@@ -138,7 +192,7 @@ export const SmartMediaPlayer = ({
   const internalMediaRef = useRef<HTMLVideoElement | HTMLAudioElement>(null);
   const progressRef = useRef<HTMLDivElement>(null);
   const hlsRef = useRef<import('hls.js').default | null>(null);
-  const dashRef = useRef<unknown>(null);
+  const dashRef = useRef<import('dashjs').MediaPlayerClass | null>(null);
   
   // Basic player state
   const [isPlaying, setIsPlaying] = useState(false);
@@ -156,6 +210,7 @@ export const SmartMediaPlayer = ({
   const [showSeekPreview, setShowSeekPreview] = useState(false);
   const [seekTime, setSeekTime] = useState(0);
   const [seekPosition, setSeekPosition] = useState({ x: 0, y: 0 });
+  const [barPreview, setBarPreview] = useState<{ time: number; x: number; width: number } | null>(null);
   const [isVideoReady, setIsVideoReady] = useState(false);
 
   // Advanced features state
@@ -167,8 +222,19 @@ export const SmartMediaPlayer = ({
   const [resumeTime, setResumeTime] = useState(0);
   const [showQualityMenu, setShowQualityMenu] = useState(false);
   const [showSubtitleMenu, setShowSubtitleMenu] = useState(false);
+  const [subtitleSize, setSubtitleSize] = useState<'small' | 'medium' | 'large'>('medium');
   const [showAudioMenu, setShowAudioMenu] = useState(false);
   const [adaptiveBitrateEnabled, setAdaptiveBitrateEnabled] = useState(enableAdaptiveBitrate);
+  const [manifestLevels, setManifestLevels] = useState<QualityLevel[]>([]);
+  const [manifestAudioTracks, setManifestAudioTracks] = useState<AudioTrack[]>([]);
+  const [activeSkipSegment, setActiveSkipSegment] = useState<SkipSegment | null>(null);
+  const [showUpNext, setShowUpNext] = useState(false);
+  const [upNextCountdown, setUpNextCountdown] = useState<number | null>(null);
+  const autoSkippedRef = useRef<Set<SkipSegment>>(new Set());
+
+  // Renditions of a loaded manifest take precedence over the qualityLevels prop
+  const menuQualityLevels = manifestLevels.length > 0 ? manifestLevels : qualityLevels;
+  const menuAudioTracks = manifestAudioTracks.length > 0 ? manifestAudioTracks : audioTracks;
   
   // Cover page state
   const [showCoverPage, setShowCoverPage] = useState(true);
@@ -180,6 +246,7 @@ export const SmartMediaPlayer = ({
   // Initialize streaming analytics
   const analytics = useStreamingAnalytics({
     mediaId: contentId || title, // Use contentId if available, fallback to title
+    mediaType: type === 'video' ? 'movie' : 'music',
     enableAnalytics: true,
     enableRealTimeTracking: true
   });
@@ -192,28 +259,297 @@ export const SmartMediaPlayer = ({
     enableRecentlyWatched: true,
   });
 
+  // Adaptive manifests are loaded through hls.js / dash.js instead of the
+  // element's src attribute
+  const isHlsSource = src.includes('.m3u8');
+  const isDashSource = src.includes('.mpd');
+
+  // Keep the latest callbacks without reloading the stream on every render
+  const onErrorRef = useRef(onError);
+  const analyticsRef = useRef(analytics);
+  const isContentAllowedRef = useRef(personalization.isContentAllowed);
+  useEffect(() => {
+    onErrorRef.current = onError;
+    analyticsRef.current = analytics;
+    isContentAllowedRef.current = personalization.isContentAllowed;
+  }, [onError, analytics, personalization.isContentAllowed]);
+
+  // Media in the private bucket plays through a playback session, opened
+  // once the profile may watch the title. The session signs the source and
+  // every manifest, segment and subtitle URL loaded after it, for whichever
+  // of the asset's sources (CDNs, then origin) is playing.
+  const [playback, setPlayback] = useState<ActivePlayback | null>(
+    () => mediaUrlService.isProtected(src) ? null : { asset: src, src, session: null, sources: getDirectSources(), sourceIndex: 0 }
+  );
+  const [signedSubtitleUrls, setSignedSubtitleUrls] = useState<{ [url: string]: string }>({});
+  // Position to continue from after the source got a fresh URL or failed over
+  const restoreRef = useRef<{ time: number; playing: boolean } | null>(null);
+  // Applied once per source, on its first metadata
+  const startTimeRef = useRef<number | null>(null);
+  const selectedProfileId = personalization.selectedProfile?.id;
+
+  // Error handlers registered with hls.js read the latest playback from here
+  const playbackRef = useRef(playback);
+  const failingOverRef = useRef(false);
+  useEffect(() => {
+    playbackRef.current = playback;
+    failingOverRef.current = false;
+  }, [playback]);
+
+  useEffect(() => {
+    if (!mediaUrlService.isProtected(src)) {
+      setPlayback(current => current && current.asset === src && !current.session
+        ? current
+        : { asset: src, src, session: null, sources: getDirectSources(), sourceIndex: 0 });
+      return;
+    }
+
+    let cancelled = false;
+    let session: PlaybackUrlSession | null = null;
+    const mediaType = type === 'video' ? 'movie' : 'music';
+    setPlayback(null);
+
+    const openSession = async () => {
+      try {
+        if (!contentId) {
+          throw new Error('Stored media needs a content id');
+        }
+        if (!(await isContentAllowedRef.current(contentId, mediaType))) {
+          throw new Error('This content is not available for your profile');
+        }
+
+        session = await mediaUrlService.openPlaybackSession(contentId, mediaType, selectedProfileId);
+        if (cancelled) {
+          session.close();
+          return;
+        }
+
+        const sources = await getPlaybackSources(session);
+        const signedSrc = await sources[0].sign(src);
+        if (!cancelled) {
+          setPlayback({ asset: src, src: signedSrc, session, sources, sourceIndex: 0 });
+        }
+      } catch (error) {
+        if (cancelled) return;
+        handleError(error, 'Starting playback');
+        onErrorRef.current?.();
+      }
+    };
+
+    openSession();
+
+    return () => {
+      cancelled = true;
+      session?.close();
+    };
+  }, [src, contentId, type, selectedProfileId]);
+
+  // Progressive sources are swapped for a fresh URL before theirs expires;
+  // the browser keeps requesting byte ranges from it while playing
+  useEffect(() => {
+    if (!playback?.session || isHlsSource || isDashSource) return;
+
+    const source = playback.sources[playback.sourceIndex];
+    const delay = source.renewalDelay(playback.src);
+    if (delay === null) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const renewed = await source.sign(playback.asset);
+        const element = mediaRef.current;
+        if (cancelled) return;
+        if (element) {
+          restoreRef.current = { time: element.currentTime, playing: !element.paused };
+        }
+        setPlayback({ ...playback, src: renewed });
+      } catch (error) {
+        console.warn('Failed to renew media URL:', error);
+      }
+    }, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [playback, isHlsSource, isDashSource, mediaRef]);
+
+  // Continues on the next source of the asset after the current one failed,
+  // from the same position. Returns false when there is none left.
+  const failOver = useCallback((errorCode: string, message: string): boolean => {
+    const current = playbackRef.current;
+    if (!current) return false;
+    if (failingOverRef.current) return true;
+    if (current.sourceIndex >= current.sources.length - 1) return false;
+
+    failingOverRef.current = true;
+    const failed = current.sources[current.sourceIndex];
+    const next = current.sources[current.sourceIndex + 1];
+    analyticsRef.current.trackPlaybackError(
+      'network',
+      errorCode,
+      `${message} (${failed.label} failed, switching to ${next.label})`,
+      true
+    );
+
+    const element = mediaRef.current;
+    if (element && element.currentTime > 0) {
+      restoreRef.current = { time: element.currentTime, playing: !element.paused };
+    }
+
+    next.sign(current.asset).then(
+      (signedSrc) => {
+        setPlayback(latest => latest === current
+          ? { ...current, src: signedSrc, sourceIndex: current.sourceIndex + 1 }
+          : latest);
+      },
+      (error) => {
+        failingOverRef.current = false;
+        handleError(error, 'Switching source');
+        onErrorRef.current?.();
+      }
+    );
+    return true;
+  }, [mediaRef]);
+
+  // Subtitle files are read once, signing them when the session opens is enough
+  useEffect(() => {
+    if (!playback?.session) return;
+    const source = playback.sources[playback.sourceIndex];
+
+    let cancelled = false;
+    const urls = subtitleTracks.map(track => track.url).filter(url => mediaUrlService.isProtected(url));
+
+    Promise.all(urls.map(async url => [url, await source.sign(url)] as const))
+      .then(entries => {
+        if (cancelled) return;
+        setSignedSubtitleUrls(current => entries.every(([url, signed]) => current[url] === signed)
+          ? current
+          : { ...current, ...Object.fromEntries(entries) });
+      })
+      .catch(error => console.warn('Failed to sign subtitle URLs:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [playback, subtitleTracks]);
+
+  // Reported for automatic and manual switches once the new level plays
+  const reportQualitySwitch = (width: number, height: number, bitrate: number) => {
+    analyticsRef.current.trackQualitySwitch(`${height}p`, bitrate, `${width}x${height}`);
+  };
+
   // Load HLS.js and Dash.js dynamically
   useEffect(() => {
+    const element = mediaRef.current;
+    if (!element || !playback || (!isHlsSource && !isDashSource)) return;
+    const source = playback.session ? playback.sources[playback.sourceIndex] : null;
+
     const loadStreamingLibraries = async () => {
       try {
-        if (enableAdaptiveBitrate) {
-          // Load HLS.js
+        if (isHlsSource) {
           const Hls = (await import('hls.js')).default;
-          if (Hls.isSupported() && src.includes('.m3u8')) {
-            hlsRef.current = new Hls({
+          if (Hls.isSupported()) {
+            const hls = new Hls({
               enableWorker: true,
-              lowLatencyMode: true,
-              backBufferLength: 90
+              backBufferLength: 90,
+              capLevelToPlayerSize: enableAdaptiveBitrate,
+              ...(source && { loader: mediaUrlService.createHlsLoader(Hls, source) })
+            });
+            hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+              setManifestLevels(data.levels.map((level, index) =>
+                toManifestLevel(index, level.width, level.height, level.bitrate)
+              ));
+            });
+            hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, (_event, data) => {
+              setManifestAudioTracks(data.audioTracks.map((track, index) => ({
+                id: `audio-${index}`,
+                label: track.name,
+                language: track.lang || '',
+                url: '',
+                isDefault: track.default,
+                isAudioDescription: !!track.characteristics?.includes('public.accessibility.describes-video'),
+                trackIndex: index
+              })));
+            });
+            hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+              const level = hls.levels[data.level];
+              if (level) {
+                reportQualitySwitch(level.width, level.height, level.bitrate);
+              }
+            });
+            hls.on(Hls.Events.ERROR, (_event, data) => {
+              if (!data.fatal) return;
+              if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+                analyticsRef.current.trackPlaybackError('codec', data.details, data.error?.message || data.details, true);
+                hls.recoverMediaError();
+              } else {
+                if (data.type === Hls.ErrorTypes.NETWORK_ERROR && failOver(data.details, data.error?.message || data.details)) {
+                  return;
+                }
+                console.error(`HLS playback failed: ${data.details}`);
+                analyticsRef.current.trackPlaybackError(
+                  data.type === Hls.ErrorTypes.NETWORK_ERROR ? 'network' : 'unknown',
+                  data.details,
+                  data.error?.message || data.details,
+                  false
+                );
+                onErrorRef.current?.();
+              }
             });
+            hls.loadSource(playback.src);
+            hls.attachMedia(element);
+            hlsRef.current = hls;
+          } else if (element.canPlayType('application/vnd.apple.mpegurl')) {
+            // Safari plays HLS natively. Its requests can't be signed, so
+            // protected streams fail past the master playlist.
+            element.src = playback.src;
           }
+        }
 
-          // Load Dash.js
+        if (isDashSource) {
           const dashjs = await import('dashjs');
-          if (src.includes('.mpd')) {
-            dashRef.current = dashjs.MediaPlayer().create();
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            (dashRef.current as any).initialize(mediaElement as HTMLVideoElement, src, false);
+          const player = dashjs.MediaPlayer().create();
+          player.on(dashjs.MediaPlayer.events.STREAM_INITIALIZED, () => {
+            setManifestLevels(player.getRepresentationsByType('video').map((representation, index) =>
+              toManifestLevel(index, representation.width, representation.height, representation.bandwidth)
+            ));
+          });
+          player.on(dashjs.MediaPlayer.events.QUALITY_CHANGE_RENDERED, (event) => {
+            if (event.mediaType === 'video') {
+              const { width, height, bandwidth } = event.newRepresentation;
+              reportQualitySwitch(width, height, bandwidth);
+            }
+          });
+          // dash.js reports a download as failed once its retries are used up
+          const { errors } = dashjs.MediaPlayer;
+          const networkErrorCodes: number[] = [
+            errors.MANIFEST_LOADER_LOADING_FAILURE_ERROR_CODE,
+            errors.DOWNLOAD_ERROR_ID_MANIFEST_CODE,
+            errors.DOWNLOAD_ERROR_ID_SIDX_CODE,
+            errors.DOWNLOAD_ERROR_ID_CONTENT_CODE,
+            errors.DOWNLOAD_ERROR_ID_INITIALIZATION_CODE,
+            errors.FRAGMENT_LOADER_LOADING_FAILURE_ERROR_CODE
+          ];
+          player.on(dashjs.MediaPlayer.events.ERROR, (event) => {
+            const error = typeof event.error === 'object' ? event.error : null;
+            if (!error || !networkErrorCodes.includes(error.code)) return;
+
+            const errorCode = `DASH_${error.code}`;
+            if (failOver(errorCode, error.message || 'Download failed')) return;
+
+            console.error(`DASH playback failed: ${error.message}`);
+            analyticsRef.current.trackPlaybackError('network', errorCode, error.message || 'Download failed', false);
+            onErrorRef.current?.();
+          });
+          if (source) {
+            player.addRequestInterceptor(async (request) => {
+              request.url = await source.sign(request.url);
+              return request;
+            });
           }
+          player.initialize(element, playback.src, false);
+          dashRef.current = player;
         }
       } catch (error) {
         console.warn('Failed to load streaming libraries:', error);
@@ -229,22 +565,29 @@ export const SmartMediaPlayer = ({
         hlsRef.current = null;
       }
       if (dashRef.current) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (dashRef.current as any).destroy();
+        dashRef.current.reset();
         dashRef.current = null;
       }
+      setManifestLevels([]);
+      setManifestAudioTracks([]);
+      setSelectedQuality('auto');
+      setSelectedAudioTrack('default');
     };
-  }, [src, enableAdaptiveBitrate, mediaElement]);
+  }, [playback, isHlsSource, isDashSource, enableAdaptiveBitrate, mediaRef, failOver]);
+
+  useEffect(() => {
+    startTimeRef.current = startTime ?? null;
+  }, [src, startTime]);
 
   // Resume watching functionality
   useEffect(() => {
-    if (enableResume && title) {
+    if (enableResume && startTime === undefined && title) {
       const savedTime = localStorage.getItem(`resume_${title}`);
       if (savedTime) {
         setResumeTime(parseFloat(savedTime));
       }
     }
-  }, [title, enableResume]);
+  }, [title, enableResume, startTime]);
 
   // Save progress for resume watching
   const saveProgress = useCallback(() => {
@@ -302,7 +645,7 @@ export const SmartMediaPlayer = ({
         // Apply viewing preferences
         setPlaybackRate(preferences.playback_speed);
         setSelectedQuality(preferences.preferred_quality);
-        setSelectedSubtitle(preferences.closed_captions ? 'en' : 'none');
+        setSubtitleSize(preferences.subtitle_size);
         
         // Apply theme if needed (this would typically be handled at app level)
         if (preferences.theme && preferences.theme !== 'auto') {
@@ -312,11 +655,29 @@ export const SmartMediaPlayer = ({
     }
   }, [personalization]);
 
+  const { selectedProfile } = personalization;
+
+  // Pick the default subtitle track: the profile's language when captions are
+  // on, otherwise the track the movie marks as default
+  useEffect(() => {
+    const preferences = selectedProfile?.viewing_preferences;
+    const tracks = subtitleTracks.filter(track => track.url);
+
+    let track: SubtitleTrack | undefined;
+    if (preferences?.closed_captions) {
+      track = tracks.find(t => t.language === preferences.preferred_language) || tracks.find(t => t.isDefault);
+    } else if (!preferences) {
+      track = tracks.find(t => t.isDefault);
+    }
+
+    setSelectedSubtitle(track ? track.id : 'none');
+  }, [selectedProfile, subtitleTracks]);
+
   // Load resume time on mount
   useEffect(() => {
     const loadResumeTime = async () => {
       const id = contentId || title;
-      if (id && enableResume) {
+      if (id && enableResume && startTime === undefined) {
         const resumeTime = await personalization.getResumeTime(id);
         if (resumeTime && resumeTime > 0) {
           setResumeTime(resumeTime);
@@ -330,7 +691,7 @@ export const SmartMediaPlayer = ({
     };
 
     loadResumeTime();
-  }, [contentId, title, enableResume, personalization, mediaElement]);
+  }, [contentId, title, enableResume, startTime, personalization, mediaElement]);
 
   // Reset cover page when video source changes
   useEffect(() => {
@@ -476,6 +837,7 @@ export const SmartMediaPlayer = ({
       const time = mediaElement.currentTime;
       setCurrentTime(time);
       saveProgress();
+      analytics.trackPosition(time, mediaElement.duration);
       onTimeUpdate?.();
       
       // Handle cover page logic
@@ -487,14 +849,25 @@ export const SmartMediaPlayer = ({
         }
       }
     }
-  }, [mediaElement, onTimeUpdate, saveProgress, showCoverPage, type]);
+  }, [mediaElement, onTimeUpdate, saveProgress, showCoverPage, type, analytics]);
 
   const handleLoadedMetadata = useCallback(() => {
     if (mediaElement) {
       setMediaDuration(mediaElement.duration);
       
-      // Resume from saved time
-      if (resumeTime > 0 && enableResume) {
+      // Continue where the previous URL of the same source left off
+      if (restoreRef.current) {
+        mediaElement.currentTime = restoreRef.current.time;
+        if (restoreRef.current.playing) {
+          mediaElement.play().catch(() => {});
+        }
+        restoreRef.current = null;
+      } else if (startTimeRef.current !== null) {
+        mediaElement.currentTime = Math.min(startTimeRef.current, mediaElement.duration || Infinity);
+        startTimeRef.current = null;
+        setResumeTime(0);
+      } else if (resumeTime > 0 && enableResume) {
+        // Resume from saved time
         mediaElement.currentTime = resumeTime;
         setResumeTime(0);
       }
@@ -503,17 +876,38 @@ export const SmartMediaPlayer = ({
     }
   }, [mediaElement, resumeTime, enableResume, onLoadedMetadata]);
 
-  const handleProgress = useCallback(() => {
-    if (mediaElement && mediaElement.buffered.length > 0) {
-      const bufferedEnd = mediaElement.buffered.end(mediaElement.buffered.length - 1);
-      const progress = (bufferedEnd / mediaElement.duration) * 100;
-      
-      // Track buffering events
-      if (progress < 100 && isPlaying) {
-        analytics.trackBufferEvent(1000, 'network', selectedQuality);
-      }
+  // A rebuffer lasts from "waiting" until playback continues
+  const waitingSinceRef = useRef<number | null>(null);
+
+  const handleWaiting = useCallback(() => {
+    if (mediaElement && !mediaElement.paused && waitingSinceRef.current === null) {
+      waitingSinceRef.current = Date.now();
+      analytics.trackPlaybackState('buffering');
+    }
+  }, [mediaElement, analytics]);
+
+  const handlePlaying = useCallback(() => {
+    if (waitingSinceRef.current !== null) {
+      analytics.trackBufferEvent(Date.now() - waitingSinceRef.current, 'network', selectedQuality);
+      waitingSinceRef.current = null;
+    } else {
+      analytics.trackPlaybackState('playing');
+    }
+  }, [selectedQuality, analytics]);
+
+  const handleMediaError = useCallback((event: React.SyntheticEvent<HTMLMediaElement>) => {
+    const error = event.currentTarget.error;
+    console.error(`Media failed to load: ${error?.message || 'Unknown error'}`);
+    // MEDIA_ERR_NETWORK = 2, MEDIA_ERR_DECODE = 3, MEDIA_ERR_SRC_NOT_SUPPORTED = 4
+    const errorType = error?.code === 2 ? 'network' : error?.code === 3 ? 'codec' : error?.code === 4 ? 'format' : 'unknown';
+    // Network errors and sources that can't be loaded (a 403 or 404 surfaces
+    // as SRC_NOT_SUPPORTED) may play from another source; decode errors won't
+    if ((error?.code === 2 || error?.code === 4) && failOver(`MEDIA_ERR_${error.code}`, error.message || 'Media failed to load')) {
+      return;
     }
-  }, [mediaElement, isPlaying, selectedQuality, analytics]);
+    analytics.trackPlaybackError(errorType, `MEDIA_ERR_${error?.code ?? 0}`, error?.message || 'Unknown error', false);
+    onError?.();
+  }, [analytics, onError, failOver]);
 
   const togglePlay = useCallback(() => {
     if (mediaElement) {
@@ -572,49 +966,102 @@ export const SmartMediaPlayer = ({
   const handleQualityChange = useCallback((qualityId: string) => {
     setSelectedQuality(qualityId);
     setShowQualityMenu(false);
+    const hls = hlsRef.current;
+    const dash = dashRef.current;
     
     if (qualityId === 'auto') {
       // Enable adaptive bitrate
       setAdaptiveBitrateEnabled(true);
-    } else {
-      // Set specific quality
-      const quality = qualityLevels.find(q => q.id === qualityId);
-      if (quality && mediaElement) {
-        mediaElement.src = quality.url;
-        mediaElement.load();
-        
-        // Track quality switch in analytics
-        analytics.trackQualitySwitch(qualityId, quality.bitrate, quality.height.toString());
+      if (hls) {
+        hls.currentLevel = -1;
       }
+      dash?.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: true } } } });
+      return;
     }
-  }, [qualityLevels, mediaElement, analytics]);
+
+    const quality = menuQualityLevels.find(q => q.id === qualityId);
+    if (!quality) return;
+    setAdaptiveBitrateEnabled(false);
+
+    if (quality.levelIndex !== undefined) {
+      // Lock to one rendition; the switch is tracked once it has rendered
+      if (hls) {
+        hls.currentLevel = quality.levelIndex;
+      }
+      if (dash) {
+        dash.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: false } } } });
+        dash.setRepresentationForTypeByIndex('video', quality.levelIndex, true);
+      }
+    } else if (mediaElement) {
+      // Progressive source: load the rendition's own file
+      mediaElement.src = quality.url;
+      mediaElement.load();
+      
+      // Track quality switch in analytics
+      analytics.trackQualitySwitch(qualityId, quality.bitrate, quality.height.toString());
+    }
+  }, [menuQualityLevels, mediaElement, analytics]);
+
+  // Turning adaptive bitrate off locks the rendition that is playing now
+  const toggleAdaptiveBitrate = useCallback(() => {
+    if (!adaptiveBitrateEnabled) {
+      handleQualityChange('auto');
+      return;
+    }
+
+    let levelIndex = -1;
+    if (hlsRef.current) {
+      levelIndex = hlsRef.current.currentLevel;
+    } else if (dashRef.current) {
+      const current = dashRef.current.getCurrentRepresentationForType('video');
+      levelIndex = dashRef.current.getRepresentationsByType('video').findIndex(r => r.id === current?.id);
+    }
+
+    if (levelIndex >= 0) {
+      handleQualityChange(`level-${levelIndex}`);
+    } else {
+      setAdaptiveBitrateEnabled(false);
+    }
+  }, [adaptiveBitrateEnabled, handleQualityChange]);
 
   const handleSubtitleChange = useCallback((subtitleId: string) => {
     setSelectedSubtitle(subtitleId);
     setShowSubtitleMenu(false);
-    
-    if (subtitleId === 'none') {
-      // Remove all subtitle tracks
-      if (mediaElement) {
-        const tracks = mediaElement.textTracks;
-        for (let i = 0; i < tracks.length; i++) {
-          tracks[i].mode = 'disabled';
-        }
-      }
-    } else {
-      // Enable specific subtitle track
-      const subtitle = subtitleTracks.find(s => s.id === subtitleId);
-      if (subtitle && mediaElement) {
-        // Add subtitle track (simplified implementation)
-        const track = mediaElement.addTextTrack('subtitles', subtitle.label, subtitle.language);
-        track.mode = 'showing';
+  }, []);
+
+  // Show the selected <track> and hide the others. Browsers add text tracks
+  // asynchronously, so this also runs when the track list changes.
+  useEffect(() => {
+    const element = mediaRef.current;
+    if (!element) return;
+
+    const applySubtitleMode = () => {
+      const tracks = element.textTracks;
+      for (let i = 0; i < tracks.length; i++) {
+        tracks[i].mode = tracks[i].id === `subtitle-${selectedSubtitle}` ? 'showing' : 'disabled';
       }
-    }
-  }, [subtitleTracks, mediaElement]);
+    };
+
+    applySubtitleMode();
+    element.textTracks.addEventListener('addtrack', applySubtitleMode);
+    return () => element.textTracks.removeEventListener('addtrack', applySubtitleMode);
+  }, [selectedSubtitle, subtitleTracks, mediaRef]);
 
   const handleAudioTrackChange = useCallback((audioId: string) => {
     setSelectedAudioTrack(audioId);
     setShowAudioMenu(false);
+    const hls = hlsRef.current;
+
+    if (hls && manifestAudioTracks.length > 0) {
+      // Alternate renditions of the HLS manifest
+      const track = audioId === 'default'
+        ? manifestAudioTracks.find(a => a.isDefault) || manifestAudioTracks[0]
+        : manifestAudioTracks.find(a => a.id === audioId);
+      if (track?.trackIndex !== undefined) {
+        hls.audioTrack = track.trackIndex;
+      }
+      return;
+    }
     
     if (audioId === 'default') {
       // Use default audio track
@@ -639,9 +1086,57 @@ export const SmartMediaPlayer = ({
         }
       }
     }
-  }, [audioTracks, mediaElement]);
+  }, [audioTracks, manifestAudioTracks, mediaElement]);
+
+  // Default audio: audio description when the profile asks for it, otherwise
+  // a dub in the profile's language. The original track stays selected when
+  // nothing matches.
+  useEffect(() => {
+    const preferences = selectedProfile?.viewing_preferences;
+    const hls = hlsRef.current;
+    if (!preferences || !hls || manifestAudioTracks.length === 0) return;
+
+    const candidates = manifestAudioTracks.filter(track => !!track.isAudioDescription === preferences.audio_description);
+    const track = candidates.find(t => t.language === preferences.preferred_language)
+      || (preferences.audio_description ? candidates[0] : undefined);
+
+    if (track?.trackIndex !== undefined) {
+      hls.audioTrack = track.trackIndex;
+      setSelectedAudioTrack(track.id);
+    }
+  }, [selectedProfile, manifestAudioTracks]);
 
 
+  const skipSegment = useCallback((segment: SkipSegment) => {
+    const element = mediaRef.current;
+    if (!element) return;
+
+    const from = element.currentTime;
+    element.currentTime = segment.end;
+    setActiveSkipSegment(null);
+    analytics.trackSeek(from, segment.end);
+  }, [mediaRef, analytics]);
+
+  // Offer a skip button while inside a marked range, or skip right away when
+  // the profile's skip_intro (intros and recaps) / skip_credits is on. Each
+  // range is skipped automatically only once, so seeking back into it works.
+  useEffect(() => {
+    const segment = skipSegments.find(s => currentTime >= s.start && currentTime < s.end - 0.5) || null;
+    setActiveSkipSegment(segment);
+    if (!segment) return;
+
+    const preferences = selectedProfile?.viewing_preferences;
+    const autoSkip = segment.type === 'credits' ? preferences?.skip_credits : preferences?.skip_intro;
+    if (autoSkip && !autoSkippedRef.current.has(segment)) {
+      autoSkippedRef.current.add(segment);
+      skipSegment(segment);
+    }
+  }, [currentTime, skipSegments, selectedProfile, skipSegment]);
+
+  useEffect(() => {
+    autoSkippedRef.current = new Set();
+  }, [src, skipSegments]);
+
   const handleEnded = useCallback(() => {
     // Add to recently watched
     const id = contentId || title;
@@ -667,6 +1162,11 @@ export const SmartMediaPlayer = ({
           setIsPlaying(false);
         });
       }
+    } else if (upNext && type === 'video') {
+      // Offer the next episode, counting down to it when auto-play is on
+      setIsPlaying(false);
+      setShowUpNext(true);
+      setUpNextCountdown(enableAutoPlay ? UP_NEXT_COUNTDOWN : null);
     } else if (enableAutoPlay && onNext) {
       // Auto-play next episode
       onNext();
@@ -675,7 +1175,43 @@ export const SmartMediaPlayer = ({
       setIsPlaying(false);
       onEnded?.();
     }
-  }, [isRepeat, mediaElement, enableAutoPlay, onNext, onEnded, personalization, title, mediaDuration, type, contentId]);
+  }, [isRepeat, mediaElement, enableAutoPlay, upNext, onNext, onEnded, personalization, title, mediaDuration, type, contentId]);
+
+  // Parents pass a new object on every render, the countdown shouldn't restart
+  const upNextRef = useRef(upNext);
+  upNextRef.current = upNext;
+
+  const dismissUpNext = useCallback(() => {
+    setShowUpNext(false);
+    setUpNextCountdown(null);
+  }, []);
+
+  const playUpNext = useCallback(() => {
+    dismissUpNext();
+    upNextRef.current?.onPlay();
+  }, [dismissUpNext]);
+
+  useEffect(() => {
+    if (upNextCountdown === null) return;
+    if (upNextCountdown <= 0) {
+      playUpNext();
+      return;
+    }
+    const timer = setTimeout(() => setUpNextCountdown(remaining => remaining === null ? null : remaining - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [upNextCountdown, playUpNext]);
+
+  // A new source or playing again (e.g. seeking back) ends the offer
+  useEffect(() => {
+    dismissUpNext();
+  }, [src, dismissUpNext]);
+
+  useEffect(() => {
+    if (isPlaying) dismissUpNext();
+  }, [isPlaying, dismissUpNext]);
+
+  const trickPlayTiles = useTrickPlay(thumbnailsUrl, playback?.session ?? null, type === 'video');
+  const barPreviewTile = barPreview ? findTile(trickPlayTiles, barPreview.time) : null;
 
   const formatTime = (time: number) => {
     if (isNaN(time) || !isFinite(time)) return '0:00';
@@ -788,7 +1324,7 @@ export const SmartMediaPlayer = ({
           {/* Adaptive Bitrate Toggle */}
           {enableAdaptiveBitrate && (
             <button
-              onClick={() => setAdaptiveBitrateEnabled(!adaptiveBitrateEnabled)}
+              onClick={toggleAdaptiveBitrate}
               className={`p-2 rounded-lg transition-colors ${
                 adaptiveBitrateEnabled ? 'bg-green-600 text-white' : 'text-slate-400 hover:text-white'
               }`}
@@ -834,7 +1370,7 @@ export const SmartMediaPlayer = ({
                     </div>
                     
                     {/* Quality Selection */}
-                    {qualityLevels.length > 0 && (
+                    {menuQualityLevels.length > 0 && (
                       <div>
                         <label className="block text-xs text-slate-300 mb-1">Quality</label>
                         <select
@@ -843,7 +1379,7 @@ export const SmartMediaPlayer = ({
                           className="w-full p-1 bg-slate-600 border border-slate-500 rounded text-white text-sm"
                         >
                           <option value="auto">Auto</option>
-                          {qualityLevels.map(quality => (
+                          {menuQualityLevels.map(quality => (
                             <option key={quality.id} value={quality.id}>
                               {quality.label}
                             </option>
@@ -872,7 +1408,7 @@ export const SmartMediaPlayer = ({
                     )}
 
                     {/* Audio Track Selection */}
-                    {audioTracks.length > 0 && (
+                    {menuAudioTracks.length > 0 && (
                       <div>
                         <label className="block text-xs text-slate-300 mb-1">Audio</label>
                         <select
@@ -881,7 +1417,7 @@ export const SmartMediaPlayer = ({
                           className="w-full p-1 bg-slate-600 border border-slate-500 rounded text-white text-sm"
                         >
                           <option value="default">Default</option>
-                          {audioTracks.map(audio => (
+                          {menuAudioTracks.map(audio => (
                             <option key={audio.id} value={audio.id}>
                               {audio.label}
                             </option>
@@ -924,19 +1460,19 @@ export const SmartMediaPlayer = ({
           {/* Share */}
           <button
             onClick={() => {
-              if (navigator.share) {
-                navigator.share({
-                  title: title,
-                  text: artist ? `${title} by ${artist}` : title,
-                  url: window.location.href
-                }).catch(console.error);
-              } else {
-                navigator.clipboard.writeText(window.location.href).then(() => {
-                  alert('Link copied to clipboard!');
-                }).catch(() => {
-                  alert('Unable to share. Please copy the URL manually.');
-                });
-              }
+              // Past the first seconds the link starts where the viewer is
+              const url = new URL(shareUrl || window.location.href);
+              url.searchParams.delete('t');
+              const link = currentTime >= 5 ? buildShareUrl(url.pathname + url.search, currentTime) : url.toString();
+
+              shareLink(link, title, artist ? `${title} by ${artist}` : title).then(result => {
+                if (result === 'copied') {
+                  toast.success(currentTime >= 5 ? `Link copied, starts at ${formatTime(currentTime)}` : 'Link copied to clipboard');
+                }
+              }).catch(error => {
+                if (error instanceof Error && error.name === 'AbortError') return;
+                toast.error('Unable to share. Please copy the URL manually.');
+              });
               onShare?.();
             }}
             className="p-2 text-slate-400 hover:text-white transition-colors"
@@ -948,9 +1484,9 @@ export const SmartMediaPlayer = ({
           {/* Download */}
           <button
             onClick={() => {
-              if (src) {
+              if (playback) {
                 const link = document.createElement('a');
-                link.href = src;
+                link.href = playback.src;
                 link.download = `${title}.${type === 'video' ? 'mp4' : 'mp3'}`;
                 document.body.appendChild(link);
                 link.click();
@@ -968,20 +1504,17 @@ export const SmartMediaPlayer = ({
 
       {type === 'video' && (
         <div className="w-full max-w-4xl mx-auto">
-          <div className="relative aspect-video bg-black rounded-lg overflow-hidden group">
+          <div className={`relative aspect-video bg-black rounded-lg overflow-hidden group subtitle-size-${subtitleSize}`}>
             <video
               ref={mediaRef as React.RefObject<HTMLVideoElement>}
-              src={src}
+              src={isHlsSource || isDashSource ? undefined : playback?.src}
               poster={poster}
               onTimeUpdate={handleTimeUpdate}
               onEnded={handleEnded}
               onLoadedMetadata={handleLoadedMetadata}
-              onProgress={handleProgress}
-              onError={(e) => {
-                const video = e.currentTarget;
-                console.error(`Video failed to load: ${video.error?.message || 'Unknown error'}`);
-                onError?.();
-              }}
+              onWaiting={handleWaiting}
+              onPlaying={handlePlaying}
+              onError={handleMediaError}
               onLoadStart={() => {
                 setIsVideoReady(false);
                 onLoadStart?.();
@@ -1004,8 +1537,77 @@ export const SmartMediaPlayer = ({
               controls={false}
               playsInline
               muted={showCoverPage}
-            />
+            >
+              {subtitleTracks.filter(subtitle => subtitle.url && (!mediaUrlService.isProtected(subtitle.url) || signedSubtitleUrls[subtitle.url])).map(subtitle => (
+                <track
+                  key={subtitle.id}
+                  id={`subtitle-${subtitle.id}`}
+                  kind="subtitles"
+                  src={signedSubtitleUrls[subtitle.url] || subtitle.url}
+                  srcLang={subtitle.language}
+                  label={subtitle.label}
+                />
+              ))}
+            </video>
             
+            {/* Skip Intro / Recap / Credits */}
+            <AnimatePresence>
+              {activeSkipSegment && (
+                <motion.button
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: 20 }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    skipSegment(activeSkipSegment);
+                  }}
+                  className="absolute bottom-20 right-4 z-30 bg-white/90 hover:bg-white text-black px-4 py-2 rounded-lg font-semibold flex items-center gap-2 shadow-lg"
+                >
+                  <SkipForward className="w-4 h-4" />
+                  Skip {activeSkipSegment.type === 'intro' ? 'Intro' : activeSkipSegment.type === 'recap' ? 'Recap' : 'Credits'}
+                </motion.button>
+              )}
+            </AnimatePresence>
+
+            {/* Up Next */}
+            <AnimatePresence>
+              {showUpNext && upNext && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 20 }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute bottom-20 right-4 z-30 w-72 bg-slate-900/95 border border-slate-700 rounded-xl overflow-hidden shadow-2xl"
+                >
+                  {upNext.thumbnail && (
+                    <img src={upNext.thumbnail} alt={upNext.title} className="w-full aspect-video object-cover" />
+                  )}
+                  <div className="p-3">
+                    <p className="text-xs uppercase tracking-wide text-slate-400">
+                      {upNextCountdown !== null ? `Up next in ${upNextCountdown}s` : 'Up next'}
+                    </p>
+                    <p className="text-white font-semibold truncate">{upNext.title}</p>
+                    {upNext.subtitle && <p className="text-sm text-slate-400 truncate">{upNext.subtitle}</p>}
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        onClick={playUpNext}
+                        className="flex-1 bg-white hover:bg-slate-200 text-black px-3 py-2 rounded-lg font-semibold flex items-center justify-center gap-2"
+                      >
+                        <Play className="w-4 h-4" />
+                        Play Now
+                      </button>
+                      <button
+                        onClick={dismissUpNext}
+                        className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-white"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
             {/* Seek Preview Overlay */}
             <AnimatePresence>
               {showSeekPreview && (
@@ -1107,12 +1709,13 @@ export const SmartMediaPlayer = ({
         <>
           <audio
             ref={mediaRef as React.RefObject<HTMLAudioElement>}
-            src={src}
+            src={playback?.src}
             onTimeUpdate={handleTimeUpdate}
             onEnded={handleEnded}
             onLoadedMetadata={handleLoadedMetadata}
-            onProgress={handleProgress}
-            onError={onError}
+            onWaiting={handleWaiting}
+            onPlaying={handlePlaying}
+            onError={handleMediaError}
             onLoadStart={onLoadStart}
             onCanPlay={onCanPlay}
             autoPlay={autoPlay}
@@ -1159,6 +1762,13 @@ export const SmartMediaPlayer = ({
               console.error('Error in progress bar click handler:', error);
             }
           }}
+          onMouseMove={(e) => {
+            if (!progressRef.current || !mediaDuration) return;
+            const rect = progressRef.current.getBoundingClientRect();
+            const x = Math.min(Math.max(e.clientX - rect.left, 0), rect.width);
+            setBarPreview({ time: (x / rect.width) * mediaDuration, x, width: rect.width });
+          }}
+          onMouseLeave={() => setBarPreview(null)}
         >
           <div
             className="h-full bg-gradient-to-r from-purple-500 to-blue-500 rounded-full transition-all duration-200"
@@ -1171,6 +1781,28 @@ export const SmartMediaPlayer = ({
               style={{ left: `${(seekTime / mediaDuration) * 100}%` }}
             />
           )}
+          {/* Hover preview: trick-play tile and time above the pointer */}
+          {barPreview && (
+            <div
+              className="absolute bottom-full mb-3 pointer-events-none z-20 flex flex-col items-center"
+              style={{
+                width: BAR_PREVIEW_WIDTH,
+                left: Math.min(Math.max(barPreview.x - BAR_PREVIEW_WIDTH / 2, 0), Math.max(barPreview.width - BAR_PREVIEW_WIDTH, 0))
+              }}
+            >
+              {barPreviewTile && (
+                <TrickPlayPreview
+                  tile={barPreviewTile}
+                  session={playback?.session ?? null}
+                  width={BAR_PREVIEW_WIDTH}
+                  className="rounded-lg border border-white/20 shadow-lg mb-1"
+                />
+              )}
+              <div className="bg-black/80 text-white px-2 py-1 rounded text-xs font-medium">
+                {formatTime(barPreview.time)}
+              </div>
+            </div>
+          )}
         </div>
         <div className={`flex justify-between text-slate-300 ${
           type === 'video' ? 'text-xs mt-1' : 'text-sm mt-2'
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   BarChart3, 
@@ -19,114 +19,84 @@ import {
   Download,
   Share2
 } from 'lucide-react';
-import { streamingService } from '../lib/streamingService';
-
-interface AnalyticsData {
-  totalViews: number;
-  totalWatchTime: number;
-  averageWatchTime: number;
-  completionRate: number;
-  bufferRate: number;
-  errorRate: number;
-  qualityDistribution: { [key: string]: number };
-  deviceBreakdown: { [key: string]: number };
-  geographicDistribution: { [key: string]: number };
-  hourlyViews: { [key: string]: number };
-  topContent: Array<{ id: string; title: string; views: number; watchTime: number }>;
-  recentErrors: Array<{ timestamp: Date; error: string; count: number }>;
+import { streamingService, AnalyticsSummary, AnalyticsBreakdown } from '../lib/streamingService';
+import { handleError } from '../lib/errorHandler';
+
+interface AnalyticsData extends AnalyticsSummary, AnalyticsBreakdown {
+  previous: AnalyticsSummary; // Same length period right before the selected one
 }
 
+type TimeRangeOption = '24h' | '7d' | '30d' | '90d';
+
+const RANGE_HOURS: { [range in TimeRangeOption]: number } = {
+  '24h': 24,
+  '7d': 7 * 24,
+  '30d': 30 * 24,
+  '90d': 90 * 24
+};
+
 interface StreamingAnalyticsDashboardProps {
   mediaId?: string;
-  timeRange?: '24h' | '7d' | '30d' | '90d';
+  timeRange?: TimeRangeOption;
   onDataUpdate?: (data: AnalyticsData) => void;
 }
 
 export const StreamingAnalyticsDashboard = ({ 
   mediaId, 
-  timeRange = '7d',
+  timeRange: initialTimeRange = '7d',
   onDataUpdate 
 }: StreamingAnalyticsDashboardProps) => {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedMetric, setSelectedMetric] = useState<string>('views');
+  const [timeRange, setTimeRange] = useState<TimeRangeOption>(initialTimeRange);
   const [showDetails, setShowDetails] = useState(false);
 
-  // Mock data generator for demonstration
-  const generateMockData = useCallback((): AnalyticsData => {
-    const now = new Date();
-    const hours = Array.from({ length: 24 }, (_, i) => {
-      const hour = new Date(now.getTime() - (23 - i) * 60 * 60 * 1000);
-      return hour.getHours().toString().padStart(2, '0') + ':00';
-    });
-
-    return {
-      totalViews: Math.floor(Math.random() * 10000) + 5000,
-      totalWatchTime: Math.floor(Math.random() * 1000000) + 500000,
-      averageWatchTime: Math.floor(Math.random() * 300) + 120,
-      completionRate: Math.random() * 40 + 50,
-      bufferRate: Math.random() * 10 + 2,
-      errorRate: Math.random() * 5 + 1,
-      qualityDistribution: {
-        '4K': Math.floor(Math.random() * 20) + 5,
-        '1080p': Math.floor(Math.random() * 40) + 30,
-        '720p': Math.floor(Math.random() * 30) + 20,
-        '480p': Math.floor(Math.random() * 15) + 5,
-        '360p': Math.floor(Math.random() * 10) + 2
-      },
-      deviceBreakdown: {
-        'Desktop': Math.floor(Math.random() * 50) + 30,
-        'Mobile': Math.floor(Math.random() * 40) + 25,
-        'Tablet': Math.floor(Math.random() * 20) + 10,
-        'TV': Math.floor(Math.random() * 15) + 5
-      },
-      geographicDistribution: {
-        'North America': Math.floor(Math.random() * 40) + 25,
-        'Europe': Math.floor(Math.random() * 30) + 20,
-        'Asia': Math.floor(Math.random() * 25) + 15,
-        'South America': Math.floor(Math.random() * 15) + 8,
-        'Africa': Math.floor(Math.random() * 10) + 5,
-        'Oceania': Math.floor(Math.random() * 8) + 3
-      },
-      hourlyViews: hours.reduce((acc, hour) => {
-        acc[hour] = Math.floor(Math.random() * 100) + 20;
-        return acc;
-      }, {} as { [key: string]: number }),
-      topContent: [
-        { id: '1', title: 'Sample Movie 1', views: 1250, watchTime: 45000 },
-        { id: '2', title: 'Sample Movie 2', views: 980, watchTime: 32000 },
-        { id: '3', title: 'Sample Movie 3', views: 750, watchTime: 28000 },
-        { id: '4', title: 'Sample Movie 4', views: 620, watchTime: 22000 },
-        { id: '5', title: 'Sample Movie 5', views: 580, watchTime: 19000 }
-      ],
-      recentErrors: [
-        { timestamp: new Date(Date.now() - 3600000), error: 'Network timeout', count: 12 },
-        { timestamp: new Date(Date.now() - 7200000), error: 'Codec not supported', count: 8 },
-        { timestamp: new Date(Date.now() - 10800000), error: 'Buffer underrun', count: 15 },
-        { timestamp: new Date(Date.now() - 14400000), error: 'Authentication failed', count: 3 }
-      ]
-    };
-  }, []);
+  // Keep the latest callback without refetching on every parent render
+  const onDataUpdateRef = useRef(onDataUpdate);
+  useEffect(() => {
+    onDataUpdateRef.current = onDataUpdate;
+  }, [onDataUpdate]);
 
   // Load analytics data
   useEffect(() => {
+    let cancelled = false;
+
     const loadAnalytics = async () => {
       setIsLoading(true);
-      
+
+      const end = new Date();
+      const length = RANGE_HOURS[timeRange] * 60 * 60 * 1000;
+      const start = new Date(end.getTime() - length);
+      const previousStart = new Date(start.getTime() - length);
+
       try {
-        // In a real implementation, this would fetch from your analytics API
-        const data = generateMockData();
+        const [summary, breakdown, previous] = await Promise.all([
+          streamingService.getAnalyticsSummary(mediaId, { start, end }),
+          streamingService.getAnalyticsBreakdown(mediaId, { start, end }),
+          streamingService.getAnalyticsSummary(mediaId, { start: previousStart, end: start })
+        ]);
+        if (cancelled) return;
+
+        const data = { ...summary, ...breakdown, previous };
         setAnalyticsData(data);
-        onDataUpdate?.(data);
+        onDataUpdateRef.current?.(data);
       } catch (error) {
-        console.error('Failed to load analytics:', error);
+        if (!cancelled) {
+          handleError(error, 'Loading streaming analytics');
+          setAnalyticsData(null);
+        }
       } finally {
-        setIsLoading(false);
+        if (!cancelled) {
+          setIsLoading(false);
+        }
       }
     };
 
     loadAnalytics();
-  }, [mediaId, timeRange, generateMockData, onDataUpdate]);
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId, timeRange]);
 
   const formatNumber = (num: number): string => {
     if (num >= 1000000) {
@@ -147,6 +117,37 @@ export const StreamingAnalyticsDashboard = ({
     return `${minutes}m`;
   };
 
+  // Share of the total, for the distribution bars
+  const toPercentages = (counts: { [key: string]: number }) => {
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    return Object.entries(counts)
+      .map(([key, count]) => [key, total > 0 ? Math.round((count / total) * 100) : 0] as const)
+      .sort((a, b) => b[1] - a[1]);
+  };
+
+  // Change against the previous period of the same length. Rates are
+  // compared in percentage points, counts relative to the previous value.
+  const renderTrend = (current: number, previous: number, options: { isRate?: boolean; lowerIsBetter?: boolean } = {}) => {
+    if (!analyticsData || analyticsData.previous.totalViews === 0 || (!options.isRate && previous === 0)) {
+      return <div className="text-slate-500 text-sm">No data for previous period</div>;
+    }
+
+    const change = options.isRate ? current - previous : ((current - previous) / previous) * 100;
+    const improving = options.lowerIsBetter ? change <= 0 : change >= 0;
+    const Icon = change >= 0 ? TrendingUp : TrendingDown;
+
+    return (
+      <div className={`flex items-center gap-1 text-sm ${improving ? 'text-green-400' : 'text-red-400'}`}>
+        <Icon className="w-4 h-4" />
+        <span>{change >= 0 ? '+' : ''}{change.toFixed(1)}{options.isRate ? ' pts' : '%'} from last period</span>
+      </div>
+    );
+  };
+
+  const formatBucket = (bucket: Date, unit: 'hour' | 'day') => unit === 'hour'
+    ? bucket.getHours().toString().padStart(2, '0') + ':00'
+    : bucket.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
   const getMetricIcon = (metric: string) => {
     switch (metric) {
       case 'views':
@@ -212,7 +213,7 @@ export const StreamingAnalyticsDashboard = ({
         <div className="flex items-center gap-2">
           <select
             value={timeRange}
-            onChange={(e) => {/* Handle time range change */}}
+            onChange={(e) => setTimeRange(e.target.value as TimeRangeOption)}
             className="px-3 py-1 bg-slate-800 border border-slate-600 rounded text-white text-sm"
           >
             <option value="24h">Last 24 hours</option>
@@ -244,10 +245,7 @@ export const StreamingAnalyticsDashboard = ({
               <p className="text-2xl font-bold text-white">{formatNumber(analyticsData.totalViews)}</p>
             </div>
           </div>
-          <div className="flex items-center gap-1 text-green-400 text-sm">
-            <TrendingUp className="w-4 h-4" />
-            <span>+12.5% from last period</span>
-          </div>
+          {renderTrend(analyticsData.totalViews, analyticsData.previous.totalViews)}
         </motion.div>
 
         <motion.div
@@ -263,10 +261,7 @@ export const StreamingAnalyticsDashboard = ({
               <p className="text-2xl font-bold text-white">{formatDuration(analyticsData.totalWatchTime)}</p>
             </div>
           </div>
-          <div className="flex items-center gap-1 text-green-400 text-sm">
-            <TrendingUp className="w-4 h-4" />
-            <span>+8.3% from last period</span>
-          </div>
+          {renderTrend(analyticsData.totalWatchTime, analyticsData.previous.totalWatchTime)}
         </motion.div>
 
         <motion.div
@@ -282,10 +277,7 @@ export const StreamingAnalyticsDashboard = ({
               <p className="text-2xl font-bold text-white">{analyticsData.completionRate.toFixed(1)}%</p>
             </div>
           </div>
-          <div className="flex items-center gap-1 text-red-400 text-sm">
-            <TrendingDown className="w-4 h-4" />
-            <span>-2.1% from last period</span>
-          </div>
+          {renderTrend(analyticsData.completionRate, analyticsData.previous.completionRate, { isRate: true })}
         </motion.div>
 
         <motion.div
@@ -297,14 +289,11 @@ export const StreamingAnalyticsDashboard = ({
               {getMetricIcon('buffer')}
             </div>
             <div>
-              <p className="text-slate-400 text-sm">Buffer Rate</p>
+              <p className="text-slate-400 text-sm">Rebuffer Ratio</p>
               <p className="text-2xl font-bold text-white">{analyticsData.bufferRate.toFixed(1)}%</p>
             </div>
           </div>
-          <div className="flex items-center gap-1 text-green-400 text-sm">
-            <TrendingDown className="w-4 h-4" />
-            <span>-0.5% from last period</span>
-          </div>
+          {renderTrend(analyticsData.bufferRate, analyticsData.previous.bufferRate, { isRate: true, lowerIsBetter: true })}
         </motion.div>
       </div>
 
@@ -314,7 +303,10 @@ export const StreamingAnalyticsDashboard = ({
         <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
           <h3 className="text-lg font-semibold text-white mb-4">Quality Distribution</h3>
           <div className="space-y-3">
-            {Object.entries(analyticsData.qualityDistribution).map(([quality, percentage]) => (
+            {Object.keys(analyticsData.qualityDistribution).length === 0 && (
+              <p className="text-slate-500 text-sm">No quality data yet</p>
+            )}
+            {toPercentages(analyticsData.qualityDistribution).map(([quality, percentage]) => (
               <div key={quality} className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <Monitor className="w-4 h-4 text-slate-400" />
@@ -338,7 +330,10 @@ export const StreamingAnalyticsDashboard = ({
         <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
           <h3 className="text-lg font-semibold text-white mb-4">Device Breakdown</h3>
           <div className="space-y-3">
-            {Object.entries(analyticsData.deviceBreakdown).map(([device, percentage]) => (
+            {Object.keys(analyticsData.deviceBreakdown).length === 0 && (
+              <p className="text-slate-500 text-sm">No views in this period</p>
+            )}
+            {toPercentages(analyticsData.deviceBreakdown).map(([device, percentage]) => (
               <div key={device} className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   {device === 'Mobile' ? (
@@ -368,6 +363,9 @@ export const StreamingAnalyticsDashboard = ({
         <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
           <h3 className="text-lg font-semibold text-white mb-4">Top Content</h3>
           <div className="space-y-3">
+            {analyticsData.topContent.length === 0 && (
+              <p className="text-slate-500 text-sm">No views in this period</p>
+            )}
             {analyticsData.topContent.map((content, index) => (
               <div key={content.id} className="flex items-center justify-between p-2 bg-slate-700/50 rounded">
                 <div className="flex items-center gap-3">
@@ -390,6 +388,9 @@ export const StreamingAnalyticsDashboard = ({
         <div className="p-4 bg-slate-800 rounded-lg border border-slate-700">
           <h3 className="text-lg font-semibold text-white mb-4">Recent Errors</h3>
           <div className="space-y-3">
+            {analyticsData.recentErrors.length === 0 && (
+              <p className="text-slate-500 text-sm">No playback errors in this period</p>
+            )}
             {analyticsData.recentErrors.map((error, index) => (
               <div key={index} className="flex items-center justify-between p-2 bg-red-500/10 border border-red-500/20 rounded">
                 <div>
@@ -418,14 +419,16 @@ export const StreamingAnalyticsDashboard = ({
           <h3 className="text-lg font-semibold text-white mb-4">Detailed Analytics</h3>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <h4 className="text-white font-medium mb-2">Geographic Distribution</h4>
-              <div className="space-y-2">
-                {Object.entries(analyticsData.geographicDistribution).map(([region, percentage]) => (
-                  <div key={region} className="flex items-center justify-between text-sm">
-                    <span className="text-slate-300">{region}</span>
-                    <span className="text-white">{percentage}%</span>
-                  </div>
-                ))}
+              <h4 className="text-white font-medium mb-2">Audience</h4>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Unique Viewers</span>
+                  <span className="text-white">{formatNumber(analyticsData.uniqueViewers)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-300">Most Common Quality</span>
+                  <span className="text-white">{analyticsData.mostCommonQuality || 'n/a'}</span>
+                </div>
               </div>
             </div>
             
@@ -441,23 +444,23 @@ export const StreamingAnalyticsDashboard = ({
                   <span className="text-white">{analyticsData.errorRate.toFixed(2)}%</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-slate-300">Buffer Events</span>
+                  <span className="text-slate-300">Rebuffer Ratio</span>
                   <span className="text-white">{analyticsData.bufferRate.toFixed(1)}%</span>
                 </div>
               </div>
             </div>
             
             <div>
-              <h4 className="text-white font-medium mb-2">Hourly Views</h4>
+              <h4 className="text-white font-medium mb-2">{analyticsData.bucket === 'hour' ? 'Hourly Views' : 'Daily Views'}</h4>
               <div className="space-y-1">
-                {Object.entries(analyticsData.hourlyViews).slice(-6).map(([hour, views]) => (
-                  <div key={hour} className="flex items-center justify-between text-sm">
-                    <span className="text-slate-300">{hour}</span>
+                {analyticsData.viewsOverTime.slice(-6).map(({ bucket, views }) => (
+                  <div key={bucket.toISOString()} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-300">{formatBucket(bucket, analyticsData.bucket)}</span>
                     <div className="flex items-center gap-2">
                       <div className="w-16 h-1 bg-slate-700 rounded-full">
                         <div
                           className="h-full bg-blue-500 rounded-full"
-                          style={{ width: `${(views / 100) * 100}%` }}
+                          style={{ width: `${(views / Math.max(...analyticsData.viewsOverTime.map(point => point.views))) * 100}%` }}
                         />
                       </div>
                       <span className="text-white w-8 text-right">{views}</span>
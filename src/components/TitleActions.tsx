@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { Heart, Share2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePersonalization } from '../hooks/usePersonalization';
+import { useShareAction } from '../hooks/useShareAction';
+import { AddToPlaylistButton } from './AddToPlaylistButton';
+
+interface TitleActionsProps {
+  contentId: string;
+  contentType: 'movie' | 'music';
+  title: string;
+  text?: string; // Share text, defaults to the title
+  path: string; // Deep link of the title, see shareLinks
+}
+
+// Watchlist toggle, playlist menu and share button of a detail page
+export const TitleActions = ({ contentId, contentType, title, text, path }: TitleActionsProps) => {
+  const { selectedProfile, isInWatchlist, addToWatchlist, removeFromWatchlist } = usePersonalization();
+  const [inWatchlist, setInWatchlist] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const share = useShareAction();
+
+  useEffect(() => {
+    let cancelled = false;
+    isInWatchlist(contentId).then(result => {
+      if (!cancelled) setInWatchlist(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [contentId, isInWatchlist]);
+
+  const toggleWatchlist = async () => {
+    if (!selectedProfile) {
+      toast.error('Select a profile to use your watchlist');
+      return;
+    }
+
+    setUpdating(true);
+    const updated = inWatchlist
+      ? await removeFromWatchlist(contentId)
+      : await addToWatchlist(contentId, contentType);
+    setUpdating(false);
+
+    if (updated) {
+      setInWatchlist(!inWatchlist);
+      toast.success(inWatchlist ? 'Removed from watchlist' : 'Added to watchlist');
+    } else {
+      toast.error('Failed to update watchlist');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        onClick={toggleWatchlist}
+        disabled={updating}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+          inWatchlist
+            ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
+            : 'bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white'
+        }`}
+      >
+        <Heart className={`w-5 h-5 ${inWatchlist ? 'fill-current' : ''}`} />
+        {inWatchlist ? 'In Watchlist' : 'Add to Watchlist'}
+      </button>
+      <AddToPlaylistButton contentId={contentId} contentType={contentType} />
+      <button
+        onClick={() => share(path, title, text)}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+      >
+        <Share2 className="w-5 h-5" />
+        Share
+      </button>
+    </div>
+  );
+};
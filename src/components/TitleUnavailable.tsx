@@ -0,0 +1,36 @@
+import { LucideIcon } from 'lucide-react';
+
+interface TitleUnavailableProps {
+  icon: LucideIcon;
+  heading: string;
+  message: string;
+  onBack: () => void;
+  onRetry?: () => void; // Only for load errors, a missing title stays missing
+}
+
+// Shown by detail pages when their title is missing or failed to load
+export const TitleUnavailable = ({ icon: Icon, heading, message, onBack, onRetry }: TitleUnavailableProps) => (
+  <div className="min-h-screen bg-slate-900 flex items-center justify-center p-6">
+    <div className="max-w-md w-full bg-slate-800/60 border border-slate-700 rounded-xl p-6 text-center">
+      <Icon className="w-16 h-16 text-slate-500 mx-auto mb-4" />
+      <h1 className="text-white text-xl font-semibold mb-2">{heading}</h1>
+      <p className="text-slate-400 mb-4">{message}</p>
+      <div className="flex gap-3 justify-center">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg transition-colors"
+          >
+            Try Again
+          </button>
+        )}
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-colors"
+        >
+          Go Back
+        </button>
+      </div>
+    </div>
+  </div>
+);
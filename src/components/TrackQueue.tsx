@@ -0,0 +1,153 @@
+import { Fragment, useState, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Play, Pause } from 'lucide-react';
+import { Music as MusicType } from '../lib/supabase';
+import { shareUrl, trackPath, albumPath, artistPath } from '../lib/shareLinks';
+import { SmartMediaPlayer } from './SmartMediaPlayer';
+
+interface TrackQueueProps {
+  tracks: MusicType[];
+  secondary: 'artist' | 'album'; // Which link each row shows under the title
+  numbering?: 'position' | 'track'; // 'track' shows album track numbers, split by disc
+  playLabel?: string; // Shows a button that plays the list from the top
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Track list of an artist or album page; playing a track queues the rest
+// of the list after it
+export const TrackQueue = ({ tracks, secondary, numbering = 'position', playLabel }: TrackQueueProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const current = currentIndex !== null ? tracks[currentIndex] : null;
+  const hasNext = currentIndex !== null && currentIndex < tracks.length - 1;
+  const hasPrevious = currentIndex !== null && currentIndex > 0;
+  const multiDisc = numbering === 'track' && tracks.some(track => (track.disc_number || 1) > 1);
+
+  const playAt = (index: number) => {
+    if (index === currentIndex) {
+      if (audioRef.current) {
+        if (isPlaying) {
+          audioRef.current.pause();
+        } else {
+          audioRef.current.play();
+        }
+        setIsPlaying(!isPlaying);
+      }
+      return;
+    }
+    setCurrentIndex(index);
+    setIsPlaying(true);
+  };
+
+  const playNext = () => {
+    if (currentIndex === null) return;
+    if (hasNext) {
+      setCurrentIndex(currentIndex + 1);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+
+  const playPrevious = () => {
+    if (currentIndex !== null && hasPrevious) {
+      setCurrentIndex(currentIndex - 1);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {playLabel && tracks.length > 0 && (
+        <button
+          onClick={() => playAt(currentIndex ?? 0)}
+          className="flex items-center gap-2 px-5 py-2 rounded-full bg-cyan-600 hover:bg-cyan-700 text-white font-semibold transition-colors"
+        >
+          {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          {isPlaying ? 'Pause' : playLabel}
+        </button>
+      )}
+
+      {current && (
+        <SmartMediaPlayer
+          src={current.audio_url}
+          title={current.title}
+          contentId={current.id}
+          artist={current.artist}
+          album={current.album}
+          duration={current.duration}
+          shareUrl={shareUrl(trackPath(current.id))}
+          type="audio"
+          onNext={hasNext ? playNext : undefined}
+          onPrevious={hasPrevious ? playPrevious : undefined}
+          externalRef={audioRef}
+          onEnded={playNext}
+          autoPlay={isPlaying}
+          preload="metadata"
+          crossOrigin="anonymous"
+          enableAutoPlay={false}
+          enableResume={true}
+          enablePiP={false}
+          enableAdaptiveBitrate={false}
+        />
+      )}
+
+      <div className="bg-slate-800/40 rounded-xl divide-y divide-slate-800">
+        {tracks.map((track, index) => {
+          const active = index === currentIndex;
+          const disc = track.disc_number || 1;
+          const discStarts = multiDisc && (index === 0 || (tracks[index - 1].disc_number || 1) !== disc);
+          return (
+            <Fragment key={track.id}>
+              {discStarts && (
+                <p className="px-4 pt-4 pb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  Disc {disc}
+                </p>
+              )}
+              <div
+                className={`flex items-center gap-4 px-4 py-3 ${active ? 'bg-slate-800/80' : 'hover:bg-slate-800/60'}`}
+              >
+                <button
+                  onClick={() => playAt(index)}
+                  className="w-8 h-8 flex items-center justify-center rounded-full text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                  title={active && isPlaying ? 'Pause' : 'Play'}
+                >
+                  {active && isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </button>
+                <span className="w-6 text-right text-sm text-slate-500">
+                  {numbering === 'track' ? track.track_number || '–' : index + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <Link
+                    to={trackPath(track.id)}
+                    className={`block truncate font-medium hover:underline ${active ? 'text-cyan-400' : 'text-white'}`}
+                  >
+                    {track.title}
+                  </Link>
+                  {secondary === 'album' && track.album_id && (
+                    <Link to={albumPath(track.album_id)} className="block truncate text-sm text-slate-400 hover:text-white">
+                      {track.album}
+                    </Link>
+                  )}
+                  {secondary === 'artist' && track.artist_id && (
+                    <Link to={artistPath(track.artist_id)} className="block truncate text-sm text-slate-400 hover:text-white">
+                      {track.artist}
+                    </Link>
+                  )}
+                </div>
+                {track.duration > 0 && (
+                  <span className="text-sm text-slate-400">{formatDuration(track.duration)}</span>
+                )}
+              </div>
+            </Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -15,7 +15,10 @@ import {
   AlertCircle,
   Info
 } from 'lucide-react';
-import { streamingService, TranscodingJob, VideoFormat } from '../lib/streamingService';
+import { streamingService, TranscodingJob, TRICKPLAY_FORMAT, VideoFormat } from '../lib/streamingService';
+import { supabase } from '../lib/supabase';
+import { handleError } from '../lib/errorHandler';
+import toast from 'react-hot-toast';
 
 interface TranscodingPipelineProps {
   onJobComplete?: (job: TranscodingJob) => void;
@@ -33,30 +36,48 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
     enableDASH: true,
     enableThumbnails: true,
     qualityOptimization: true,
-    compressionLevel: 'medium' as 'low' | 'medium' | 'high'
+    compressionLevel: 'medium' as 'low' | 'medium' | 'high',
+    priority: 0,
+    maxConcurrentJobs: streamingService.getConfig().maxConcurrentJobs
   });
+  // Edited as text and saved on blur, so typing doesn't write every keystroke
+  const [maxConcurrentJobsInput, setMaxConcurrentJobsInput] = useState(String(config.maxConcurrentJobs));
 
-  // Load existing jobs on mount
+  // Load persisted jobs and follow the worker's updates
   useEffect(() => {
-    const existingJobs = streamingService.getAllJobs();
-    setJobs(existingJobs);
+    streamingService.getAllJobs()
+      .then(setJobs)
+      .catch(error => handleError(error, 'Loading transcoding jobs'));
+
+    return streamingService.subscribeToTranscodingJobs();
   }, []);
 
   // Listen for transcoding progress updates
   useEffect(() => {
     const handleProgress = (event: CustomEvent) => {
       const job = event.detail as TranscodingJob;
-      setJobs(prev => prev.map(j => j.id === job.id ? job : j));
+      setJobs(prev => prev.some(j => j.id === job.id)
+        ? prev.map(j => j.id === job.id ? job : j)
+        : [job, ...prev]);
       
       if (job.status === 'completed') {
         onJobComplete?.(job);
-      } else if (job.status === 'failed') {
+      } else if (job.status === 'failed' || job.status === 'dead_letter') {
         onJobError?.(job);
       }
     };
 
+    const handleDeleted = (event: CustomEvent) => {
+      const jobId = event.detail as string;
+      setJobs(prev => prev.filter(job => job.id !== jobId));
+    };
+
     window.addEventListener('transcodingProgress', handleProgress as EventListener);
-    return () => window.removeEventListener('transcodingProgress', handleProgress as EventListener);
+    window.addEventListener('transcodingJobDeleted', handleDeleted as EventListener);
+    return () => {
+      window.removeEventListener('transcodingProgress', handleProgress as EventListener);
+      window.removeEventListener('transcodingJobDeleted', handleDeleted as EventListener);
+    };
   }, [onJobComplete, onJobError]);
 
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -67,11 +88,17 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
     setUploadProgress(0);
 
     try {
-      // Simulate file upload
-      for (let i = 0; i <= 100; i += 10) {
-        await new Promise(resolve => setTimeout(resolve, 200));
-        setUploadProgress(i);
+      // Upload the source file so the worker can fetch it from storage
+      const fileExt = file.name.split('.').pop();
+      const sourcePath = `transcoding/sources/${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+      const { error: uploadError } = await supabase.storage
+        .from('media')
+        .upload(sourcePath, file);
+
+      if (uploadError) {
+        throw new Error(`Upload failed: ${uploadError.message}`);
       }
+      setUploadProgress(100);
 
       // Generate formats based on selection
       const formats: VideoFormat[] = [];
@@ -144,34 +171,66 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
         });
       }
 
-      // Create transcoding job
-      const job = await streamingService.createTranscodingJob(URL.createObjectURL(file), formats);
-      setJobs(prev => [...prev, job]);
+      // Add trick-play thumbnails for seek previews if enabled
+      if (config.enableThumbnails) {
+        formats.push({ ...TRICKPLAY_FORMAT });
+      }
+
+      // Queue transcoding job for the worker
+      const job = await streamingService.createTranscodingJob(sourcePath, formats, { priority: config.priority });
+      setJobs(prev => prev.some(j => j.id === job.id) ? prev : [job, ...prev]);
 
     } catch (error) {
-      console.error('Upload failed:', error);
+      handleError(error, 'Transcoding upload');
     } finally {
       setIsUploading(false);
       setUploadProgress(0);
     }
   }, [selectedFormats, config]);
 
-  const cancelJob = useCallback((jobId: string) => {
-    const success = streamingService.cancelJob(jobId);
-    if (success) {
-      setJobs(prev => prev.map(job => 
-        job.id === jobId ? { ...job, status: 'failed', error: 'Cancelled by user' } : job
-      ));
+  // Realtime updates from the queue replace the job state, no local patching needed
+  const cancelJob = useCallback(async (jobId: string) => {
+    try {
+      const success = await streamingService.cancelJob(jobId);
+      if (!success) {
+        toast.error('Job has already finished');
+      }
+    } catch (error) {
+      handleError(error, 'Cancelling job');
     }
   }, []);
 
   const retryJob = useCallback(async (job: TranscodingJob) => {
-    const newJob = await streamingService.createTranscodingJob(job.inputUrl, job.outputFormats);
-    setJobs(prev => prev.map(j => j.id === job.id ? newJob : j));
+    try {
+      const success = await streamingService.retryJob(job.id);
+      if (!success) {
+        toast.error('Only failed or cancelled jobs can be retried');
+      }
+    } catch (error) {
+      handleError(error, 'Retrying job');
+    }
   }, []);
 
-  const deleteJob = useCallback((jobId: string) => {
-    setJobs(prev => prev.filter(job => job.id !== jobId));
+  const saveMaxConcurrentJobs = useCallback(() => {
+    const maxConcurrentJobs = Number(maxConcurrentJobsInput);
+    if (!Number.isInteger(maxConcurrentJobs) || maxConcurrentJobs < 1 || maxConcurrentJobs > 20) {
+      toast.error('Max concurrent jobs must be a whole number from 1 to 20');
+      setMaxConcurrentJobsInput(String(config.maxConcurrentJobs));
+      return;
+    }
+    if (maxConcurrentJobs === config.maxConcurrentJobs) return;
+
+    setConfig(prev => ({ ...prev, maxConcurrentJobs }));
+    streamingService.updateConfig({ maxConcurrentJobs });
+  }, [maxConcurrentJobsInput, config.maxConcurrentJobs]);
+
+  const deleteJob = useCallback(async (jobId: string) => {
+    try {
+      await streamingService.deleteJob(jobId);
+      setJobs(prev => prev.filter(job => job.id !== jobId));
+    } catch (error) {
+      handleError(error, 'Deleting job');
+    }
   }, []);
 
   const getStatusIcon = (status: string) => {
@@ -179,7 +238,10 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
       case 'completed':
         return <CheckCircle className="w-5 h-5 text-green-500" />;
       case 'failed':
+      case 'dead_letter':
         return <XCircle className="w-5 h-5 text-red-500" />;
+      case 'cancelled':
+        return <XCircle className="w-5 h-5 text-slate-400" />;
       case 'processing':
         return <RefreshCw className="w-5 h-5 text-blue-500 animate-spin" />;
       default:
@@ -192,7 +254,10 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
       case 'completed':
         return 'bg-green-500/20 border-green-500/30';
       case 'failed':
+      case 'dead_letter':
         return 'bg-red-500/20 border-red-500/30';
+      case 'cancelled':
+        return 'bg-slate-500/20 border-slate-500/30';
       case 'processing':
         return 'bg-blue-500/20 border-blue-500/30';
       default:
@@ -302,6 +367,33 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
                   </label>
                 </div>
               </div>
+
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">Queue Priority</label>
+                <select
+                  value={config.priority}
+                  onChange={(e) => setConfig(prev => ({ ...prev, priority: parseInt(e.target.value) }))}
+                  className="w-full p-2 bg-slate-700 border border-slate-600 rounded text-white text-sm"
+                >
+                  <option value={-10}>Low</option>
+                  <option value={0}>Normal</option>
+                  <option value={10}>High</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">Max Concurrent Jobs</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={maxConcurrentJobsInput}
+                  onChange={(e) => setMaxConcurrentJobsInput(e.target.value)}
+                  onBlur={saveMaxConcurrentJobs}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="w-full p-2 bg-slate-700 border border-slate-600 rounded text-white text-sm"
+                />
+              </div>
             </div>
           </motion.div>
         )}
@@ -379,13 +471,27 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
                       <p className="text-sm text-slate-400">
                         {job.status === 'processing' ? `${job.progress}% complete` : 
                          job.status === 'completed' ? 'Completed' :
-                         job.status === 'failed' ? 'Failed' : 'Pending'}
+                         job.status === 'failed' ? 'Failed' :
+                         job.status === 'dead_letter' ? `Dead letter after ${job.attempts} attempts` :
+                         job.status === 'cancelled' ? 'Cancelled' :
+                         job.nextAttemptAt ? `Retrying at ${job.nextAttemptAt.toLocaleTimeString()}` : 'Pending'}
+                        {job.cancelRequested && job.status === 'processing' && ' • Cancelling...'}
                       </p>
                     </div>
                   </div>
                   
                   <div className="flex items-center gap-2">
-                    {job.status === 'failed' && (
+                    {(job.status === 'pending' || job.status === 'processing') && !job.cancelRequested && (
+                      <button
+                        onClick={() => cancelJob(job.id)}
+                        className="p-2 text-yellow-400 hover:text-yellow-300 transition-colors"
+                        title="Cancel"
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    {(job.status === 'failed' || job.status === 'dead_letter' || job.status === 'cancelled') && (
                       <button
                         onClick={() => retryJob(job)}
                         className="p-2 text-blue-400 hover:text-blue-300 transition-colors"
@@ -428,6 +534,7 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
                         <p className="text-white font-medium">{format.name}</p>
                         <p className="text-slate-400 text-xs">
                           {format.resolution} • {format.bitrate ? `${(format.bitrate / 1000000).toFixed(1)} Mbps` : 'Adaptive'}
+                          {format.size ? ` • ${formatFileSize(format.size)}` : ''}
                         </p>
                       </div>
                       
@@ -457,6 +564,13 @@ export const TranscodingPipeline = ({ onJobComplete, onJobError }: TranscodingPi
                 {/* Job Info */}
                 <div className="mt-3 flex items-center gap-4 text-xs text-slate-500">
                   <span>Created: {job.createdAt.toLocaleString()}</span>
+                  <span>Attempts: {job.attempts}/{job.maxAttempts}</span>
+                  {job.priority !== 0 && (
+                    <span>Priority: {job.priority > 0 ? 'High' : 'Low'}</span>
+                  )}
+                  {job.workerId && (
+                    <span>Worker: {job.workerId}</span>
+                  )}
                   {job.completedAt && (
                     <span>Completed: {job.completedAt.toLocaleString()}</span>
                   )}
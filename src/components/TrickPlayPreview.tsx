@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { TrickPlayTile } from '../lib/trickPlay';
+import { PlaybackUrlSession } from '../lib/mediaUrlService';
+
+interface TrickPlayPreviewProps {
+  tile: TrickPlayTile;
+  session: PlaybackUrlSession | null; // Signs sheets stored in the media bucket
+  width: number; // Displayed width, the height follows the tile's aspect ratio
+  className?: string;
+}
+
+// One tile cut out of its sprite sheet. The sheet's size isn't known up
+// front, so the tile is drawn at its own size and scaled as a whole.
+export const TrickPlayPreview = ({ tile, session, width, className = '' }: TrickPlayPreviewProps) => {
+  const [sheetUrl, setSheetUrl] = useState<string | null>(null);
+  const scale = width / tile.width;
+
+  // Signed when shown, the session hands out cached URLs until they near expiry
+  useEffect(() => {
+    let cancelled = false;
+    (session ? session.sign(tile.url) : Promise.resolve(tile.url)).then(
+      (url) => {
+        if (!cancelled) setSheetUrl(url);
+      },
+      (error) => console.warn('Failed to sign trick-play sheet:', error)
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tile.url, session]);
+
+  return (
+    <div
+      className={`overflow-hidden ${className}`}
+      style={{ width, height: Math.round(tile.height * scale) }}
+    >
+      <div
+        style={{
+          width: tile.width,
+          height: tile.height,
+          backgroundImage: sheetUrl ? `url("${sheetUrl}")` : undefined,
+          backgroundPosition: `-${tile.x}px -${tile.y}px`,
+          backgroundRepeat: 'no-repeat',
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left'
+        }}
+      />
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Users, User, Settings, LogOut, Crown, Shield, ChevronDown, Settings2 } from 'lucide-react';
+import { Users, User, Settings, LogOut, Crown, Shield, ChevronDown, Settings2, ListMusic } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { usePageNavigation } from '../hooks/usePageNavigation';
 import { usePermissions } from '../hooks/usePermissions';
@@ -18,7 +18,7 @@ export const UnifiedProfile = ({
   className = ""
 }: UnifiedProfileProps) => {
   const { user, signOut } = useAuth();
-  const { goToPersonalization, goToAdmin } = usePageNavigation();
+  const { goToPersonalization, goToAdmin, goToPlaylists } = usePageNavigation();
   const { isAdmin, canAccessAdmin, role } = usePermissions();
   const [isOpen, setIsOpen] = useState(false);
   const [profiles, setProfiles] = useState<UserProfile[]>([]);
@@ -240,6 +240,17 @@ export const UnifiedProfile = ({
                 </button>
               )}
 
+              <button
+                onClick={() => {
+                  goToPlaylists();
+                  setIsOpen(false);
+                }}
+                className="w-full flex items-center gap-3 p-3 hover:bg-slate-700 text-slate-300 rounded-lg transition-colors"
+              >
+                <ListMusic className="w-5 h-5" />
+                <span>My Playlists</span>
+              </button>
+
               <button
                 onClick={() => {
                   goToPersonalization();
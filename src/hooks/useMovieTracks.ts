@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { SkipSegmentType } from '../lib/supabase';
+import { subtitleService } from '../lib/subtitleService';
+import { skipSegmentService } from '../lib/skipSegmentService';
+
+interface PlayerSubtitleTrack {
+  id: string;
+  label: string;
+  language: string;
+  url: string;
+  isDefault?: boolean;
+}
+
+interface PlayerSkipSegment {
+  start: number;
+  end: number;
+  type: SkipSegmentType;
+}
+
+// Subtitle tracks and skip markers of a movie, in the shape the player takes
+export const useMovieTracks = (movieId: string | null | undefined) => {
+  const [subtitleTracks, setSubtitleTracks] = useState<PlayerSubtitleTrack[]>([]);
+  const [skipSegments, setSkipSegments] = useState<PlayerSkipSegment[]>([]);
+
+  useEffect(() => {
+    setSubtitleTracks([]);
+    setSkipSegments([]);
+    if (!movieId) return;
+
+    let cancelled = false;
+    subtitleService.getMovieSubtitles(movieId)
+      .then(subtitles => {
+        if (cancelled) return;
+        setSubtitleTracks(subtitles.map(subtitle => ({
+          id: subtitle.id,
+          label: subtitle.label,
+          language: subtitle.language,
+          url: subtitle.url,
+          isDefault: subtitle.is_default
+        })));
+      })
+      .catch(error => console.error('Error fetching subtitles:', error));
+
+    skipSegmentService.getMovieSkipSegments(movieId)
+      .then(segments => {
+        if (cancelled) return;
+        setSkipSegments(segments.map(segment => ({
+          start: segment.start_time,
+          end: segment.end_time,
+          type: segment.type
+        })));
+      })
+      .catch(error => console.error('Error fetching skip markers:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [movieId]);
+
+  return { subtitleTracks, skipSegments };
+};
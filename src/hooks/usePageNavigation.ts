@@ -1,4 +1,5 @@
 import { useNavigate } from 'react-router-dom';
+import { moviePath, trackPath, artistPath, albumPath, seriesPath, playlistPath } from '../lib/shareLinks';
 
 export const usePageNavigation = () => {
   const navigate = useNavigate();
@@ -11,6 +12,13 @@ export const usePageNavigation = () => {
   const goToSearch = () => navigate('/search');
   const goToPersonalization = () => navigate('/personalization');
   const goToAuth = () => navigate('/');
+  const goToMovie = (id: string) => navigate(moviePath(id));
+  const goToTrack = (id: string) => navigate(trackPath(id));
+  const goToArtist = (id: string) => navigate(artistPath(id));
+  const goToAlbum = (id: string) => navigate(albumPath(id));
+  const goToSeries = (id: string, seasonNumber?: number) => navigate(seriesPath(id, seasonNumber));
+  const goToPlaylists = () => navigate('/playlists');
+  const goToPlaylist = (id: string) => navigate(playlistPath(id));
 
   return {
     goToChoice,
@@ -21,6 +29,13 @@ export const usePageNavigation = () => {
     goToSearch,
     goToPersonalization,
     goToAuth,
+    goToMovie,
+    goToTrack,
+    goToArtist,
+    goToAlbum,
+    goToSeries,
+    goToPlaylists,
+    goToPlaylist,
     navigate
   };
 };
@@ -0,0 +1,18 @@
+import { useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { shareUrl, shareLink } from '../lib/shareLinks';
+
+// Shares the deep link of a page, toasting when it went to the clipboard
+export const useShareAction = () =>
+  useCallback(async (path: string, title: string, text?: string) => {
+    try {
+      const result = await shareLink(shareUrl(path), title, text);
+      if (result === 'copied') {
+        toast.success('Link copied to clipboard');
+      }
+    } catch (error) {
+      // Closing the share sheet rejects too
+      if (error instanceof Error && error.name === 'AbortError') return;
+      toast.error('Unable to share. Please copy the URL manually.');
+    }
+  }, []);
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { streamingService, StreamingAnalytics, QualityMetric, BufferEvent, PlaybackError, DropOffPoint } from '../lib/streamingService';
+import type { LivePlaybackState } from '../lib/livePresence';
 
 export interface UseStreamingAnalyticsOptions {
   mediaId: string;
   userId?: string;
+  mediaType?: 'movie' | 'music';
   enableAnalytics?: boolean;
   enableRealTimeTracking?: boolean;
 }
@@ -36,6 +38,8 @@ export interface UseStreamingAnalyticsReturn {
   trackSeek: (from: number, to: number) => void;
   trackPause: (position: number, duration: number) => void;
   trackResume: (position: number) => void;
+  trackPosition: (position: number, mediaDuration: number) => void;
+  trackPlaybackState: (state: LivePlaybackState) => void;
   
   // Analytics queries
   getWatchTimeByQuality: () => { [quality: string]: number };
@@ -53,6 +57,7 @@ export const useStreamingAnalytics = (options: UseStreamingAnalyticsOptions): Us
   const {
     mediaId,
     userId,
+    mediaType,
     enableAnalytics = true,
     enableRealTimeTracking = true
   } = options;
@@ -85,7 +90,7 @@ export const useStreamingAnalytics = (options: UseStreamingAnalyticsOptions): Us
   const startSession = useCallback(() => {
     if (!isTracking) return;
     
-    const newSessionId = streamingService.startAnalyticsSession(mediaId, userId);
+    const newSessionId = streamingService.startAnalyticsSession(mediaId, userId, mediaType);
     setSessionId(newSessionId);
     sessionStartTime.current = new Date();
     
@@ -93,7 +98,7 @@ export const useStreamingAnalytics = (options: UseStreamingAnalyticsOptions): Us
     if (enableRealTimeTracking) {
       startWatchTimeTracking();
     }
-  }, [mediaId, userId, isTracking, enableRealTimeTracking]);
+  }, [mediaId, userId, mediaType, isTracking, enableRealTimeTracking]);
 
   // End analytics session
   const endSession = useCallback((): StreamingAnalytics | null => {
@@ -227,6 +232,7 @@ export const useStreamingAnalytics = (options: UseStreamingAnalyticsOptions): Us
     if (!sessionId || !isTracking) return;
     
     pauseStartTime.current = new Date();
+    streamingService.recordPlaybackState(sessionId, 'paused');
     
     // Track pause event
     const pauseEvent = {
@@ -248,6 +254,7 @@ export const useStreamingAnalytics = (options: UseStreamingAnalyticsOptions): Us
       totalPauseTime.current += pauseDuration;
       pauseStartTime.current = null;
     }
+    streamingService.recordPlaybackState(sessionId, 'playing');
     
     // Track resume event
     const resumeEvent = {
@@ -259,6 +266,20 @@ export const useStreamingAnalytics = (options: UseStreamingAnalyticsOptions): Us
     console.log('Resume event:', resumeEvent);
   }, [sessionId, isTracking]);
 
+  // Track playback position, feeds watch time and completion
+  const trackPosition = useCallback((position: number, mediaDuration: number) => {
+    if (!sessionId || !isTracking) return;
+
+    streamingService.recordPlaybackPosition(sessionId, position, mediaDuration);
+  }, [sessionId, isTracking]);
+
+  // Playing/paused/buffering as shown to admins watching live viewers
+  const trackPlaybackState = useCallback((state: LivePlaybackState) => {
+    if (!sessionId || !isTracking) return;
+
+    streamingService.recordPlaybackState(sessionId, state);
+  }, [sessionId, isTracking]);
+
   // Analytics queries
   const getWatchTimeByQuality = useCallback(() => {
     const watchTime: { [quality: string]: number } = {};
@@ -345,6 +366,8 @@ export const useStreamingAnalytics = (options: UseStreamingAnalyticsOptions): Us
     trackSeek,
     trackPause,
     trackResume,
+    trackPosition,
+    trackPlaybackState,
     getWatchTimeByQuality,
     getBufferRate,
     getErrorRate,
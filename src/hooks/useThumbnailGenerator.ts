@@ -1,11 +1,44 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { generateCachedThumbnail, ThumbnailResult, ThumbnailOptions } from '../lib/thumbnailGenerator';
+import { generateCachedThumbnail, selectPosterFramesFromSource, ThumbnailOptions } from '../lib/thumbnailGenerator';
+import { mediaUrlService } from '../lib/mediaUrlService';
+import { posterService } from '../lib/posterService';
 
 interface UseThumbnailGeneratorOptions extends ThumbnailOptions {
   autoGenerate?: boolean; // Automatically generate thumbnail when video URL changes
-  fallbackUrl?: string; // Fallback image URL if generation fails
+  fallbackUrl?: string; // Stored thumbnail, used instead of generating one
+  movieId?: string; // Store the generated thumbnail on this movie for everyone
 }
 
+// Fewer frames than an upload scores, this runs while someone browses
+const STORED_THUMBNAIL_SAMPLES = 12;
+
+// One generation per movie at a time, however many cards show it
+const pendingStoredThumbnails = new Map<string, Promise<string>>();
+
+// Picks a poster frame for a movie without a thumbnail, stores it in every
+// size and returns the card size. Stored media is read through a playback
+// session.
+const generateStoredThumbnail = (movieId: string, videoUrl: string): Promise<string> => {
+  let pending = pendingStoredThumbnails.get(movieId);
+  if (!pending) {
+    pending = (async () => {
+      const session = mediaUrlService.isProtected(videoUrl)
+        ? await mediaUrlService.openPlaybackSession(movieId, 'movie')
+        : null;
+      try {
+        const source = session ? await session.sign(videoUrl) : videoUrl;
+        const [best] = await selectPosterFramesFromSource(source, { samples: STORED_THUMBNAIL_SAMPLES });
+        const stored = await posterService.saveGeneratedThumbnail(movieId, best.blob);
+        return stored.thumbnail_sizes?.card || stored.thumbnail_url;
+      } finally {
+        session?.close();
+      }
+    })().finally(() => pendingStoredThumbnails.delete(movieId));
+    pendingStoredThumbnails.set(movieId, pending);
+  }
+  return pending;
+};
+
 interface UseThumbnailGeneratorReturn {
   thumbnail: string | null;
   isLoading: boolean;
@@ -24,6 +57,7 @@ export const useThumbnailGenerator = (
   const {
     autoGenerate = true,
     fallbackUrl,
+    movieId,
     timeOffset = 5,
     width = 320,
     height = 180,
@@ -41,6 +75,19 @@ export const useThumbnailGenerator = (
       return;
     }
 
+    // Stored thumbnails are shared, nothing to generate
+    if (fallbackUrl) {
+      setThumbnail(fallbackUrl);
+      return;
+    }
+
+    // Files in the private media bucket need a playback session to load,
+    // which is only worth it when the result is stored for everyone
+    if (mediaUrlService.isProtected(videoUrl) && !movieId) {
+      setThumbnail(null);
+      return;
+    }
+
     // Cancel any ongoing generation
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -54,19 +101,16 @@ export const useThumbnailGenerator = (
     setError(null);
 
     try {
-      const result = await generateCachedThumbnail(videoUrl, {
-        timeOffset,
-        width,
-        height,
-        quality
-      });
+      const url = movieId
+        ? await generateStoredThumbnail(movieId, videoUrl)
+        : (await generateCachedThumbnail(videoUrl, { timeOffset, width, height, quality })).dataUrl;
 
       // Check if the operation was aborted
       if (signal.aborted) {
         return;
       }
 
-      setThumbnail(result.dataUrl);
+      setThumbnail(url);
     } catch (err) {
       if (signal.aborted) {
         return;
@@ -77,17 +121,12 @@ export const useThumbnailGenerator = (
       
       const errorMessage = err instanceof Error ? err.message : 'Failed to generate thumbnail';
       setError(errorMessage);
-      
-      // Use fallback URL if available
-      if (fallbackUrl) {
-        setThumbnail(fallbackUrl);
-      }
     } finally {
       if (!signal.aborted) {
         setIsLoading(false);
       }
     }
-  }, [videoUrl, timeOffset, width, height, quality, fallbackUrl]);
+  }, [videoUrl, timeOffset, width, height, quality, fallbackUrl, movieId]);
 
   const clearThumbnail = useCallback(() => {
     setThumbnail(null);
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { loadTrickPlay, TrickPlayTile } from '../lib/trickPlay';
+import { mediaUrlService, PlaybackUrlSession } from '../lib/mediaUrlService';
+
+// Tiles of a movie's thumbnails track, loaded once enabled (e.g. on first
+// hover) so lists don't fetch a track for every card up front. Stored
+// tracks wait for a playback session to sign them.
+export const useTrickPlay = (
+  vttUrl: string | null | undefined,
+  session: PlaybackUrlSession | null,
+  enabled = true
+) => {
+  const [tiles, setTiles] = useState<TrickPlayTile[]>([]);
+
+  useEffect(() => {
+    setTiles([]);
+    if (!vttUrl || !enabled) return;
+    if (mediaUrlService.isProtected(vttUrl) && !session) return;
+
+    let cancelled = false;
+    loadTrickPlay(vttUrl, session)
+      .then(loaded => {
+        if (!cancelled) setTiles(loaded);
+      })
+      .catch(error => console.warn('Failed to load trick-play thumbnails:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vttUrl, session, enabled]);
+
+  return tiles;
+};
+
+// Playback session of a movie card's hover previews: opened on first hover
+// of a stored track, with the same checks as playing the movie, and closed
+// with the card
+export const usePreviewSession = (
+  movieId: string,
+  vttUrl: string | null | undefined,
+  profileId: string | undefined,
+  enabled: boolean
+) => {
+  const [session, setSession] = useState<PlaybackUrlSession | null>(null);
+  const isProtected = mediaUrlService.isProtected(vttUrl);
+
+  useEffect(() => {
+    if (!enabled || !isProtected) return;
+
+    let cancelled = false;
+    let opened: PlaybackUrlSession | null = null;
+    mediaUrlService.openPlaybackSession(movieId, 'movie', profileId)
+      .then(created => {
+        opened = created;
+        if (cancelled) {
+          created.close();
+        } else {
+          setSession(created);
+        }
+      })
+      // Restricted titles simply get no previews
+      .catch(error => console.warn('Failed to open preview session:', error));
+
+    return () => {
+      cancelled = true;
+      opened?.close();
+      setSession(null);
+    };
+  }, [movieId, profileId, isProtected, enabled]);
+
+  return session;
+};
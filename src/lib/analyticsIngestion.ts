@@ -0,0 +1,397 @@
+import { supabase } from './supabase';
+
+// Batched delivery of playback analytics to ingest_playback_analytics.
+// Records wait in a queue that is mirrored to localStorage per signed-in
+// user, so batches that could not be sent (offline, server errors) go out
+// on that user's next visit and never under another account. Batches the
+// server rejects for good (most 4xx) are dropped instead of blocking the queue.
+// Session snapshots are keyed by session id and only the latest one is
+// kept; events carry their own id so a retried batch is never counted twice.
+// Sessions are created by signed-in batches only. Each one carries a random
+// beacon token, which the page-unload beacon presents instead of a JWT.
+
+export interface PlaybackSessionRecord {
+  id: string;
+  media_id: string;
+  media_type: 'movie' | 'music' | null;
+  started_at: string;
+  ended_at: string | null;
+  watch_time: number;
+  media_duration: number | null;
+  last_position: number;
+  max_position: number;
+  quality_levels: unknown[];
+  device_info: object;
+  network_info: object;
+  beacon_token?: string; // Lets beacons append to the session
+}
+
+export interface PlaybackBufferEventRecord {
+  id: string;
+  session_id: string;
+  occurred_at: string;
+  position: number; // Media position in seconds
+  duration_ms: number;
+  reason: string;
+  quality: string;
+}
+
+export interface PlaybackErrorRecord {
+  id: string;
+  session_id: string;
+  occurred_at: string;
+  position: number;
+  error_type: string;
+  error_code: string;
+  message: string;
+  recoverable: boolean;
+}
+
+export interface PlaybackDropOffRecord {
+  id: string;
+  session_id: string;
+  occurred_at: string;
+  position: number;
+  reason: string;
+  context: unknown;
+}
+
+interface AnalyticsBatch {
+  sessions: PlaybackSessionRecord[];
+  buffer_events: PlaybackBufferEventRecord[];
+  errors: PlaybackErrorRecord[];
+  drop_offs: PlaybackDropOffRecord[];
+}
+
+// Beacon tokens of the sessions a beacon batch appends to, by session id
+interface BeaconBatch extends AnalyticsBatch {
+  tokens: Record<string, string>;
+}
+
+type EventKind = 'buffer_events' | 'errors' | 'drop_offs';
+
+const STORAGE_KEY = 'analyticsQueue';
+const FLUSH_INTERVAL_MS = 10000;
+const MAX_BATCH_EVENTS = 200;
+const MAX_QUEUED_EVENTS = 5000; // Oldest events are dropped beyond this
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// 0: the request never got an answer; 401: the JWT expired and is refreshed
+const RETRYABLE_STATUSES = [0, 401, 408, 429];
+const BEACON_LIMIT_BYTES = 60000; // Browsers cap a beacon at 64KB
+
+const emptyBatch = (): AnalyticsBatch => ({ sessions: [], buffer_events: [], errors: [], drop_offs: [] });
+
+const eventCount = (batch: AnalyticsBatch) =>
+  batch.buffer_events.length + batch.errors.length + batch.drop_offs.length;
+
+const storageKey = (userId: string) => `${STORAGE_KEY}:${userId}`;
+
+const isRetryable = (status: number) => RETRYABLE_STATUSES.includes(status) || status >= 500;
+
+class AnalyticsIngestion {
+  private sessions = new Map<string, PlaybackSessionRecord>();
+  private beaconTokens = new Map<string, string>();
+  private storedSessions = new Set<string>(); // Accepted by a signed-in batch
+  private events: Pick<AnalyticsBatch, EventKind> = { buffer_events: [], errors: [], drop_offs: [] };
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing = false;
+  private failures = 0;
+  private unloadHandlers: (() => void)[] = [];
+  private userId: string | null | undefined; // undefined until the auth state is known
+
+  constructor() {
+    supabase.auth.onAuthStateChange((_event, session) => this.switchUser(session?.user.id ?? null));
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.flush());
+      // pagehide also fires on mobile where unload never does
+      window.addEventListener('pagehide', () => {
+        this.unloadHandlers.forEach(handler => handler());
+        this.flushWithBeacon();
+      });
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.flushWithBeacon();
+        }
+      });
+    }
+  }
+
+  // Runs right before the final beacon, e.g. to close open sessions
+  public onUnload(handler: () => void): void {
+    this.unloadHandlers.push(handler);
+  }
+
+  public upsertSession(session: PlaybackSessionRecord): void {
+    let token = this.beaconTokens.get(session.id);
+    if (!token) {
+      token = crypto.randomUUID();
+      this.beaconTokens.set(session.id, token);
+    }
+
+    this.sessions.set(session.id, { ...session, beacon_token: token });
+    this.schedule();
+  }
+
+  public addEvent<K extends EventKind>(kind: K, record: AnalyticsBatch[K][number]): void {
+    (this.events[kind] as AnalyticsBatch[K][number][]).push(record);
+    this.trimQueue();
+
+    // Errors are worth seeing in the dashboards right away
+    this.schedule(kind === 'errors' || eventCount(this.pending()) >= MAX_BATCH_EVENTS ? 0 : FLUSH_INTERVAL_MS);
+  }
+
+  // Sends everything queued so far. Failed batches stay queued and are
+  // retried with exponential backoff; offline browsers wait for "online".
+  public async flush(): Promise<void> {
+    if (this.flushing || !this.userId || !this.hasPending()) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.persist();
+      return;
+    }
+
+    this.flushing = true;
+    this.clearTimer();
+    const owner = this.userId;
+    const batch = this.takeBatch();
+
+    try {
+      const { error, status } = await supabase.rpc('ingest_playback_analytics', { p_batch: batch });
+      if (error && isRetryable(status)) throw error;
+
+      if (error) {
+        // Sending it again would get the same answer
+        console.warn(`Dropping analytics batch rejected with HTTP ${status}:`, error);
+      } else if (this.userId === owner) {
+        batch.sessions.forEach(session => this.storedSessions.add(session.id));
+      }
+      this.failures = 0;
+    } catch (error) {
+      if (this.userId === owner) {
+        this.requeue(batch);
+      } else {
+        this.stash(owner, batch);
+      }
+      this.failures++;
+      console.warn(`Analytics batch failed (attempt ${this.failures}), retrying later:`, error);
+    } finally {
+      this.flushing = false;
+      this.persist();
+    }
+
+    if (this.hasPending()) {
+      const delay = this.failures > 0
+        ? Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** this.failures)
+        : 0;
+      this.schedule(delay);
+    }
+  }
+
+  // Last chance delivery while the page goes away. A beacon cannot carry
+  // the session's JWT, so it only appends to sessions a signed-in batch
+  // already stored, proven by their beacon tokens. Everything else, and
+  // whatever does not fit in one beacon, stays in localStorage for the
+  // next visit.
+  public flushWithBeacon(): void {
+    if (!this.hasPending()) return;
+
+    const url = import.meta.env.VITE_SUPABASE_URL as string;
+    const key = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+    if (typeof navigator === 'undefined' || !navigator.sendBeacon || !url || !key) {
+      this.persist();
+      return;
+    }
+
+    const batch = this.takeBeaconBatch();
+    if (!batch) {
+      this.persist();
+      return;
+    }
+
+    let body = JSON.stringify(batch);
+    if (body.length > BEACON_LIMIT_BYTES) {
+      // Sessions are small, events are trimmed oldest first until it fits
+      const remainder = emptyBatch();
+      while (body.length > BEACON_LIMIT_BYTES && eventCount(batch) > 0) {
+        const kind = (['buffer_events', 'drop_offs', 'errors'] as EventKind[])
+          .find(candidate => batch[candidate].length > 0)!;
+        (remainder[kind] as unknown[]).push(batch[kind].shift());
+        body = JSON.stringify(batch);
+      }
+      this.requeue(remainder);
+    }
+
+    const sent = navigator.sendBeacon(
+      `${url}/rest/v1/rpc/ingest_playback_analytics_beacon?apikey=${encodeURIComponent(key)}`,
+      new Blob([body], { type: 'text/plain' })
+    );
+
+    if (!sent) {
+      this.requeue(batch);
+    }
+    this.persist();
+  }
+
+  private hasPending(): boolean {
+    return this.sessions.size > 0 || eventCount(this.pending()) > 0;
+  }
+
+  private pending(): AnalyticsBatch {
+    return { sessions: Array.from(this.sessions.values()), ...this.events };
+  }
+
+  private takeBatch(): AnalyticsBatch {
+    const batch = this.pending();
+    this.sessions.clear();
+    this.events = { buffer_events: [], errors: [], drop_offs: [] };
+    return batch;
+  }
+
+  // The queued records of stored sessions whose token is known, or null if
+  // there are none; the rest stays queued
+  private takeBeaconBatch(): BeaconBatch | null {
+    const tokens: Record<string, string> = {};
+    this.storedSessions.forEach(id => {
+      const token = this.beaconTokens.get(id);
+      if (token) tokens[id] = token;
+    });
+
+    const ids = new Set(Object.keys(tokens));
+    const batch = this.takeBatch();
+    const beacon: BeaconBatch = {
+      tokens,
+      sessions: batch.sessions.filter(session => ids.has(session.id)),
+      buffer_events: batch.buffer_events.filter(event => ids.has(event.session_id)),
+      errors: batch.errors.filter(event => ids.has(event.session_id)),
+      drop_offs: batch.drop_offs.filter(event => ids.has(event.session_id))
+    };
+
+    this.requeue({
+      sessions: batch.sessions.filter(session => !ids.has(session.id)),
+      buffer_events: batch.buffer_events.filter(event => !ids.has(event.session_id)),
+      errors: batch.errors.filter(event => !ids.has(event.session_id)),
+      drop_offs: batch.drop_offs.filter(event => !ids.has(event.session_id))
+    });
+    return beacon.sessions.length > 0 || eventCount(beacon) > 0 ? beacon : null;
+  }
+
+  // Newer session snapshots recorded while the batch was in flight win
+  private requeue(batch: AnalyticsBatch): void {
+    batch.sessions.forEach(session => {
+      if (!this.sessions.has(session.id)) {
+        this.sessions.set(session.id, session);
+      }
+    });
+    this.events = {
+      buffer_events: [...batch.buffer_events, ...this.events.buffer_events],
+      errors: [...batch.errors, ...this.events.errors],
+      drop_offs: [...batch.drop_offs, ...this.events.drop_offs]
+    };
+    this.trimQueue();
+  }
+
+  private trimQueue(): void {
+    let overflow = eventCount(this.pending()) - MAX_QUEUED_EVENTS;
+    for (const kind of ['buffer_events', 'drop_offs', 'errors'] as EventKind[]) {
+      if (overflow <= 0) break;
+      const removed = Math.min(overflow, this.events[kind].length);
+      this.events[kind].splice(0, removed);
+      overflow -= removed;
+    }
+  }
+
+  private schedule(delay = FLUSH_INTERVAL_MS): void {
+    if (this.flushing) return;
+    if (this.flushTimer && delay > 0) return;
+
+    this.clearTimer();
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  // The queue of the previous account stays in its own storage slot; the
+  // new account picks up where its last visit left off
+  private switchUser(userId: string | null): void {
+    if (userId === this.userId) return;
+
+    if (this.userId !== undefined) {
+      this.clearTimer();
+      this.persist();
+      this.sessions.clear();
+      this.events = { buffer_events: [], errors: [], drop_offs: [] };
+      this.beaconTokens.clear();
+      this.storedSessions.clear();
+    }
+
+    this.userId = userId;
+    this.restore();
+    if (this.hasPending()) {
+      this.schedule(0);
+    }
+  }
+
+  private persist(): void {
+    if (!this.userId) return;
+
+    try {
+      if (this.hasPending()) {
+        localStorage.setItem(storageKey(this.userId), JSON.stringify(this.pending()));
+      } else {
+        localStorage.removeItem(storageKey(this.userId));
+      }
+    } catch (error) {
+      console.warn('Failed to store analytics queue:', error);
+    }
+  }
+
+  private restore(): void {
+    if (!this.userId) return;
+
+    const saved = this.readStored(this.userId);
+    if (saved) {
+      this.requeue(saved);
+    }
+  }
+
+  // Adds a batch that failed after its account signed out to that
+  // account's stored queue
+  private stash(userId: string | null | undefined, batch: AnalyticsBatch): void {
+    if (!userId) return;
+
+    const saved = this.readStored(userId) || emptyBatch();
+    const merged: AnalyticsBatch = {
+      sessions: [...batch.sessions.filter(session => !saved.sessions.some(stored => stored.id === session.id)), ...saved.sessions],
+      buffer_events: [...batch.buffer_events, ...saved.buffer_events],
+      errors: [...batch.errors, ...saved.errors],
+      drop_offs: [...batch.drop_offs, ...saved.drop_offs]
+    };
+
+    try {
+      localStorage.setItem(storageKey(userId), JSON.stringify(merged));
+    } catch (error) {
+      console.warn('Failed to store analytics queue:', error);
+    }
+  }
+
+  private readStored(userId: string): AnalyticsBatch | null {
+    try {
+      const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(storageKey(userId)) : null;
+      return saved ? { ...emptyBatch(), ...JSON.parse(saved) } : null;
+    } catch (error) {
+      console.warn('Discarding unreadable analytics queue:', error);
+      localStorage.removeItem(storageKey(userId));
+      return null;
+    }
+  }
+}
+
+export const analyticsIngestion = new AnalyticsIngestion();
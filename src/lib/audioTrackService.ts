@@ -0,0 +1,65 @@
+import { supabase, MovieAudioTrack } from './supabase';
+import { getLanguageName } from './constants';
+
+export const audioTrackService = {
+  async getMovieAudioTracks(movieId: string): Promise<MovieAudioTrack[]> {
+    const { data, error } = await supabase
+      .from('movie_audio_tracks')
+      .select('*')
+      .eq('movie_id', movieId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Stores the source file only. The transcoding worker encodes it and adds
+  // it to the movie's HLS master playlist as an alternate audio rendition.
+  async uploadMovieAudioTrack(
+    movieId: string,
+    file: File,
+    language: string,
+    label: string,
+    isAudioDescription = false
+  ): Promise<MovieAudioTrack> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'audio';
+    const kind = isAudioDescription ? 'ad' : 'dub';
+    const storagePath = `audio-tracks/${movieId}/${language}-${kind}-${Date.now()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('media')
+      .upload(storagePath, file, { contentType: file.type || undefined });
+
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('movie_audio_tracks')
+      .insert({
+        movie_id: movieId,
+        language,
+        label: label || `${getLanguageName(language)}${isAudioDescription ? ' (Audio Description)' : ''}`,
+        is_audio_description: isAudioDescription,
+        source_path: storagePath
+      })
+      .select()
+      .single();
+
+    if (error) {
+      await supabase.storage.from('media').remove([storagePath]);
+      throw error;
+    }
+
+    return data;
+  },
+
+  async deleteMovieAudioTrack(track: MovieAudioTrack): Promise<void> {
+    const { error } = await supabase
+      .from('movie_audio_tracks')
+      .delete()
+      .eq('id', track.id);
+
+    if (error) throw error;
+
+    await supabase.storage.from('media').remove([track.source_path]);
+  }
+};
@@ -0,0 +1,282 @@
+import type { CDNConfig, CdnSettingsRow } from './streamingService';
+
+// Purges, cache warming and health checks go through one of these adapters,
+// picked by CDNConfig.provider. They need the CDN's signing key and API
+// token, so only the CDN worker (worker/cdnWorker.ts) creates them; players
+// get their CDN URLs signed by sign_cdn_urls in the database, in the same
+// formats. Paths are object paths relative to the CDN endpoint (e.g.
+// transcoded/<jobId>/hls/master.m3u8).
+
+// The shared settings with the secrets they name resolved
+export interface CdnAdapterConfig extends Omit<CDNConfig, 'signingKeySecret' | 'apiTokenSecret'> {
+  signingKey?: string;
+  apiToken?: string;
+}
+
+export interface CdnHealth {
+  healthy: boolean;
+  latencyMs: number | null;
+  status: number | null; // HTTP status of the edge probe
+  message: string;
+  checkedAt: string;
+}
+
+export interface CdnWarmResult {
+  path: string;
+  ok: boolean;
+  status: number | null;
+  cacheStatus: string | null; // HIT/MISS as reported by the edge, if it exposes it
+}
+
+export interface CdnAdapter {
+  readonly provider: CdnAdapterConfig['provider'];
+  getUrl(path: string): string;
+  // Unsigned URL when no signing key is configured
+  signUrl(path: string, expiresIn?: number): Promise<string>;
+  purge(paths: string[] | 'all'): Promise<void>;
+  prefetch(paths: string[]): Promise<CdnWarmResult[]>;
+  healthCheck(): Promise<CdnHealth>;
+}
+
+const WARM_CONCURRENCY = 4;
+const CLOUDFLARE_API = 'https://api.cloudflare.com/client/v4';
+const CLOUDFLARE_PURGE_BATCH = 30; // Files per purge_cache call
+
+const hmacSha256 = async (key: string, message: string): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Reads a response to the end without keeping it, so warming large files
+// doesn't hold them in memory
+const drain = async (response: Response): Promise<void> => {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+  while (!(await reader.read()).done) {
+    // Discard
+  }
+};
+
+// Generic origin or pull zone serving the files under CDNConfig.endpoint.
+// Signed URLs carry ?expires=<unix seconds>&token=<base64url HMAC-SHA256 of
+// path + expires>, which the origin (or an edge rule) has to verify. Purging
+// posts { paths } or { all: true } to CDNConfig.purgeUrl.
+export class CustomOriginAdapter implements CdnAdapter {
+  public readonly provider: CdnAdapterConfig['provider'] = 'custom';
+
+  constructor(protected readonly config: CdnAdapterConfig) {}
+
+  public getUrl(path: string): string {
+    const base = this.config.endpoint.replace(/\/+$/, '');
+    const url = `${base}/${path.replace(/^\/+/, '').split('/').map(encodeURIComponent).join('/')}`;
+    return this.config.sslEnabled ? url.replace(/^http:/, 'https:') : url;
+  }
+
+  public async signUrl(path: string, expiresIn = this.config.cacheTtl): Promise<string> {
+    const url = new URL(this.getUrl(path));
+    if (!this.config.signingKey) return url.toString();
+
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const token = await hmacSha256(this.config.signingKey, `${url.pathname}${expires}`);
+    url.searchParams.set('expires', expires.toString());
+    url.searchParams.set('token', toBase64Url(token));
+    return url.toString();
+  }
+
+  public async purge(paths: string[] | 'all'): Promise<void> {
+    if (!this.config.purgeUrl) {
+      throw new Error('Set a purge URL to purge the custom origin');
+    }
+
+    const response = await fetch(this.config.purgeUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiToken && { Authorization: `Bearer ${this.config.apiToken}` })
+      },
+      body: JSON.stringify(paths === 'all' ? { all: true } : { paths })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Purge failed: HTTP ${response.status}`);
+    }
+  }
+
+  // Requests every path through the edge so it is cached before viewers ask
+  public async prefetch(paths: string[]): Promise<CdnWarmResult[]> {
+    const results: CdnWarmResult[] = new Array(paths.length);
+    let next = 0;
+
+    const warmNext = async (): Promise<void> => {
+      while (next < paths.length) {
+        const index = next++;
+        const path = paths[index];
+        try {
+          const response = await fetch(await this.signUrl(path));
+          await drain(response);
+          results[index] = {
+            path,
+            ok: response.ok,
+            status: response.status,
+            cacheStatus: this.cacheStatus(response)
+          };
+        } catch {
+          results[index] = { path, ok: false, status: null, cacheStatus: null };
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(WARM_CONCURRENCY, paths.length) }, warmNext));
+    return results;
+  }
+
+  public async healthCheck(): Promise<CdnHealth> {
+    return this.probeEdge();
+  }
+
+  protected cacheStatus(response: Response): string | null {
+    return response.headers.get('x-cache') || response.headers.get('x-cache-status');
+  }
+
+  // Any answer below 500 means the edge is up, a 404 for the probe path included
+  protected async probeEdge(): Promise<CdnHealth> {
+    const started = performance.now();
+    const checkedAt = new Date().toISOString();
+
+    try {
+      const response = await fetch(this.getUrl(this.config.healthPath || ''), { method: 'HEAD', cache: 'no-store' });
+      const latencyMs = Math.round(performance.now() - started);
+      return {
+        healthy: response.status < 500,
+        latencyMs,
+        status: response.status,
+        message: response.status < 500 ? 'Edge reachable' : `Edge answered HTTP ${response.status}`,
+        checkedAt
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        latencyMs: null,
+        status: null,
+        message: error instanceof Error ? error.message : 'Edge unreachable',
+        checkedAt
+      };
+    }
+  }
+}
+
+interface CloudflareResponse<T> {
+  success: boolean;
+  errors: Array<{ code: number; message: string }>;
+  result: T;
+}
+
+// Cloudflare zone in front of the origin. Signed URLs use the token format
+// of the is_timed_hmac_valid_v0 WAF function (?verify=<issued at>-<base64
+// HMAC-SHA256 of path + issued at>); the rule that checks them decides how
+// long they stay valid. Purges and the zone status go through the API,
+// whose base URL can point at a local stand-in (npm run cdn:standin).
+export class CloudflareAdapter extends CustomOriginAdapter {
+  public readonly provider: CdnAdapterConfig['provider'] = 'cloudflare';
+
+  public async signUrl(path: string): Promise<string> {
+    const url = new URL(this.getUrl(path));
+    if (!this.config.signingKey) return url.toString();
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const mac = await hmacSha256(this.config.signingKey, `${url.pathname}${issuedAt}`);
+    url.searchParams.set('verify', `${issuedAt}-${toBase64(mac)}`);
+    return url.toString();
+  }
+
+  public async purge(paths: string[] | 'all'): Promise<void> {
+    if (paths === 'all') {
+      await this.api('purge_cache', { purge_everything: true });
+      return;
+    }
+
+    const files = paths.map(path => this.getUrl(path));
+    for (let start = 0; start < files.length; start += CLOUDFLARE_PURGE_BATCH) {
+      await this.api('purge_cache', { files: files.slice(start, start + CLOUDFLARE_PURGE_BATCH) });
+    }
+  }
+
+  // Healthy when the zone is active and the edge answers
+  public async healthCheck(): Promise<CdnHealth> {
+    const edge = await this.probeEdge();
+
+    try {
+      const zone = await this.api<{ status: string; paused: boolean }>('');
+      if (zone.paused || zone.status !== 'active') {
+        return { ...edge, healthy: false, message: `Zone is ${zone.paused ? 'paused' : zone.status}` };
+      }
+      return edge;
+    } catch (error) {
+      return { ...edge, healthy: false, message: error instanceof Error ? error.message : 'Zone check failed' };
+    }
+  }
+
+  protected cacheStatus(response: Response): string | null {
+    return response.headers.get('cf-cache-status') || super.cacheStatus(response);
+  }
+
+  private async api<T>(action: string, body?: object): Promise<T> {
+    if (!this.config.zoneId || !this.config.apiToken) {
+      throw new Error('Set the zone ID and API token to use the Cloudflare API');
+    }
+
+    const base = (this.config.apiBaseUrl || CLOUDFLARE_API).replace(/\/+$/, '');
+    const response = await fetch(`${base}/zones/${this.config.zoneId}${action ? `/${action}` : ''}`, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.config.apiToken}`
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    const payload = await response.json().catch(() => null) as CloudflareResponse<T> | null;
+    if (!response.ok || !payload?.success) {
+      const reason = payload?.errors?.map(error => error.message).join(', ') || `HTTP ${response.status}`;
+      throw new Error(`Cloudflare API: ${reason}`);
+    }
+    return payload.result;
+  }
+}
+
+export const cdnConfigFromRow = (row: CdnSettingsRow): CDNConfig => ({
+  provider: row.provider,
+  endpoint: row.endpoint,
+  failoverEndpoints: row.failover_endpoints,
+  cacheTtl: row.cache_ttl,
+  sslEnabled: row.ssl_enabled,
+  healthPath: row.health_path ?? undefined,
+  purgeUrl: row.purge_url ?? undefined,
+  zoneId: row.zone_id ?? undefined,
+  apiBaseUrl: row.api_base_url ?? undefined,
+  signingKeySecret: row.signing_key_secret ?? undefined,
+  apiTokenSecret: row.api_token_secret ?? undefined
+});
+
+// AWS and Azure have no adapter of their own yet; their CDNs pull from the
+// origin like any other, so they get the custom origin behaviour
+export const createCdnAdapter = (config: CdnAdapterConfig): CdnAdapter => {
+  switch (config.provider) {
+    case 'cloudflare':
+      return new CloudflareAdapter(config);
+    default:
+      return new CustomOriginAdapter(config);
+  }
+};
@@ -31,3 +31,23 @@ export const ADMIN_PERMISSIONS: Permission[] = [
 export const USER_PERMISSIONS: Permission[] = [
   'view_content'
 ];
+
+// Languages offered for subtitle and audio tracks, keyed by the same
+// ISO 639-1 codes as ViewingPreferences.preferred_language
+export const CONTENT_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'am', name: 'Amharic' }
+];
+
+export const getLanguageName = (code: string): string =>
+  CONTENT_LANGUAGES.find(language => language.code === code)?.name || code.toUpperCase();
@@ -44,9 +44,11 @@ export const dataService = {
   async fetchMovies(): Promise<Movie[]> {
     try {
       const result = await retryWithBackoff(async () => {
+        // Episodes are listed on their series' pages
         const { data, error } = await supabase
           .from('movies')
           .select('*')
+          .eq('is_episode', false)
           .order('created_at', { ascending: false });
 
         if (error) {
@@ -85,6 +87,77 @@ export const dataService = {
       // Don't show toast here, let the component handle the error display
       throw error; // Re-throw to let the component handle it
     }
+  },
+
+  // Single titles for detail pages; null when the id doesn't exist
+  async fetchMovie(id: string): Promise<Movie | null> {
+    return retryWithBackoff(async () => {
+      const { data, error } = await supabase
+        .from('movies')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return data;
+    });
+  },
+
+  async fetchTrack(id: string): Promise<Music | null> {
+    return retryWithBackoff(async () => {
+      const { data, error } = await supabase
+        .from('music')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return data;
+    });
+  },
+
+  // Album by album, each in track order
+  async fetchMusicByArtist(artistId: string): Promise<Music[]> {
+    return retryWithBackoff(async () => {
+      const { data, error } = await supabase
+        .from('music')
+        .select('*')
+        .eq('artist_id', artistId)
+        .order('album', { ascending: true })
+        .order('disc_number', { ascending: true })
+        .order('track_number', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return data || [];
+    });
+  },
+
+  async fetchMusicByAlbum(albumId: string): Promise<Music[]> {
+    return retryWithBackoff(async () => {
+      const { data, error } = await supabase
+        .from('music')
+        .select('*')
+        .eq('album_id', albumId)
+        .order('disc_number', { ascending: true })
+        .order('track_number', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`);
+      }
+
+      return data || [];
+    });
   }
 };
 
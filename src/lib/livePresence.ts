@@ -0,0 +1,203 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Who is watching what right now, shared over a private Supabase Realtime
+// channel only admins may join. Players can't write to it themselves: every
+// tab that plays media sends its open playback sessions to
+// publish_live_viewers with a heartbeat, which stamps the signed-in user and
+// broadcasts them. Playback errors reach the live error feed the same way
+// (they are stored through analytics ingestion as well). Payloads carry ids
+// and playback state only, never names or emails.
+
+export type LivePlaybackState = 'starting' | 'playing' | 'paused' | 'buffering';
+
+export interface LiveViewer {
+  sessionId: string;
+  userId: string; // Set by the server, signed out viewers aren't listed
+  mediaId: string;
+  mediaType: 'movie' | 'music' | null;
+  state: LivePlaybackState;
+  quality: string;
+  position: number; // Seconds
+  rebufferCount: number;
+  rebufferMs: number;
+  bufferingSince: string | null;
+  device: 'Mobile' | 'Desktop';
+  updatedAt: string;
+}
+
+export interface LivePlaybackError {
+  sessionId: string;
+  mediaId: string;
+  mediaType: 'movie' | 'music' | null;
+  errorType: string;
+  errorCode: string;
+  message: string;
+  recoverable: boolean;
+  position: number;
+  occurredAt: string;
+}
+
+type ViewersListener = (viewers: LiveViewer[]) => void;
+type ErrorListener = (error: LivePlaybackError) => void;
+
+// One tab's sessions as broadcast by publish_live_viewers
+interface LiveViewersMessage {
+  tabId: string;
+  userId: string;
+  viewers: LiveViewer[];
+}
+
+const CHANNEL = 'live-viewers';
+const HEARTBEAT_MS = 10000;
+// Hidden tabs get their timers throttled, frozen ones stop sending at all
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+class LivePresence {
+  private channel: RealtimeChannel | null = null;
+  private subscribed = false;
+  private viewers = new Map<string, Omit<LiveViewer, 'userId' | 'updatedAt'>>();
+  private tabs = new Map<string, LiveViewer[]>(); // Other tabs' sessions, by user and tab
+  private viewersListeners = new Set<ViewersListener>();
+  private errorListeners = new Set<ErrorListener>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly tabId = crypto.randomUUID();
+
+  public join(viewer: Omit<LiveViewer, 'userId' | 'updatedAt'>): void {
+    this.viewers.set(viewer.sessionId, viewer);
+    this.publish();
+
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => this.publish(), HEARTBEAT_MS);
+    }
+  }
+
+  // Positions only travel with the next heartbeat, state changes go out at once
+  public update(sessionId: string, changes: Partial<Omit<LiveViewer, 'sessionId' | 'userId' | 'updatedAt'>>): void {
+    const viewer = this.viewers.get(sessionId);
+    if (!viewer) return;
+
+    const publishNow = Object.keys(changes).some(key => key !== 'position');
+    this.viewers.set(sessionId, { ...viewer, ...changes });
+
+    if (publishNow) {
+      this.publish();
+    }
+  }
+
+  public leave(sessionId: string): void {
+    if (!this.viewers.delete(sessionId)) return;
+
+    if (this.viewers.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.publish();
+  }
+
+  public async reportError(error: LivePlaybackError): Promise<void> {
+    if (!(await this.isSignedIn())) return;
+
+    const { error: sendError } = await supabase.rpc('report_live_playback_error', { p_error: error });
+    if (sendError) {
+      console.warn('Failed to report live playback error:', sendError);
+    }
+  }
+
+  // Admins only, the channel refuses everyone else. Tabs show up with their
+  // next heartbeat. Returns an unsubscribe function.
+  public watch(onViewers: ViewersListener, onError?: ErrorListener): () => void {
+    this.viewersListeners.add(onViewers);
+    if (onError) this.errorListeners.add(onError);
+
+    this.connect();
+    if (this.subscribed) {
+      onViewers(this.currentViewers());
+    }
+
+    return () => {
+      this.viewersListeners.delete(onViewers);
+      if (onError) this.errorListeners.delete(onError);
+      this.disconnectIfIdle();
+    };
+  }
+
+  private connect(): void {
+    if (this.channel) return;
+
+    this.channel = supabase
+      .channel(CHANNEL, { config: { private: true } })
+      .on('broadcast', { event: 'live_viewers' }, ({ payload }) => {
+        const message = payload as LiveViewersMessage;
+        const key = `${message.userId}:${message.tabId}`;
+        if (message.viewers.length > 0) {
+          this.tabs.set(key, message.viewers);
+        } else {
+          this.tabs.delete(key);
+        }
+        this.notifyViewers();
+      })
+      .on('broadcast', { event: 'playback_error' }, ({ payload }) => {
+        this.errorListeners.forEach(listener => listener(payload as LivePlaybackError));
+      })
+      .subscribe((status, error) => {
+        this.subscribed = status === 'SUBSCRIBED';
+        if (this.subscribed) {
+          this.notifyViewers();
+        } else if (status === 'CHANNEL_ERROR') {
+          console.warn('Failed to join live viewers channel:', error);
+        }
+      });
+
+    // Tabs that closed without saying goodbye drop out once stale
+    this.pruneTimer = setInterval(() => this.notifyViewers(), HEARTBEAT_MS);
+  }
+
+  private disconnectIfIdle(): void {
+    if (!this.channel || this.viewersListeners.size > 0) return;
+
+    supabase.removeChannel(this.channel);
+    this.channel = null;
+    this.subscribed = false;
+    this.tabs.clear();
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  // An empty list takes the tab off the monitor
+  private async publish(): Promise<void> {
+    if (!(await this.isSignedIn())) return;
+
+    const { error } = await supabase.rpc('publish_live_viewers', {
+      p_tab_id: this.tabId,
+      p_viewers: Array.from(this.viewers.values())
+    });
+    if (error) {
+      console.warn('Failed to publish live playback state:', error);
+    }
+  }
+
+  private async isSignedIn(): Promise<boolean> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session !== null;
+  }
+
+  private notifyViewers(): void {
+    if (!this.subscribed) return;
+
+    const viewers = this.currentViewers();
+    this.viewersListeners.forEach(listener => listener(viewers));
+  }
+
+  private currentViewers(): LiveViewer[] {
+    const staleBefore = Date.now() - STALE_AFTER_MS;
+    return Array.from(this.tabs.values())
+      .flat()
+      .filter(viewer => new Date(viewer.updatedAt).getTime() >= staleBefore);
+  }
+}
+
+export const livePresence = new LivePresence();
@@ -0,0 +1,148 @@
+import { parseBlob, selectCover, type IAudioMetadata } from 'music-metadata';
+import { supabase } from './supabase';
+
+export interface VideoFileMetadata {
+  duration: number; // Seconds
+  width: number;
+  height: number;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  bitrate: number | null; // Overall bits per second
+  title: string | null; // Container title tag, if any
+}
+
+export interface AudioFileMetadata {
+  duration: number; // Seconds
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  trackNumber: number | null;
+  discNumber: number | null;
+  genre: string | null;
+  codec: string | null;
+  bitrate: number | null;
+  cover: { data: Uint8Array; mimeType: string } | null;
+}
+
+// Reads the container headers and tags. Formats the parser does not know
+// (AVI, some WMV) resolve to null instead of failing the upload.
+const parseTags = async (file: File, skipCovers: boolean): Promise<IAudioMetadata | null> => {
+  try {
+    return await parseBlob(file, { skipCovers, duration: false });
+  } catch (error) {
+    console.warn(`Could not read metadata from ${file.name}:`, error);
+    return null;
+  }
+};
+
+// The browser's own decoder knows duration and frame size of anything it can play
+const probeVideoElement = (file: File): Promise<{ duration: number; width: number; height: number }> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+
+    const finish = (result: { duration: number; width: number; height: number }) => {
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      video.load();
+      resolve(result);
+    };
+
+    video.preload = 'metadata';
+    video.addEventListener('loadedmetadata', () => {
+      finish({
+        duration: Number.isFinite(video.duration) ? video.duration : 0,
+        width: video.videoWidth,
+        height: video.videoHeight
+      });
+    });
+    video.addEventListener('error', () => finish({ duration: 0, width: 0, height: 0 }));
+    video.src = url;
+  });
+};
+
+// MP4 reports unknown sample entries as "<avc1>"
+const codecName = (name?: string): string | null => name ? name.replace(/^<|>$/g, '') : null;
+
+// Cover formats the media bucket accepts; ID3 tags are often sloppy about
+// the MIME type, anything else is stored as JPEG
+const COVER_TYPES: { [mimeType: string]: string } = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+const textTag = (value?: string | null): string | null => value?.trim() || null;
+
+export const mediaMetadataService = {
+  async extractVideoMetadata(file: File): Promise<VideoFileMetadata> {
+    const [element, tags] = await Promise.all([probeVideoElement(file), parseTags(file, true)]);
+
+    const tracks = tags?.format.trackInfo || [];
+    const audioTrack = tracks.find(track => track.audio);
+    const videoTrack = tracks.find(track => track.video)
+      || tracks.find(track => track !== audioTrack && track.codecName && !track.codecName.startsWith('CEA'));
+
+    const duration = element.duration || tags?.format.duration || 0;
+
+    return {
+      duration,
+      width: element.width || videoTrack?.video?.pixelWidth || 0,
+      height: element.height || videoTrack?.video?.pixelHeight || 0,
+      videoCodec: codecName(videoTrack?.codecName),
+      audioCodec: codecName(audioTrack?.codecName),
+      bitrate: duration > 0 ? Math.round((file.size * 8) / duration) : null,
+      title: textTag(tags?.common.title)
+    };
+  },
+
+  async extractAudioMetadata(file: File): Promise<AudioFileMetadata> {
+    const tags = await parseTags(file, false);
+    if (!tags) {
+      return {
+        duration: 0,
+        title: null,
+        artist: null,
+        album: null,
+        trackNumber: null,
+        discNumber: null,
+        genre: null,
+        codec: null,
+        bitrate: null,
+        cover: null
+      };
+    }
+
+    const { common, format } = tags;
+    const picture = selectCover(common.picture);
+
+    return {
+      duration: format.duration || 0,
+      title: textTag(common.title),
+      artist: textTag(common.artist || common.albumartist),
+      album: textTag(common.album),
+      trackNumber: common.track.no || null,
+      discNumber: common.disk.no || null,
+      genre: textTag(common.genre?.[0]),
+      codec: format.codec || null,
+      bitrate: format.bitrate ? Math.round(format.bitrate) : null,
+      cover: picture ? { data: picture.data, mimeType: picture.format } : null
+    };
+  },
+
+  // Stores embedded cover art in the public artwork bucket and returns its URL
+  async uploadCoverArt(cover: { data: Uint8Array; mimeType: string }): Promise<string> {
+    const contentType = COVER_TYPES[cover.mimeType] ? cover.mimeType : 'image/jpeg';
+    const extension = COVER_TYPES[contentType];
+    const storagePath = `album-art/${Date.now()}-${Math.random().toString(36).substring(2)}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from('artwork')
+      .upload(storagePath, new Blob([cover.data as BlobPart], { type: contentType }), { contentType });
+
+    if (error) throw error;
+
+    const { data } = supabase.storage.from('artwork').getPublicUrl(storagePath);
+    return data.publicUrl;
+  }
+};
@@ -0,0 +1,229 @@
+import type Hls from 'hls.js';
+import type { HlsConfig, Loader, LoaderCallbacks, LoaderConfiguration, LoaderContext } from 'hls.js';
+import { supabase } from './supabase';
+
+// The media bucket is private. Movies and music store object paths in it
+// and are played through signed URLs that expire after a few minutes. A
+// playback session first gets a grant from create_playback_grant (auth and
+// profile restrictions are checked there), then signs the files it needs
+// while the grant lasts, and keeps renewing both until it is closed.
+
+const BUCKET = 'media';
+const SIGNED_URL_TTL = 10 * 60; // Seconds
+const RENEW_BEFORE_MS = 2 * 60 * 1000; // Renew grants and URLs this long before they expire
+const GRANT_RETRY_MS = 30 * 1000;
+
+const STORAGE_URL_PATTERN = /\/storage\/v1\/object\/(?:public|sign|authenticated)\/media\/([^?#]+)/;
+const ABSOLUTE_URL_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:/;
+
+interface SignedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+interface PendingSignature {
+  resolve: (url: string) => void;
+  reject: (error: Error) => void;
+}
+
+export class PlaybackUrlSession {
+  private grantId: string | null = null;
+  private grantExpiresAt = 0;
+  private grantRequest: Promise<void> | null = null;
+  private renewTimer: ReturnType<typeof setTimeout> | null = null;
+  private signed = new Map<string, SignedUrl>();
+  private queued = new Map<string, PendingSignature[]>();
+  private closed = false;
+
+  constructor(
+    private readonly mediaId: string,
+    private readonly mediaType: 'movie' | 'music',
+    private readonly profileId?: string
+  ) {}
+
+  // Signed URL for a stored path or storage URL; other URLs pass through.
+  // URLs stay cached until they get close to expiring.
+  public async sign(url: string): Promise<string> {
+    const path = mediaUrlService.toStoragePath(url);
+    if (!path) return url;
+
+    const cached = this.signed.get(path);
+    if (cached && cached.expiresAt - Date.now() > RENEW_BEFORE_MS) {
+      return cached.url;
+    }
+
+    await this.ensureGrant();
+    return this.enqueue(path);
+  }
+
+  // When a URL returned by sign() should be replaced, for sources the
+  // browser keeps requesting (progressive video, audio)
+  public renewalDelay(url: string): number | null {
+    const path = mediaUrlService.toStoragePath(url);
+    const cached = path ? this.signed.get(path) : null;
+    return cached ? Math.max(0, cached.expiresAt - Date.now() - RENEW_BEFORE_MS) : null;
+  }
+
+  public close(): void {
+    this.closed = true;
+    if (this.renewTimer) {
+      clearTimeout(this.renewTimer);
+      this.renewTimer = null;
+    }
+
+    // URLs signed so far stay valid until they expire, new ones can't be made
+    if (this.grantId) {
+      supabase.from('playback_grants').delete().eq('id', this.grantId).then(({ error }) => {
+        if (error) console.warn('Failed to revoke playback grant:', error);
+      });
+    }
+  }
+
+  public async open(): Promise<void> {
+    await this.ensureGrant();
+  }
+
+  private async ensureGrant(force = false): Promise<void> {
+    if (this.closed) {
+      throw new Error('Playback session is closed');
+    }
+    if (!force && this.grantId && this.grantExpiresAt - Date.now() > RENEW_BEFORE_MS) return;
+
+    if (!this.grantRequest) {
+      this.grantRequest = this.requestGrant().finally(() => {
+        this.grantRequest = null;
+      });
+    }
+    await this.grantRequest;
+  }
+
+  private async requestGrant(): Promise<void> {
+    const { data, error } = await supabase.rpc('create_playback_grant', {
+      p_media_id: this.mediaId,
+      p_media_type: this.mediaType,
+      p_profile_id: this.profileId || null,
+      p_grant_id: this.grantId
+    });
+
+    if (error) throw error;
+
+    this.grantId = data.grant_id;
+    this.grantExpiresAt = new Date(data.expires_at).getTime();
+    this.scheduleGrantRenewal(this.grantExpiresAt - Date.now() - RENEW_BEFORE_MS);
+  }
+
+  // Renewing re-runs the access checks, a viewer who lost access keeps
+  // playing only until the URLs already signed expire
+  private scheduleGrantRenewal(delay: number): void {
+    if (this.closed) return;
+    if (this.renewTimer) clearTimeout(this.renewTimer);
+
+    this.renewTimer = setTimeout(async () => {
+      this.renewTimer = null;
+      try {
+        await this.ensureGrant(true);
+      } catch (error) {
+        console.warn('Failed to renew playback grant:', error);
+        this.scheduleGrantRenewal(GRANT_RETRY_MS);
+      }
+    }, Math.max(0, delay));
+  }
+
+  // Paths requested in the same tick are signed with one request
+  private enqueue(path: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const waiting = this.queued.get(path);
+      if (waiting) {
+        waiting.push({ resolve, reject });
+        return;
+      }
+
+      this.queued.set(path, [{ resolve, reject }]);
+      if (this.queued.size === 1) {
+        queueMicrotask(() => this.signQueued());
+      }
+    });
+  }
+
+  private async signQueued(): Promise<void> {
+    const batch = new Map(this.queued);
+    this.queued.clear();
+    const paths = Array.from(batch.keys());
+
+    try {
+      const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, SIGNED_URL_TTL);
+      if (error) throw error;
+
+      const expiresAt = Date.now() + SIGNED_URL_TTL * 1000;
+      data.forEach(({ path, signedUrl, error: signError }) => {
+        const waiting = path ? batch.get(path) : undefined;
+        if (!waiting || !path) return;
+        batch.delete(path);
+
+        if (signError || !signedUrl) {
+          waiting.forEach(({ reject }) => reject(new Error(`Cannot sign ${path}: ${signError || 'not found'}`)));
+          return;
+        }
+
+        this.signed.set(path, { url: signedUrl, expiresAt });
+        waiting.forEach(({ resolve }) => resolve(signedUrl));
+      });
+
+      batch.forEach((waiting, path) => {
+        waiting.forEach(({ reject }) => reject(new Error(`Cannot sign ${path}`)));
+      });
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error('Failed to sign media URLs');
+      batch.forEach(waiting => waiting.forEach(({ reject }) => reject(failure)));
+    }
+  }
+}
+
+export const mediaUrlService = {
+  // Object path inside the media bucket, or null for URLs served elsewhere.
+  // Accepts stored paths as well as storage URLs, including the signed ones
+  // hls.js and dash.js resolve relative segment URIs against.
+  toStoragePath(url: string | null | undefined): string | null {
+    if (!url) return null;
+
+    const match = url.match(STORAGE_URL_PATTERN);
+    if (match) return decodeURIComponent(match[1]);
+
+    return ABSOLUTE_URL_PATTERN.test(url) || url.startsWith('/') ? null : url;
+  },
+
+  // Needs a playback session before it can be loaded
+  isProtected(url: string | null | undefined): boolean {
+    return mediaUrlService.toStoragePath(url) !== null;
+  },
+
+  // Fails when the viewer is signed out or the profile may not play the title
+  async openPlaybackSession(mediaId: string, mediaType: 'movie' | 'music', profileId?: string): Promise<PlaybackUrlSession> {
+    const session = new PlaybackUrlSession(mediaId, mediaType, profileId);
+    await session.open();
+    return session;
+  },
+
+  // hls.js loader that signs every playlist, key and segment request.
+  // Native HLS (Safari without MSE) can't be hooked and can't play
+  // protected streams.
+  createHlsLoader(HlsClass: typeof Hls, session: Pick<PlaybackUrlSession, 'sign'>): HlsConfig['loader'] {
+    const BaseLoader = HlsClass.DefaultConfig.loader;
+
+    return class SignedUrlLoader extends BaseLoader {
+      load(context: LoaderContext, config: LoaderConfiguration, callbacks: LoaderCallbacks<LoaderContext>): void {
+        session.sign(context.url).then(
+          (url) => {
+            if (this.stats.aborted) return;
+            context.url = url;
+            super.load(context, config, callbacks);
+          },
+          (error: Error) => {
+            if (this.stats.aborted) return;
+            callbacks.onError({ code: 403, text: error.message }, context, null, this.stats);
+          }
+        );
+      }
+    } as unknown as { new (config: HlsConfig): Loader<LoaderContext> };
+  }
+};
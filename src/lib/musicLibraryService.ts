@@ -0,0 +1,99 @@
+import {
+  supabase,
+  Album,
+  AlbumWithArtist,
+  AlbumSummary,
+  Artist,
+  ArtistSummary
+} from './supabase';
+
+export type AlbumInput = Pick<Album, 'title' | 'release_date' | 'album_art_url'>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Same key the database matches names on (library_name_key)
+export const libraryNameKey = (name: string) => name.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Links shared before artists and albums had rows carry the name instead of the id
+const isId = (value: string) => UUID_PATTERN.test(value);
+
+export const musicLibraryService = {
+  async listArtists(): Promise<ArtistSummary[]> {
+    const { data, error } = await supabase
+      .from('artists')
+      .select('*, albums(album_art_url), music(count)')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(({ albums, music, ...artist }) => ({
+      ...artist,
+      track_count: music?.[0]?.count || 0,
+      album_count: albums?.length || 0,
+      cover_url: artist.image_url
+        || albums?.find((album: Pick<Album, 'album_art_url'>) => album.album_art_url)?.album_art_url
+        || null
+    }));
+  },
+
+  async listAlbums(): Promise<AlbumSummary[]> {
+    const { data, error } = await supabase
+      .from('albums')
+      .select('*, artist:artists(id, name), music(count)')
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(({ music, ...album }) => ({
+      ...album,
+      track_count: music?.[0]?.count || 0
+    }));
+  },
+
+  // By id, or by name for old links; null when missing
+  async getArtist(idOrName: string): Promise<Artist | null> {
+    const query = supabase.from('artists').select('*');
+    const { data, error } = await (isId(idOrName)
+      ? query.eq('id', idOrName)
+      : query.eq('name_key', libraryNameKey(idOrName))
+    ).maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // By id, or by title for old links, where the first artist's album wins
+  async getAlbum(idOrTitle: string): Promise<AlbumWithArtist | null> {
+    const query = supabase.from('albums').select('*, artist:artists(id, name)');
+    const { data, error } = await (isId(idOrTitle)
+      ? query.eq('id', idOrTitle)
+      : query.eq('title_key', libraryNameKey(idOrTitle)).order('created_at', { ascending: true }).limit(1)
+    ).maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Newest release first, undated albums last
+  async getArtistAlbums(artistId: string): Promise<Album[]> {
+    const { data, error } = await supabase
+      .from('albums')
+      .select('*')
+      .eq('artist_id', artistId)
+      .order('release_date', { ascending: false, nullsFirst: false })
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Renames and new covers are carried over to the album's tracks
+  async updateAlbum(id: string, input: Partial<AlbumInput>): Promise<void> {
+    const { error } = await supabase
+      .from('albums')
+      .update(input)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,151 @@
+import { mediaUrlService, PlaybackUrlSession } from './mediaUrlService';
+import { CDNSettings, streamingService } from './streamingService';
+
+// The places an asset can be played from, in the order the player tries
+// them: the CDN configured in the CDN tab of the streaming admin (the shared
+// cdn_settings row), at its endpoint and then its failover endpoints, and
+// finally the origin. Without a CDN set up, stored media plays from the
+// origin only. Each CDN endpoint proxies the Supabase project path for
+// path, so a signed storage URL works on any of them once sign_cdn_urls has
+// moved it to its host (and signed it, when the CDN has a signing key); the
+// CDN forwards the storage token and Supabase still checks it. External
+// URLs are only played from where they are.
+
+export interface PlaybackSource {
+  id: string;
+  label: string;
+  // Loadable URL for the asset's stored path or for any URL hls.js and
+  // dash.js resolve against a URL this source returned
+  sign(url: string): Promise<string>;
+  // When a URL returned by sign() should be replaced, null if it doesn't expire
+  renewalDelay(url: string): number | null;
+}
+
+interface PendingCdnSignature {
+  resolve: (url: string) => void;
+  reject: (error: Error) => void;
+}
+
+const ORIGIN_URL = (import.meta.env.VITE_SUPABASE_URL as string | undefined)?.replace(/\/+$/, '') || '';
+const CDN_RENEW_BEFORE_MS = 30 * 1000;
+
+// CDN URLs of one endpoint, signed by the database which holds the key.
+// Objects asked for in the same tick are signed with one call, and URLs are
+// reused until they get close to expiring.
+class CdnUrlSigner {
+  private signed = new Map<string, { url: string; expiresAt: number }>();
+  private queued = new Map<string, PendingCdnSignature[]>();
+
+  constructor(private readonly endpoint: string) {}
+
+  public sign(path: string): Promise<string> {
+    const cached = this.signed.get(path);
+    if (cached && cached.expiresAt - Date.now() > CDN_RENEW_BEFORE_MS) {
+      return Promise.resolve(cached.url);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiting = this.queued.get(path);
+      if (waiting) {
+        waiting.push({ resolve, reject });
+        return;
+      }
+
+      this.queued.set(path, [{ resolve, reject }]);
+      if (this.queued.size === 1) {
+        queueMicrotask(() => this.signQueued());
+      }
+    });
+  }
+
+  public renewalDelay(url: string): number | null {
+    const path = mediaUrlService.toStoragePath(url);
+    const cached = path ? this.signed.get(path) : undefined;
+    return cached ? Math.max(0, cached.expiresAt - Date.now() - CDN_RENEW_BEFORE_MS) : null;
+  }
+
+  private async signQueued(): Promise<void> {
+    const batch = new Map(this.queued);
+    this.queued.clear();
+
+    try {
+      const signed = await streamingService.signCDNUrls(this.endpoint, Array.from(batch.keys()));
+      signed.forEach(({ path, url, expiresAt }) => {
+        const waiting = batch.get(path);
+        if (!waiting) return;
+        batch.delete(path);
+
+        this.signed.set(path, { url, expiresAt });
+        waiting.forEach(({ resolve }) => resolve(url));
+      });
+
+      batch.forEach((waiting, path) => {
+        waiting.forEach(({ reject }) => reject(new Error(`Cannot sign ${path} for the CDN`)));
+      });
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error('Failed to sign CDN URLs');
+      batch.forEach(waiting => waiting.forEach(({ reject }) => reject(failure)));
+    }
+  }
+}
+
+const originSource = (session: PlaybackUrlSession | null): PlaybackSource => ({
+  id: 'origin',
+  label: 'Origin',
+  sign: (url) => session ? session.sign(url) : Promise.resolve(url),
+  renewalDelay: (url) => session ? session.renewalDelay(url) : null
+});
+
+const cdnSource = (endpoint: string, signer: CdnUrlSigner, session: PlaybackUrlSession): PlaybackSource => ({
+  id: `cdn:${endpoint}`,
+  label: `CDN ${endpoint.replace(/^https?:\/\//, '')}`,
+  sign: async (url) => {
+    const signed = await session.sign(url);
+    const path = mediaUrlService.toStoragePath(signed);
+    if (!signed.startsWith(ORIGIN_URL) || !path) return signed;
+
+    // Same path on the CDN, keeping the storage token next to the CDN's own
+    const cdnUrl = new URL(await signer.sign(path));
+    new URL(signed).searchParams.forEach((value, key) => cdnUrl.searchParams.set(key, value));
+    return cdnUrl.toString();
+  },
+  // Whichever of the storage token and the CDN signature expires first
+  renewalDelay: (url) => {
+    const delays = [session.renewalDelay(url), signer.renewalDelay(url)].filter((delay): delay is number => delay !== null);
+    return delays.length > 0 ? Math.min(...delays) : null;
+  }
+});
+
+// One source per endpoint. Settings that can't be read leave playback on
+// the origin.
+const cdnSources = async (session: PlaybackUrlSession): Promise<PlaybackSource[]> => {
+  let settings: CDNSettings;
+  try {
+    settings = await streamingService.getCDNSettings();
+  } catch (error) {
+    console.warn('Failed to load CDN settings, playing from the origin:', error);
+    return [];
+  }
+
+  const { enabled, config } = settings;
+  if (!enabled) return [];
+
+  const endpoints = [config.endpoint, ...config.failoverEndpoints]
+    .map(endpoint => endpoint.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+  return Array.from(new Set(endpoints)).map(endpoint =>
+    cdnSource(endpoint, new CdnUrlSigner(endpoint), session)
+  );
+};
+
+// Media outside the media bucket only plays from where it is
+export const getDirectSources = (): PlaybackSource[] => [originSource(null)];
+
+export const getPlaybackSources = async (session: PlaybackUrlSession): Promise<PlaybackSource[]> => {
+  const origin = originSource(session);
+  if (!ORIGIN_URL) {
+    return [origin];
+  }
+  return [...(await cdnSources(session)), origin];
+};
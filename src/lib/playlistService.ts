@@ -0,0 +1,237 @@
+import {
+  supabase,
+  Playlist,
+  PlaylistItem,
+  PlaylistContentType,
+  PlaylistCollaborator,
+  PlaylistCollaboratorRole,
+  PlaylistMember,
+  PlaylistSummary,
+  PlaylistWithItems,
+  SharedPlaylistSummary
+} from './supabase';
+
+export type PlaylistInput = Pick<Playlist, 'name' | 'description' | 'is_public'>;
+
+// Reorders update every item, so bursts of changes reload once
+const CHANGE_DEBOUNCE_MS = 300;
+
+export const playlistService = {
+  // The signed-in user's playlists, most recently changed first
+  async listMyPlaylists(): Promise<PlaylistSummary[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('playlists')
+      .select('*, playlist_items(count)')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(({ playlist_items, ...playlist }) => ({
+      ...playlist,
+      item_count: playlist_items?.[0]?.count || 0
+    }));
+  },
+
+  // Playlists other accounts invited the user to, most recently changed first
+  async listSharedWithMe(): Promise<SharedPlaylistSummary[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.email) return [];
+
+    const { data, error } = await supabase
+      .from('playlists')
+      .select('*, playlist_items(count), playlist_collaborators!inner(role)')
+      .eq('playlist_collaborators.email', user.email.toLowerCase())
+      .neq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(({ playlist_items, playlist_collaborators, ...playlist }) => ({
+      ...playlist,
+      item_count: playlist_items?.[0]?.count || 0,
+      role: playlist_collaborators[0].role
+    }));
+  },
+
+  // A playlist with its movies and tracks in order; null when missing or
+  // private to someone else
+  async getPlaylist(id: string): Promise<PlaylistWithItems | null> {
+    const { data, error } = await supabase
+      .from('playlists')
+      .select('*, items:playlist_items(*, movie:movies(*), music:music(*))')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const playlist = data as PlaylistWithItems;
+    playlist.items = (playlist.items || [])
+      .filter(item => item.movie || item.music)
+      .sort((a, b) => a.position - b.position);
+    return playlist;
+  },
+
+  async createPlaylist(input: PlaylistInput): Promise<Playlist> {
+    const { data, error } = await supabase
+      .from('playlists')
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updatePlaylist(id: string, input: Partial<PlaylistInput>): Promise<void> {
+    const { error } = await supabase
+      .from('playlists')
+      .update(input)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async deletePlaylist(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('playlists')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Appends to the end; the same title may appear more than once
+  async addItem(playlistId: string, contentType: PlaylistContentType, contentId: string): Promise<PlaylistItem> {
+    const { data, error } = await supabase.rpc('add_playlist_item', {
+      p_playlist_id: playlistId,
+      p_content_type: contentType,
+      p_content_id: contentId
+    });
+
+    if (error) throw error;
+    return data;
+  },
+
+  async removeItem(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('playlist_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async reorderItems(playlistId: string, itemIds: string[]): Promise<PlaylistItem[]> {
+    const { data, error } = await supabase.rpc('reorder_playlist_items', {
+      p_playlist_id: playlistId,
+      p_item_ids: itemIds
+    });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Owner first, then collaborators; empty for non-members such as
+  // visitors of a public playlist
+  async getMembers(playlistId: string): Promise<PlaylistMember[]> {
+    const { data, error } = await supabase.rpc('get_playlist_members', {
+      p_playlist_id: playlistId
+    });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async inviteCollaborator(
+    playlistId: string,
+    email: string,
+    role: PlaylistCollaboratorRole
+  ): Promise<PlaylistCollaborator> {
+    const { data, error } = await supabase
+      .from('playlist_collaborators')
+      .insert({ playlist_id: playlistId, email: email.trim().toLowerCase(), role })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateCollaboratorRole(id: string, role: PlaylistCollaboratorRole): Promise<void> {
+    const { error } = await supabase
+      .from('playlist_collaborators')
+      .update({ role })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Owners remove anyone; collaborators remove themselves to leave
+  async removeCollaborator(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('playlist_collaborators')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Calls onChange when anyone, this user included, edits the playlist or
+  // its items. Realtime can't filter deletes, so hasItem tells which deleted items
+  // belong to this playlist. Returns an unsubscribe function.
+  subscribeToPlaylist(
+    playlistId: string,
+    hasItem: (itemId: string) => boolean,
+    onChange: () => void
+  ): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(onChange, CHANGE_DEBOUNCE_MS);
+    };
+
+    const channel = supabase
+      .channel(`playlist:${playlistId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'playlist_items', filter: `playlist_id=eq.${playlistId}` },
+        schedule
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'playlist_items', filter: `playlist_id=eq.${playlistId}` },
+        schedule
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'playlist_items' },
+        (payload) => {
+          const id = (payload.old as Partial<PlaylistItem>).id;
+          if (id && hasItem(id)) schedule();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'playlists', filter: `id=eq.${playlistId}` },
+        schedule
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'playlists' },
+        (payload) => {
+          if ((payload.old as Partial<Playlist>).id === playlistId) schedule();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }
+};
@@ -0,0 +1,148 @@
+import { decode, encode } from 'blurhash';
+import { supabase, StoredThumbnail, ThumbnailSizes } from './supabase';
+
+const ARTWORK_BUCKET = 'artwork';
+
+// Card for lists, hero for the player and detail views, og for link previews
+const THUMBNAIL_SIZES: Record<keyof ThumbnailSizes, { width: number; height: number }> = {
+  card: { width: 400, height: 225 },
+  hero: { width: 1280, height: 720 },
+  og: { width: 1200, height: 630 }
+};
+
+const BLURHASH_WIDTH = 32;
+const BLURHASH_HEIGHT = 18;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+// Scales the image to cover the target size, cropping the overflow evenly
+const renderSize = (image: ImageBitmap, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const scale = Math.max(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas;
+};
+
+const toJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode thumbnail'));
+      }
+    }, 'image/jpeg', 0.85);
+  });
+
+const blurhashUrls = new Map<string, string>();
+
+// Tiny data URL of a BlurHash, to paint while the real image loads
+export const blurhashToDataUrl = (hash: string): string | null => {
+  const cached = blurhashUrls.get(hash);
+  if (cached) return cached;
+
+  try {
+    const pixels = decode(hash, BLURHASH_WIDTH, BLURHASH_HEIGHT);
+    const canvas = document.createElement('canvas');
+    canvas.width = BLURHASH_WIDTH;
+    canvas.height = BLURHASH_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const imageData = ctx.createImageData(BLURHASH_WIDTH, BLURHASH_HEIGHT);
+    imageData.data.set(pixels);
+    ctx.putImageData(imageData, 0, 0);
+
+    const url = canvas.toDataURL('image/png');
+    blurhashUrls.set(hash, url);
+    return url;
+  } catch (error) {
+    console.warn('Invalid BlurHash:', error);
+    return null;
+  }
+};
+
+export const posterService = {
+  // Stores a poster in every thumbnail size in the public artwork bucket and
+  // returns the columns to save on the movie
+  async uploadThumbnail(image: Blob): Promise<StoredThumbnail> {
+    const bitmap = await createImageBitmap(image);
+    const folder = `thumbnails/${Date.now()}-${Math.random().toString(36).substring(2)}`;
+
+    try {
+      const sizes = {} as ThumbnailSizes;
+      for (const [size, { width, height }] of Object.entries(THUMBNAIL_SIZES) as Array<[keyof ThumbnailSizes, { width: number; height: number }]>) {
+        const storagePath = `${folder}/${size}.jpg`;
+        const { error } = await supabase.storage
+          .from(ARTWORK_BUCKET)
+          .upload(storagePath, await toJpeg(renderSize(bitmap, width, height)), { contentType: 'image/jpeg' });
+
+        if (error) throw error;
+
+        sizes[size] = supabase.storage.from(ARTWORK_BUCKET).getPublicUrl(storagePath).data.publicUrl;
+      }
+
+      const small = renderSize(bitmap, BLURHASH_WIDTH, BLURHASH_HEIGHT);
+      const pixels = small.getContext('2d')?.getImageData(0, 0, BLURHASH_WIDTH, BLURHASH_HEIGHT);
+      const blurhash = pixels
+        ? encode(pixels.data, BLURHASH_WIDTH, BLURHASH_HEIGHT, BLURHASH_COMPONENTS.x, BLURHASH_COMPONENTS.y)
+        : null;
+
+      return { thumbnail_url: sizes.hero, thumbnail_sizes: sizes, thumbnail_blurhash: blurhash };
+    } finally {
+      bitmap.close();
+    }
+  },
+
+  async removeThumbnail(thumbnail: StoredThumbnail): Promise<void> {
+    const marker = `/object/public/${ARTWORK_BUCKET}/`;
+    const paths = Object.values(thumbnail.thumbnail_sizes)
+      .filter(url => url.includes(marker))
+      .map(url => url.slice(url.indexOf(marker) + marker.length));
+
+    const { error } = await supabase.storage.from(ARTWORK_BUCKET).remove(paths);
+    if (error) throw error;
+  },
+
+  // Admins replace the poster of a movie
+  async setMoviePoster(movieId: string, image: Blob): Promise<StoredThumbnail> {
+    const thumbnail = await this.uploadThumbnail(image);
+
+    const { error } = await supabase
+      .from('movies')
+      .update(thumbnail)
+      .eq('id', movieId);
+
+    if (error) throw error;
+
+    return thumbnail;
+  },
+
+  // Any viewer can store the first thumbnail of a movie that has none.
+  // Returns the movie's thumbnail, which is someone else's if they were first.
+  async saveGeneratedThumbnail(movieId: string, image: Blob): Promise<StoredThumbnail> {
+    const thumbnail = await this.uploadThumbnail(image);
+
+    const { data, error } = await supabase.rpc('save_generated_thumbnail', {
+      p_movie_id: movieId,
+      p_sizes: thumbnail.thumbnail_sizes,
+      p_blurhash: thumbnail.thumbnail_blurhash
+    });
+
+    if (error) throw error;
+
+    const stored = data as StoredThumbnail;
+    if (stored.thumbnail_url !== thumbnail.thumbnail_url) {
+      await this.removeThumbnail(thumbnail).catch(error => console.warn('Failed to remove unused thumbnail:', error));
+    }
+    return stored;
+  }
+};
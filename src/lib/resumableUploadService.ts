@@ -0,0 +1,148 @@
+import * as tus from 'tus-js-client';
+import { supabase } from './supabase';
+
+// Supabase Storage only accepts 6MB chunks on its tus endpoint
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const BUCKET = 'media';
+
+// VITE_TUS_ENDPOINT points uploads at a local tus server during development
+const TUS_ENDPOINT = (import.meta.env.VITE_TUS_ENDPOINT as string | undefined)
+  || `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+export interface ResumableUploadCallbacks {
+  onProgress: (bytesUploaded: number, bytesTotal: number) => void;
+  // Bytes the server has acknowledged, updated after every chunk
+  onChunkComplete?: (bytesAccepted: number, bytesTotal: number) => void;
+}
+
+export interface ResumableUpload {
+  filePath: string; // Object path inside the media bucket
+  resumed: boolean; // Continues an upload left unfinished by an earlier session
+  done: Promise<void>; // Stays pending while paused
+  pause: () => Promise<void>;
+  resume: () => void;
+}
+
+// Unfinished upload remembered in localStorage. The browser cannot reopen the
+// file by itself, dropping the same file again resumes it.
+export interface InterruptedUpload {
+  urlStorageKey: string;
+  fileName: string;
+  filePath: string;
+  size: number;
+  createdAt: string;
+}
+
+const urlStorage = () => tus.defaultOptions.urlStorage;
+
+const authHeaders = async (): Promise<{ [header: string]: string }> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('User not authenticated. Please sign in again.');
+  }
+
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_ANON_KEY as string
+  };
+};
+
+export const resumableUploadService = {
+  isSupported(): boolean {
+    return tus.isSupported;
+  },
+
+  // folder is the top-level directory in the bucket, e.g. "movie" or "music"
+  async start(file: File, folder: string, callbacks: ResumableUploadCallbacks): Promise<ResumableUpload> {
+    const fileExt = file.name.split('.').pop();
+    let filePath = `${folder}/${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+
+    let resolveDone: () => void = () => {};
+    let rejectDone: (error: Error) => void = () => {};
+    const done = new Promise<void>((resolve, reject) => {
+      resolveDone = resolve;
+      rejectDone = reject;
+    });
+
+    const upload = new tus.Upload(file, {
+      endpoint: TUS_ENDPOINT,
+      chunkSize: CHUNK_SIZE,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      uploadDataDuringCreation: true,
+      storeFingerprintForResuming: true,
+      removeFingerprintOnSuccess: true,
+      headers: { 'x-upsert': 'false' },
+      metadata: {
+        bucketName: BUCKET,
+        objectName: filePath,
+        contentType: file.type,
+        cacheControl: '3600',
+        fileName: file.name
+      },
+      // Long uploads outlive the access token, sign every request with a fresh one
+      onBeforeRequest: async (req) => {
+        const headers = await authHeaders();
+        Object.entries(headers).forEach(([header, value]) => req.setHeader(header, value));
+      },
+      onProgress: callbacks.onProgress,
+      onChunkComplete: (_chunkSize, bytesAccepted, bytesTotal) => {
+        callbacks.onChunkComplete?.(bytesAccepted, bytesTotal);
+      },
+      onSuccess: () => resolveDone(),
+      onError: (error) => rejectDone(error)
+    });
+
+    // Same file, same endpoint: continue where the previous session stopped
+    const previous = (await upload.findPreviousUploads())
+      .filter(candidate => candidate.metadata.objectName)
+      .sort((a, b) => b.creationTime.localeCompare(a.creationTime))[0];
+
+    if (previous) {
+      filePath = previous.metadata.objectName;
+      upload.options.metadata = { ...upload.options.metadata, objectName: filePath };
+      upload.resumeFromPreviousUpload(previous);
+    }
+
+    upload.start();
+
+    return {
+      filePath,
+      resumed: Boolean(previous),
+      done,
+      pause: () => upload.abort(),
+      resume: () => upload.start()
+    };
+  },
+
+  async getInterruptedUploads(): Promise<InterruptedUpload[]> {
+    if (!tus.canStoreURLs) return [];
+
+    const uploads = await urlStorage().findAllUploads();
+    return uploads
+      .filter(upload => upload.metadata.bucketName === BUCKET && upload.metadata.objectName)
+      .map(upload => ({
+        urlStorageKey: upload.urlStorageKey,
+        fileName: upload.metadata.fileName || upload.metadata.objectName.split('/').pop() || '',
+        filePath: upload.metadata.objectName,
+        size: upload.size || 0,
+        createdAt: upload.creationTime
+      }));
+  },
+
+  // Forgets the upload locally and asks the server to drop the partial object
+  async discardInterruptedUpload(interrupted: InterruptedUpload): Promise<void> {
+    const uploads = await urlStorage().findAllUploads();
+    const upload = uploads.find(candidate => candidate.urlStorageKey === interrupted.urlStorageKey);
+
+    if (upload?.uploadUrl) {
+      try {
+        await tus.Upload.terminate(upload.uploadUrl, { headers: await authHeaders() });
+      } catch (error) {
+        // Expired uploads are already gone on the server
+        console.warn('Failed to terminate upload:', error);
+      }
+    }
+
+    await urlStorage().removeUpload(interrupted.urlStorageKey);
+  }
+};
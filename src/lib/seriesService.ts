@@ -0,0 +1,209 @@
+import {
+  supabase,
+  Series,
+  Season,
+  Episode,
+  NextEpisode,
+  SeriesWithSeasons
+} from './supabase';
+
+export type SeriesInput = Pick<Series, 'title' | 'description' | 'poster_url' | 'genre' | 'release_year' | 'rating'>;
+
+export type SeasonInput = Pick<Season, 'season_number' | 'title' | 'description' | 'release_year'>;
+
+// Where a movie sits in its series, for breadcrumbs on its own page
+export interface EpisodePlacement {
+  episode: Episode;
+  season: Season;
+  series: Series;
+}
+
+// "S1 E3"
+export const formatEpisodeNumber = (seasonNumber: number, episodeNumber: number) =>
+  `S${seasonNumber} E${episodeNumber}`;
+
+export const seriesService = {
+  async listSeries(): Promise<Series[]> {
+    const { data, error } = await supabase
+      .from('series')
+      .select('*')
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // A series with its seasons and their episodes in order; null when missing
+  async getSeries(id: string): Promise<SeriesWithSeasons | null> {
+    const { data, error } = await supabase
+      .from('series')
+      .select('*, seasons(*, episodes(*, movie:movies(*)))')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const series = data as SeriesWithSeasons;
+    series.seasons = (series.seasons || [])
+      .sort((a, b) => a.season_number - b.season_number)
+      .map(season => ({
+        ...season,
+        episodes: (season.episodes || [])
+          .filter(episode => episode.movie)
+          .sort((a, b) => a.episode_number - b.episode_number)
+      }));
+    return series;
+  },
+
+  async createSeries(input: SeriesInput): Promise<Series> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('series')
+      .insert({ ...input, uploaded_by: user?.email || user?.id || null })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateSeries(id: string, input: Partial<SeriesInput>): Promise<void> {
+    const { error } = await supabase
+      .from('series')
+      .update(input)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Seasons and episode rows go with it; the episodes' movies stay and return
+  // to the catalog
+  async deleteSeries(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('series')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async createSeason(seriesId: string, input: SeasonInput): Promise<Season> {
+    const { data, error } = await supabase
+      .from('seasons')
+      .insert({ ...input, series_id: seriesId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateSeason(id: string, input: Partial<SeasonInput>): Promise<void> {
+    const { error } = await supabase
+      .from('seasons')
+      .update(input)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async deleteSeason(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('seasons')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Finds the season or creates it, so uploads can name a season that
+  // doesn't exist yet
+  async ensureSeason(seriesId: string, seasonNumber: number): Promise<Season> {
+    const { data, error } = await supabase
+      .from('seasons')
+      .select('*')
+      .eq('series_id', seriesId)
+      .eq('season_number', seasonNumber)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data;
+
+    return this.createSeason(seriesId, {
+      season_number: seasonNumber,
+      title: null,
+      description: null,
+      release_year: null
+    });
+  },
+
+  // Episode number after the season's last, for appending uploads
+  async getNextEpisodeNumber(seasonId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('episodes')
+      .select('episode_number')
+      .eq('season_id', seasonId)
+      .order('episode_number', { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+    return (data?.[0]?.episode_number || 0) + 1;
+  },
+
+  // Makes a movie an episode of the season, which takes it out of the catalog
+  async addEpisode(seasonId: string, movieId: string, episodeNumber: number): Promise<Episode> {
+    const { data, error } = await supabase
+      .from('episodes')
+      .insert({ season_id: seasonId, movie_id: movieId, episode_number: episodeNumber })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // The movie itself stays and shows up in the catalog again
+  async removeEpisode(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('episodes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async reorderEpisodes(seasonId: string, episodeIds: string[]): Promise<Episode[]> {
+    const { data, error } = await supabase.rpc('reorder_episodes', {
+      p_season_id: seasonId,
+      p_episode_ids: episodeIds
+    });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getEpisodePlacement(movieId: string): Promise<EpisodePlacement | null> {
+    const { data, error } = await supabase
+      .from('episodes')
+      .select('*, season:seasons(*, series:series(*))')
+      .eq('movie_id', movieId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data?.season?.series) return null;
+
+    const { season: { series, ...season }, ...episode } = data;
+    return { episode, season, series };
+  },
+
+  // The episode after the one played from movieId, across seasons; null
+  // after the finale or when the movie isn't an episode
+  async getNextEpisode(movieId: string): Promise<NextEpisode | null> {
+    const { data, error } = await supabase.rpc('get_next_episode', { p_movie_id: movieId });
+
+    if (error) throw error;
+    return (data as NextEpisode[] | null)?.[0] || null;
+  }
+};
@@ -0,0 +1,55 @@
+// Deep links to titles. Artist and album pages still open links that carry
+// the name instead of the id, as shared before those had rows.
+
+export const moviePath = (id: string) => `/movies/${id}`;
+export const trackPath = (id: string) => `/music/${id}`;
+export const artistPath = (id: string) => `/artists/${id}`;
+export const albumPath = (id: string) => `/albums/${id}`;
+export const playlistPath = (id: string) => `/playlists/${id}`;
+export const seriesPath = (id: string, seasonNumber?: number) =>
+  seasonNumber ? `/series/${id}?season=${seasonNumber}` : `/series/${id}`;
+
+// Path that starts playback at a time (?t=), for in-app navigation
+export const withStartTime = (path: string, startTime?: number): string => {
+  if (!startTime || startTime < 1) return path;
+  const [pathname, query = ''] = path.split('?');
+  const params = new URLSearchParams(query);
+  params.set('t', Math.floor(startTime).toString());
+  return `${pathname}?${params}`;
+};
+
+// Absolute link to share, optionally starting playback at a time (?t=)
+export const shareUrl = (path: string, startTime?: number): string =>
+  new URL(withStartTime(path, startTime), window.location.origin).toString();
+
+// Reads ?t= as seconds ("90"), h/m/s units ("1m30s") or a clock ("1:30")
+export const parseStartTime = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return parseFloat(value);
+  }
+
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && units[0]) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds);
+  }
+
+  const parts = value.split(':').map(Number);
+  if (parts.length <= 3 && parts.every(part => !isNaN(part) && part >= 0)) {
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+
+  return undefined;
+};
+
+// Native share sheet where there is one, the clipboard otherwise
+export const shareLink = async (url: string, title: string, text?: string): Promise<'shared' | 'copied'> => {
+  if (navigator.share) {
+    await navigator.share({ title, text: text || title, url });
+    return 'shared';
+  }
+  await navigator.clipboard.writeText(url);
+  return 'copied';
+};
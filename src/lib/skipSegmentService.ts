@@ -0,0 +1,46 @@
+import { supabase, MovieSkipSegment, SkipSegmentType } from './supabase';
+
+export interface SkipSegmentInput {
+  type: SkipSegmentType;
+  start_time: number;
+  end_time: number;
+}
+
+export const skipSegmentService = {
+  async getMovieSkipSegments(movieId: string): Promise<MovieSkipSegment[]> {
+    const { data, error } = await supabase
+      .from('skip_segments')
+      .select('*')
+      .eq('movie_id', movieId)
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+
+    // numeric columns come back as strings
+    return (data || []).map(segment => ({
+      ...segment,
+      start_time: Number(segment.start_time),
+      end_time: Number(segment.end_time)
+    }));
+  },
+
+  async replaceMovieSkipSegments(movieId: string, segments: SkipSegmentInput[]): Promise<MovieSkipSegment[]> {
+    const invalid = segments.find(segment => segment.start_time < 0 || segment.end_time <= segment.start_time);
+    if (invalid) {
+      throw new Error(`The ${invalid.type} marker must end after it starts`);
+    }
+
+    const { data, error } = await supabase.rpc('replace_skip_segments', {
+      p_movie_id: movieId,
+      p_segments: segments
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as MovieSkipSegment[]).map(segment => ({
+      ...segment,
+      start_time: Number(segment.start_time),
+      end_time: Number(segment.end_time)
+    }));
+  }
+};
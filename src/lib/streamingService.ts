@@ -1,42 +1,165 @@
 // Backend Streaming Intelligence Service
+import { supabase, Movie } from './supabase';
+import { cdnConfigFromRow } from './cdnAdapters';
+import type { CdnHealth, CdnWarmResult } from './cdnAdapters';
+import { analyticsIngestion, PlaybackSessionRecord } from './analyticsIngestion';
+import { livePresence, LiveViewer, LivePlaybackError, LivePlaybackState } from './livePresence';
+
 export interface TranscodingJob {
   id: string;
   inputUrl: string;
   outputFormats: VideoFormat[];
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'dead_letter';
   progress: number;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt?: Date;
+  cancelRequested: boolean;
   createdAt: Date;
+  startedAt?: Date;
   completedAt?: Date;
   error?: string;
+  workerId?: string;
+  movieId?: string;
+}
+
+export interface TranscodingJobOptions {
+  priority?: number;
+  maxAttempts?: number;
+  movieId?: string; // Movie to point at the HLS master playlist once done
 }
 
+// Row shape of the transcoding_jobs table, shared with the worker
+export interface TranscodingJobRow {
+  id: string;
+  input_url: string;
+  output_formats: VideoFormat[];
+  status: TranscodingJob['status'];
+  progress: number;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  lease_expires_at: string | null;
+  cancel_requested: boolean;
+  error: string | null;
+  worker_id: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  movie_id: string | null;
+}
+
+// m3u8 (HLS) and mpd (DASH) are manifests packaged from the mp4 renditions,
+// vtt is the WebVTT track of the trick-play thumbnail sprites
+export type VideoContainer = 'mp4' | 'webm' | 'm3u8' | 'mpd' | 'vtt';
+
 export interface VideoFormat {
   id: string;
   name: string;
   resolution: string;
   bitrate: number;
   codec: string;
-  container: string;
+  container: VideoContainer;
   url?: string;
   size?: number;
   duration?: number;
 }
 
+// Share of the media a view has to reach to count as completed; the same
+// value as playback_completion_threshold() in the analytics summary
+export const COMPLETION_THRESHOLD = 0.9;
+
+// 160px wide tiles, one every 10 seconds (see worker/trickplay.ts)
+export const TRICKPLAY_FORMAT: VideoFormat = {
+  id: 'thumbnails',
+  name: 'Trick-play Thumbnails',
+  resolution: '160x90',
+  bitrate: 0,
+  codec: 'jpeg',
+  container: 'vtt'
+};
+
 export interface CDNConfig {
   provider: 'cloudflare' | 'aws' | 'azure' | 'custom';
   endpoint: string;
+  failoverEndpoints: string[]; // Played from in order when the endpoint fails
   cacheTtl: number;
-  regions: string[];
   sslEnabled: boolean;
+  healthPath?: string; // Probed by health checks, relative to the endpoint
+  purgeUrl?: string; // Custom origin purge endpoint
+  zoneId?: string; // Cloudflare
+  apiBaseUrl?: string; // Cloudflare API, overridable for a local stand-in
+  signingKeySecret?: string; // Vault secret URLs are signed with, unsigned when empty
+  apiTokenSecret?: string; // Vault secret of the Cloudflare API token, or bearer token of purgeUrl
 }
 
+export const DEFAULT_CDN_CONFIG: CDNConfig = {
+  provider: 'custom',
+  endpoint: '',
+  failoverEndpoints: [],
+  cacheTtl: 3600,
+  sslEnabled: true
+};
+
+// The CDN every viewer streams from, off until an admin sets it up
+export interface CDNSettings {
+  enabled: boolean;
+  config: CDNConfig;
+}
+
+// Row shape of the cdn_settings table
+export interface CdnSettingsRow {
+  enabled: boolean;
+  provider: CDNConfig['provider'];
+  endpoint: string;
+  failover_endpoints: string[];
+  cache_ttl: number;
+  ssl_enabled: boolean;
+  health_path: string | null;
+  purge_url: string | null;
+  zone_id: string | null;
+  api_base_url: string | null;
+  signing_key_secret: string | null;
+  api_token_secret: string | null;
+}
+
+// Row shape of the cdn_tasks table, shared with the CDN worker
+export interface CdnTaskRow {
+  id: string;
+  action: 'purge' | 'purge_all' | 'warm' | 'health';
+  paths: string[];
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  result: unknown;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface SignedCdnUrl {
+  path: string; // Object path in the media bucket
+  url: string;
+  expiresAt: number;
+}
+
+const CDN_SETTINGS_TTL_MS = 5 * 60 * 1000;
+const CDN_TASK_POLL_MS = 1000;
+const CDN_TASK_TIMEOUT_MS = 2 * 60 * 1000;
+
 export interface StreamingAnalytics {
   sessionId: string;
   userId?: string;
   mediaId: string;
+  mediaType?: 'movie' | 'music';
   startTime: Date;
   endTime?: Date;
   duration: number;
+  mediaDuration?: number; // Seconds
+  watchTime: number; // Seconds of media actually played
+  lastPosition: number;
+  maxPosition: number;
   qualityLevels: QualityMetric[];
   bufferEvents: BufferEvent[];
   errors: PlaybackError[];
@@ -92,36 +215,65 @@ export interface NetworkInfo {
   saveData: boolean;
 }
 
+export interface AnalyticsTimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface AnalyticsSummary {
+  totalViews: number;
+  uniqueViewers: number;
+  totalWatchTime: number; // Seconds
+  averageWatchTime: number; // Seconds per view
+  completionRate: number; // Percent of views that reached COMPLETION_THRESHOLD of the media
+  mostCommonQuality: string | null;
+  errorRate: number; // Percent of sessions with a fatal error
+  bufferRate: number; // Rebuffer ratio, percent of stalled time
+}
+
+export interface AnalyticsBreakdown {
+  qualityDistribution: { [quality: string]: number }; // Views per quality
+  deviceBreakdown: { [device: string]: number }; // Views per device class
+  bucket: 'hour' | 'day';
+  viewsOverTime: Array<{ bucket: Date; views: number }>;
+  topContent: Array<{ id: string; mediaType: 'movie' | 'music' | null; title: string; views: number; watchTime: number }>;
+  recentErrors: Array<{ timestamp: Date; error: string; count: number }>;
+}
+
+// Audience retention of one title. The heatmap arrays hold one entry per
+// bucket of bucketSeconds along the media timeline.
+export interface PlaybackRetention {
+  duration: number; // Seconds
+  views: number;
+  bucketSeconds: number;
+  retention: number[]; // Percent of views still watching at each second
+  dropOffs: number[];
+  buffering: Array<{ count: number; ms: number }>;
+  errors: number[];
+}
+
 export interface StreamingConfig {
   enableTranscoding: boolean;
-  enableCDN: boolean;
   enableAnalytics: boolean;
   defaultQuality: string;
   maxConcurrentJobs: number;
-  cdnConfig: CDNConfig;
 }
 
 export class StreamingService {
   private static instance: StreamingService;
   private config: StreamingConfig;
-  private activeJobs: Map<string, TranscodingJob> = new Map();
   private analyticsSessions: Map<string, StreamingAnalytics> = new Map();
+  private cdnSettings: { loaded: Promise<CDNSettings>; at: number } | null = null;
 
   private constructor() {
     this.config = {
       enableTranscoding: true,
-      enableCDN: true,
       enableAnalytics: true,
       defaultQuality: 'auto',
-      maxConcurrentJobs: 5,
-      cdnConfig: {
-        provider: 'cloudflare',
-        endpoint: 'https://cdn.example.com',
-        cacheTtl: 3600,
-        regions: ['us-east-1', 'eu-west-1', 'ap-southeast-1'],
-        sslEnabled: true
-      }
+      maxConcurrentJobs: 5
     };
+
+    analyticsIngestion.onUnload(() => this.endOpenSessions());
   }
 
   public static getInstance(): StreamingService {
@@ -132,79 +284,78 @@ export class StreamingService {
   }
 
   // Transcoding Pipeline
-  public async createTranscodingJob(inputUrl: string, formats: VideoFormat[]): Promise<TranscodingJob> {
-    const jobId = this.generateJobId();
-    const job: TranscodingJob = {
-      id: jobId,
-      inputUrl,
-      outputFormats: formats,
-      status: 'pending',
-      progress: 0,
-      createdAt: new Date()
-    };
-
-    this.activeJobs.set(jobId, job);
-
-    // Start processing asynchronously
-    this.processTranscodingJob(job);
-
+  // Jobs are persisted in the transcoding_jobs queue and processed by the
+  // ffmpeg worker (worker/transcodingWorker.ts). The browser only queues jobs
+  // and follows their progress.
+  public async createTranscodingJob(
+    inputUrl: string,
+    formats: VideoFormat[],
+    options: TranscodingJobOptions = {}
+  ): Promise<TranscodingJob> {
+    const { data, error } = await supabase
+      .from('transcoding_jobs')
+      .insert({
+        input_url: inputUrl,
+        output_formats: formats,
+        status: 'pending',
+        progress: 0,
+        priority: options.priority ?? 0,
+        max_attempts: options.maxAttempts ?? 3,
+        movie_id: options.movieId ?? null
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const job = this.mapJobRow(data);
+    this.emitTranscodingProgress(job);
     return job;
   }
 
-  private async processTranscodingJob(job: TranscodingJob): Promise<void> {
-    try {
-      job.status = 'processing';
-
-      // Simulate transcoding process with progress updates
-      for (let i = 0; i <= 100; i += 10) {
-        await this.delay(1000); // Simulate processing time
-        job.progress = i;
-
-        // Update job in storage
-        this.activeJobs.set(job.id, job);
-
-        // Emit progress event
-        this.emitTranscodingProgress(job);
-      }
-
-      // Generate output URLs
-      for (const format of job.outputFormats) {
-        format.url = await this.generateOutputUrl(job.id, format);
-        format.size = this.estimateFileSize(format);
-      }
-
-      job.status = 'completed';
-      job.completedAt = new Date();
-      this.activeJobs.set(job.id, job);
-
-      // Cache in CDN
-      if (this.config.enableCDN) {
-        await this.cacheInCDN(job);
-      }
-
-    } catch (error) {
-      job.status = 'failed';
-      job.error = error instanceof Error ? error.message : 'Unknown error';
-      this.activeJobs.set(job.id, job);
-    }
-  }
-
-  private async generateOutputUrl(jobId: string, format: VideoFormat): Promise<string> {
-    const baseUrl = this.config.cdnConfig.endpoint;
-    return `${baseUrl}/streams/${jobId}/${format.id}.${format.container}`;
-  }
-
-  private estimateFileSize(format: VideoFormat): number {
-    // Rough estimation based on bitrate and duration
-    const durationMinutes = 120; // Default 2 hours
-    return (format.bitrate * durationMinutes * 60) / 8; // Convert to bytes
+  // Subscribe to job changes written by the worker. Returns an unsubscribe function.
+  public subscribeToTranscodingJobs(): () => void {
+    const channel = supabase
+      .channel('transcoding-jobs')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'transcoding_jobs' },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const id = (payload.old as Partial<TranscodingJobRow>).id;
+            if (id) window.dispatchEvent(new CustomEvent('transcodingJobDeleted', { detail: id }));
+            return;
+          }
+
+          this.emitTranscodingProgress(this.mapJobRow(payload.new as TranscodingJobRow));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }
 
-  private async cacheInCDN(job: TranscodingJob): Promise<void> {
-    // Simulate CDN caching
-    console.log(`Caching job ${job.id} in CDN...`);
-    await this.delay(500);
-    console.log(`Job ${job.id} cached successfully`);
+  private mapJobRow(row: TranscodingJobRow): TranscodingJob {
+    return {
+      id: row.id,
+      inputUrl: row.input_url,
+      outputFormats: row.output_formats || [],
+      status: row.status,
+      progress: row.progress,
+      priority: row.priority,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      nextAttemptAt: row.status === 'pending' && row.attempts > 0 ? new Date(row.run_after) : undefined,
+      cancelRequested: row.cancel_requested,
+      createdAt: new Date(row.created_at),
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      error: row.error || undefined,
+      workerId: row.worker_id || undefined,
+      movieId: row.movie_id || undefined
+    };
   }
 
   // Video Compression with Quality Optimization
@@ -249,66 +400,167 @@ export class StreamingService {
       container: 'm3u8'
     });
 
+    // DASH shares the renditions' fragmented MP4 segments
+    formats.push({
+      id: 'dash',
+      name: 'DASH Adaptive',
+      resolution: 'adaptive',
+      bitrate: 0,
+      codec: 'h264',
+      container: 'mpd'
+    });
+
+    // Seek preview sprites
+    formats.push({ ...TRICKPLAY_FORMAT });
+
     return formats;
   }
 
-  // CDN Caching and Load Balancing
-  public async getOptimalCDNUrl(mediaId: string, quality: string, userLocation?: string): Promise<string> {
-    if (!this.config.enableCDN) {
-      return this.getDirectUrl(mediaId, quality);
+  // Manifest the player should load for a movie, falling back to whatever
+  // has been packaged and finally to the original upload
+  public getPlaybackUrl(movie: Movie): string {
+    if (movie.preferred_manifest === 'dash' && movie.dash_url) {
+      return movie.dash_url;
     }
+    return movie.hls_url || movie.dash_url || movie.video_url;
+  }
 
-    const region = this.selectOptimalRegion(userLocation);
-    const cdnUrl = `${this.config.cdnConfig.endpoint}/${region}/media/${mediaId}/${quality}`;
-
-    // Check cache status
-    const isCached = await this.checkCDNCache(cdnUrl);
-    if (isCached) {
-      return cdnUrl;
+  // CDN
+  // Configured once for every viewer in the cdn_settings row, which players
+  // re-read every few minutes. The signing key and API token stay on the
+  // server: URLs are signed by sign_cdn_urls, everything else is done by the
+  // CDN worker with the adapter of the configured provider (cdnAdapters.ts).
+  public getCDNSettings(): Promise<CDNSettings> {
+    if (!this.cdnSettings || Date.now() - this.cdnSettings.at > CDN_SETTINGS_TTL_MS) {
+      const loaded = this.loadCDNSettings();
+      this.cdnSettings = { loaded, at: Date.now() };
+      loaded.catch(() => {
+        if (this.cdnSettings?.loaded === loaded) this.cdnSettings = null;
+      });
     }
-
-    // Fallback to direct URL if not cached
-    return this.getDirectUrl(mediaId, quality);
+    return this.cdnSettings.loaded;
   }
 
-  private selectOptimalRegion(userLocation?: string): string {
-    if (!userLocation) {
-      return this.config.cdnConfig.regions[0]; // Default to first region
-    }
+  private async loadCDNSettings(): Promise<CDNSettings> {
+    const { data, error } = await supabase
+      .from('cdn_settings')
+      .select('*')
+      .eq('id', true)
+      .maybeSingle();
+
+    if (error) throw error;
 
-    // Simple region selection based on location
-    const locationMap: { [key: string]: string } = {
-      'us': 'us-east-1',
-      'eu': 'eu-west-1',
-      'asia': 'ap-southeast-1'
+    const row = data as CdnSettingsRow | null;
+    return {
+      enabled: Boolean(row?.enabled && row.endpoint),
+      config: row ? cdnConfigFromRow(row) : DEFAULT_CDN_CONFIG
     };
+  }
 
-    const region = locationMap[userLocation.toLowerCase()] || this.config.cdnConfig.regions[0];
-    return region;
+  // Admins only
+  public async saveCDNSettings({ enabled, config }: CDNSettings): Promise<void> {
+    const { error } = await supabase
+      .from('cdn_settings')
+      .update({
+        enabled,
+        provider: config.provider,
+        endpoint: config.endpoint.trim(),
+        failover_endpoints: config.failoverEndpoints.map(endpoint => endpoint.trim()).filter(Boolean),
+        cache_ttl: config.cacheTtl,
+        ssl_enabled: config.sslEnabled,
+        health_path: config.healthPath || null,
+        purge_url: config.purgeUrl || null,
+        zone_id: config.zoneId || null,
+        api_base_url: config.apiBaseUrl || null,
+        signing_key_secret: config.signingKeySecret?.trim() || null,
+        api_token_secret: config.apiTokenSecret?.trim() || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', true);
+
+    if (error) throw error;
+    this.cdnSettings = null;
   }
 
-  private async checkCDNCache(url: string): Promise<boolean> {
-    try {
-      const response = await fetch(url, { method: 'HEAD' });
-      return response.ok;
-    } catch {
-      return false;
-    }
+  // CDN URLs of media objects on one of the configured endpoints. Viewers
+  // can only sign the objects of their playback grants, admins any object.
+  public async signCDNUrls(endpoint: string, paths: string[]): Promise<SignedCdnUrl[]> {
+    const { data, error } = await supabase.rpc('sign_cdn_urls', {
+      p_endpoint: endpoint,
+      p_object_paths: paths
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as Array<{ object_path: string; url: string; expires_at: string }>).map(row => ({
+      path: row.object_path,
+      url: row.url,
+      expiresAt: new Date(row.expires_at).getTime()
+    }));
+  }
+
+  public async checkCDNHealth(): Promise<CdnHealth> {
+    return await this.runCDNTask('health') as CdnHealth;
+  }
+
+  public async purgeCDN(paths: string[] | 'all'): Promise<void> {
+    await (paths === 'all' ? this.runCDNTask('purge_all') : this.runCDNTask('purge', paths));
   }
 
-  private getDirectUrl(mediaId: string, quality: string): string {
-    return `https://api.example.com/media/${mediaId}/${quality}`;
+  // Requests every path through the edge so it is cached before viewers ask
+  public async warmCDN(paths: string[]): Promise<CdnWarmResult[]> {
+    return await this.runCDNTask('warm', paths) as CdnWarmResult[];
+  }
+
+  // Queues a task for the CDN worker and waits for its result
+  private async runCDNTask(action: CdnTaskRow['action'], paths: string[] = []): Promise<unknown> {
+    const { data, error } = await supabase
+      .from('cdn_tasks')
+      .insert({ action, paths })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    let task = data as CdnTaskRow;
+    const deadline = Date.now() + CDN_TASK_TIMEOUT_MS;
+    while (task.status === 'pending' || task.status === 'running') {
+      if (Date.now() > deadline) {
+        throw new Error('The CDN worker did not answer in time, is it running (npm run cdn:worker)?');
+      }
+      await new Promise(resolve => setTimeout(resolve, CDN_TASK_POLL_MS));
+
+      const { data: current, error: pollError } = await supabase
+        .from('cdn_tasks')
+        .select('*')
+        .eq('id', task.id)
+        .single();
+
+      if (pollError) throw pollError;
+      task = current as CdnTaskRow;
+    }
+
+    if (task.status === 'failed') {
+      throw new Error(task.error || 'CDN task failed');
+    }
+    return task.result;
   }
 
   // Watch Session Analytics
-  public startAnalyticsSession(mediaId: string, userId?: string): string {
+  // Sessions and their events are queued for ingestion as they are
+  // recorded (see analyticsIngestion), so a crashed tab still reports them.
+  public startAnalyticsSession(mediaId: string, userId?: string, mediaType?: 'movie' | 'music'): string {
     const sessionId = this.generateSessionId();
     const analytics: StreamingAnalytics = {
       sessionId,
       userId,
       mediaId,
+      mediaType,
       startTime: new Date(),
       duration: 0,
+      watchTime: 0,
+      lastPosition: 0,
+      maxPosition: 0,
       qualityLevels: [],
       bufferEvents: [],
       errors: [],
@@ -318,9 +570,53 @@ export class StreamingService {
     };
 
     this.analyticsSessions.set(sessionId, analytics);
+    analyticsIngestion.upsertSession(this.toSessionRecord(analytics));
+    livePresence.join({
+      sessionId,
+      mediaId,
+      mediaType: mediaType || null,
+      state: 'starting',
+      quality: 'auto',
+      position: 0,
+      rebufferCount: 0,
+      rebufferMs: 0,
+      bufferingSince: null,
+      device: analytics.deviceInfo.isMobile ? 'Mobile' : 'Desktop'
+    });
     return sessionId;
   }
 
+  // Called on every timeupdate. Small forward steps count as watched time,
+  // anything else is a seek.
+  public recordPlaybackPosition(sessionId: string, position: number, mediaDuration?: number): void {
+    const session = this.analyticsSessions.get(sessionId);
+    if (!session) return;
+
+    const step = position - session.lastPosition;
+    if (step > 0 && step < 2) {
+      session.watchTime += step;
+    }
+    session.lastPosition = position;
+    session.maxPosition = Math.max(session.maxPosition, position);
+    if (mediaDuration && Number.isFinite(mediaDuration)) {
+      session.mediaDuration = mediaDuration;
+    }
+
+    analyticsIngestion.upsertSession(this.toSessionRecord(session));
+    livePresence.update(sessionId, { position });
+  }
+
+  // Live state only, shown by the concurrent viewers monitor. Buffering
+  // ends with recordBufferEvent.
+  public recordPlaybackState(sessionId: string, state: LivePlaybackState): void {
+    if (!this.analyticsSessions.has(sessionId)) return;
+
+    livePresence.update(sessionId, {
+      state,
+      bufferingSince: state === 'buffering' ? new Date().toISOString() : null
+    });
+  }
+
   public recordQualitySwitch(sessionId: string, quality: string, bitrate: number, resolution: string): void {
     const session = this.analyticsSessions.get(sessionId);
     if (!session) return;
@@ -337,17 +633,37 @@ export class StreamingService {
         switchCount: 1
       });
     }
+
+    analyticsIngestion.upsertSession(this.toSessionRecord(session));
+    livePresence.update(sessionId, { quality });
   }
 
   public recordBufferEvent(sessionId: string, duration: number, reason: string, quality: string): void {
     const session = this.analyticsSessions.get(sessionId);
     if (!session) return;
 
-    session.bufferEvents.push({
+    const event: BufferEvent = {
       timestamp: new Date(),
       duration,
       reason: reason as any,
       quality
+    };
+    session.bufferEvents.push(event);
+
+    analyticsIngestion.addEvent('buffer_events', {
+      id: crypto.randomUUID(),
+      session_id: sessionId,
+      occurred_at: event.timestamp.toISOString(),
+      position: session.lastPosition,
+      duration_ms: Math.round(duration),
+      reason,
+      quality
+    });
+    livePresence.update(sessionId, {
+      state: 'playing',
+      bufferingSince: null,
+      rebufferCount: session.bufferEvents.length,
+      rebufferMs: session.bufferEvents.reduce((total, bufferEvent) => total + bufferEvent.duration, 0)
     });
   }
 
@@ -355,12 +671,35 @@ export class StreamingService {
     const session = this.analyticsSessions.get(sessionId);
     if (!session) return;
 
-    session.errors.push({
+    const error: PlaybackError = {
       timestamp: new Date(),
       errorType: errorType as any,
       errorCode,
       message,
       recoverable
+    };
+    session.errors.push(error);
+
+    analyticsIngestion.addEvent('errors', {
+      id: crypto.randomUUID(),
+      session_id: sessionId,
+      occurred_at: error.timestamp.toISOString(),
+      position: session.lastPosition,
+      error_type: errorType,
+      error_code: errorCode,
+      message,
+      recoverable
+    });
+    livePresence.reportError({
+      sessionId,
+      mediaId: session.mediaId,
+      mediaType: session.mediaType || null,
+      errorType,
+      errorCode,
+      message,
+      recoverable,
+      position: session.lastPosition,
+      occurredAt: error.timestamp.toISOString()
     });
   }
 
@@ -368,11 +707,21 @@ export class StreamingService {
     const session = this.analyticsSessions.get(sessionId);
     if (!session) return;
 
-    session.dropOffPoints.push({
+    const dropOff: DropOffPoint = {
       timestamp: new Date(),
       position,
       reason: reason as any,
       context
+    };
+    session.dropOffPoints.push(dropOff);
+
+    analyticsIngestion.addEvent('drop_offs', {
+      id: crypto.randomUUID(),
+      session_id: sessionId,
+      occurred_at: dropOff.timestamp.toISOString(),
+      position,
+      reason,
+      context: context ?? null
     });
   }
 
@@ -383,8 +732,17 @@ export class StreamingService {
     session.endTime = new Date();
     session.duration = session.endTime.getTime() - session.startTime.getTime();
 
+    // Leaving before the end counts as a drop-off at the last position
+    const completed = session.mediaDuration
+      ? session.maxPosition >= session.mediaDuration * COMPLETION_THRESHOLD
+      : false;
+    if (!completed && session.lastPosition > 0 && session.dropOffPoints.length === 0) {
+      this.recordDropOff(sessionId, session.lastPosition, 'user_action');
+    }
+
     // Send analytics to backend
     this.sendAnalyticsToBackend(session);
+    livePresence.leave(sessionId);
 
     // Remove from active sessions
     this.analyticsSessions.delete(sessionId);
@@ -392,24 +750,43 @@ export class StreamingService {
     return session;
   }
 
+  // The final snapshot goes out right away instead of waiting for the next batch
   private async sendAnalyticsToBackend(analytics: StreamingAnalytics): Promise<void> {
-    // In a real implementation, this would send to your analytics backend
-    // For now, we just log it to avoid network errors
-    console.log('Analytics event recorded (mock):', analytics.sessionId);
-    return Promise.resolve();
+    analyticsIngestion.upsertSession(this.toSessionRecord(analytics));
+    await analyticsIngestion.flush();
   }
 
-  // Utility Methods
-  private generateJobId(): string {
-    return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private toSessionRecord(session: StreamingAnalytics): PlaybackSessionRecord {
+    return {
+      id: session.sessionId,
+      media_id: session.mediaId,
+      media_type: session.mediaType || null,
+      started_at: session.startTime.toISOString(),
+      ended_at: session.endTime ? session.endTime.toISOString() : null,
+      watch_time: Math.round(session.watchTime * 1000) / 1000,
+      media_duration: session.mediaDuration ?? null,
+      last_position: session.lastPosition,
+      max_position: session.maxPosition,
+      quality_levels: session.qualityLevels,
+      device_info: session.deviceInfo,
+      network_info: session.networkInfo
+    };
   }
 
-  private generateSessionId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Sessions still open when the tab closes are ended for the final beacon
+  private endOpenSessions(): void {
+    const now = new Date();
+    this.analyticsSessions.forEach(session => {
+      session.endTime = now;
+      session.duration = now.getTime() - session.startTime.getTime();
+      analyticsIngestion.upsertSession(this.toSessionRecord(session));
+    });
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Utility Methods
+  // Session ids double as playback_sessions primary keys
+  private generateSessionId(): string {
+    return crypto.randomUUID();
   }
 
   private emitTranscodingProgress(job: TranscodingJob): void {
@@ -461,6 +838,22 @@ export class StreamingService {
   public updateConfig(newConfig: Partial<StreamingConfig>): void {
     this.config = { ...this.config, ...newConfig };
     localStorage.setItem('streamingConfig', JSON.stringify(this.config));
+
+    // The worker enforces the concurrency limit, so it has to live in the database
+    if (newConfig.maxConcurrentJobs !== undefined) {
+      this.syncQueueSettings(newConfig.maxConcurrentJobs).catch((error) => {
+        console.error('Failed to update transcoding queue settings:', error);
+      });
+    }
+  }
+
+  private async syncQueueSettings(maxConcurrentJobs: number): Promise<void> {
+    const { error } = await supabase
+      .from('transcoding_queue_settings')
+      .update({ max_concurrent_jobs: maxConcurrentJobs, updated_at: new Date().toISOString() })
+      .eq('id', true);
+
+    if (error) throw error;
   }
 
   public getConfig(): StreamingConfig {
@@ -472,36 +865,158 @@ export class StreamingService {
   }
 
   // Job Management
-  public getJob(jobId: string): TranscodingJob | undefined {
-    return this.activeJobs.get(jobId);
+  public async getJob(jobId: string): Promise<TranscodingJob | undefined> {
+    const { data, error } = await supabase
+      .from('transcoding_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data ? this.mapJobRow(data) : undefined;
   }
 
-  public getAllJobs(): TranscodingJob[] {
-    return Array.from(this.activeJobs.values());
+  public async getAllJobs(): Promise<TranscodingJob[]> {
+    const { data, error } = await supabase
+      .from('transcoding_jobs')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapJobRow(row));
   }
 
-  public cancelJob(jobId: string): boolean {
-    const job = this.activeJobs.get(jobId);
-    if (job && job.status === 'pending') {
-      job.status = 'failed';
-      job.error = 'Cancelled by user';
-      return true;
-    }
-    return false;
+  // Pending jobs are cancelled immediately. Running jobs are flagged and
+  // stopped by their worker on its next lease renewal.
+  public async cancelJob(jobId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('cancel_transcoding_job', { p_job_id: jobId });
+
+    if (error) throw error;
+    return data !== null;
+  }
+
+  public async retryJob(jobId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('retry_transcoding_job', { p_job_id: jobId });
+
+    if (error) throw error;
+    return data === true;
+  }
+
+  // Deleting a running job also stops it: its worker loses the lease
+  public async deleteJob(jobId: string): Promise<void> {
+    const { error } = await supabase
+      .from('transcoding_jobs')
+      .delete()
+      .eq('id', jobId);
+
+    if (error) throw error;
   }
 
   // Analytics Queries
-  public getAnalyticsSummary(mediaId: string, timeRange?: { start: Date; end: Date }): any {
-    // This would typically query a database
+  // Aggregated by get_playback_analytics_summary over the stored sessions.
+  // Without a mediaId the summary covers all media; the range defaults to
+  // the last 7 days.
+  public async getAnalyticsSummary(mediaId?: string, timeRange?: AnalyticsTimeRange): Promise<AnalyticsSummary> {
+    const { data, error } = await supabase.rpc('get_playback_analytics_summary', {
+      p_media_id: mediaId || null,
+      ...this.toRangeParams(timeRange)
+    });
+
+    if (error) throw error;
+
+    const row = (Array.isArray(data) ? data[0] : data) || {};
+    return {
+      totalViews: Number(row.total_views) || 0,
+      uniqueViewers: Number(row.unique_viewers) || 0,
+      totalWatchTime: Number(row.total_watch_time) || 0,
+      averageWatchTime: Number(row.average_watch_time) || 0,
+      completionRate: Number(row.completion_rate) || 0,
+      mostCommonQuality: row.most_common_quality || null,
+      errorRate: Number(row.error_rate) || 0,
+      bufferRate: Number(row.rebuffer_ratio) || 0
+    };
+  }
+
+  public async getAnalyticsBreakdown(mediaId?: string, timeRange?: AnalyticsTimeRange): Promise<AnalyticsBreakdown> {
+    const { data, error } = await supabase.rpc('get_playback_analytics_breakdown', {
+      p_media_id: mediaId || null,
+      ...this.toRangeParams(timeRange)
+    });
+
+    if (error) throw error;
+
+    const result = data || {};
+    return {
+      qualityDistribution: result.quality_distribution || {},
+      deviceBreakdown: result.device_breakdown || {},
+      bucket: result.bucket === 'hour' ? 'hour' : 'day',
+      viewsOverTime: (result.views_over_time || []).map((point: { bucket: string; views: number }) => ({
+        bucket: new Date(point.bucket),
+        views: Number(point.views)
+      })),
+      topContent: (result.top_content || []).map((content: { media_id: string; media_type: 'movie' | 'music' | null; title: string; views: number; watch_time: number }) => ({
+        id: content.media_id,
+        mediaType: content.media_type,
+        title: content.title,
+        views: Number(content.views),
+        watchTime: Number(content.watch_time)
+      })),
+      recentErrors: (result.recent_errors || []).map((recent: { error: string; count: number; last_seen: string }) => ({
+        error: recent.error,
+        count: Number(recent.count),
+        timestamp: new Date(recent.last_seen)
+      }))
+    };
+  }
+
+  public async getRetention(mediaId: string, timeRange?: AnalyticsTimeRange): Promise<PlaybackRetention> {
+    const { data, error } = await supabase.rpc('get_playback_retention', {
+      p_media_id: mediaId,
+      ...this.toRangeParams(timeRange)
+    });
+
+    if (error) throw error;
+
+    const result = data || {};
     return {
-      totalViews: 0,
-      averageWatchTime: 0,
-      completionRate: 0,
-      mostCommonQuality: 'auto',
-      errorRate: 0,
-      bufferRate: 0
+      duration: Number(result.duration) || 0,
+      views: Number(result.views) || 0,
+      bucketSeconds: Number(result.bucket_seconds) || 1,
+      retention: (result.retention || []).map(Number),
+      dropOffs: (result.drop_offs || []).map(Number),
+      buffering: (result.buffering || []).map((bucket: { count: number; ms: number }) => ({
+        count: Number(bucket.count),
+        ms: Number(bucket.ms)
+      })),
+      errors: (result.errors || []).map(Number)
     };
   }
+
+  // Live Monitoring
+  // Viewers currently playing something, from the private channel players'
+  // heartbeats are broadcast on (admins only). Returns an unsubscribe function.
+  public subscribeToLiveViewers(
+    onViewers: (viewers: LiveViewer[]) => void,
+    onError?: (error: LivePlaybackError) => void
+  ): () => void {
+    return livePresence.watch(onViewers, onError);
+  }
+
+  // Devices that synced within the window, from device_sessions
+  public async getActiveDeviceSessionCount(windowMinutes = 15): Promise<number> {
+    const { data, error } = await supabase.rpc('get_active_device_session_count', {
+      p_window_minutes: windowMinutes
+    });
+
+    if (error) throw error;
+    return Number(data) || 0;
+  }
+
+  private toRangeParams(timeRange?: AnalyticsTimeRange) {
+    const end = timeRange?.end || new Date();
+    const start = timeRange?.start || new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+    return { p_start: start.toISOString(), p_end: end.toISOString() };
+  }
 }
 
 // Export singleton instance
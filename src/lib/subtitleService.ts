@@ -0,0 +1,134 @@
+import { supabase, MovieSubtitle } from './supabase';
+import { getLanguageName } from './constants';
+
+// WebVTT timestamps: optional hours of at least two digits, then mm:ss.ttt
+const VTT_TIMESTAMP = '(?:\\d{2,}:)?\\d{2}:\\d{2}\\.\\d{3}';
+const VTT_TIMING_LINE = new RegExp(`^${VTT_TIMESTAMP}[ \\t]+-->[ \\t]+${VTT_TIMESTAMP}(?:[ \\t].*)?$`);
+
+// SRT and WebVTT cues only differ in the header, the cue numbers and the
+// decimal separator of the timestamps. SRT hours often come with one digit
+// (0:01:02,345), WebVTT wants at least two.
+export const srtToVtt = (srt: string): string => {
+  const cues = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n{2,}/)
+    .map(block => {
+      const lines = block.split('\n');
+      // Drop the numeric cue index in front of the timing line
+      if (lines.length > 1 && /^\d+$/.test(lines[0].trim()) && lines[1].includes('-->')) {
+        lines.shift();
+      }
+      lines[0] = lines[0].replace(
+        /(?<!\d)(\d{1,2}):(\d{2}):(\d{2}),(\d{3})/g,
+        (_match, hours: string, minutes: string, seconds: string, millis: string) =>
+          `${hours.padStart(2, '0')}:${minutes}:${seconds}.${millis}`
+      );
+      return lines.join('\n');
+    })
+    .filter(block => block.includes('-->'));
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+// Browsers silently drop cues whose timing line they can't parse, so a
+// file with one is rejected instead of being stored with missing cues
+const checkCueTimings = (vtt: string, fileName: string): string => {
+  const invalid = vtt
+    .split(/\r\n?|\n/)
+    .find(line => line.includes('-->') && !VTT_TIMING_LINE.test(line.trim()));
+
+  if (invalid) {
+    throw new Error(`${fileName} has a cue timing that can't be read: ${invalid.trim()}`);
+  }
+  return vtt;
+};
+
+export const toWebVtt = (text: string, fileName: string): string => {
+  const content = text.replace(/^\uFEFF/, '');
+  if (content.startsWith('WEBVTT')) {
+    return checkCueTimings(content, fileName);
+  }
+  if (fileName.toLowerCase().endsWith('.srt')) {
+    return checkCueTimings(srtToVtt(content), fileName);
+  }
+  throw new Error(`${fileName} is not an SRT or WebVTT file`);
+};
+
+export const subtitleService = {
+  async getMovieSubtitles(movieId: string): Promise<MovieSubtitle[]> {
+    const { data, error } = await supabase
+      .from('movie_subtitles')
+      .select('*')
+      .eq('movie_id', movieId)
+      .order('is_default', { ascending: false })
+      .order('label', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Converts SRT to WebVTT before storing, browsers only render VTT tracks.
+  // A default track takes over from the movie's previous default.
+  async uploadMovieSubtitle(
+    movieId: string,
+    file: File,
+    language: string,
+    label: string,
+    isDefault = false
+  ): Promise<MovieSubtitle> {
+    const vtt = toWebVtt(await file.text(), file.name);
+    const storagePath = `subtitles/${movieId}/${language}-${Date.now()}.vtt`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('media')
+      .upload(storagePath, new Blob([vtt], { type: 'text/vtt' }), { contentType: 'text/vtt' });
+
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await supabase
+      .from('movie_subtitles')
+      .insert({
+        movie_id: movieId,
+        language,
+        label: label || getLanguageName(language),
+        url: storagePath, // Signed by the player's playback session
+        storage_path: storagePath
+      })
+      .select()
+      .single();
+
+    if (error) {
+      await supabase.storage.from('media').remove([storagePath]);
+      throw error;
+    }
+
+    if (!isDefault) return data;
+
+    try {
+      return await this.setDefaultMovieSubtitle(data.id);
+    } catch (defaultError) {
+      await this.deleteMovieSubtitle(data);
+      throw defaultError;
+    }
+  },
+
+  async setDefaultMovieSubtitle(subtitleId: string): Promise<MovieSubtitle> {
+    const { data, error } = await supabase.rpc('set_default_movie_subtitle', { p_subtitle_id: subtitleId });
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteMovieSubtitle(subtitle: MovieSubtitle): Promise<void> {
+    const { error } = await supabase
+      .from('movie_subtitles')
+      .delete()
+      .eq('id', subtitle.id);
+
+    if (error) throw error;
+
+    await supabase.storage.from('media').remove([subtitle.storage_path]);
+  }
+};
@@ -22,14 +22,128 @@ export interface Movie {
   title: string;
   description: string;
   thumbnail_url: string;
+  thumbnail_sizes?: ThumbnailSizes | null;
+  thumbnail_blurhash?: string | null;
   video_url: string;
+  hls_url?: string | null;
+  dash_url?: string | null;
+  thumbnails_vtt_url?: string | null; // Trick-play sprites track, object path in the media bucket
+  preferred_manifest?: ManifestType;
+  width?: number | null;
+  height?: number | null;
+  video_codec?: string | null;
+  audio_codec?: string | null;
+  bitrate?: number | null; // Source file, bits per second
   category: string;
   duration: number;
   release_year: number;
   rating: number;
+  is_episode?: boolean; // Played as an episode of a series, left out of the catalog
   created_at: string;
 }
 
+export type ManifestType = 'hls' | 'dash';
+
+// Public artwork URLs of a movie thumbnail, see posterService
+export interface ThumbnailSizes {
+  card: string;
+  hero: string;
+  og: string;
+}
+
+export interface StoredThumbnail {
+  thumbnail_url: string; // The hero size
+  thumbnail_sizes: ThumbnailSizes;
+  thumbnail_blurhash: string | null;
+}
+
+export interface MovieSubtitle {
+  id: string;
+  movie_id: string;
+  language: string; // ISO 639-1 code
+  label: string;
+  url: string; // Public URL of the WebVTT file
+  storage_path: string;
+  is_default: boolean;
+  created_at: string;
+}
+
+export interface MovieAudioTrack {
+  id: string;
+  movie_id: string;
+  language: string; // ISO 639-1 code
+  label: string;
+  is_audio_description: boolean;
+  source_path: string; // Uploaded file, muxed into HLS by the transcoding worker
+  created_at: string;
+}
+
+export type SkipSegmentType = 'intro' | 'recap' | 'credits';
+
+export interface MovieSkipSegment {
+  id: string;
+  movie_id: string;
+  type: SkipSegmentType;
+  start_time: number; // Seconds
+  end_time: number;
+  created_at: string;
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  description: string | null;
+  poster_url: string | null;
+  genre: string | null;
+  release_year: number | null;
+  rating: number | null;
+  created_at: string;
+}
+
+export interface Season {
+  id: string;
+  series_id: string;
+  season_number: number;
+  title: string | null;
+  description: string | null;
+  release_year: number | null;
+  created_at: string;
+}
+
+// The episode's media, title and description live on its movie row
+export interface Episode {
+  id: string;
+  season_id: string;
+  movie_id: string;
+  episode_number: number;
+  created_at: string;
+}
+
+export interface EpisodeWithMovie extends Episode {
+  movie: Movie;
+}
+
+export interface SeasonWithEpisodes extends Season {
+  episodes: EpisodeWithMovie[];
+}
+
+export interface SeriesWithSeasons extends Series {
+  seasons: SeasonWithEpisodes[];
+}
+
+// Row of get_next_episode
+export interface NextEpisode {
+  episode_id: string;
+  movie_id: string;
+  series_id: string;
+  series_title: string;
+  season_number: number;
+  episode_number: number;
+  title: string;
+  thumbnail_url: string | null;
+  duration: number;
+}
+
 export interface Music {
   id: string;
   title: string;
@@ -41,13 +155,107 @@ export interface Music {
   duration: number;
   genre: string;
   rating: number;
+  audio_codec?: string | null;
+  bitrate?: number | null;
+  // artist and album above are display names kept in step with these rows
+  artist_id?: string | null;
+  album_id?: string | null;
+  track_number?: number | null;
+  disc_number?: number;
+  created_at: string;
+}
+
+export interface Artist {
+  id: string;
+  name: string;
+  image_url: string | null;
   created_at: string;
 }
 
+export interface Album {
+  id: string;
+  artist_id: string;
+  title: string;
+  release_date: string | null;
+  album_art_url: string | null;
+  created_at: string;
+}
+
+export interface AlbumWithArtist extends Album {
+  artist: Pick<Artist, 'id' | 'name'>;
+}
+
+// Browse cards, with how many tracks each holds
+export interface AlbumSummary extends AlbumWithArtist {
+  track_count: number;
+}
+
+export interface ArtistSummary extends Artist {
+  track_count: number;
+  album_count: number;
+  cover_url: string | null; // Artist image, or the cover of one of their albums
+}
+
 export interface Playlist {
   id: string;
   name: string;
+  description: string | null;
   user_id: string;
   is_public: boolean;
   created_at: string;
+  updated_at: string;
+}
+
+export type PlaylistContentType = 'movie' | 'music';
+
+// Exactly one of movie_id and music_id is set, matching content_type
+export interface PlaylistItem {
+  id: string;
+  playlist_id: string;
+  content_type: PlaylistContentType;
+  movie_id: string | null;
+  music_id: string | null;
+  position: number;
+  added_by: string | null;
+  created_at: string;
+}
+
+export interface PlaylistItemWithContent extends PlaylistItem {
+  movie: Movie | null;
+  music: Music | null;
+}
+
+export interface PlaylistWithItems extends Playlist {
+  items: PlaylistItemWithContent[];
+}
+
+// List cards, with how many items each holds
+export interface PlaylistSummary extends Playlist {
+  item_count: number;
+}
+
+export type PlaylistCollaboratorRole = 'editor' | 'viewer';
+
+// Invites match accounts on email, so they work before the account exists
+export interface PlaylistCollaborator {
+  id: string;
+  playlist_id: string;
+  email: string;
+  role: PlaylistCollaboratorRole;
+  invited_by: string | null;
+  created_at: string;
+}
+
+// Row of get_playlist_members. collaborator_id is null for the owner,
+// user_id for invites no account has claimed with a confirmed email yet.
+export interface PlaylistMember {
+  collaborator_id: string | null;
+  user_id: string | null;
+  email: string;
+  role: 'owner' | PlaylistCollaboratorRole;
+}
+
+// A playlist someone else shared with the user
+export interface SharedPlaylistSummary extends PlaylistSummary {
+  role: PlaylistCollaboratorRole;
 }
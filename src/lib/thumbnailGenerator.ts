@@ -1,6 +1,7 @@
 /**
  * Thumbnail Generator Utility
- * Generates thumbnails from videos at the 5-second mark
+ * Generates thumbnails from videos at a fixed time (5 seconds by default),
+ * and picks poster frames by scoring candidates sampled across the video
  */
 
 export interface ThumbnailOptions {
@@ -104,6 +105,247 @@ export const generateVideoThumbnail = async (
   });
 };
 
+export interface FrameMetrics {
+  brightness: number; // Mean luma, 0-1
+  contrast: number; // Luma standard deviation, 0-1
+  sharpness: number; // Laplacian response, 0-1
+  colorfulness: number; // Hasler-Süsstrunk colorfulness, 0-1
+  score: number; // Weighted total, 0-1
+}
+
+export interface PosterCandidate extends ThumbnailResult {
+  time: number;
+  metrics: FrameMetrics;
+}
+
+export interface PosterSelectionOptions {
+  samples?: number; // Frames scored across the video (default: 24)
+  keep?: number; // Best candidates rendered at full size (default: 1)
+  maxWidth?: number; // Poster width cap, the aspect ratio is kept (default: 1280)
+  quality?: number; // JPEG quality 0-1 (default: 0.85)
+}
+
+// Frames are scored on a small copy, which is plenty for these statistics
+const ANALYSIS_WIDTH = 160;
+const ANALYSIS_HEIGHT = 90;
+const SEEK_TIMEOUT_MS = 15000;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Score a frame for use as a poster. Well exposed, contrasty, sharp and
+ * colorful frames win; black fades, white flashes and flat frames (a logo
+ * on a plain background) are pushed to the bottom.
+ */
+export const scoreFrame = ({ data, width, height }: ImageData): FrameMetrics => {
+  const pixels = width * height;
+  const luma = new Float32Array(pixels);
+  let lumaSum = 0;
+  let rgSum = 0;
+  let ybSum = 0;
+  let rgSquares = 0;
+  let ybSquares = 0;
+
+  for (let i = 0; i < pixels; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    const rg = r - g;
+    const yb = 0.5 * (r + g) - b;
+
+    luma[i] = y;
+    lumaSum += y;
+    rgSum += rg;
+    ybSum += yb;
+    rgSquares += rg * rg;
+    ybSquares += yb * yb;
+  }
+
+  const lumaMean = lumaSum / pixels;
+  let lumaVariance = 0;
+  for (let i = 0; i < pixels; i++) {
+    lumaVariance += (luma[i] - lumaMean) ** 2;
+  }
+  lumaVariance /= pixels;
+
+  // Variance of the 4-neighbour Laplacian
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let laplacianCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      laplacianCount++;
+    }
+  }
+  const laplacianMean = laplacianCount ? laplacianSum / laplacianCount : 0;
+  const laplacianVariance = laplacianCount ? laplacianSquares / laplacianCount - laplacianMean ** 2 : 0;
+
+  const rgMean = rgSum / pixels;
+  const ybMean = ybSum / pixels;
+  const rgDeviation = Math.sqrt(Math.max(0, rgSquares / pixels - rgMean ** 2));
+  const ybDeviation = Math.sqrt(Math.max(0, ybSquares / pixels - ybMean ** 2));
+  const colorfulness = Math.hypot(rgDeviation, ybDeviation) + 0.3 * Math.hypot(rgMean, ybMean);
+
+  const brightness = lumaMean / 255;
+  const contrast = clamp01(Math.sqrt(lumaVariance) / 128);
+  const sharpness = clamp01(Math.sqrt(Math.max(0, laplacianVariance)) / 40);
+  const colorfulnessScore = clamp01(colorfulness / 100);
+
+  // Mid-grey is ideal, both ends count for nothing
+  const exposure = 1 - Math.abs(brightness - 0.5) * 2;
+  let score = 0.25 * exposure + 0.25 * contrast + 0.3 * sharpness + 0.2 * colorfulnessScore;
+  if (brightness < 0.1 || brightness > 0.92 || contrast < 0.05) {
+    score *= 0.1;
+  }
+
+  return { brightness, contrast, sharpness, colorfulness: colorfulnessScore, score };
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: 'seeked' | 'loadeddata' | 'loadedmetadata') =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, SEEK_TIMEOUT_MS);
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Video load error'));
+    };
+    const cleanup = () => {
+      clearTimeout(timeout);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+const seekTo = async (video: HTMLVideoElement, time: number) => {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+  // Adaptive streams can finish the seek before the frame is decoded
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+    await waitForEvent(video, 'loadeddata');
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to generate thumbnail blob'));
+      }
+    }, 'image/jpeg', quality);
+  });
+
+/**
+ * Pick poster frames from a video element whose metadata has loaded. Frames
+ * are sampled between 5% and 85% of the duration, which skips fade-ins,
+ * studio logos and end credits, and returned best first.
+ */
+export const selectPosterFrames = async (
+  video: HTMLVideoElement,
+  options: PosterSelectionOptions = {}
+): Promise<PosterCandidate[]> => {
+  const { samples = 24, keep = 1, maxWidth = 1280, quality = 0.85 } = options;
+  const duration = video.duration;
+  if (!duration || !isFinite(duration)) {
+    throw new Error('Video duration is unknown');
+  }
+
+  const analysis = document.createElement('canvas');
+  analysis.width = ANALYSIS_WIDTH;
+  analysis.height = ANALYSIS_HEIGHT;
+  const analysisCtx = analysis.getContext('2d', { willReadFrequently: true });
+  if (!analysisCtx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const start = duration * 0.05;
+  const end = duration * 0.85;
+  const step = samples > 1 ? (end - start) / (samples - 1) : 0;
+  const scored: Array<{ time: number; metrics: FrameMetrics }> = [];
+
+  for (let index = 0; index < samples; index++) {
+    const time = Math.min(start + index * step, duration - 0.1);
+    try {
+      await seekTo(video, time);
+      analysisCtx.drawImage(video, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+      scored.push({ time, metrics: scoreFrame(analysisCtx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT)) });
+    } catch (error) {
+      console.warn(`Skipping poster candidate at ${time.toFixed(1)}s:`, error);
+    }
+  }
+
+  if (scored.length === 0) {
+    throw new Error('No frame could be read from the video');
+  }
+
+  // Render the winners at poster size
+  const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((video.videoWidth || ANALYSIS_WIDTH) * scale);
+  canvas.height = Math.round((video.videoHeight || ANALYSIS_HEIGHT) * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  const candidates: PosterCandidate[] = [];
+  for (const { time, metrics } of scored.sort((a, b) => b.metrics.score - a.metrics.score).slice(0, keep)) {
+    await seekTo(video, time);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    candidates.push({
+      time,
+      metrics,
+      blob: await canvasToBlob(canvas, quality),
+      dataUrl: canvas.toDataURL('image/jpeg', quality),
+      width: canvas.width,
+      height: canvas.height
+    });
+  }
+
+  return candidates;
+};
+
+/**
+ * Pick poster frames from a video URL or a local file
+ */
+export const selectPosterFramesFromSource = async (
+  source: string | File,
+  options: PosterSelectionOptions = {}
+): Promise<PosterCandidate[]> => {
+  const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.preload = 'auto';
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    const loaded = waitForEvent(video, 'loadedmetadata');
+    video.src = objectUrl || (source as string);
+    await loaded;
+    return await selectPosterFrames(video, options);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  }
+};
+
 /**
  * Generate multiple thumbnails at different time points
  */
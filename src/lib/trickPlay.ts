@@ -0,0 +1,90 @@
+import type { PlaybackUrlSession } from './mediaUrlService';
+
+// Trick-play thumbnails
+// Parses the WebVTT thumbnails track written by the transcoding worker
+// (worker/trickplay.ts). Every cue points at one tile of a sprite sheet:
+// sprite-001.jpg#xywh=x,y,w,h, relative to the track. Tracks are stored in
+// the private media bucket, so the track and its sheets are read through a
+// playback session.
+
+export interface TrickPlayTile {
+  start: number;
+  end: number;
+  url: string; // Sprite sheet, stored path or absolute URL; signed when shown
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const tracks = new Map<string, Promise<TrickPlayTile[]>>();
+
+const ABSOLUTE_URL_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:/;
+
+// Stored paths resolve within the media bucket, URLs like any link
+const resolveAgainst = (file: string, base: string): string =>
+  ABSOLUTE_URL_PATTERN.test(base) ? new URL(file, base).toString() : `${base.replace(/[^/]*$/, '')}${file}`;
+
+const parseTimestamp = (value: string): number => {
+  const parts = value.trim().split(':').map(parseFloat);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const parseThumbnailsVtt = (text: string, baseUrl: string): TrickPlayTile[] => {
+  const tiles: TrickPlayTile[] = [];
+
+  for (const block of text.replace(/\r/g, '').split(/\n\n+/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    const target = lines[timingIndex + 1]?.trim();
+    if (timingIndex < 0 || !target) continue;
+
+    const [start, end] = lines[timingIndex].split('-->').map(parseTimestamp);
+    const [file, fragment] = target.split('#xywh=');
+    const [x, y, width, height] = (fragment || '').split(',').map(Number);
+    if (!fragment || [x, y, width, height].some(isNaN)) continue;
+
+    tiles.push({ start, end, url: resolveAgainst(file, baseUrl), x, y, width, height });
+  }
+
+  return tiles;
+};
+
+// Cached per track so every card and the player share one download. The
+// tiles keep unsigned sheet URLs, which stay usable after the signed ones
+// expire.
+export const loadTrickPlay = (vttUrl: string, session: Pick<PlaybackUrlSession, 'sign'> | null): Promise<TrickPlayTile[]> => {
+  let track = tracks.get(vttUrl);
+  if (!track) {
+    track = (session ? session.sign(vttUrl) : Promise.resolve(vttUrl))
+      .then(url => fetch(url))
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then(text => parseThumbnailsVtt(text, vttUrl))
+      .catch(error => {
+        // Forget failures so the next hover retries
+        tracks.delete(vttUrl);
+        throw error;
+      });
+    tracks.set(vttUrl, track);
+  }
+  return track;
+};
+
+export const findTile = (tiles: TrickPlayTile[], time: number): TrickPlayTile | null => {
+  if (tiles.length === 0) return null;
+
+  let low = 0;
+  let high = tiles.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (tiles[middle].start <= time) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return tiles[low];
+};
@@ -1,11 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
-import { supabase, Movie, Music } from '../lib/supabase';
+import { AnimatePresence } from 'framer-motion';
+import { supabase, Movie, Music, ManifestType } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { Spinner } from '../components/Spinner';
 import { usePageNavigation } from '../hooks/usePageNavigation';
 import { useLoading } from '../hooks/useLoading';
+import { SkipSegmentEditor } from '../components/SkipSegmentEditor';
+import { PosterFramePicker } from '../components/PosterFramePicker';
+import { SeriesManager } from '../components/SeriesManager';
 import toast from 'react-hot-toast';
-import { ArrowLeft, Film, Music as MusicIcon, Trash2, Edit2, Save, X } from 'lucide-react';
+import { ArrowLeft, Film, Music as MusicIcon, Trash2, Edit2, Save, X, Scissors, ImageIcon, Tv } from 'lucide-react';
 
 export const Admin = () => {
   const { goToChoice } = usePageNavigation();
@@ -17,7 +21,9 @@ export const Admin = () => {
   const [editingMusic, setEditingMusic] = useState<string | null>(null);
   const [editMovieData, setEditMovieData] = useState<Partial<Movie>>({});
   const [editMusicData, setEditMusicData] = useState<Partial<Music>>({});
-  const [activeTab, setActiveTab] = useState<'movies' | 'music'>('movies');
+  const [activeTab, setActiveTab] = useState<'movies' | 'series' | 'music'>('movies');
+  const [skipEditorMovie, setSkipEditorMovie] = useState<Movie | null>(null);
+  const [posterPickerMovie, setPosterPickerMovie] = useState<Movie | null>(null);
 
   const fetchData = useCallback(async () => {
     try {
@@ -94,7 +100,8 @@ export const Admin = () => {
       description: movie.description,
       category: movie.category,
       release_year: movie.release_year,
-      rating: movie.rating
+      rating: movie.rating,
+      preferred_manifest: movie.preferred_manifest || 'hls'
     });
   };
 
@@ -104,6 +111,8 @@ export const Admin = () => {
       title: track.title,
       artist: track.artist,
       album: track.album,
+      track_number: track.track_number ?? null,
+      disc_number: track.disc_number ?? 1,
       genre: track.genre,
       rating: track.rating
     });
@@ -137,10 +146,13 @@ export const Admin = () => {
 
   const handleSaveMusic = async (id: string, data: Partial<Music>) => {
     try {
-      const { error } = await supabase
+      // The row comes back with the artist and album names it resolved to
+      const { data: updated, error } = await supabase
         .from('music')
         .update(data)
-        .eq('id', id);
+        .eq('id', id)
+        .select()
+        .single();
       
       if (error) {
         console.error('Update music error:', error);
@@ -149,7 +161,7 @@ export const Admin = () => {
       }
       
       setMusic(prev => prev.map(track => 
-        track.id === id ? { ...track, ...data } : track
+        track.id === id ? { ...track, ...updated } : track
       ));
       
       setEditingMusic(null);
@@ -216,6 +228,17 @@ export const Admin = () => {
             <Film className="w-5 h-5" />
             Movies ({movies.length})
           </button>
+          <button
+            onClick={() => setActiveTab('series')}
+            className={`px-6 py-3 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'series'
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <Tv className="w-5 h-5" />
+            Series
+          </button>
           <button
             onClick={() => setActiveTab('music')}
             className={`px-6 py-3 rounded-lg font-medium transition-colors flex items-center gap-2 ${
@@ -284,6 +307,17 @@ export const Admin = () => {
                             placeholder="Rating"
                           />
                         </div>
+                        <div>
+                          <label className="block text-sm text-slate-400 mb-1">Streaming Format</label>
+                          <select
+                            value={editMovieData.preferred_manifest || 'hls'}
+                            onChange={(e) => setEditMovieData({ ...editMovieData, preferred_manifest: e.target.value as ManifestType })}
+                            className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+                          >
+                            <option value="hls">HLS{movie.hls_url ? '' : ' (not packaged)'}</option>
+                            <option value="dash">DASH{movie.dash_url ? '' : ' (not packaged)'}</option>
+                          </select>
+                        </div>
                         <div className="flex gap-2">
                           <button
                             onClick={() => handleSaveMovie(movie.id, editMovieData)}
@@ -323,6 +357,10 @@ export const Admin = () => {
                           <span>{movie.category}</span>
                           <span>{movie.release_year}</span>
                           <span>⭐ {movie.rating}</span>
+                          {(movie.hls_url || movie.dash_url) && (
+                            <span className="uppercase">{movie.preferred_manifest || 'hls'}</span>
+                          )}
+                          {movie.is_episode && <span className="text-blue-400">Episode</span>}
                         </div>
                         <div className="flex gap-2">
                           <button
@@ -332,6 +370,20 @@ export const Admin = () => {
                             <Edit2 className="w-4 h-4" />
                             Edit
                           </button>
+                          <button
+                            onClick={() => setSkipEditorMovie(movie)}
+                            className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded-lg flex items-center justify-center"
+                            title="Skip markers"
+                          >
+                            <Scissors className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => setPosterPickerMovie(movie)}
+                            className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded-lg flex items-center justify-center"
+                            title="Poster frame"
+                          >
+                            <ImageIcon className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => handleDeleteMovie(movie.id)}
                             className="flex-1 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
@@ -349,6 +401,11 @@ export const Admin = () => {
           </div>
         )}
 
+        {/* Series Tab */}
+        {activeTab === 'series' && (
+          <SeriesManager movies={movies} onEpisodesChanged={fetchData} />
+        )}
+
         {/* Music Tab */}
         {activeTab === 'music' && (
           <div className="space-y-6">
@@ -385,6 +442,24 @@ export const Admin = () => {
                           className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
                           placeholder="Album"
                         />
+                        <div className="flex gap-2">
+                          <input
+                            type="number"
+                            min="1"
+                            value={editMusicData.track_number || ''}
+                            onChange={(e) => setEditMusicData({ ...editMusicData, track_number: parseInt(e.target.value) || null })}
+                            className="flex-1 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+                            placeholder="Track #"
+                          />
+                          <input
+                            type="number"
+                            min="1"
+                            value={editMusicData.disc_number || ''}
+                            onChange={(e) => setEditMusicData({ ...editMusicData, disc_number: parseInt(e.target.value) || 1 })}
+                            className="flex-1 px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+                            placeholder="Disc #"
+                          />
+                        </div>
                         <div className="flex gap-2">
                           <input
                             type="text"
@@ -439,7 +514,10 @@ export const Admin = () => {
                         </div>
                         <h3 className="text-white font-semibold mb-1">{track.title}</h3>
                         <p className="text-slate-400 text-sm mb-1">{track.artist}</p>
-                        <p className="text-slate-500 text-sm mb-4">{track.album}</p>
+                        <p className="text-slate-500 text-sm mb-4">
+                          {track.album}
+                          {track.album && track.track_number && ` • Track ${track.track_number}`}
+                        </p>
                         <div className="flex items-center gap-4 text-sm text-slate-500 mb-4">
                           <span>{track.genre}</span>
                           <span>⭐ {track.rating}</span>
@@ -469,6 +547,24 @@ export const Admin = () => {
           </div>
         )}
       </div>
+
+      <AnimatePresence>
+        {skipEditorMovie && (
+          <SkipSegmentEditor
+            movie={skipEditorMovie}
+            onClose={() => setSkipEditorMovie(null)}
+          />
+        )}
+        {posterPickerMovie && (
+          <PosterFramePicker
+            movie={posterPickerMovie}
+            onClose={() => setPosterPickerMovie(null)}
+            onSaved={(thumbnail) => setMovies(prev => prev.map(movie =>
+              movie.id === posterPickerMovie.id ? { ...movie, ...thumbnail } : movie
+            ))}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
\ No newline at end of file
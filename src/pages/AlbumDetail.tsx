@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Disc, Share2, Edit2, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AlbumWithArtist, Music as MusicType } from '../lib/supabase';
+import { dataService } from '../lib/dataService';
+import { musicLibraryService } from '../lib/musicLibraryService';
+import { mediaMetadataService } from '../lib/mediaMetadataService';
+import { handleError } from '../lib/errorHandler';
+import { albumPath, artistPath } from '../lib/shareLinks';
+import { Spinner } from '../components/Spinner';
+import { TrackQueue } from '../components/TrackQueue';
+import { TitleUnavailable } from '../components/TitleUnavailable';
+import { usePageNavigation } from '../hooks/usePageNavigation';
+import { useShareAction } from '../hooks/useShareAction';
+import { usePermissions } from '../hooks/usePermissions';
+
+interface AlbumForm {
+  title: string;
+  releaseDate: string;
+  cover: File | null;
+}
+
+const formatTotalDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours} hr ${minutes} min` : `${minutes} min`;
+};
+
+const formatReleaseDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const AlbumDetail = () => {
+  const { id = '' } = useParams();
+  const { goToMusic } = usePageNavigation();
+  const { isAdmin } = usePermissions();
+  const share = useShareAction();
+  const [album, setAlbum] = useState<AlbumWithArtist | null>(null);
+  const [tracks, setTracks] = useState<MusicType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [form, setForm] = useState<AlbumForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAlbum = useCallback(async () => {
+    setLoading(true);
+    setDataError(null);
+    try {
+      const found = await musicLibraryService.getAlbum(id);
+      setAlbum(found);
+      setTracks(found ? await dataService.fetchMusicByAlbum(found.id) : []);
+    } catch (error) {
+      console.error('Error fetching album:', error);
+      setDataError('Failed to load this album. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchAlbum();
+  }, [fetchAlbum]);
+
+  const saveAlbum = async () => {
+    if (!album || !form || !form.title.trim()) return;
+
+    setSaving(true);
+    try {
+      const albumArtUrl = form.cover
+        ? await mediaMetadataService.uploadCoverArt({
+            data: new Uint8Array(await form.cover.arrayBuffer()),
+            mimeType: form.cover.type
+          })
+        : album.album_art_url;
+
+      await musicLibraryService.updateAlbum(album.id, {
+        title: form.title.trim(),
+        release_date: form.releaseDate || null,
+        album_art_url: albumArtUrl
+      });
+      toast.success('Album updated');
+      setForm(null);
+      await fetchAlbum();
+    } catch (error) {
+      handleError(error, 'Updating album');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Spinner label="Loading album..." />;
+  }
+
+  if (dataError || !album) {
+    return (
+      <TitleUnavailable
+        icon={Disc}
+        heading={dataError ? 'Unable to Load Album' : 'Album Not Found'}
+        message={dataError || 'This album may have been removed, or the link is wrong.'}
+        onBack={goToMusic}
+        onRetry={dataError ? fetchAlbum : undefined}
+      />
+    );
+  }
+
+  const totalDuration = tracks.reduce((total, track) => total + (track.duration || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={goToMusic}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Music
+        </motion.button>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-6">
+          <div className="w-48 h-48 flex-shrink-0 rounded-xl overflow-hidden bg-slate-800 flex items-center justify-center">
+            {album.album_art_url ? (
+              <img src={album.album_art_url} alt={album.title} className="w-full h-full object-cover" />
+            ) : (
+              <Disc className="w-16 h-16 text-slate-600" />
+            )}
+          </div>
+          <div className="flex-1 space-y-3">
+            <p className="text-sm uppercase tracking-wide text-slate-400">Album</p>
+            <h1 className="text-4xl font-bold text-white">{album.title}</h1>
+            <p className="text-slate-300">
+              <Link to={artistPath(album.artist.id)} className="hover:text-white hover:underline">
+                {album.artist.name}
+              </Link>
+              <span className="text-slate-400">
+                {album.release_date && ` • ${formatReleaseDate(album.release_date)}`}
+                {' • '}
+                {tracks.length} {tracks.length === 1 ? 'track' : 'tracks'}
+                {totalDuration > 0 && `, ${formatTotalDuration(totalDuration)}`}
+              </span>
+            </p>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => share(albumPath(album.id), album.title, `${album.title} by ${album.artist.name}`)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+              >
+                <Share2 className="w-5 h-5" />
+                Share
+              </button>
+              {isAdmin && !form && (
+                <button
+                  onClick={() => setForm({ title: album.title, releaseDate: album.release_date || '', cover: null })}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                >
+                  <Edit2 className="w-5 h-5" />
+                  Edit
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {form && (
+          <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700/50 space-y-4 max-w-xl">
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+              placeholder="Album title"
+            />
+            <label className="block text-sm text-slate-400">
+              Release date
+              <input
+                type="date"
+                value={form.releaseDate}
+                onChange={(e) => setForm({ ...form, releaseDate: e.target.value })}
+                className="mt-1 w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+              />
+            </label>
+            <label className="block text-sm text-slate-400">
+              Cover art
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp"
+                onChange={(e) => setForm({ ...form, cover: e.target.files?.[0] || null })}
+                className="mt-1 w-full text-slate-300"
+              />
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={saveAlbum}
+                disabled={saving || !form.title.trim()}
+                className="flex-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setForm(null)}
+                className="flex-1 bg-slate-600 hover:bg-slate-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        <TrackQueue tracks={tracks} secondary="artist" numbering="track" playLabel="Play Album" />
+      </div>
+    </div>
+  );
+};
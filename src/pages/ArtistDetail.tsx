@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Mic2, Disc, Share2 } from 'lucide-react';
+import { Album, Artist, Music as MusicType } from '../lib/supabase';
+import { dataService } from '../lib/dataService';
+import { musicLibraryService } from '../lib/musicLibraryService';
+import { artistPath, albumPath } from '../lib/shareLinks';
+import { Spinner } from '../components/Spinner';
+import { TrackQueue } from '../components/TrackQueue';
+import { TitleUnavailable } from '../components/TitleUnavailable';
+import { usePageNavigation } from '../hooks/usePageNavigation';
+import { useShareAction } from '../hooks/useShareAction';
+
+export const ArtistDetail = () => {
+  const { id = '' } = useParams();
+  const { goToMusic } = usePageNavigation();
+  const share = useShareAction();
+  const [artist, setArtist] = useState<Artist | null>(null);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [tracks, setTracks] = useState<MusicType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
+
+  const fetchArtist = useCallback(async () => {
+    setLoading(true);
+    setDataError(null);
+    try {
+      const found = await musicLibraryService.getArtist(id);
+      setArtist(found);
+      if (found) {
+        const [artistAlbums, artistTracks] = await Promise.all([
+          musicLibraryService.getArtistAlbums(found.id),
+          dataService.fetchMusicByArtist(found.id)
+        ]);
+        setAlbums(artistAlbums);
+        setTracks(artistTracks);
+      }
+    } catch (error) {
+      console.error('Error fetching artist:', error);
+      setDataError('Failed to load this artist. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchArtist();
+  }, [fetchArtist]);
+
+  if (loading) {
+    return <Spinner label="Loading artist..." />;
+  }
+
+  if (dataError || !artist) {
+    return (
+      <TitleUnavailable
+        icon={Mic2}
+        heading={dataError ? 'Unable to Load Artist' : 'Artist Not Found'}
+        message={dataError || 'This artist may have been removed, or the link is wrong.'}
+        onBack={goToMusic}
+        onRetry={dataError ? fetchArtist : undefined}
+      />
+    );
+  }
+
+  const genres = Array.from(new Set(tracks.map(track => track.genre).filter(Boolean)));
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={goToMusic}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Music
+        </motion.button>
+
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="flex items-end gap-6">
+            {artist.image_url && (
+              <img src={artist.image_url} alt={artist.name} className="w-32 h-32 rounded-full object-cover" />
+            )}
+            <div>
+              <p className="text-sm uppercase tracking-wide text-slate-400">Artist</p>
+              <h1 className="text-4xl font-bold text-white">{artist.name}</h1>
+              <p className="text-slate-400 mt-1">
+                {tracks.length} {tracks.length === 1 ? 'track' : 'tracks'}
+                {albums.length > 0 && ` • ${albums.length} ${albums.length === 1 ? 'album' : 'albums'}`}
+                {genres.length > 0 && ` • ${genres.join(', ')}`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => share(artistPath(artist.id), artist.name)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+          >
+            <Share2 className="w-5 h-5" />
+            Share
+          </button>
+        </div>
+
+        {albums.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-white mb-4">Albums</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+              {albums.map(album => (
+                <Link key={album.id} to={albumPath(album.id)} className="group block">
+                  <div className="aspect-square rounded-lg overflow-hidden bg-slate-800 flex items-center justify-center">
+                    {album.album_art_url ? (
+                      <img src={album.album_art_url} alt={album.title} loading="lazy" className="w-full h-full object-cover group-hover:scale-105 transition-transform" />
+                    ) : (
+                      <Disc className="w-10 h-10 text-slate-600" />
+                    )}
+                  </div>
+                  <p className="mt-2 text-sm text-white truncate group-hover:underline">{album.title}</p>
+                  {album.release_date && (
+                    <p className="text-xs text-slate-400">{album.release_date.slice(0, 4)}</p>
+                  )}
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section>
+          <h2 className="text-xl font-semibold text-white mb-4">Tracks</h2>
+          <TrackQueue tracks={tracks} secondary="album" playLabel="Play Artist" />
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Star, Clock, Film } from 'lucide-react';
+import { Movie, NextEpisode } from '../lib/supabase';
+import { dataService } from '../lib/dataService';
+import { streamingService } from '../lib/streamingService';
+import { seriesService, formatEpisodeNumber, EpisodePlacement } from '../lib/seriesService';
+import { moviePath, seriesPath, shareUrl, parseStartTime } from '../lib/shareLinks';
+import { Spinner } from '../components/Spinner';
+import { SmartMediaPlayer } from '../components/SmartMediaPlayer';
+import { TitleActions } from '../components/TitleActions';
+import { RelatedTitles } from '../components/RelatedTitles';
+import { TitleUnavailable } from '../components/TitleUnavailable';
+import { usePageNavigation } from '../hooks/usePageNavigation';
+import { useMovieTracks } from '../hooks/useMovieTracks';
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export const MovieDetail = () => {
+  const { id = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { goToMovies, goToSeries } = usePageNavigation();
+  const [movie, setMovie] = useState<Movie | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [placement, setPlacement] = useState<EpisodePlacement | null>(null);
+  const [nextEpisode, setNextEpisode] = useState<NextEpisode | null>(null);
+  const { subtitleTracks, skipSegments } = useMovieTracks(movie?.id);
+
+  const startTime = parseStartTime(searchParams.get('t'));
+  // Set when "Up Next" moved here from the previous episode
+  const autoPlay = (location.state as { autoPlay?: boolean } | null)?.autoPlay === true;
+
+  const fetchMovie = useCallback(async () => {
+    setLoading(true);
+    setDataError(null);
+    try {
+      setMovie(await dataService.fetchMovie(id));
+    } catch (error) {
+      console.error('Error fetching movie:', error);
+      setDataError('Failed to load this movie. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchMovie();
+  }, [fetchMovie]);
+
+  // Series context for episodes; plain movies get nulls
+  useEffect(() => {
+    let cancelled = false;
+    setPlacement(null);
+    setNextEpisode(null);
+
+    Promise.all([seriesService.getEpisodePlacement(id), seriesService.getNextEpisode(id)])
+      .then(([episodePlacement, next]) => {
+        if (cancelled) return;
+        setPlacement(episodePlacement);
+        setNextEpisode(next);
+      })
+      .catch(error => console.error('Error loading series context:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (loading) {
+    return <Spinner label="Loading movie..." />;
+  }
+
+  if (dataError || !movie) {
+    return (
+      <TitleUnavailable
+        icon={Film}
+        heading={dataError ? 'Unable to Load Movie' : 'Movie Not Found'}
+        message={dataError || 'This movie may have been removed, or the link is wrong.'}
+        onBack={goToMovies}
+        onRetry={dataError ? fetchMovie : undefined}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => placement
+            ? goToSeries(placement.series.id, placement.season.season_number)
+            : goToMovies()}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          {placement ? placement.series.title : 'Movies'}
+        </motion.button>
+
+        <SmartMediaPlayer
+          src={streamingService.getPlaybackUrl(movie)}
+          title={movie.title}
+          contentId={movie.id}
+          duration={movie.duration}
+          poster={movie.thumbnail_sizes?.hero || movie.thumbnail_url}
+          thumbnailsUrl={movie.thumbnails_vtt_url}
+          shareUrl={shareUrl(moviePath(movie.id))}
+          startTime={startTime}
+          autoPlay={autoPlay}
+          upNext={nextEpisode && {
+            title: nextEpisode.title,
+            subtitle: `${nextEpisode.series_title} · ${formatEpisodeNumber(nextEpisode.season_number, nextEpisode.episode_number)}`,
+            thumbnail: nextEpisode.thumbnail_url,
+            onPlay: () => navigate(moviePath(nextEpisode.movie_id), { state: { autoPlay: true } })
+          }}
+          type="video"
+          subtitleTracks={subtitleTracks}
+          skipSegments={skipSegments}
+          enableAutoPlay={true}
+          enableResume={true}
+          enablePiP={true}
+          enableAdaptiveBitrate={true}
+        />
+
+        <div className="space-y-4">
+          {placement && (
+            <Link
+              to={seriesPath(placement.series.id, placement.season.season_number)}
+              className="text-sm uppercase tracking-wide text-slate-400 hover:text-white"
+            >
+              {placement.series.title} · {formatEpisodeNumber(placement.season.season_number, placement.episode.episode_number)}
+            </Link>
+          )}
+          <h1 className="text-4xl font-bold text-white">{movie.title}</h1>
+          <div className="flex flex-wrap items-center gap-4 text-slate-400">
+            {movie.release_year && <span>{movie.release_year}</span>}
+            {movie.duration > 0 && (
+              <div className="flex items-center gap-1">
+                <Clock className="w-4 h-4" />
+                <span>{formatDuration(movie.duration)}</span>
+              </div>
+            )}
+            {movie.rating > 0 && (
+              <div className="flex items-center gap-1">
+                <Star className="w-4 h-4 text-yellow-400" fill="currentColor" />
+                <span className="text-white">{movie.rating}/10</span>
+              </div>
+            )}
+            {movie.category && (
+              <span className="px-3 py-1 bg-slate-800 text-slate-300 rounded-full text-sm">
+                {movie.category.charAt(0).toUpperCase() + movie.category.slice(1)}
+              </span>
+            )}
+          </div>
+          {movie.description && (
+            <p className="text-slate-300 leading-relaxed max-w-3xl">{movie.description}</p>
+          )}
+          <TitleActions
+            contentId={movie.id}
+            contentType="movie"
+            title={movie.title}
+            path={moviePath(movie.id)}
+          />
+        </div>
+
+        <RelatedTitles content={{ id: movie.id, type: 'movie', genre: movie.category }} />
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,26 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Play, Star, Clock, ArrowLeft, X, Film, Plus, Heart } from 'lucide-react';
-import { Movie } from '../lib/supabase';
+import { Play, Star, Clock, ArrowLeft, X, Film, Plus, Heart, Tv } from 'lucide-react';
+import { Movie, Series } from '../lib/supabase';
 import { SearchFilters } from '../lib/searchService';
 import { dataService } from '../lib/dataService';
+import { streamingService } from '../lib/streamingService';
+import { seriesService } from '../lib/seriesService';
+import { moviePath, seriesPath, shareUrl } from '../lib/shareLinks';
 import { Spinner } from '../components/Spinner';
 import { UnifiedSearch } from '../components/UnifiedSearch';
 import { SmartMediaPlayer } from '../components/SmartMediaPlayer';
 import { GridMovieList } from '../components/GridMovieList';
 import { usePageNavigation } from '../hooks/usePageNavigation';
 import { useLoading } from '../hooks/useLoading';
+import { useMovieTracks } from '../hooks/useMovieTracks';
 
 export const Movies = () => {
-  const { goToChoice } = usePageNavigation();
+  const { goToChoice, goToMovie } = usePageNavigation();
   const { loading, stopLoading } = useLoading(true);
   const [movies, setMovies] = useState<Movie[]>([]);
+  const [series, setSeries] = useState<Series[]>([]);
   const [filteredMovies, setFilteredMovies] = useState<Movie[]>([]);
   const [selectedMovie, setSelectedMovie] = useState<Movie | null>(null);
   const [currentMovieIndex, setCurrentMovieIndex] = useState(0);
@@ -30,9 +36,14 @@ export const Movies = () => {
   });
   const [dataError, setDataError] = useState<string | null>(null);
   const [watchlist, setWatchlist] = useState<Set<string>>(new Set());
+  const { subtitleTracks, skipSegments } = useMovieTracks(selectedMovie?.id);
 
   useEffect(() => {
     fetchMovies();
+    // Series are an extra row; the movie list still works without them
+    seriesService.listSeries()
+      .then(setSeries)
+      .catch(error => console.error('Error fetching series:', error));
   }, []);
 
   useEffect(() => {
@@ -203,11 +214,14 @@ export const Movies = () => {
   };
 
   const handleMovieInfo = (movie: Movie) => {
-    setSelectedMovie(movie);
-    const index = filteredMovies.findIndex(m => m.id === movie.id);
-    setCurrentMovieIndex(index);
+    goToMovie(movie.id);
   };
 
+  const query = (searchFilters.query || '').toLowerCase();
+  const filteredSeries = query
+    ? series.filter(show => show.title.toLowerCase().includes(query) || show.description?.toLowerCase().includes(query))
+    : series;
+
   if (loading) {
     return <Spinner label="Loading movies..." />;
   }
@@ -266,6 +280,40 @@ export const Movies = () => {
 
 
       <div className="max-w-7xl mx-auto px-4 py-8">
+        {filteredSeries.length > 0 && (
+          <section className="mb-12">
+            <h2 className="text-2xl font-bold text-white mb-4">Series</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+              {filteredSeries.map(show => (
+                <Link
+                  key={show.id}
+                  to={seriesPath(show.id)}
+                  className="group rounded-xl overflow-hidden bg-slate-800/60 hover:bg-slate-800 transition-colors"
+                >
+                  <div className="aspect-video bg-slate-800 flex items-center justify-center overflow-hidden">
+                    {show.poster_url ? (
+                      <img
+                        src={show.poster_url}
+                        alt={show.title}
+                        loading="lazy"
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    ) : (
+                      <Tv className="w-10 h-10 text-slate-600" />
+                    )}
+                  </div>
+                  <div className="p-3">
+                    <p className="text-white font-medium truncate">{show.title}</p>
+                    <p className="text-sm text-slate-400 truncate">
+                      {[show.release_year, show.genre].filter(Boolean).join(' • ') || 'Series'}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
         {filteredMovies.length === 0 ? (
           <div className="text-center py-20">
             <Film className="w-16 h-16 text-slate-500 mx-auto mb-4" />
@@ -351,32 +399,18 @@ export const Movies = () => {
 
                 {/* Smart Media Player */}
                 <SmartMediaPlayer
-                  src={selectedMovie.video_url}
+                  src={streamingService.getPlaybackUrl(selectedMovie)}
                   title={selectedMovie.title}
                   contentId={selectedMovie.id}
                   duration={selectedMovie.duration}
                   poster={selectedMovie.thumbnail_url}
+                  thumbnailsUrl={selectedMovie.thumbnails_vtt_url}
+                  shareUrl={shareUrl(moviePath(selectedMovie.id))}
                   type="video"
                   onNext={handleNextMovie}
                   onPrevious={handlePreviousMovie}
-                  qualityLevels={[
-                    { id: 'auto', label: 'Auto', height: 0, bitrate: 0, url: selectedMovie.video_url },
-                    { id: '720p', label: '720p HD', height: 720, bitrate: 2500000, url: selectedMovie.video_url },
-                    { id: '1080p', label: '1080p FHD', height: 1080, bitrate: 5000000, url: selectedMovie.video_url },
-                    { id: '4k', label: '4K UHD', height: 2160, bitrate: 15000000, url: selectedMovie.video_url }
-                  ]}
-                  subtitleTracks={[
-                    { id: 'none', label: 'None', language: 'none', url: '' },
-                    { id: 'en', label: 'English', language: 'en', url: '' },
-                    { id: 'es', label: 'Spanish', language: 'es', url: '' },
-                    { id: 'fr', label: 'French', language: 'fr', url: '' }
-                  ]}
-                  audioTracks={[
-                    { id: 'default', label: 'Default', language: 'en', url: '' },
-                    { id: 'en', label: 'English', language: 'en', url: '' },
-                    { id: 'es', label: 'Spanish', language: 'es', url: '' }
-                  ]}
-                  skipSegments={[]}
+                  subtitleTracks={subtitleTracks}
+                  skipSegments={skipSegments}
                   enableAutoPlay={true}
                   enableResume={true}
                   enablePiP={true}
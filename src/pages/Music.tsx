@@ -1,18 +1,31 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Music as MusicIcon } from 'lucide-react';
-import { Music as MusicType } from '../lib/supabase';
+import { ArrowLeft, Music as MusicIcon, Disc, Mic2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Music as MusicType, AlbumSummary, ArtistSummary } from '../lib/supabase';
 import { dataService } from '../lib/dataService';
+import { musicLibraryService } from '../lib/musicLibraryService';
+import { handleError } from '../lib/errorHandler';
 import { Spinner } from '../components/Spinner';
 import { SmartMediaPlayer } from '../components/SmartMediaPlayer';
 import { UnifiedSearch } from '../components/UnifiedSearch';
-import { GridMusicList } from '../components/GridMusicList';
+import { GridMusicList, GridAlbumList, GridArtistList } from '../components/GridMusicList';
 import { usePageNavigation } from '../hooks/usePageNavigation';
 import { useLoading } from '../hooks/useLoading';
 import { SearchFilters } from '../lib/searchService';
+import { trackPath, artistPath, albumPath, shareUrl } from '../lib/shareLinks';
+
+type LibraryView = 'tracks' | 'albums' | 'artists';
+
+const VIEWS: { id: LibraryView; label: string; icon: typeof MusicIcon }[] = [
+  { id: 'tracks', label: 'Tracks', icon: MusicIcon },
+  { id: 'albums', label: 'Albums', icon: Disc },
+  { id: 'artists', label: 'Artists', icon: Mic2 }
+];
 
 export const Music = () => {
-  const { goToChoice } = usePageNavigation();
+  const { goToChoice, goToAlbum, goToArtist } = usePageNavigation();
   const { loading, stopLoading } = useLoading(true);
   const audioRef = useRef<HTMLAudioElement>(null);
   const [tracks, setTracks] = useState<MusicType[]>([]);
@@ -23,6 +36,11 @@ export const Music = () => {
     sortBy: 'title',
     sortOrder: 'asc'
   });
+  const [view, setView] = useState<LibraryView>('tracks');
+  const [albums, setAlbums] = useState<AlbumSummary[] | null>(null);
+  const [artists, setArtists] = useState<ArtistSummary[] | null>(null);
+  // What next/previous step through: the track grid, or an album or artist
+  const [queue, setQueue] = useState<MusicType[]>([]);
   const [currentTrack, setCurrentTrack] = useState<MusicType | null>(null);
   const [currentTrackIndex, setCurrentTrackIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -134,11 +152,25 @@ export const Music = () => {
     filterTracks();
   }, [filterTracks]);
 
+  // Albums and artists load the first time their view is opened
+  useEffect(() => {
+    if (view === 'albums' && !albums) {
+      musicLibraryService.listAlbums()
+        .then(setAlbums)
+        .catch(error => handleError(error, 'Loading albums'));
+    } else if (view === 'artists' && !artists) {
+      musicLibraryService.listArtists()
+        .then(setArtists)
+        .catch(error => handleError(error, 'Loading artists'));
+    }
+  }, [view, albums, artists]);
+
 
   const playTrack = async (track: MusicType) => {
     if (currentTrack?.id === track.id) {
       togglePlayPause();
     } else {
+      setQueue(filteredTracks);
       setCurrentTrack(track);
       const index = filteredTracks.findIndex(t => t.id === track.id);
       setCurrentTrackIndex(index);
@@ -147,6 +179,34 @@ export const Music = () => {
     }
   };
 
+  const playQueue = (queueTracks: MusicType[], name: string) => {
+    if (queueTracks.length === 0) {
+      toast.error(`${name} has no tracks to play`);
+      return;
+    }
+    setQueue(queueTracks);
+    setCurrentTrack(queueTracks[0]);
+    setCurrentTrackIndex(0);
+    setAudioError(null);
+    setIsPlaying(true);
+  };
+
+  const playAlbum = async (album: AlbumSummary) => {
+    try {
+      playQueue(await dataService.fetchMusicByAlbum(album.id), album.title);
+    } catch (error) {
+      handleError(error, 'Loading album');
+    }
+  };
+
+  const playArtist = async (artist: ArtistSummary) => {
+    try {
+      playQueue(await dataService.fetchMusicByArtist(artist.id), artist.name);
+    } catch (error) {
+      handleError(error, 'Loading artist');
+    }
+  };
+
   const togglePlayPause = () => {
     if (audioRef.current) {
       if (isPlaying) {
@@ -160,17 +220,17 @@ export const Music = () => {
 
   const playNext = () => {
     if (!currentTrack) return;
-    const nextIndex = (currentTrackIndex + 1) % filteredTracks.length;
+    const nextIndex = (currentTrackIndex + 1) % queue.length;
     setCurrentTrackIndex(nextIndex);
-    setCurrentTrack(filteredTracks[nextIndex]);
+    setCurrentTrack(queue[nextIndex]);
     setIsPlaying(true);
   };
 
   const playPrevious = () => {
     if (!currentTrack) return;
-    const prevIndex = currentTrackIndex === 0 ? filteredTracks.length - 1 : currentTrackIndex - 1;
+    const prevIndex = currentTrackIndex === 0 ? queue.length - 1 : currentTrackIndex - 1;
     setCurrentTrackIndex(prevIndex);
-    setCurrentTrack(filteredTracks[prevIndex]);
+    setCurrentTrack(queue[prevIndex]);
     setIsPlaying(true);
   };
 
@@ -215,6 +275,14 @@ export const Music = () => {
 
 
 
+  const query = (searchFilters.query || '').toLowerCase();
+  const filteredAlbums = (albums || []).filter(album =>
+    !query || album.title.toLowerCase().includes(query) || album.artist.name.toLowerCase().includes(query)
+  );
+  const filteredArtists = (artists || []).filter(artist =>
+    !query || artist.name.toLowerCase().includes(query)
+  );
+
   if (loading) {
     return <Spinner label="Loading music..." />;
   }
@@ -269,13 +337,58 @@ export const Music = () => {
               placeholder="Search songs, artists, albums..."
               showAdvanced={true}
             />
+
+            <div className="flex gap-2">
+              {VIEWS.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setView(id)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                    view === id
+                      ? 'bg-pink-600 text-white'
+                      : 'bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
       </div>
 
 
       <div className="max-w-7xl mx-auto px-4 py-8">
-        {filteredTracks.length === 0 ? (
+        {view === 'albums' ? (
+          albums ? (
+            <GridAlbumList
+              albums={filteredAlbums}
+              title="Albums"
+              subtitle={`${filteredAlbums.length} ${filteredAlbums.length === 1 ? 'album' : 'albums'}`}
+              onOpen={(album) => goToAlbum(album.id)}
+              onPlay={playAlbum}
+            />
+          ) : (
+            <div className="flex justify-center py-20">
+              <div className="w-10 h-10 border-4 border-pink-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          )
+        ) : view === 'artists' ? (
+          artists ? (
+            <GridArtistList
+              artists={filteredArtists}
+              title="Artists"
+              subtitle={`${filteredArtists.length} ${filteredArtists.length === 1 ? 'artist' : 'artists'}`}
+              onOpen={(artist) => goToArtist(artist.id)}
+              onPlay={playArtist}
+            />
+          ) : (
+            <div className="flex justify-center py-20">
+              <div className="w-10 h-10 border-4 border-pink-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          )
+        ) : filteredTracks.length === 0 ? (
           <div className="text-center py-20">
             <MusicIcon className="w-16 h-16 text-slate-500 mx-auto mb-4" />
             <p className="text-slate-400 text-lg mb-2">
@@ -322,6 +435,23 @@ export const Music = () => {
               </div>
             )}
 
+            {/* Links to the track's pages */}
+            <div className="mb-2 flex items-center gap-2 text-sm min-w-0">
+              <Link to={trackPath(currentTrack.id)} className="text-white font-medium truncate hover:underline">
+                {currentTrack.title}
+              </Link>
+              {currentTrack.artist_id && (
+                <Link to={artistPath(currentTrack.artist_id)} className="text-slate-400 truncate hover:text-white">
+                  {currentTrack.artist}
+                </Link>
+              )}
+              {currentTrack.album_id && (
+                <Link to={albumPath(currentTrack.album_id)} className="text-slate-500 truncate hover:text-white">
+                  {currentTrack.album}
+                </Link>
+              )}
+            </div>
+
             {/* Smart Media Player */}
             <SmartMediaPlayer
               src={currentTrack.audio_url}
@@ -330,6 +460,7 @@ export const Music = () => {
               artist={currentTrack.artist}
               album={currentTrack.album}
               duration={currentTrack.duration}
+              shareUrl={shareUrl(trackPath(currentTrack.id))}
               type="audio"
               onNext={playNext}
               onPrevious={playPrevious}
@@ -359,10 +490,10 @@ export const Music = () => {
             />
 
             {/* Playlist Info */}
-            {filteredTracks.length > 1 && (
+            {queue.length > 1 && (
               <div className="mt-3 p-2 bg-slate-800/50 rounded-lg">
                 <p className="text-slate-400 text-xs text-center">
-                  Track {currentTrackIndex + 1} of {filteredTracks.length} •
+                  Track {currentTrackIndex + 1} of {queue.length} •
                   Use ← → keys or player controls to navigate
                 </p>
               </div>
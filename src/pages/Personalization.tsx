@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
   Users, 
@@ -20,6 +21,7 @@ import { RecentlyWatched } from '../components/RecentlyWatched';
 import { PersonalizedCarousels } from '../components/PersonalizedCarousels';
 import { personalizationService, UserProfile } from '../lib/personalizationService';
 import { useAuth } from '../contexts/AuthContext';
+import { moviePath, trackPath, withStartTime } from '../lib/shareLinks';
 
 type TabType = 'profiles' | 'watchlist' | 'continue' | 'recent' | 'carousels' | 'settings';
 
@@ -34,6 +36,7 @@ const TABS = [
 
 export const Personalization: React.FC = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<TabType>('profiles');
   const [selectedProfile, setSelectedProfile] = useState<UserProfile | null>(null);
   const [profiles, setProfiles] = useState<UserProfile[]>([]);
@@ -69,10 +72,8 @@ export const Personalization: React.FC = () => {
   };
 
   const handlePlayContent = (contentId: string, contentType: 'movie' | 'music', resumeTime?: number) => {
-    // This would typically navigate to the media player with the content
-    console.log('Play content:', { contentId, contentType, resumeTime });
-    // For now, we'll just log the action
-    // In a real app, this would navigate to the appropriate player page
+    const path = contentType === 'movie' ? moviePath(contentId) : trackPath(contentId);
+    navigate(withStartTime(path, resumeTime));
   };
 
   const renderTabContent = () => {
@@ -0,0 +1,433 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeft,
+  ListMusic,
+  Play,
+  Share2,
+  Edit2,
+  Trash2,
+  Save,
+  X,
+  ArrowUp,
+  ArrowDown,
+  Film,
+  Music as MusicIcon,
+  Lock,
+  Globe
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PlaylistItemWithContent, PlaylistMember, PlaylistWithItems } from '../lib/supabase';
+import { playlistService, PlaylistInput } from '../lib/playlistService';
+import { streamingService } from '../lib/streamingService';
+import { handleError } from '../lib/errorHandler';
+import { moviePath, trackPath, playlistPath, shareUrl } from '../lib/shareLinks';
+import { Spinner } from '../components/Spinner';
+import { SmartMediaPlayer } from '../components/SmartMediaPlayer';
+import { TitleUnavailable } from '../components/TitleUnavailable';
+import { PlaylistCollaborators } from '../components/PlaylistCollaborators';
+import { useAuth } from '../contexts/AuthContext';
+import { usePageNavigation } from '../hooks/usePageNavigation';
+import { useShareAction } from '../hooks/useShareAction';
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+const itemTitle = (item: PlaylistItemWithContent) => item.movie?.title || item.music?.title || '';
+
+const itemPath = (item: PlaylistItemWithContent) =>
+  item.movie ? moviePath(item.movie.id) : trackPath(item.music?.id || '');
+
+const itemArtwork = (item: PlaylistItemWithContent) =>
+  item.movie
+    ? item.movie.thumbnail_sizes?.card || item.movie.thumbnail_url
+    : item.music?.album_art_url;
+
+export const PlaylistDetail = () => {
+  const { id = '' } = useParams();
+  const { user } = useAuth();
+  const { goToPlaylists } = usePageNavigation();
+  const share = useShareAction();
+  const [playlist, setPlaylist] = useState<PlaylistWithItems | null>(null);
+  const [members, setMembers] = useState<PlaylistMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [form, setForm] = useState<PlaylistInput | null>(null);
+  const [busy, setBusy] = useState(false);
+  // The item in the player; autoPlay once the listener has started the queue
+  const [currentItemId, setCurrentItemId] = useState<string | null>(null);
+  const [autoPlay, setAutoPlay] = useState(false);
+  const itemIdsRef = useRef<string[]>([]);
+
+  // Loads without the page spinner, for edits and live updates
+  const reload = useCallback(async () => {
+    const [found, foundMembers] = await Promise.all([
+      playlistService.getPlaylist(id),
+      playlistService.getMembers(id)
+    ]);
+    itemIdsRef.current = found?.items.map(item => item.id) || [];
+    setPlaylist(found);
+    setMembers(foundMembers);
+  }, [id]);
+
+  const fetchPlaylist = useCallback(async () => {
+    setLoading(true);
+    setDataError(null);
+    try {
+      await reload();
+    } catch (error) {
+      console.error('Error fetching playlist:', error);
+      setDataError('Failed to load this playlist. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [reload]);
+
+  useEffect(() => {
+    fetchPlaylist();
+  }, [fetchPlaylist]);
+
+  // Collaborators' additions, removals and reorders show up live
+  useEffect(() => {
+    return playlistService.subscribeToPlaylist(
+      id,
+      itemId => itemIdsRef.current.includes(itemId),
+      () => {
+        reload().catch(error => console.error('Error refreshing playlist:', error));
+      }
+    );
+  }, [id, reload]);
+
+  // Runs a change, then reloads the playlist
+  const run = async (action: () => Promise<unknown>, context: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await reload();
+    } catch (error: unknown) {
+      handleError(error, context);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return <Spinner label="Loading playlist..." />;
+  }
+
+  if (dataError || !playlist) {
+    return (
+      <TitleUnavailable
+        icon={ListMusic}
+        heading={dataError ? 'Unable to Load Playlist' : 'Playlist Not Found'}
+        message={dataError || 'This playlist may have been deleted or made private, or the link is wrong.'}
+        onBack={goToPlaylists}
+        onRetry={dataError ? fetchPlaylist : undefined}
+      />
+    );
+  }
+
+  const isOwner = playlist.user_id === user?.id;
+  const role = members.find(member => member.user_id === user?.id)?.role;
+  const canEdit = isOwner || role === 'editor';
+  const items = playlist.items;
+  const currentIndex = items.findIndex(item => item.id === currentItemId);
+  const current = currentIndex >= 0 ? items[currentIndex] : null;
+
+  const playAt = (index: number) => {
+    const item = items[index];
+    if (!item) return;
+    setCurrentItemId(item.id);
+    setAutoPlay(true);
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const ids = items.map(item => item.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    run(() => playlistService.reorderItems(playlist.id, ids), 'Reordering playlist');
+  };
+
+  const removeItem = (item: PlaylistItemWithContent) => {
+    if (item.id === currentItemId) setCurrentItemId(null);
+    run(() => playlistService.removeItem(item.id), 'Removing from playlist');
+  };
+
+  const savePlaylist = () => {
+    if (!form || !form.name.trim()) return;
+    run(async () => {
+      await playlistService.updatePlaylist(playlist.id, {
+        name: form.name.trim(),
+        description: form.description?.trim() || null,
+        is_public: form.is_public
+      });
+      setForm(null);
+      toast.success('Playlist updated');
+    }, 'Updating playlist');
+  };
+
+  const deletePlaylist = async () => {
+    if (!confirm(`Delete "${playlist.name}"? This cannot be undone.`)) return;
+
+    setBusy(true);
+    try {
+      await playlistService.deletePlaylist(playlist.id);
+      toast.success('Playlist deleted');
+      goToPlaylists();
+    } catch (error) {
+      handleError(error, 'Deleting playlist');
+      setBusy(false);
+    }
+  };
+
+  // Attribution is only known to members, who get the member list
+  const addedBy = (item: PlaylistItemWithContent) => {
+    if (!item.added_by || members.length === 0) return null;
+    if (item.added_by === user?.id) return 'you';
+    return members.find(member => member.user_id === item.added_by)?.email || 'a former collaborator';
+  };
+
+  const sharePlaylist = () => {
+    // Until the playlist is public, the link only opens for its collaborators
+    if (!playlist.is_public) {
+      toast('This playlist is private. Only its collaborators can open the link.', { icon: '🔒' });
+    }
+    share(playlistPath(playlist.id), playlist.name, playlist.description || undefined);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={goToPlaylists}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          My Playlists
+        </motion.button>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-6">
+          <div className="w-48 h-48 flex-shrink-0 rounded-xl overflow-hidden bg-slate-800 flex items-center justify-center">
+            {items[0] && itemArtwork(items[0]) ? (
+              <img src={itemArtwork(items[0]) || ''} alt={playlist.name} className="w-full h-full object-cover" />
+            ) : (
+              <ListMusic className="w-16 h-16 text-slate-600" />
+            )}
+          </div>
+          <div className="flex-1 space-y-3">
+            <p className="flex items-center gap-1 text-sm uppercase tracking-wide text-slate-400">
+              {playlist.is_public ? <Globe className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+              {playlist.is_public ? 'Public playlist' : 'Private playlist'}
+            </p>
+            <h1 className="text-4xl font-bold text-white">{playlist.name}</h1>
+            {playlist.description && <p className="text-slate-300 max-w-3xl">{playlist.description}</p>}
+            <p className="text-slate-400">
+              {items.length} {items.length === 1 ? 'item' : 'items'}
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              {items.length > 0 && (
+                <button
+                  onClick={() => playAt(0)}
+                  className="flex items-center gap-2 px-5 py-2 rounded-lg bg-white hover:bg-slate-200 text-black font-semibold transition-colors"
+                >
+                  <Play className="w-5 h-5" />
+                  Play
+                </button>
+              )}
+              <button
+                onClick={sharePlaylist}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+              >
+                <Share2 className="w-5 h-5" />
+                Share
+              </button>
+              {isOwner && !form && (
+                <>
+                  <button
+                    onClick={() => setForm({
+                      name: playlist.name,
+                      description: playlist.description,
+                      is_public: playlist.is_public
+                    })}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                  >
+                    <Edit2 className="w-5 h-5" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={deletePlaylist}
+                    disabled={busy}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-red-500/20 hover:text-red-400 disabled:opacity-50 transition-colors"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {form && (
+          <div className="bg-slate-800/50 rounded-xl p-6 border border-slate-700/50 space-y-4 max-w-xl">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+              placeholder="Playlist name"
+            />
+            <textarea
+              value={form.description || ''}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="w-full px-3 py-2 bg-slate-700 text-white rounded-lg border border-slate-600"
+              placeholder="Description"
+              rows={3}
+            />
+            <label className="flex items-center gap-2 text-slate-300">
+              <input
+                type="checkbox"
+                checked={form.is_public}
+                onChange={(e) => setForm({ ...form, is_public: e.target.checked })}
+              />
+              Public: anyone signed in can open the link
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={savePlaylist}
+                disabled={busy || !form.name.trim()}
+                className="flex-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {busy ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setForm(null)}
+                className="flex-1 bg-slate-600 hover:bg-slate-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {current && (
+          <SmartMediaPlayer
+            key={current.id}
+            src={current.movie ? streamingService.getPlaybackUrl(current.movie) : current.music?.audio_url || ''}
+            title={itemTitle(current)}
+            contentId={current.movie?.id || current.music?.id}
+            artist={current.music?.artist}
+            album={current.music?.album}
+            duration={current.movie?.duration || current.music?.duration}
+            poster={current.movie?.thumbnail_sizes?.hero || current.movie?.thumbnail_url}
+            shareUrl={shareUrl(itemPath(current))}
+            type={current.movie ? 'video' : 'audio'}
+            autoPlay={autoPlay}
+            onNext={() => playAt(currentIndex + 1)}
+            onPrevious={() => playAt(currentIndex - 1)}
+            enableAutoPlay={true}
+            enableResume={true}
+            enablePiP={!!current.movie}
+            enableAdaptiveBitrate={!!current.movie}
+          />
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-slate-400">
+            {canEdit
+              ? 'This playlist is empty. Use "Add to Playlist" on any movie or track.'
+              : 'This playlist is empty.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {items.map((item, index) => (
+              <li
+                key={item.id}
+                className={`flex items-center gap-4 p-2 rounded-xl transition-colors ${
+                  item.id === currentItemId ? 'bg-slate-800' : 'bg-slate-800/40 hover:bg-slate-800'
+                }`}
+              >
+                <span className="w-6 text-right text-slate-500">{index + 1}</span>
+                <button
+                  onClick={() => playAt(index)}
+                  className="group relative w-20 aspect-video flex-shrink-0 rounded-lg overflow-hidden bg-slate-700 flex items-center justify-center"
+                  title={`Play ${itemTitle(item)}`}
+                >
+                  {itemArtwork(item) ? (
+                    <img src={itemArtwork(item) || ''} alt={itemTitle(item)} loading="lazy" className="w-full h-full object-cover" />
+                  ) : item.movie ? (
+                    <Film className="w-6 h-6 text-slate-500" />
+                  ) : (
+                    <MusicIcon className="w-6 h-6 text-slate-500" />
+                  )}
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/0 group-hover:bg-black/40 transition-colors">
+                    <Play className="w-6 h-6 text-white opacity-0 group-hover:opacity-100 transition-opacity" />
+                  </div>
+                </button>
+                <div className="flex-1 min-w-0">
+                  <Link to={itemPath(item)} className="block text-white font-medium truncate hover:underline">
+                    {itemTitle(item)}
+                  </Link>
+                  <p className="text-sm text-slate-400 truncate">
+                    {item.movie ? 'Movie' : item.music?.artist}
+                    {addedBy(item) && <span className="text-slate-500"> • Added by {addedBy(item)}</span>}
+                  </p>
+                </div>
+                <span className="text-sm text-slate-400">
+                  {formatDuration(item.movie?.duration || item.music?.duration || 0)}
+                </span>
+                {canEdit && (
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => moveItem(index, -1)}
+                      disabled={busy || index === 0}
+                      className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveItem(index, 1)}
+                      disabled={busy || index === items.length - 1}
+                      className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeItem(item)}
+                      disabled={busy}
+                      className="p-1 text-slate-400 hover:text-red-400"
+                      title="Remove from playlist"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {members.length > 0 && (
+          <PlaylistCollaborators
+            playlistId={playlist.id}
+            members={members}
+            currentUserId={user?.id}
+            onChanged={() => {
+              reload().catch(error => handleError(error, 'Loading collaborators'));
+            }}
+            onLeft={goToPlaylists}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
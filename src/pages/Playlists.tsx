@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ListMusic, Plus, Lock, Globe, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PlaylistSummary, SharedPlaylistSummary } from '../lib/supabase';
+import { playlistService } from '../lib/playlistService';
+import { handleError } from '../lib/errorHandler';
+import { playlistPath } from '../lib/shareLinks';
+import { Spinner } from '../components/Spinner';
+import { TitleUnavailable } from '../components/TitleUnavailable';
+import { usePageNavigation } from '../hooks/usePageNavigation';
+
+const PlaylistCard = ({ playlist, detail }: { playlist: PlaylistSummary; detail?: string }) => (
+  <Link
+    to={playlistPath(playlist.id)}
+    className="flex items-center gap-4 p-4 rounded-xl bg-slate-800/40 hover:bg-slate-800 transition-colors"
+  >
+    <div className="w-16 h-16 flex-shrink-0 rounded-lg bg-slate-700 flex items-center justify-center">
+      <ListMusic className="w-8 h-8 text-slate-400" />
+    </div>
+    <div className="min-w-0">
+      <h3 className="text-white font-medium truncate">{playlist.name}</h3>
+      <p className="flex items-center gap-1 text-sm text-slate-400">
+        {playlist.is_public ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+        {detail || (playlist.is_public ? 'Public' : 'Private')}
+        {' • '}
+        {playlist.item_count} {playlist.item_count === 1 ? 'item' : 'items'}
+      </p>
+    </div>
+  </Link>
+);
+
+export const Playlists = () => {
+  const { goToChoice, goToPlaylist } = usePageNavigation();
+  const [playlists, setPlaylists] = useState<PlaylistSummary[]>([]);
+  const [shared, setShared] = useState<SharedPlaylistSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const fetchPlaylists = useCallback(async () => {
+    setLoading(true);
+    setDataError(null);
+    try {
+      const [own, sharedWithMe] = await Promise.all([
+        playlistService.listMyPlaylists(),
+        playlistService.listSharedWithMe()
+      ]);
+      setPlaylists(own);
+      setShared(sharedWithMe);
+    } catch (error) {
+      console.error('Error fetching playlists:', error);
+      setDataError('Failed to load your playlists. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPlaylists();
+  }, [fetchPlaylists]);
+
+  const createPlaylist = async () => {
+    if (!newName.trim()) return;
+
+    setCreating(true);
+    try {
+      const playlist = await playlistService.createPlaylist({
+        name: newName.trim(),
+        description: null,
+        is_public: false
+      });
+      toast.success('Playlist created');
+      goToPlaylist(playlist.id);
+    } catch (error) {
+      handleError(error, 'Creating playlist');
+      setCreating(false);
+    }
+  };
+
+  if (loading) {
+    return <Spinner label="Loading playlists..." />;
+  }
+
+  if (dataError) {
+    return (
+      <TitleUnavailable
+        icon={ListMusic}
+        heading="Unable to Load Playlists"
+        message={dataError}
+        onBack={goToChoice}
+        onRetry={fetchPlaylists}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={goToChoice}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Home
+        </motion.button>
+
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <h1 className="text-4xl font-bold text-white">My Playlists</h1>
+          <div className="flex gap-2 md:w-96">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && createPlaylist()}
+              placeholder="New playlist name"
+              className="flex-1 min-w-0 px-3 py-2 bg-slate-800 text-white rounded-lg border border-slate-700"
+            />
+            <button
+              onClick={createPlaylist}
+              disabled={creating || !newName.trim()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              Create
+            </button>
+          </div>
+        </div>
+
+        {playlists.length === 0 ? (
+          <p className="text-slate-400">
+            You have no playlists yet. Create one here, or use "Add to Playlist" on any movie or track.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {playlists.map(playlist => (
+              <PlaylistCard key={playlist.id} playlist={playlist} />
+            ))}
+          </div>
+        )}
+
+        {shared.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="flex items-center gap-2 text-2xl font-semibold text-white">
+              <Users className="w-6 h-6" />
+              Shared with me
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {shared.map(playlist => (
+                <PlaylistCard
+                  key={playlist.id}
+                  playlist={playlist}
+                  detail={playlist.role === 'editor' ? 'You can edit' : 'You can view'}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
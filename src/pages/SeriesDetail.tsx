@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Star, Play, Tv, Share2, Clock } from 'lucide-react';
+import { SeriesWithSeasons } from '../lib/supabase';
+import { seriesService, formatEpisodeNumber } from '../lib/seriesService';
+import { moviePath, seriesPath } from '../lib/shareLinks';
+import { Spinner } from '../components/Spinner';
+import { TitleUnavailable } from '../components/TitleUnavailable';
+import { usePageNavigation } from '../hooks/usePageNavigation';
+import { useShareAction } from '../hooks/useShareAction';
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export const SeriesDetail = () => {
+  const { id = '' } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { goToMovies, goToMovie } = usePageNavigation();
+  const share = useShareAction();
+  const [series, setSeries] = useState<SeriesWithSeasons | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
+
+  const fetchSeries = useCallback(async () => {
+    setLoading(true);
+    setDataError(null);
+    try {
+      setSeries(await seriesService.getSeries(id));
+    } catch (error) {
+      console.error('Error fetching series:', error);
+      setDataError('Failed to load this series. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchSeries();
+  }, [fetchSeries]);
+
+  if (loading) {
+    return <Spinner label="Loading series..." />;
+  }
+
+  if (dataError || !series) {
+    return (
+      <TitleUnavailable
+        icon={Tv}
+        heading={dataError ? 'Unable to Load Series' : 'Series Not Found'}
+        message={dataError || 'This series may have been removed, or the link is wrong.'}
+        onBack={goToMovies}
+        onRetry={dataError ? fetchSeries : undefined}
+      />
+    );
+  }
+
+  // ?season= picks the season, the first one otherwise
+  const requestedSeason = parseInt(searchParams.get('season') || '');
+  const season = series.seasons.find(item => item.season_number === requestedSeason) || series.seasons[0] || null;
+  const firstEpisode = season?.episodes[0] || null;
+
+  const selectSeason = (seasonNumber: number) => {
+    setSearchParams({ season: seasonNumber.toString() }, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={goToMovies}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Movies
+        </motion.button>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="md:w-96 aspect-video flex-shrink-0 rounded-xl overflow-hidden bg-slate-800 flex items-center justify-center">
+            {series.poster_url ? (
+              <img src={series.poster_url} alt={series.title} className="w-full h-full object-cover" />
+            ) : (
+              <Tv className="w-16 h-16 text-slate-600" />
+            )}
+          </div>
+
+          <div className="flex-1 space-y-4">
+            <div>
+              <p className="text-sm uppercase tracking-wide text-slate-400">Series</p>
+              <h1 className="text-4xl font-bold text-white">{series.title}</h1>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-slate-400">
+              {series.release_year && <span>{series.release_year}</span>}
+              <span>
+                {series.seasons.length} {series.seasons.length === 1 ? 'season' : 'seasons'}
+              </span>
+              {series.rating !== null && series.rating > 0 && (
+                <div className="flex items-center gap-1">
+                  <Star className="w-4 h-4 text-yellow-400" fill="currentColor" />
+                  <span className="text-white">{series.rating}/10</span>
+                </div>
+              )}
+              {series.genre && (
+                <span className="px-3 py-1 bg-slate-800 text-slate-300 rounded-full text-sm">{series.genre}</span>
+              )}
+            </div>
+            {series.description && (
+              <p className="text-slate-300 leading-relaxed max-w-3xl">{series.description}</p>
+            )}
+            <div className="flex items-center gap-3">
+              {firstEpisode && season && (
+                <button
+                  onClick={() => goToMovie(firstEpisode.movie_id)}
+                  className="flex items-center gap-2 px-5 py-2 rounded-lg bg-white hover:bg-slate-200 text-black font-semibold transition-colors"
+                >
+                  <Play className="w-5 h-5" />
+                  Play {formatEpisodeNumber(season.season_number, firstEpisode.episode_number)}
+                </button>
+              )}
+              <button
+                onClick={() => share(seriesPath(series.id, season?.season_number), series.title)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+              >
+                <Share2 className="w-5 h-5" />
+                Share
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {series.seasons.length === 0 ? (
+          <p className="text-slate-400">No episodes have been published yet.</p>
+        ) : (
+          <section className="space-y-4">
+            {/* Season picker */}
+            <div className="flex flex-wrap gap-2">
+              {series.seasons.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => selectSeason(item.season_number)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                    item.id === season?.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                  }`}
+                >
+                  Season {item.season_number}
+                </button>
+              ))}
+            </div>
+
+            {season?.title && <h2 className="text-xl font-semibold text-white">{season.title}</h2>}
+            {season?.description && <p className="text-slate-400">{season.description}</p>}
+
+            {season && season.episodes.length === 0 ? (
+              <p className="text-slate-400">No episodes in this season yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {season?.episodes.map(episode => (
+                  <Link
+                    key={episode.id}
+                    to={moviePath(episode.movie_id)}
+                    className="group flex gap-4 p-3 rounded-xl bg-slate-800/40 hover:bg-slate-800 transition-colors"
+                  >
+                    <div className="relative w-40 aspect-video flex-shrink-0 rounded-lg overflow-hidden bg-slate-700 flex items-center justify-center">
+                      {episode.movie.thumbnail_sizes?.card || episode.movie.thumbnail_url ? (
+                        <img
+                          src={episode.movie.thumbnail_sizes?.card || episode.movie.thumbnail_url}
+                          alt={episode.movie.title}
+                          loading="lazy"
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <Tv className="w-8 h-8 text-slate-500" />
+                      )}
+                      <div className="absolute inset-0 flex items-center justify-center bg-black/0 group-hover:bg-black/40 transition-colors">
+                        <Play className="w-8 h-8 text-white opacity-0 group-hover:opacity-100 transition-opacity" />
+                      </div>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-4">
+                        <h3 className="text-white font-medium truncate">
+                          {episode.episode_number}. {episode.movie.title}
+                        </h3>
+                        {episode.movie.duration > 0 && (
+                          <span className="flex items-center gap-1 text-sm text-slate-400 flex-shrink-0">
+                            <Clock className="w-4 h-4" />
+                            {formatDuration(episode.movie.duration)}
+                          </span>
+                        )}
+                      </div>
+                      {episode.movie.description && (
+                        <p className="text-sm text-slate-400 mt-1 line-clamp-2">{episode.movie.description}</p>
+                      )}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -15,6 +15,9 @@ import {
 } from 'lucide-react';
 import { TranscodingPipeline } from '../components/TranscodingPipeline';
 import { StreamingAnalyticsDashboard } from '../components/StreamingAnalyticsDashboard';
+import { RetentionAnalytics } from '../components/RetentionAnalytics';
+import { LiveViewersMonitor } from '../components/LiveViewersMonitor';
+import { CdnSettings } from '../components/CdnSettings';
 import { streamingService } from '../lib/streamingService';
 import { usePageNavigation } from '../hooks/usePageNavigation';
 
@@ -35,15 +38,19 @@ export const StreamingAdmin = () => {
     // Load system statistics
     const loadSystemStats = async () => {
       try {
-        const jobs = streamingService.getAllJobs();
+        // Playback numbers cover the last 7 days across all media
+        const [jobs, summary] = await Promise.all([
+          streamingService.getAllJobs(),
+          streamingService.getAnalyticsSummary()
+        ]);
         const stats = {
           activeJobs: jobs.filter(job => job.status === 'processing' || job.status === 'pending').length,
           completedJobs: jobs.filter(job => job.status === 'completed').length,
-          failedJobs: jobs.filter(job => job.status === 'failed').length,
-          totalViews: 0, // This would come from analytics API
-          averageWatchTime: 0,
-          bufferRate: 0,
-          errorRate: 0
+          failedJobs: jobs.filter(job => job.status === 'failed' || job.status === 'dead_letter').length,
+          totalViews: summary.totalViews,
+          averageWatchTime: summary.averageWatchTime,
+          bufferRate: summary.bufferRate,
+          errorRate: summary.errorRate
         };
         setSystemStats(stats);
       } catch (error) {
@@ -167,13 +174,16 @@ export const StreamingAdmin = () => {
                     <TrendingUp className="w-6 h-6 text-purple-400" />
                   </div>
                   <div>
-                    <p className="text-slate-400 text-sm">Total Views</p>
+                    <p className="text-slate-400 text-sm">Views (7 days)</p>
                     <p className="text-2xl font-bold text-white">{systemStats.totalViews.toLocaleString()}</p>
                   </div>
                 </div>
               </motion.div>
             </div>
 
+            {/* Live Viewers */}
+            <LiveViewersMonitor />
+
             {/* System Health */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
@@ -346,6 +356,9 @@ export const StreamingAdmin = () => {
                 }));
               }}
             />
+            <div className="mt-8">
+              <RetentionAnalytics />
+            </div>
           </motion.div>
         )}
 
@@ -354,64 +367,8 @@ export const StreamingAdmin = () => {
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            className="space-y-6"
           >
-            <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
-              <h3 className="text-lg font-semibold text-white mb-4">CDN Configuration</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h4 className="text-white font-medium mb-3">Global Regions</h4>
-                  <div className="space-y-2">
-                    {['us-east-1', 'eu-west-1', 'ap-southeast-1', 'ap-northeast-1'].map(region => (
-                      <div key={region} className="flex items-center justify-between p-2 bg-slate-700/50 rounded">
-                        <span className="text-slate-300">{region}</span>
-                        <div className="flex items-center gap-2">
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <span className="text-green-400 text-sm">Active</span>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-                
-                <div>
-                  <h4 className="text-white font-medium mb-3">Cache Statistics</h4>
-                  <div className="space-y-3">
-                    <div className="flex justify-between">
-                      <span className="text-slate-300">Cache Hit Rate</span>
-                      <span className="text-white">94.2%</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-slate-300">Total Requests</span>
-                      <span className="text-white">1.2M</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-slate-300">Bandwidth Saved</span>
-                      <span className="text-white">2.4 TB</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-slate-300">Average Response Time</span>
-                      <span className="text-white">45ms</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            <div className="p-6 bg-slate-800 rounded-xl border border-slate-700">
-              <h3 className="text-lg font-semibold text-white mb-4">Cache Management</h3>
-              <div className="flex gap-4">
-                <button className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors">
-                  Purge All Cache
-                </button>
-                <button className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors">
-                  Refresh Cache
-                </button>
-                <button className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg transition-colors">
-                  Preload Content
-                </button>
-              </div>
-            </div>
+            <CdnSettings />
           </motion.div>
         )}
       </div>
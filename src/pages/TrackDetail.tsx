@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Star, Clock, Music as MusicIcon } from 'lucide-react';
+import { Music as MusicType } from '../lib/supabase';
+import { dataService } from '../lib/dataService';
+import { trackPath, artistPath, albumPath, shareUrl, parseStartTime } from '../lib/shareLinks';
+import { Spinner } from '../components/Spinner';
+import { SmartMediaPlayer } from '../components/SmartMediaPlayer';
+import { TitleActions } from '../components/TitleActions';
+import { RelatedTitles } from '../components/RelatedTitles';
+import { TitleUnavailable } from '../components/TitleUnavailable';
+import { usePageNavigation } from '../hooks/usePageNavigation';
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const TrackDetail = () => {
+  const { id = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const { goToMusic } = usePageNavigation();
+  const [track, setTrack] = useState<MusicType | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dataError, setDataError] = useState<string | null>(null);
+
+  const startTime = parseStartTime(searchParams.get('t'));
+
+  const fetchTrack = useCallback(async () => {
+    setLoading(true);
+    setDataError(null);
+    try {
+      setTrack(await dataService.fetchTrack(id));
+    } catch (error) {
+      console.error('Error fetching track:', error);
+      setDataError('Failed to load this track. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchTrack();
+  }, [fetchTrack]);
+
+  if (loading) {
+    return <Spinner label="Loading track..." />;
+  }
+
+  if (dataError || !track) {
+    return (
+      <TitleUnavailable
+        icon={MusicIcon}
+        heading={dataError ? 'Unable to Load Track' : 'Track Not Found'}
+        message={dataError || 'This track may have been removed, or the link is wrong.'}
+        onBack={goToMusic}
+        onRetry={dataError ? fetchTrack : undefined}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={goToMusic}
+          className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          Music
+        </motion.button>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="w-48 h-48 flex-shrink-0 rounded-xl overflow-hidden bg-slate-800 flex items-center justify-center">
+            {track.album_art_url ? (
+              <img src={track.album_art_url} alt={track.album || track.title} className="w-full h-full object-cover" />
+            ) : (
+              <MusicIcon className="w-16 h-16 text-slate-600" />
+            )}
+          </div>
+
+          <div className="flex-1 space-y-4">
+            <div>
+              <h1 className="text-4xl font-bold text-white">{track.title}</h1>
+              <p className="text-lg text-slate-300 mt-1">
+                {track.artist_id && (
+                  <Link to={artistPath(track.artist_id)} className="hover:text-white hover:underline">
+                    {track.artist}
+                  </Link>
+                )}
+                {track.artist_id && track.album_id && <span className="text-slate-500"> • </span>}
+                {track.album_id && (
+                  <Link to={albumPath(track.album_id)} className="hover:text-white hover:underline">
+                    {track.album}
+                  </Link>
+                )}
+                {track.album_id && track.track_number && (
+                  <span className="text-slate-500"> • Track {track.track_number}</span>
+                )}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-slate-400">
+              {track.duration > 0 && (
+                <div className="flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  <span>{formatDuration(track.duration)}</span>
+                </div>
+              )}
+              {track.rating > 0 && (
+                <div className="flex items-center gap-1">
+                  <Star className="w-4 h-4 text-yellow-400" fill="currentColor" />
+                  <span className="text-white">{track.rating}/10</span>
+                </div>
+              )}
+              {track.genre && (
+                <span className="px-3 py-1 bg-slate-800 text-slate-300 rounded-full text-sm">{track.genre}</span>
+              )}
+            </div>
+            <TitleActions
+              contentId={track.id}
+              contentType="music"
+              title={track.title}
+              text={track.artist ? `${track.title} by ${track.artist}` : track.title}
+              path={trackPath(track.id)}
+            />
+          </div>
+        </div>
+
+        <SmartMediaPlayer
+          src={track.audio_url}
+          title={track.title}
+          contentId={track.id}
+          artist={track.artist}
+          album={track.album}
+          duration={track.duration}
+          shareUrl={shareUrl(trackPath(track.id))}
+          startTime={startTime}
+          type="audio"
+          preload="metadata"
+          crossOrigin="anonymous"
+          enableAutoPlay={false}
+          enableResume={true}
+          enablePiP={false}
+          enableAdaptiveBitrate={false}
+        />
+
+        <RelatedTitles content={{ id: track.id, type: 'music', genre: track.genre }} />
+      </div>
+    </div>
+  );
+};
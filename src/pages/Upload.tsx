@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Check, 
@@ -6,23 +6,44 @@ import {
   Film,
   Music,
   Shield,
-  Upload as UploadIcon
+  Subtitles,
+  AudioLines,
+  Pause,
+  Play,
+  RotateCcw,
+  Upload as UploadIcon,
+  Tv,
+  X
 } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
-import { supabase } from '../lib/supabase';
+import { supabase, StoredThumbnail, Series, Season } from '../lib/supabase';
 import { RoleIndicator } from '../components/RoleIndicator';
 import { usePermissions } from '../hooks/usePermissions';
 import { usePageNavigation } from '../hooks/usePageNavigation';
 import { handleError } from '../lib/errorHandler';
+import { streamingService } from '../lib/streamingService';
+import { subtitleService } from '../lib/subtitleService';
+import { audioTrackService } from '../lib/audioTrackService';
+import { resumableUploadService, ResumableUpload, InterruptedUpload } from '../lib/resumableUploadService';
+import { mediaMetadataService, VideoFileMetadata, AudioFileMetadata } from '../lib/mediaMetadataService';
+import { selectPosterFramesFromSource } from '../lib/thumbnailGenerator';
+import { posterService } from '../lib/posterService';
+import { seriesService } from '../lib/seriesService';
+import { CONTENT_LANGUAGES, getLanguageName } from '../lib/constants';
 import toast from 'react-hot-toast';
 
 interface UploadProgress {
   file: File;
   progress: number;
-  status: 'uploading' | 'processing' | 'completed' | 'error';
+  bytesUploaded?: number; // Acknowledged by the server, survives a pause
+  status: 'uploading' | 'paused' | 'processing' | 'completed' | 'error';
   error?: string;
   url?: string;
+  filePath?: string;
   thumbnailUrl?: string | null;
+  thumbnail?: StoredThumbnail | null; // Movies: every size and the BlurHash
+  videoInfo?: VideoFileMetadata;
+  audioInfo?: AudioFileMetadata;
 }
 
 interface MovieMetadata {
@@ -33,6 +54,27 @@ interface MovieMetadata {
   rating: number;
 }
 
+interface PendingSubtitle {
+  file: File;
+  language: string;
+  label: string;
+  isDefault: boolean;
+}
+
+interface PendingAudioTrack {
+  file: File;
+  language: string;
+  label: string;
+  isAudioDescription: boolean;
+}
+
+// Where uploaded videos go when they're episodes rather than movies
+interface EpisodeTarget {
+  seriesId: string; // Empty for standalone movies
+  seasonNumber: number;
+  firstEpisode: number | null; // Null appends after the season's last episode
+}
+
 interface MusicMetadata {
   trackName: string;
   artist: string;
@@ -41,6 +83,43 @@ interface MusicMetadata {
   rating: number;
 }
 
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// One line summary of what was read from the file, e.g. "1920x1080 • avc1/MPEG-4/AAC • 5.2 Mbps • 1:42:10"
+const describeMediaInfo = (upload: UploadProgress): string | null => {
+  const info = upload.videoInfo || upload.audioInfo;
+  if (!info) return null;
+
+  const parts: string[] = [];
+  if (upload.videoInfo?.width) {
+    parts.push(`${upload.videoInfo.width}x${upload.videoInfo.height}`);
+  }
+  const codecs = upload.videoInfo
+    ? [upload.videoInfo.videoCodec, upload.videoInfo.audioCodec].filter(Boolean).join('/')
+    : upload.audioInfo?.codec;
+  if (codecs) parts.push(codecs);
+  if (info.bitrate) {
+    parts.push(info.bitrate >= 1_000_000 ? `${(info.bitrate / 1_000_000).toFixed(1)} Mbps` : `${Math.round(info.bitrate / 1000)} kbps`);
+  }
+  if (info.duration > 0) parts.push(formatDuration(info.duration));
+  if (upload.audioInfo?.cover) parts.push('cover art');
+
+  return parts.length > 0 ? parts.join(' • ') : null;
+};
+
 export default function Upload() {
   const { goToChoice, goToMovies, goToMusic } = usePageNavigation();
   const { canUpload, isAdmin } = usePermissions();
@@ -62,6 +141,84 @@ export default function Upload() {
     genre: '',
     rating: 0
   });
+  const [subtitles, setSubtitles] = useState<PendingSubtitle[]>([]);
+  const [audioTracks, setAudioTracks] = useState<PendingAudioTrack[]>([]);
+  const [interruptedUploads, setInterruptedUploads] = useState<InterruptedUpload[]>([]);
+  const [seriesOptions, setSeriesOptions] = useState<Series[]>([]);
+  const [episodeTarget, setEpisodeTarget] = useState<EpisodeTarget>({ seriesId: '', seasonNumber: 1, firstEpisode: null });
+  const activeUploads = useRef(new Map<File, ResumableUpload>());
+
+  const loadInterruptedUploads = useCallback(() => {
+    resumableUploadService.getInterruptedUploads()
+      .then(setInterruptedUploads)
+      .catch(error => console.error('Error reading interrupted uploads:', error));
+  }, []);
+
+  useEffect(() => {
+    loadInterruptedUploads();
+  }, [loadInterruptedUploads]);
+
+  useEffect(() => {
+    if (uploadType !== 'movie') return;
+    seriesService.listSeries()
+      .then(setSeriesOptions)
+      .catch(error => console.error('Error loading series:', error));
+  }, [uploadType]);
+
+  const updateUpload = useCallback((file: File, updates: Partial<UploadProgress>) => {
+    setUploads(prev => prev.map(upload => upload.file === file ? { ...upload, ...updates } : upload));
+  }, []);
+
+  const addSubtitleFiles = useCallback((files: FileList | null) => {
+    if (!files) return;
+
+    const added = Array.from(files)
+      .filter(file => /\.(srt|vtt)$/i.test(file.name))
+      .map(file => {
+        // "movie.es.srt" -> es
+        const code = file.name.toLowerCase().split('.').slice(-2, -1)[0];
+        const language = CONTENT_LANGUAGES.some(l => l.code === code) ? code : 'en';
+        return { file, language, label: getLanguageName(language), isDefault: false };
+      });
+
+    if (added.length < files.length) {
+      toast.error('Only SRT and VTT subtitle files are supported');
+    }
+
+    setSubtitles(prev => {
+      const next = [...prev, ...added];
+      if (next.length > 0 && !next.some(subtitle => subtitle.isDefault)) {
+        next[0] = { ...next[0], isDefault: true };
+      }
+      return next;
+    });
+  }, []);
+
+  const addAudioTrackFiles = useCallback((files: FileList | null) => {
+    if (!files) return;
+
+    const added = Array.from(files)
+      .filter(file => file.type.startsWith('audio/'))
+      .map(file => ({ file, language: 'en', label: getLanguageName('en'), isAudioDescription: false }));
+
+    if (added.length < files.length) {
+      toast.error('Only audio files can be added as audio tracks');
+    }
+
+    setAudioTracks(prev => [...prev, ...added]);
+  }, []);
+
+  const updateAudioTrack = useCallback((index: number, updates: Partial<PendingAudioTrack>) => {
+    setAudioTracks(prev => prev.map((track, i) => i === index ? { ...track, ...updates } : track));
+  }, []);
+
+  const updateSubtitle = useCallback((index: number, updates: Partial<PendingSubtitle>) => {
+    setSubtitles(prev => prev.map((subtitle, i) => {
+      if (i === index) return { ...subtitle, ...updates };
+      // Only one default track
+      return updates.isDefault ? { ...subtitle, isDefault: false } : subtitle;
+    }));
+  }, []);
 
   const validateFile = useCallback((file: File, type: 'movie' | 'music'): string | null => {
     const maxSize = 2 * 1024 * 1024 * 1024; // 2GB
@@ -84,51 +241,16 @@ export default function Upload() {
     return null;
   }, []);
 
-  const getPublicUrl = useCallback((filePath: string): string => {
-    const { data } = supabase.storage.from('media').getPublicUrl(filePath);
-    return data.publicUrl;
-  }, []);
-
-  const generateVideoThumbnail = useCallback(async (file: File): Promise<string | null> => {
-    return new Promise((resolve) => {
-      const video = document.createElement('video');
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      video.addEventListener('loadedmetadata', () => {
-        // Set canvas size to video dimensions
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        
-        // Seek to 1 second
-        video.currentTime = 1;
-      });
-      
-      video.addEventListener('seeked', () => {
-        if (ctx) {
-          // Draw the video frame to canvas
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          
-          // Convert to blob and create URL
-          canvas.toBlob((blob) => {
-            if (blob) {
-              const thumbnailUrl = URL.createObjectURL(blob);
-              resolve(thumbnailUrl);
-            } else {
-              resolve(null);
-            }
-          }, 'image/jpeg', 0.8);
-        }
-      });
-      
-      video.addEventListener('error', () => {
-        resolve(null);
-      });
-      
-      // Load the video file
-      video.src = URL.createObjectURL(file);
-      video.load();
-    });
+  // Best scoring frame across the video, stored as the poster. The admin
+  // page can pick another candidate later.
+  const generateVideoThumbnail = useCallback(async (file: File): Promise<StoredThumbnail | null> => {
+    try {
+      const [best] = await selectPosterFramesFromSource(file);
+      return best ? await posterService.uploadThumbnail(best.blob) : null;
+    } catch (error: unknown) {
+      console.warn('Poster frame selection failed:', error);
+      return null;
+    }
   }, []);
 
   const generateMusicIcon = useCallback(async (): Promise<string> => {
@@ -172,37 +294,85 @@ export default function Upload() {
     });
   }, []);
 
-  const uploadFile = useCallback(async (file: File) => {
+  const uploadFile = useCallback(async (file: File, audioInfo?: AudioFileMetadata) => {
     try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-      const filePath = `${uploadType}/${fileName}`;
+      // Chunked tus upload, retried per chunk. Dropping a file that a previous
+      // session left unfinished continues from the last acknowledged chunk.
+      const upload = await resumableUploadService.start(file, uploadType || 'media', {
+        onProgress: (bytesUploaded, bytesTotal) => {
+          updateUpload(file, { progress: Math.round((bytesUploaded / bytesTotal) * 100) });
+        },
+        onChunkComplete: (bytesAccepted) => {
+          updateUpload(file, { bytesUploaded: bytesAccepted });
+        }
+      });
 
-      // Upload to storage
-      const { error: uploadError } = await supabase.storage
-        .from('media')
-        .upload(filePath, file);
+      activeUploads.current.set(file, upload);
+      if (upload.resumed) {
+        toast.success(`Resuming ${file.name} from the previous session`);
+        loadInterruptedUploads();
+      }
 
-      if (uploadError) {
-        throw new Error(`Upload failed: ${uploadError.message}`);
+      try {
+        await upload.done;
+      } finally {
+        activeUploads.current.delete(file);
       }
 
-      const publicUrl = getPublicUrl(filePath);
+      // The media bucket is private; players sign the path when they play it
+      const filePath = upload.filePath;
       
       // Generate thumbnail for videos or icon for music
       let thumbnailUrl = null;
+      let thumbnail: StoredThumbnail | null = null;
       if (uploadType === 'movie') {
-        thumbnailUrl = await generateVideoThumbnail(file);
+        thumbnail = await generateVideoThumbnail(file);
+        thumbnailUrl = thumbnail?.thumbnail_url || null;
       } else if (uploadType === 'music') {
-        thumbnailUrl = await generateMusicIcon();
+        // Embedded album art wins over the generated icon
+        if (audioInfo?.cover) {
+          try {
+            thumbnailUrl = await mediaMetadataService.uploadCoverArt(audioInfo.cover);
+          } catch (error: unknown) {
+            handleError(error, 'Uploading cover art');
+          }
+        }
+        if (!thumbnailUrl) {
+          thumbnailUrl = await generateMusicIcon();
+        }
       }
       
-      return { url: publicUrl, filePath, thumbnailUrl };
+      return { url: filePath, filePath, thumbnailUrl, thumbnail };
     } catch (error: unknown) {
       const errorMessage = handleError(error, 'Upload');
       throw new Error(`Upload failed: ${errorMessage}`);
     }
-  }, [uploadType, getPublicUrl, generateVideoThumbnail, generateMusicIcon]);
+  }, [uploadType, generateVideoThumbnail, generateMusicIcon, updateUpload, loadInterruptedUploads]);
+
+  const pauseUpload = useCallback(async (file: File) => {
+    const upload = activeUploads.current.get(file);
+    if (!upload) return;
+
+    await upload.pause();
+    updateUpload(file, { status: 'paused' });
+  }, [updateUpload]);
+
+  const resumeUpload = useCallback((file: File) => {
+    const upload = activeUploads.current.get(file);
+    if (!upload) return;
+
+    upload.resume();
+    updateUpload(file, { status: 'uploading' });
+  }, [updateUpload]);
+
+  const discardInterruptedUpload = useCallback(async (interrupted: InterruptedUpload) => {
+    try {
+      await resumableUploadService.discardInterruptedUpload(interrupted);
+      setInterruptedUploads(prev => prev.filter(upload => upload.urlStorageKey !== interrupted.urlStorageKey));
+    } catch (error: unknown) {
+      handleError(error, 'Discard upload');
+    }
+  }, []);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (!uploadType) return;
@@ -216,7 +386,8 @@ export default function Upload() {
 
     setUploads(prev => [...prev, ...newUploads]);
 
-    // Process files sequentially to avoid conflicts
+    // Process files sequentially to avoid conflicts. Pausing a file holds
+    // the rest of the queue until it is resumed.
     for (let i = 0; i < acceptedFiles.length; i++) {
       const file = acceptedFiles[i];
       try {
@@ -231,29 +402,33 @@ export default function Upload() {
           continue;
         }
 
-        // Upload file with retry logic
-        let retryCount = 0;
-        const maxRetries = 3;
-        let result: { url: string; filePath: string; thumbnailUrl: string | null } | null = null;
-        
-        while (retryCount < maxRetries) {
-          try {
-            result = await uploadFile(file);
-            break;
-          } catch (error: any) {
-            retryCount++;
-            if (retryCount >= maxRetries) {
-              throw error;
-            }
-            // Wait before retry
-            await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
+        // Read the file's own metadata first so the form is filled in while
+        // the upload runs. Only the first file of a batch pre-fills it.
+        const prefill = i === 0 && uploads.length === 0;
+        let audioInfo: AudioFileMetadata | undefined;
+        if (uploadType === 'movie') {
+          const videoInfo = await mediaMetadataService.extractVideoMetadata(file);
+          updateUpload(file, { videoInfo });
+          if (prefill && videoInfo.title) {
+            setMovieMetadata(prev => ({ ...prev, title: prev.title || videoInfo.title || '' }));
+          }
+        } else {
+          audioInfo = await mediaMetadataService.extractAudioMetadata(file);
+          updateUpload(file, { audioInfo });
+          if (prefill) {
+            const tags = audioInfo;
+            setMusicMetadata(prev => ({
+              ...prev,
+              trackName: prev.trackName || tags.title || '',
+              artist: prev.artist || tags.artist || '',
+              album: prev.album || tags.album || '',
+              genre: prev.genre || tags.genre || ''
+            }));
           }
         }
-        
-        if (!result) {
-          throw new Error('Upload failed after all retries');
-        }
-        
+
+        const result = await uploadFile(file, audioInfo);
+
         setUploads(prev => prev.map(upload => 
           upload.file === file 
             ? { 
@@ -261,7 +436,9 @@ export default function Upload() {
                 progress: 100, 
                 status: 'completed',
                 url: result.url,
-                thumbnailUrl: result.thumbnailUrl
+                filePath: result.filePath,
+                thumbnailUrl: result.thumbnailUrl,
+                thumbnail: result.thumbnail
               }
             : upload
         ));
@@ -279,7 +456,7 @@ export default function Upload() {
     }
 
     setIsUploading(false);
-  }, [uploadType, validateFile, uploadFile]);
+  }, [uploadType, uploads.length, validateFile, uploadFile, updateUpload]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -307,41 +484,111 @@ export default function Upload() {
 
       const userId = session.user.id;
 
+      // Episodes of the batch are numbered in upload order
+      let season: Season | null = null;
+      let episodeNumber = 0;
+      if (uploadType === 'movie' && episodeTarget.seriesId) {
+        season = await seriesService.ensureSeason(episodeTarget.seriesId, episodeTarget.seasonNumber);
+        episodeNumber = episodeTarget.firstEpisode || await seriesService.getNextEpisodeNumber(season.id);
+      }
+
       for (const upload of completedUploads) {
         try {
           if (uploadType === 'movie') {
-            const { error: movieError } = await supabase
+            const { data: movie, error: movieError } = await supabase
               .from('movies')
               .insert({
-                title: movieMetadata.title || upload.file.name.split('.')[0],
+                // Episodes of a batch each keep their file's name
+                title: (season && completedUploads.length > 1 ? null : movieMetadata.title) || upload.file.name.split('.')[0],
                 video_url: upload.url,
                 thumbnail_url: upload.thumbnailUrl || null,
+                thumbnail_sizes: upload.thumbnail?.thumbnail_sizes || null,
+                thumbnail_blurhash: upload.thumbnail?.thumbnail_blurhash || null,
                 description: movieMetadata.description,
                 category: movieMetadata.genre,
                 release_year: movieMetadata.releaseDate ? new Date(movieMetadata.releaseDate).getFullYear() : null,
                 rating: movieMetadata.rating || null,
-                duration: 0,
+                duration: Math.round(upload.videoInfo?.duration || 0),
+                width: upload.videoInfo?.width || null,
+                height: upload.videoInfo?.height || null,
+                video_codec: upload.videoInfo?.videoCodec || null,
+                audio_codec: upload.videoInfo?.audioCodec || null,
+                bitrate: upload.videoInfo?.bitrate || null,
                 uploaded_by: session.user.email || userId
-              });
+              })
+              .select('id')
+              .single();
 
             if (movieError) {
               console.error('Failed to save movie metadata:', movieError);
               toast.error(`Failed to save movie metadata: ${movieError.message}`);
             } else {
               console.log('Movie metadata saved successfully');
+
+              if (season) {
+                try {
+                  await seriesService.addEpisode(season.id, movie.id, episodeNumber++);
+                } catch (error: unknown) {
+                  handleError(error, `Adding ${upload.file.name} as an episode`);
+                }
+              }
+
+              for (const subtitle of subtitles) {
+                try {
+                  await subtitleService.uploadMovieSubtitle(
+                    movie.id,
+                    subtitle.file,
+                    subtitle.language,
+                    subtitle.label,
+                    subtitle.isDefault
+                  );
+                } catch (error: unknown) {
+                  handleError(error, `Uploading subtitles ${subtitle.file.name}`);
+                }
+              }
+
+              // Audio tracks must exist before the job is queued, the worker
+              // muxes them into the HLS package
+              for (const track of audioTracks) {
+                try {
+                  await audioTrackService.uploadMovieAudioTrack(
+                    movie.id,
+                    track.file,
+                    track.language,
+                    track.label,
+                    track.isAudioDescription
+                  );
+                } catch (error: unknown) {
+                  handleError(error, `Uploading audio track ${track.file.name}`);
+                }
+              }
+
+              // The movie plays from the original upload until the worker
+              // swaps video_url for the HLS master playlist
+              if (upload.filePath) {
+                const formats = await streamingService.optimizeVideo(upload.filePath, '1080p');
+                await streamingService.createTranscodingJob(upload.filePath, formats, { movieId: movie.id });
+              }
             }
           } else {
+            // The form is shared by the whole batch, but each track keeps its own title
+            const tags = upload.audioInfo;
+            const trackTitle = completedUploads.length > 1 ? tags?.title : null;
             const { error: musicError } = await supabase
               .from('music')
               .insert({
-                title: musicMetadata.trackName || upload.file.name.split('.')[0],
-                artist: musicMetadata.artist,
+                title: trackTitle || musicMetadata.trackName || tags?.title || upload.file.name.split('.')[0],
+                artist: musicMetadata.artist || tags?.artist || '',
                 audio_url: upload.url,
-                album: musicMetadata.album,
+                album: musicMetadata.album || tags?.album || '',
                 album_art_url: upload.thumbnailUrl || null,
-                genre: musicMetadata.genre.toLowerCase(),
+                track_number: tags?.trackNumber || null,
+                disc_number: tags?.discNumber || 1,
+                genre: (musicMetadata.genre || tags?.genre || '').toLowerCase(),
                 rating: musicMetadata.rating || null,
-                duration: 0,
+                duration: Math.round(tags?.duration || 0),
+                audio_codec: tags?.codec || null,
+                bitrate: tags?.bitrate || null,
                 uploaded_by: session.user.email || userId
               });
 
@@ -363,13 +610,16 @@ export default function Upload() {
     } catch (error: unknown) {
       handleError(error, 'Saving metadata');
     }
-  }, [uploadType, uploads, movieMetadata, musicMetadata, goToMovies, goToMusic]);
+  }, [uploadType, uploads, movieMetadata, musicMetadata, episodeTarget, subtitles, audioTracks, goToMovies, goToMusic]);
 
   const resetUpload = useCallback(() => {
     setUploadType(null);
     setUploads([]);
     setMovieMetadata({ title: '', description: '', genre: '', releaseDate: '', rating: 0 });
     setMusicMetadata({ trackName: '', artist: '', album: '', genre: '', rating: 0 });
+    setSubtitles([]);
+    setAudioTracks([]);
+    setEpisodeTarget({ seriesId: '', seasonNumber: 1, firstEpisode: null });
     setIsUploading(false);
   }, []);
 
@@ -490,28 +740,87 @@ export default function Upload() {
             </p>
           </div>
 
+          {/* Uploads left unfinished by an earlier session */}
+          {interruptedUploads.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h3 className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                <RotateCcw className="w-4 h-4" />
+                Interrupted uploads
+              </h3>
+              {interruptedUploads.map(interrupted => (
+                <div key={interrupted.urlStorageKey} className="bg-slate-700/30 border border-slate-600 rounded-lg p-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm truncate">{interrupted.fileName}</p>
+                    <p className="text-xs text-slate-400">
+                      {interrupted.size > 0 ? `${formatFileSize(interrupted.size)} • ` : ''}
+                      Drop the same file again to resume
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => discardInterruptedUpload(interrupted)}
+                    className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                    title="Discard"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Upload Progress */}
           {uploads.length > 0 && (
             <div className="mt-6 space-y-3">
               {uploads.map((upload, index) => (
                 <div key={index} className="bg-slate-700/50 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-2">
-                    <span className="text-white font-medium">{upload.file.name}</span>
-                    <span className={`text-sm px-2 py-1 rounded ${
-                      upload.status === 'completed' ? 'bg-green-500/20 text-green-400' :
-                      upload.status === 'error' ? 'bg-red-500/20 text-red-400' :
-                      'bg-blue-500/20 text-blue-400'
-                    }`}>
-                      {upload.status}
-                    </span>
-                  </div>
-                  {upload.status === 'uploading' && (
-                    <div className="w-full bg-slate-600 rounded-full h-2">
-                      <div 
-                        className="bg-purple-500 h-2 rounded-full transition-all duration-300"
-                        style={{ width: `${upload.progress}%` }}
-                      />
+                    <div className="min-w-0">
+                      <span className="text-white font-medium">{upload.file.name}</span>
+                      {describeMediaInfo(upload) && (
+                        <p className="text-xs text-slate-400 mt-0.5">{describeMediaInfo(upload)}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {upload.status === 'uploading' && (
+                        <button
+                          onClick={() => pauseUpload(upload.file)}
+                          className="p-1 text-slate-300 hover:text-white transition-colors"
+                          title="Pause"
+                        >
+                          <Pause className="w-4 h-4" />
+                        </button>
+                      )}
+                      {upload.status === 'paused' && (
+                        <button
+                          onClick={() => resumeUpload(upload.file)}
+                          className="p-1 text-slate-300 hover:text-white transition-colors"
+                          title="Resume"
+                        >
+                          <Play className="w-4 h-4" />
+                        </button>
+                      )}
+                      <span className={`text-sm px-2 py-1 rounded ${
+                        upload.status === 'completed' ? 'bg-green-500/20 text-green-400' :
+                        upload.status === 'error' ? 'bg-red-500/20 text-red-400' :
+                        upload.status === 'paused' ? 'bg-yellow-500/20 text-yellow-400' :
+                        'bg-blue-500/20 text-blue-400'
+                      }`}>
+                        {upload.status}
+                      </span>
                     </div>
+                  </div>
+                  {(upload.status === 'uploading' || upload.status === 'paused') && (
+                    <>
+                      <div className="w-full bg-slate-600 rounded-full h-2">
+                        <div 
+                          className={`${upload.status === 'paused' ? 'bg-yellow-500' : 'bg-purple-500'} h-2 rounded-full transition-all duration-300`}
+                          style={{ width: `${upload.progress}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {formatFileSize(upload.bytesUploaded || 0)} of {formatFileSize(upload.file.size)} • {upload.progress}%
+                      </p>
+                    </>
                   )}
                   {upload.error && (
                     <p className="text-red-400 text-sm mt-2">{upload.error}</p>
@@ -580,6 +889,170 @@ export default function Upload() {
                         placeholder="Movie description"
                       />
                     </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+                        <Tv className="w-4 h-4" />
+                        Series Episode
+                      </label>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <select
+                          value={episodeTarget.seriesId}
+                          onChange={(e) => setEpisodeTarget(prev => ({ ...prev, seriesId: e.target.value }))}
+                          className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-purple-400 focus:outline-none"
+                        >
+                          <option value="">Standalone movie</option>
+                          {seriesOptions.map(series => (
+                            <option key={series.id} value={series.id}>{series.title}</option>
+                          ))}
+                        </select>
+                        {episodeTarget.seriesId && (
+                          <>
+                            <input
+                              type="number"
+                              min="1"
+                              value={episodeTarget.seasonNumber}
+                              onChange={(e) => setEpisodeTarget(prev => ({ ...prev, seasonNumber: Math.max(1, parseInt(e.target.value) || 1) }))}
+                              className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-purple-400 focus:outline-none"
+                              placeholder="Season"
+                              title="Season number, created if it doesn't exist"
+                            />
+                            <input
+                              type="number"
+                              min="1"
+                              value={episodeTarget.firstEpisode ?? ''}
+                              onChange={(e) => setEpisodeTarget(prev => ({ ...prev, firstEpisode: parseInt(e.target.value) || null }))}
+                              className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-purple-400 focus:outline-none"
+                              placeholder="Episode (next free)"
+                              title="Episode number of the first file, the rest follow in upload order"
+                            />
+                          </>
+                        )}
+                      </div>
+                      {seriesOptions.length === 0 && (
+                        <p className="text-xs text-slate-500 mt-1">Create a series on the Admin page to upload episodes</p>
+                      )}
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Subtitles (SRT or VTT)</label>
+                      <label className="flex items-center justify-center gap-2 w-full bg-slate-700 border border-dashed border-slate-600 rounded-lg px-3 py-3 text-slate-300 hover:border-purple-400 cursor-pointer transition-colors">
+                        <Subtitles className="w-4 h-4" />
+                        <span>Add subtitle files</span>
+                        <input
+                          type="file"
+                          accept=".srt,.vtt"
+                          multiple
+                          className="hidden"
+                          onChange={(e) => {
+                            addSubtitleFiles(e.target.files);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                      {subtitles.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {subtitles.map((subtitle, index) => (
+                            <div key={`${subtitle.file.name}-${index}`} className="flex items-center gap-2 bg-slate-700/50 rounded-lg p-2">
+                              <span className="text-sm text-slate-300 truncate flex-1 min-w-0">{subtitle.file.name}</span>
+                              <select
+                                value={subtitle.language}
+                                onChange={(e) => updateSubtitle(index, {
+                                  language: e.target.value,
+                                  label: getLanguageName(e.target.value)
+                                })}
+                                className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-white text-sm"
+                              >
+                                {CONTENT_LANGUAGES.map(language => (
+                                  <option key={language.code} value={language.code}>{language.name}</option>
+                                ))}
+                              </select>
+                              <input
+                                type="text"
+                                value={subtitle.label}
+                                onChange={(e) => updateSubtitle(index, { label: e.target.value })}
+                                className="w-36 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-white text-sm"
+                                placeholder="Label"
+                              />
+                              <label className="flex items-center gap-1 text-sm text-slate-300">
+                                <input
+                                  type="radio"
+                                  name="default-subtitle"
+                                  checked={subtitle.isDefault}
+                                  onChange={() => updateSubtitle(index, { isDefault: true })}
+                                />
+                                Default
+                              </label>
+                              <button
+                                onClick={() => setSubtitles(prev => prev.filter((_, i) => i !== index))}
+                                className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                                title="Remove"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Audio Tracks (dubs and audio description)</label>
+                      <label className="flex items-center justify-center gap-2 w-full bg-slate-700 border border-dashed border-slate-600 rounded-lg px-3 py-3 text-slate-300 hover:border-purple-400 cursor-pointer transition-colors">
+                        <AudioLines className="w-4 h-4" />
+                        <span>Add audio files</span>
+                        <input
+                          type="file"
+                          accept="audio/*"
+                          multiple
+                          className="hidden"
+                          onChange={(e) => {
+                            addAudioTrackFiles(e.target.files);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                      {audioTracks.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                          {audioTracks.map((track, index) => (
+                            <div key={`${track.file.name}-${index}`} className="flex items-center gap-2 bg-slate-700/50 rounded-lg p-2">
+                              <span className="text-sm text-slate-300 truncate flex-1 min-w-0">{track.file.name}</span>
+                              <select
+                                value={track.language}
+                                onChange={(e) => updateAudioTrack(index, {
+                                  language: e.target.value,
+                                  label: getLanguageName(e.target.value)
+                                })}
+                                className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-white text-sm"
+                              >
+                                {CONTENT_LANGUAGES.map(language => (
+                                  <option key={language.code} value={language.code}>{language.name}</option>
+                                ))}
+                              </select>
+                              <input
+                                type="text"
+                                value={track.label}
+                                onChange={(e) => updateAudioTrack(index, { label: e.target.value })}
+                                className="w-36 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-white text-sm"
+                                placeholder="Label"
+                              />
+                              <label className="flex items-center gap-1 text-sm text-slate-300">
+                                <input
+                                  type="checkbox"
+                                  checked={track.isAudioDescription}
+                                  onChange={(e) => updateAudioTrack(index, { isAudioDescription: e.target.checked })}
+                                />
+                                Audio description
+                              </label>
+                              <button
+                                onClick={() => setAudioTracks(prev => prev.filter((_, i) => i !== index))}
+                                className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                                title="Remove"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
                   </>
                 ) : (
                   <>
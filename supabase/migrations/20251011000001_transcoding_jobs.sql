@@ -0,0 +1,89 @@
+/*
+  # Transcoding Jobs
+
+  This migration creates the table the transcoding worker pulls jobs from.
+  The browser only inserts pending jobs and reads progress; the worker
+  (worker/transcodingWorker.ts) runs with the service role key, claims jobs,
+  runs ffmpeg and writes progress and output renditions back to the row.
+*/
+
+-- =============================================
+-- 1. CREATE TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS transcoding_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  input_url text NOT NULL, -- Storage path in the media bucket or an absolute URL
+  output_formats jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  progress integer NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 100),
+  error text,
+  worker_id text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_transcoding_jobs_status ON transcoding_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_transcoding_jobs_created_by ON transcoding_jobs(created_by);
+
+-- =============================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE transcoding_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view transcoding jobs"
+  ON transcoding_jobs FOR SELECT
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can queue transcoding jobs"
+  ON transcoding_jobs FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()) AND status = 'pending');
+
+CREATE POLICY "Admins can update transcoding jobs"
+  ON transcoding_jobs FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can delete transcoding jobs"
+  ON transcoding_jobs FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+GRANT ALL ON transcoding_jobs TO authenticated;
+
+-- =============================================
+-- 4. TRIGGERS
+-- =============================================
+
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_transcoding_jobs_updated_at
+  BEFORE UPDATE ON transcoding_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 5. REALTIME
+-- =============================================
+
+-- Progress updates are pushed to the admin UI through postgres_changes
+ALTER PUBLICATION supabase_realtime ADD TABLE transcoding_jobs;
+
+COMMENT ON TABLE transcoding_jobs IS 'Transcoding jobs queued by admins and processed by the ffmpeg worker';
@@ -0,0 +1,247 @@
+/*
+  # Transcoding Job Queue
+
+  Turns transcoding_jobs into a durable work queue:
+  - Jobs are claimed with a time-limited lease that the worker renews while
+    it runs. Jobs whose lease expires (crashed worker) go back to the queue.
+  - Pending jobs are claimed by priority, then age.
+  - Failed attempts are retried with exponential backoff and moved to the
+    dead_letter state once max_attempts is reached.
+  - Running jobs can be cancelled; the worker sees the request on its next
+    lease renewal and stops ffmpeg. Cancelled jobs whose lease expired
+    are cancelled rather than requeued.
+  - The number of jobs processing at once is capped by max_concurrent_jobs,
+    which the admin UI keeps in sync with StreamingConfig.maxConcurrentJobs.
+*/
+
+-- =============================================
+-- 1. QUEUE COLUMNS
+-- =============================================
+
+ALTER TABLE transcoding_jobs
+  ADD COLUMN IF NOT EXISTS priority integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  ADD COLUMN IF NOT EXISTS run_after timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS lease_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancel_requested boolean NOT NULL DEFAULT false;
+
+ALTER TABLE transcoding_jobs DROP CONSTRAINT IF EXISTS transcoding_jobs_status_check;
+ALTER TABLE transcoding_jobs ADD CONSTRAINT transcoding_jobs_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled', 'dead_letter'));
+
+DROP INDEX IF EXISTS idx_transcoding_jobs_status;
+CREATE INDEX IF NOT EXISTS idx_transcoding_jobs_queue
+  ON transcoding_jobs(priority DESC, created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_transcoding_jobs_lease
+  ON transcoding_jobs(lease_expires_at)
+  WHERE status = 'processing';
+
+-- =============================================
+-- 2. QUEUE SETTINGS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS transcoding_queue_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id), -- single row
+  max_concurrent_jobs integer NOT NULL DEFAULT 5 CHECK (max_concurrent_jobs > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO transcoding_queue_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE transcoding_queue_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view transcoding queue settings"
+  ON transcoding_queue_settings FOR SELECT
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can update transcoding queue settings"
+  ON transcoding_queue_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+GRANT SELECT, UPDATE ON transcoding_queue_settings TO authenticated;
+
+-- =============================================
+-- 3. WORKER FUNCTIONS (service role only)
+-- =============================================
+
+-- Requeue jobs whose worker stopped renewing its lease. Jobs cancelled
+-- while running are finished as cancelled instead, like their worker would.
+CREATE OR REPLACE FUNCTION requeue_expired_transcoding_jobs()
+RETURNS integer AS $$
+DECLARE
+  requeued_count integer;
+BEGIN
+  UPDATE transcoding_jobs
+  SET
+    status = CASE
+      WHEN cancel_requested THEN 'cancelled'
+      WHEN attempts >= max_attempts THEN 'dead_letter'
+      ELSE 'pending'
+    END,
+    error = CASE WHEN cancel_requested THEN 'Cancelled by user' ELSE 'Worker lease expired' END,
+    worker_id = NULL,
+    lease_expires_at = NULL,
+    run_after = now()
+  WHERE status = 'processing'
+    AND lease_expires_at < now();
+
+  GET DIAGNOSTICS requeued_count = ROW_COUNT;
+  RETURN requeued_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claim the next runnable job, respecting the global concurrency limit
+CREATE OR REPLACE FUNCTION claim_transcoding_job(p_worker_id text, p_lease_seconds integer)
+RETURNS SETOF transcoding_jobs AS $$
+DECLARE
+  max_jobs integer;
+  running_jobs integer;
+BEGIN
+  -- Serialize claims so the concurrency check and the claim are atomic
+  PERFORM pg_advisory_xact_lock(hashtext('claim_transcoding_job'));
+
+  PERFORM requeue_expired_transcoding_jobs();
+
+  SELECT max_concurrent_jobs INTO max_jobs FROM transcoding_queue_settings WHERE id;
+  SELECT COUNT(*) INTO running_jobs FROM transcoding_jobs WHERE status = 'processing';
+
+  IF running_jobs >= COALESCE(max_jobs, 5) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE transcoding_jobs
+  SET
+    status = 'processing',
+    worker_id = p_worker_id,
+    attempts = attempts + 1,
+    progress = 0,
+    started_at = now(),
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = (
+    SELECT id FROM transcoding_jobs
+    WHERE status = 'pending'
+      AND run_after <= now()
+      AND NOT cancel_requested
+    ORDER BY priority DESC, created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Extend the lease of a running job. Returns false when the worker should
+-- stop: the job was cancelled, deleted or handed to another worker.
+CREATE OR REPLACE FUNCTION renew_transcoding_job_lease(p_job_id uuid, p_worker_id text, p_lease_seconds integer)
+RETURNS boolean AS $$
+DECLARE
+  job_cancel_requested boolean;
+BEGIN
+  UPDATE transcoding_jobs
+  SET lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_job_id
+    AND worker_id = p_worker_id
+    AND status = 'processing'
+  RETURNING cancel_requested INTO job_cancel_requested;
+
+  RETURN FOUND AND NOT job_cancel_requested;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record a failed attempt: retry with exponential backoff or dead-letter it.
+-- Returns the job's new status.
+CREATE OR REPLACE FUNCTION fail_transcoding_job(p_job_id uuid, p_worker_id text, p_error text, p_retryable boolean DEFAULT true)
+RETURNS text AS $$
+DECLARE
+  new_status text;
+BEGIN
+  UPDATE transcoding_jobs
+  SET
+    status = CASE
+      WHEN cancel_requested THEN 'cancelled'
+      WHEN p_retryable AND attempts < max_attempts THEN 'pending'
+      ELSE 'dead_letter'
+    END,
+    error = CASE WHEN cancel_requested THEN 'Cancelled by user' ELSE p_error END,
+    -- 30s, 60s, 120s, ... capped at one hour
+    run_after = now() + LEAST(interval '1 hour', interval '30 seconds' * power(2, GREATEST(attempts - 1, 0))),
+    worker_id = NULL,
+    lease_expires_at = NULL
+  WHERE id = p_job_id
+    AND worker_id = p_worker_id
+  RETURNING status INTO new_status;
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION requeue_expired_transcoding_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_transcoding_job(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION renew_transcoding_job_lease(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_transcoding_job(uuid, text, text, boolean) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- 4. ADMIN FUNCTIONS
+-- =============================================
+
+-- Cancel a job. Pending jobs are cancelled immediately; running jobs are
+-- flagged and cancelled by their worker on its next lease renewal.
+CREATE OR REPLACE FUNCTION cancel_transcoding_job(p_job_id uuid)
+RETURNS text AS $$
+DECLARE
+  new_status text;
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  UPDATE transcoding_jobs
+  SET
+    status = CASE WHEN status = 'pending' THEN 'cancelled' ELSE status END,
+    error = CASE WHEN status = 'pending' THEN 'Cancelled by user' ELSE error END,
+    cancel_requested = true
+  WHERE id = p_job_id
+    AND status IN ('pending', 'processing')
+  RETURNING status INTO new_status;
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Put a finished job back in the queue with a fresh attempt budget
+CREATE OR REPLACE FUNCTION retry_transcoding_job(p_job_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  UPDATE transcoding_jobs
+  SET
+    status = 'pending',
+    attempts = 0,
+    progress = 0,
+    error = NULL,
+    cancel_requested = false,
+    run_after = now(),
+    worker_id = NULL,
+    started_at = NULL,
+    completed_at = NULL
+  WHERE id = p_job_id
+    AND status IN ('failed', 'cancelled', 'dead_letter');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE transcoding_queue_settings IS 'Single-row settings for the transcoding queue';
+COMMENT ON FUNCTION claim_transcoding_job IS 'Lease the highest-priority runnable transcoding job to a worker';
+COMMENT ON FUNCTION fail_transcoding_job IS 'Retry a failed transcoding attempt with backoff or dead-letter it';
+COMMENT ON FUNCTION cancel_transcoding_job IS 'Cancel a pending or running transcoding job';
+COMMENT ON FUNCTION retry_transcoding_job IS 'Requeue a failed, cancelled or dead-lettered transcoding job';
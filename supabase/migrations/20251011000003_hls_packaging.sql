@@ -0,0 +1,33 @@
+/*
+  # HLS Packaging
+
+  Transcoding jobs can now be linked to the movie they were queued for.
+  When such a job completes, the worker points movies.video_url at the
+  generated HLS master playlist. The media bucket is opened up for the
+  playlist and segment content types the worker uploads.
+*/
+
+-- =============================================
+-- 1. LINK JOBS TO MOVIES
+-- =============================================
+
+ALTER TABLE transcoding_jobs
+  ADD COLUMN IF NOT EXISTS movie_id uuid REFERENCES movies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transcoding_jobs_movie_id ON transcoding_jobs(movie_id);
+
+-- =============================================
+-- 2. STORAGE CONTENT TYPES
+-- =============================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = (
+  SELECT array_agg(DISTINCT mime_type)
+  FROM unnest(
+    allowed_mime_types || ARRAY['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'video/mp2t']
+  ) AS mime_type
+)
+WHERE id = 'media'
+  AND allowed_mime_types IS NOT NULL;
+
+COMMENT ON COLUMN transcoding_jobs.movie_id IS 'Movie whose video_url is updated when the job completes';
@@ -0,0 +1,40 @@
+/*
+  # DASH Manifests
+
+  The transcoding worker can now package movies as MPEG-DASH (fragmented MP4
+  segments with an MPD manifest) alongside HLS. Both manifest URLs are
+  stored on the movie and preferred_manifest decides which one the player
+  loads; video_url keeps pointing at the HLS master playlist.
+*/
+
+-- =============================================
+-- 1. MOVIE MANIFEST COLUMNS
+-- =============================================
+
+ALTER TABLE movies
+  ADD COLUMN IF NOT EXISTS hls_url text,
+  ADD COLUMN IF NOT EXISTS dash_url text,
+  ADD COLUMN IF NOT EXISTS preferred_manifest text NOT NULL DEFAULT 'hls'
+    CHECK (preferred_manifest IN ('hls', 'dash'));
+
+-- Movies already switched to a master playlist by the HLS packager
+UPDATE movies
+SET hls_url = video_url
+WHERE hls_url IS NULL
+  AND video_url LIKE '%.m3u8';
+
+-- =============================================
+-- 2. STORAGE CONTENT TYPES
+-- =============================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = (
+  SELECT array_agg(DISTINCT mime_type)
+  FROM unnest(
+    allowed_mime_types || ARRAY['application/dash+xml', 'video/iso.segment']
+  ) AS mime_type
+)
+WHERE id = 'media'
+  AND allowed_mime_types IS NOT NULL;
+
+COMMENT ON COLUMN movies.preferred_manifest IS 'Adaptive streaming format the player loads: hls or dash';
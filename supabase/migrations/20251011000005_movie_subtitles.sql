@@ -0,0 +1,122 @@
+/*
+  # Movie Subtitles
+
+  Subtitle tracks attached to movies. Files are uploaded from the Upload page,
+  converted to WebVTT in the browser and stored in the media bucket under
+  subtitles/<movie id>/. The player renders them as <track> elements.
+  A movie has at most one default track; set_default_movie_subtitle moves
+  the default to another track.
+*/
+
+-- =============================================
+-- 1. CREATE TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS movie_subtitles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id uuid NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  language text NOT NULL, -- ISO 639-1 code, matched against preferred_language
+  label text NOT NULL,
+  url text NOT NULL,
+  storage_path text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_movie_subtitles_movie_id ON movie_subtitles(movie_id);
+
+-- At most one default track per movie
+CREATE UNIQUE INDEX IF NOT EXISTS idx_movie_subtitles_default
+  ON movie_subtitles(movie_id)
+  WHERE is_default;
+
+-- =============================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE movie_subtitles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view movie subtitles"
+  ON movie_subtitles FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert movie subtitles"
+  ON movie_subtitles FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update movie subtitles"
+  ON movie_subtitles FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete movie subtitles"
+  ON movie_subtitles FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+GRANT ALL ON movie_subtitles TO authenticated;
+
+-- =============================================
+-- 4. TRIGGERS
+-- =============================================
+
+CREATE TRIGGER update_movie_subtitles_updated_at
+  BEFORE UPDATE ON movie_subtitles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 5. FUNCTIONS
+-- =============================================
+
+-- Makes a track the movie's default. The previous default is cleared first,
+-- in the same transaction, so the unique index never sees two.
+CREATE OR REPLACE FUNCTION set_default_movie_subtitle(p_subtitle_id uuid)
+RETURNS movie_subtitles AS $$
+DECLARE
+  v_subtitle movie_subtitles;
+BEGIN
+  UPDATE movie_subtitles
+  SET is_default = false
+  WHERE is_default
+    AND id <> p_subtitle_id
+    AND movie_id = (SELECT movie_id FROM movie_subtitles WHERE id = p_subtitle_id);
+
+  UPDATE movie_subtitles
+  SET is_default = true
+  WHERE id = p_subtitle_id
+  RETURNING * INTO v_subtitle;
+
+  IF v_subtitle.id IS NULL THEN
+    RAISE EXCEPTION 'Subtitle not found or access denied';
+  END IF;
+
+  RETURN v_subtitle;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_default_movie_subtitle(uuid) TO authenticated;
+
+-- =============================================
+-- 6. STORAGE CONTENT TYPES
+-- =============================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = (
+  SELECT array_agg(DISTINCT mime_type)
+  FROM unnest(allowed_mime_types || ARRAY['text/vtt']) AS mime_type
+)
+WHERE id = 'media'
+  AND allowed_mime_types IS NOT NULL;
+
+COMMENT ON TABLE movie_subtitles IS 'WebVTT subtitle tracks for movies';
+COMMENT ON FUNCTION set_default_movie_subtitle IS 'Make a subtitle track the default of its movie (admins only, through RLS)';
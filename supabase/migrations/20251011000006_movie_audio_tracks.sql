@@ -0,0 +1,84 @@
+/*
+  # Movie Audio Tracks
+
+  Extra language dubs and audio-description tracks for movies. Source files
+  are uploaded from the Upload page into audio-tracks/<movie id>/; the
+  transcoding worker encodes them and adds them to the HLS master playlist
+  as alternate audio renditions. The player picks the default track from
+  the profile's preferred_language and audio_description preferences.
+*/
+
+-- =============================================
+-- 1. CREATE TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS movie_audio_tracks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id uuid NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  language text NOT NULL, -- ISO 639-1 code, matched against preferred_language
+  label text NOT NULL,
+  is_audio_description boolean NOT NULL DEFAULT false,
+  source_path text NOT NULL, -- Uploaded file in the media bucket
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_movie_audio_tracks_movie_id ON movie_audio_tracks(movie_id);
+
+-- =============================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE movie_audio_tracks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view movie audio tracks"
+  ON movie_audio_tracks FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert movie audio tracks"
+  ON movie_audio_tracks FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update movie audio tracks"
+  ON movie_audio_tracks FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete movie audio tracks"
+  ON movie_audio_tracks FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+GRANT ALL ON movie_audio_tracks TO authenticated;
+
+-- =============================================
+-- 4. TRIGGERS
+-- =============================================
+
+CREATE TRIGGER update_movie_audio_tracks_updated_at
+  BEFORE UPDATE ON movie_audio_tracks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 5. STORAGE CONTENT TYPES
+-- =============================================
+
+-- Source formats for dubs besides the ones already allowed for music
+UPDATE storage.buckets
+SET allowed_mime_types = (
+  SELECT array_agg(DISTINCT mime_type)
+  FROM unnest(allowed_mime_types || ARRAY['audio/aac', 'audio/mp4', 'audio/x-m4a']) AS mime_type
+)
+WHERE id = 'media'
+  AND allowed_mime_types IS NOT NULL;
+
+COMMENT ON TABLE movie_audio_tracks IS 'Alternate language and audio-description tracks for movies';
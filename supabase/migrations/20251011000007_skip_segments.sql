@@ -0,0 +1,98 @@
+/*
+  # Skip Segments
+
+  Intro, recap and credits ranges per movie, marked in the Admin page's
+  timeline editor. The player shows "Skip Intro"/"Skip Credits" buttons for
+  them or skips automatically when the profile's skip_intro/skip_credits
+  preference is on. Times are in seconds from the start of the movie.
+*/
+
+-- =============================================
+-- 1. CREATE TABLE
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS skip_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  movie_id uuid NOT NULL REFERENCES movies(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('intro', 'recap', 'credits')),
+  start_time numeric(10, 3) NOT NULL CHECK (start_time >= 0),
+  end_time numeric(10, 3) NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_skip_segments_movie_id ON skip_segments(movie_id, start_time);
+
+-- =============================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE skip_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view skip segments"
+  ON skip_segments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert skip segments"
+  ON skip_segments FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update skip segments"
+  ON skip_segments FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete skip segments"
+  ON skip_segments FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+GRANT ALL ON skip_segments TO authenticated;
+
+-- =============================================
+-- 4. TRIGGERS
+-- =============================================
+
+CREATE TRIGGER update_skip_segments_updated_at
+  BEFORE UPDATE ON skip_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 5. FUNCTIONS
+-- =============================================
+
+-- Replace all markers of a movie in one transaction, so the editor never
+-- leaves a movie with half its markers saved
+CREATE OR REPLACE FUNCTION replace_skip_segments(p_movie_id uuid, p_segments jsonb)
+RETURNS SETOF skip_segments AS $$
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  DELETE FROM skip_segments WHERE movie_id = p_movie_id;
+
+  RETURN QUERY
+  INSERT INTO skip_segments (movie_id, type, start_time, end_time)
+  SELECT
+    p_movie_id,
+    segment->>'type',
+    (segment->>'start_time')::numeric,
+    (segment->>'end_time')::numeric
+  FROM jsonb_array_elements(COALESCE(p_segments, '[]'::jsonb)) AS segment
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE skip_segments IS 'Intro, recap and credits markers for movies';
+COMMENT ON FUNCTION replace_skip_segments IS 'Replace all skip markers of a movie';
@@ -0,0 +1,30 @@
+/*
+  # Media Technical Metadata
+
+  The Upload page now reads duration, resolution, codecs and bitrate from
+  the uploaded files (and ID3/Vorbis/FLAC tags from audio) instead of
+  relying on what the uploader types in. The technical values are kept on
+  the rows for the admin views.
+*/
+
+-- =============================================
+-- 1. MOVIE COLUMNS
+-- =============================================
+
+ALTER TABLE movies
+  ADD COLUMN IF NOT EXISTS width integer,
+  ADD COLUMN IF NOT EXISTS height integer,
+  ADD COLUMN IF NOT EXISTS video_codec text,
+  ADD COLUMN IF NOT EXISTS audio_codec text,
+  ADD COLUMN IF NOT EXISTS bitrate integer;
+
+-- =============================================
+-- 2. MUSIC COLUMNS
+-- =============================================
+
+ALTER TABLE music
+  ADD COLUMN IF NOT EXISTS audio_codec text,
+  ADD COLUMN IF NOT EXISTS bitrate integer;
+
+COMMENT ON COLUMN movies.bitrate IS 'Overall bitrate of the uploaded source file, bits per second';
+COMMENT ON COLUMN music.bitrate IS 'Audio bitrate of the uploaded file, bits per second';
@@ -0,0 +1,303 @@
+/*
+  # Playback Analytics
+
+  Watch sessions and their QoE events (buffering, errors, drop-offs)
+  collected by useStreamingAnalytics. The browser sends them in batches
+  through ingest_playback_analytics; every record carries a client
+  generated id so retried batches are idempotent. When the page unloads the
+  last batch goes out with navigator.sendBeacon, which cannot set an
+  Authorization header or a JSON content type, so
+  ingest_playback_analytics_beacon takes the batch as plain text.
+
+  Sessions belong to the signed-in user who reported them first, and only
+  that user's batches update them or add events to them. Sessions have to
+  be of a movie or track in the catalog. A beacon carries no JWT, so it
+  can't create sessions; it may only append to sessions it proves to own
+  with their beacon token, a random secret the playing tab sent along
+  when it first reported the session (only its hash is stored).
+*/
+
+-- =============================================
+-- 1. CREATE TABLES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS playback_sessions (
+  id uuid PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  media_id text NOT NULL, -- Movie/music id, or the title for ad-hoc sources
+  media_type text CHECK (media_type IN ('movie', 'music')),
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  watch_time numeric(12, 3) NOT NULL DEFAULT 0, -- Seconds of media actually played
+  media_duration numeric(12, 3), -- Seconds
+  last_position numeric(12, 3) NOT NULL DEFAULT 0,
+  max_position numeric(12, 3) NOT NULL DEFAULT 0,
+  quality_levels jsonb NOT NULL DEFAULT '[]'::jsonb,
+  device_info jsonb NOT NULL DEFAULT '{}'::jsonb,
+  network_info jsonb NOT NULL DEFAULT '{}'::jsonb,
+  beacon_token_hash bytea, -- sha256 of the token beacons present
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS playback_buffer_events (
+  id uuid PRIMARY KEY,
+  session_id uuid NOT NULL REFERENCES playback_sessions(id) ON DELETE CASCADE,
+  occurred_at timestamptz NOT NULL,
+  duration_ms integer NOT NULL DEFAULT 0,
+  reason text NOT NULL DEFAULT 'unknown',
+  quality text
+);
+
+CREATE TABLE IF NOT EXISTS playback_errors (
+  id uuid PRIMARY KEY,
+  session_id uuid NOT NULL REFERENCES playback_sessions(id) ON DELETE CASCADE,
+  occurred_at timestamptz NOT NULL,
+  error_type text NOT NULL DEFAULT 'unknown',
+  error_code text,
+  message text,
+  recoverable boolean NOT NULL DEFAULT false
+);
+
+CREATE TABLE IF NOT EXISTS playback_drop_offs (
+  id uuid PRIMARY KEY,
+  session_id uuid NOT NULL REFERENCES playback_sessions(id) ON DELETE CASCADE,
+  occurred_at timestamptz NOT NULL,
+  position numeric(12, 3) NOT NULL DEFAULT 0,
+  reason text NOT NULL DEFAULT 'user_action',
+  context jsonb
+);
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_playback_sessions_media ON playback_sessions(media_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_playback_sessions_user ON playback_sessions(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_playback_sessions_started_at ON playback_sessions(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_playback_buffer_events_session ON playback_buffer_events(session_id);
+CREATE INDEX IF NOT EXISTS idx_playback_errors_session ON playback_errors(session_id);
+CREATE INDEX IF NOT EXISTS idx_playback_errors_occurred_at ON playback_errors(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_playback_drop_offs_session ON playback_drop_offs(session_id);
+
+-- =============================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================
+
+-- Rows are only written through the ingestion functions below
+
+ALTER TABLE playback_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE playback_buffer_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE playback_errors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE playback_drop_offs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own playback sessions"
+  ON playback_sessions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can view playback buffer events"
+  ON playback_buffer_events FOR SELECT
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can view playback errors"
+  ON playback_errors FOR SELECT
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can view playback drop-offs"
+  ON playback_drop_offs FOR SELECT
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can delete playback sessions"
+  ON playback_sessions FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+GRANT SELECT, DELETE ON playback_sessions TO authenticated;
+GRANT SELECT ON playback_buffer_events TO authenticated;
+GRANT SELECT ON playback_errors TO authenticated;
+GRANT SELECT ON playback_drop_offs TO authenticated;
+
+-- =============================================
+-- 4. TRIGGERS
+-- =============================================
+
+CREATE TRIGGER update_playback_sessions_updated_at
+  BEFORE UPDATE ON playback_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================
+-- 5. INGESTION FUNCTIONS
+-- =============================================
+
+-- Stores the events of a batch that belong to p_session_ids, the sessions
+-- the caller was found to own; other events are dropped instead of failing
+-- the batch, so a client never retries a batch forever
+CREATE OR REPLACE FUNCTION insert_playback_events(p_batch jsonb, p_session_ids uuid[])
+RETURNS void AS $$
+BEGIN
+  INSERT INTO playback_buffer_events (id, session_id, occurred_at, duration_ms, reason, quality)
+  SELECT e.id, e.session_id, e.occurred_at, COALESCE(e.duration_ms, 0), COALESCE(e.reason, 'unknown'), e.quality
+  FROM jsonb_to_recordset(COALESCE(p_batch->'buffer_events', '[]'::jsonb)) AS e(
+    id uuid, session_id uuid, occurred_at timestamptz, duration_ms integer, reason text, quality text
+  )
+  WHERE e.session_id = ANY (p_session_ids)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO playback_errors (id, session_id, occurred_at, error_type, error_code, message, recoverable)
+  SELECT e.id, e.session_id, e.occurred_at, COALESCE(e.error_type, 'unknown'), e.error_code, left(e.message, 1000), COALESCE(e.recoverable, false)
+  FROM jsonb_to_recordset(COALESCE(p_batch->'errors', '[]'::jsonb)) AS e(
+    id uuid, session_id uuid, occurred_at timestamptz, error_type text, error_code text, message text, recoverable boolean
+  )
+  WHERE e.session_id = ANY (p_session_ids)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO playback_drop_offs (id, session_id, occurred_at, position, reason, context)
+  SELECT e.id, e.session_id, e.occurred_at, COALESCE(e.position, 0), COALESCE(e.reason, 'user_action'), e.context
+  FROM jsonb_to_recordset(COALESCE(p_batch->'drop_offs', '[]'::jsonb)) AS e(
+    id uuid, session_id uuid, occurred_at timestamptz, position numeric, reason text, context jsonb
+  )
+  WHERE e.session_id = ANY (p_session_ids)
+  ON CONFLICT (id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- p_batch: { sessions: [...], buffer_events: [...], errors: [...], drop_offs: [...] }
+-- Session snapshots only ever move forward (positions and watch time keep
+-- their maximum). Sessions of unknown titles are dropped.
+CREATE OR REPLACE FUNCTION ingest_playback_analytics(p_batch jsonb)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_session_ids uuid[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  INSERT INTO playback_sessions AS existing (
+    id, user_id, media_id, media_type, started_at, ended_at, watch_time,
+    media_duration, last_position, max_position, quality_levels, device_info, network_info,
+    beacon_token_hash
+  )
+  SELECT
+    s.id,
+    v_user_id,
+    s.media_id,
+    s.media_type,
+    s.started_at,
+    s.ended_at,
+    COALESCE(s.watch_time, 0),
+    s.media_duration,
+    COALESCE(s.last_position, 0),
+    COALESCE(s.max_position, 0),
+    COALESCE(s.quality_levels, '[]'::jsonb),
+    COALESCE(s.device_info, '{}'::jsonb),
+    COALESCE(s.network_info, '{}'::jsonb),
+    sha256(convert_to(s.beacon_token, 'UTF8'))
+  FROM jsonb_to_recordset(COALESCE(p_batch->'sessions', '[]'::jsonb)) AS s(
+    id uuid,
+    media_id text,
+    media_type text,
+    started_at timestamptz,
+    ended_at timestamptz,
+    watch_time numeric,
+    media_duration numeric,
+    last_position numeric,
+    max_position numeric,
+    quality_levels jsonb,
+    device_info jsonb,
+    network_info jsonb,
+    beacon_token text
+  )
+  WHERE s.id IS NOT NULL AND s.started_at IS NOT NULL
+    AND (
+      (s.media_type = 'movie' AND EXISTS (SELECT 1 FROM movies m WHERE m.id::text = s.media_id))
+      OR (s.media_type = 'music' AND EXISTS (SELECT 1 FROM music mu WHERE mu.id::text = s.media_id))
+    )
+  ON CONFLICT (id) DO UPDATE SET
+    ended_at = COALESCE(EXCLUDED.ended_at, existing.ended_at),
+    watch_time = GREATEST(existing.watch_time, EXCLUDED.watch_time),
+    media_duration = COALESCE(EXCLUDED.media_duration, existing.media_duration),
+    last_position = EXCLUDED.last_position,
+    max_position = GREATEST(existing.max_position, EXCLUDED.max_position),
+    quality_levels = EXCLUDED.quality_levels,
+    network_info = EXCLUDED.network_info,
+    beacon_token_hash = COALESCE(existing.beacon_token_hash, EXCLUDED.beacon_token_hash)
+  WHERE existing.user_id = v_user_id;
+
+  SELECT COALESCE(array_agg(ps.id), '{}')
+  INTO v_session_ids
+  FROM playback_sessions ps
+  WHERE ps.user_id = v_user_id
+    AND ps.id IN (
+      SELECT (e->>'session_id')::uuid
+      FROM jsonb_array_elements(
+        COALESCE(p_batch->'buffer_events', '[]'::jsonb)
+        || COALESCE(p_batch->'errors', '[]'::jsonb)
+        || COALESCE(p_batch->'drop_offs', '[]'::jsonb)
+      ) AS e
+    );
+
+  PERFORM insert_playback_events(p_batch, v_session_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- sendBeacon posts text/plain; PostgREST passes such a body to a function
+-- with a single unnamed text parameter. The batch names the sessions it
+-- appends to with their tokens: { tokens: { "<session id>": "<token>" }, ... }.
+-- Sessions and events of any other session are dropped.
+CREATE OR REPLACE FUNCTION ingest_playback_analytics_beacon(text)
+RETURNS void AS $$
+DECLARE
+  v_batch jsonb := $1::jsonb;
+  v_session_ids uuid[];
+BEGIN
+  SELECT COALESCE(array_agg(ps.id), '{}')
+  INTO v_session_ids
+  FROM jsonb_each_text(COALESCE(v_batch->'tokens', '{}'::jsonb)) AS t(session_id, token)
+  JOIN playback_sessions ps ON ps.id::text = t.session_id
+  WHERE ps.beacon_token_hash = sha256(convert_to(t.token, 'UTF8'));
+
+  UPDATE playback_sessions existing SET
+    ended_at = COALESCE(s.ended_at, existing.ended_at),
+    watch_time = GREATEST(existing.watch_time, COALESCE(s.watch_time, 0)),
+    media_duration = COALESCE(s.media_duration, existing.media_duration),
+    last_position = COALESCE(s.last_position, existing.last_position),
+    max_position = GREATEST(existing.max_position, COALESCE(s.max_position, 0)),
+    quality_levels = COALESCE(s.quality_levels, existing.quality_levels),
+    network_info = COALESCE(s.network_info, existing.network_info)
+  FROM jsonb_to_recordset(COALESCE(v_batch->'sessions', '[]'::jsonb)) AS s(
+    id uuid,
+    ended_at timestamptz,
+    watch_time numeric,
+    media_duration numeric,
+    last_position numeric,
+    max_position numeric,
+    quality_levels jsonb,
+    network_info jsonb
+  )
+  WHERE existing.id = s.id
+    AND s.id = ANY (v_session_ids);
+
+  PERFORM insert_playback_events(v_batch, v_session_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION insert_playback_events(jsonb, uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ingest_playback_analytics(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION ingest_playback_analytics(jsonb) TO authenticated;
+-- Beacons authenticate with the anon key only; the session tokens stand in
+REVOKE EXECUTE ON FUNCTION ingest_playback_analytics_beacon(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION ingest_playback_analytics_beacon(text) TO anon, authenticated;
+
+COMMENT ON TABLE playback_sessions IS 'Watch sessions reported by the player';
+COMMENT ON TABLE playback_buffer_events IS 'Rebuffering events of playback sessions';
+COMMENT ON TABLE playback_errors IS 'Playback errors of playback sessions';
+COMMENT ON TABLE playback_drop_offs IS 'Positions where viewers stopped watching';
+COMMENT ON FUNCTION ingest_playback_analytics IS 'Idempotent batch ingestion of playback analytics';
+COMMENT ON FUNCTION ingest_playback_analytics_beacon IS 'Appends a page-unload batch to sessions whose beacon token it presents';
@@ -0,0 +1,228 @@
+/*
+  # Playback Analytics Summary
+
+  Aggregated QoE metrics over the stored playback sessions, per media (or
+  across all media) and time range, for the StreamingAdmin analytics tab.
+
+  Definitions:
+  - A view is a session that played at least some media (watch_time > 0)
+  - Completion rate: views that reached 90% of the media duration, out of
+    views with a known duration. The threshold lives in
+    playback_completion_threshold(), mirrored by COMPLETION_THRESHOLD in
+    src/lib/streamingService.ts
+  - Error rate: sessions with a non-recoverable error, out of all sessions
+    (failed starts never become views but still count here)
+  - Rebuffer ratio: stalled time / (stalled time + watched time)
+  - A session's quality is the one it spent the most time in, falling back
+    to the one it switched to most often
+*/
+
+-- =============================================
+-- 1. PER SESSION METRICS
+-- =============================================
+
+-- Share of the media a view has to reach to count as completed. The player
+-- uses the same value (COMPLETION_THRESHOLD) to tell drop-offs apart.
+CREATE OR REPLACE FUNCTION playback_completion_threshold()
+RETURNS numeric AS $$
+  SELECT 0.9;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE VIEW playback_session_metrics
+WITH (security_invoker = true) AS
+SELECT
+  s.id,
+  s.user_id,
+  s.media_id,
+  s.media_type,
+  s.started_at,
+  s.ended_at,
+  s.watch_time,
+  s.media_duration,
+  s.max_position,
+  (s.media_duration > 0 AND s.max_position >= s.media_duration * playback_completion_threshold()) AS completed,
+  COALESCE(b.buffer_ms, 0) AS buffer_ms,
+  COALESCE(b.buffer_count, 0) AS buffer_count,
+  COALESCE(e.error_count, 0) AS error_count,
+  COALESCE(e.fatal_error_count, 0) AS fatal_error_count,
+  CASE WHEN (s.device_info->>'isMobile')::boolean THEN 'Mobile' ELSE 'Desktop' END AS device_class,
+  q.quality AS primary_quality
+FROM playback_sessions s
+LEFT JOIN LATERAL (
+  SELECT sum(duration_ms) AS buffer_ms, count(*) AS buffer_count
+  FROM playback_buffer_events
+  WHERE session_id = s.id
+) b ON true
+LEFT JOIN LATERAL (
+  SELECT count(*) AS error_count, count(*) FILTER (WHERE NOT recoverable) AS fatal_error_count
+  FROM playback_errors
+  WHERE session_id = s.id
+) e ON true
+LEFT JOIN LATERAL (
+  SELECT level->>'quality' AS quality
+  FROM jsonb_array_elements(s.quality_levels) AS level
+  ORDER BY
+    COALESCE((level->>'timeSpent')::numeric, 0) DESC,
+    COALESCE((level->>'switchCount')::integer, 0) DESC
+  LIMIT 1
+) q ON true;
+
+GRANT SELECT ON playback_session_metrics TO authenticated;
+
+-- =============================================
+-- 2. SUMMARY
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_playback_analytics_summary(
+  p_media_id text DEFAULT NULL,
+  p_start timestamptz DEFAULT now() - interval '7 days',
+  p_end timestamptz DEFAULT now()
+)
+RETURNS TABLE (
+  total_views bigint,
+  unique_viewers bigint,
+  total_watch_time numeric,
+  average_watch_time numeric,
+  completion_rate numeric,
+  most_common_quality text,
+  error_rate numeric,
+  rebuffer_ratio numeric
+) AS $$
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  RETURN QUERY
+  WITH sessions AS (
+    SELECT *
+    FROM playback_session_metrics m
+    WHERE m.started_at >= p_start
+      AND m.started_at < p_end
+      AND (p_media_id IS NULL OR m.media_id = p_media_id)
+  ),
+  views AS (
+    SELECT * FROM sessions WHERE watch_time > 0
+  )
+  SELECT
+    (SELECT count(*) FROM views),
+    (SELECT count(DISTINCT user_id) FROM views),
+    (SELECT COALESCE(sum(watch_time), 0) FROM views),
+    (SELECT COALESCE(round(avg(watch_time), 1), 0) FROM views),
+    (SELECT COALESCE(round(100.0 * count(*) FILTER (WHERE completed) / NULLIF(count(*) FILTER (WHERE media_duration > 0), 0), 1), 0) FROM views),
+    (SELECT primary_quality FROM views WHERE primary_quality IS NOT NULL GROUP BY primary_quality ORDER BY count(*) DESC LIMIT 1),
+    (SELECT COALESCE(round(100.0 * count(*) FILTER (WHERE fatal_error_count > 0) / NULLIF(count(*), 0), 2), 0) FROM sessions),
+    (SELECT COALESCE(round(100.0 * (sum(buffer_ms) / 1000.0) / NULLIF(sum(watch_time) + sum(buffer_ms) / 1000.0, 0), 2), 0) FROM views);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- 3. BREAKDOWN
+-- =============================================
+
+-- Distributions for the dashboard charts. Views over time are bucketed by
+-- hour for ranges up to two days and by day beyond that.
+CREATE OR REPLACE FUNCTION get_playback_analytics_breakdown(
+  p_media_id text DEFAULT NULL,
+  p_start timestamptz DEFAULT now() - interval '7 days',
+  p_end timestamptz DEFAULT now()
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_bucket text := CASE WHEN p_end - p_start <= interval '2 days' THEN 'hour' ELSE 'day' END;
+  v_result jsonb;
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  WITH sessions AS (
+    SELECT *
+    FROM playback_session_metrics m
+    WHERE m.started_at >= p_start
+      AND m.started_at < p_end
+      AND (p_media_id IS NULL OR m.media_id = p_media_id)
+  ),
+  views AS (
+    SELECT * FROM sessions WHERE watch_time > 0
+  )
+  SELECT jsonb_build_object(
+    'quality_distribution', (
+      SELECT COALESCE(jsonb_object_agg(quality, views), '{}'::jsonb)
+      FROM (
+        SELECT primary_quality AS quality, count(*) AS views
+        FROM views
+        WHERE primary_quality IS NOT NULL
+        GROUP BY primary_quality
+      ) qualities
+    ),
+    'device_breakdown', (
+      SELECT COALESCE(jsonb_object_agg(device_class, views), '{}'::jsonb)
+      FROM (
+        SELECT device_class, count(*) AS views
+        FROM views
+        GROUP BY device_class
+      ) devices
+    ),
+    'bucket', v_bucket,
+    'views_over_time', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('bucket', bucket, 'views', views) ORDER BY bucket), '[]'::jsonb)
+      FROM (
+        SELECT date_trunc(v_bucket, started_at) AS bucket, count(*) AS views
+        FROM views
+        GROUP BY 1
+      ) buckets
+    ),
+    'top_content', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'media_id', media_id,
+        'media_type', media_type,
+        'title', title,
+        'views', views,
+        'watch_time', watch_time
+      ) ORDER BY views DESC, watch_time DESC), '[]'::jsonb)
+      FROM (
+        SELECT
+          v.media_id,
+          max(v.media_type) AS media_type,
+          COALESCE(max(mv.title), max(mu.title), v.media_id) AS title,
+          count(*) AS views,
+          sum(v.watch_time) AS watch_time
+        FROM views v
+        LEFT JOIN movies mv ON mv.id::text = v.media_id
+        LEFT JOIN music mu ON mu.id::text = v.media_id
+        GROUP BY v.media_id
+        ORDER BY count(*) DESC, sum(v.watch_time) DESC
+        LIMIT 5
+      ) top
+    ),
+    'recent_errors', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'error', error,
+        'count', occurrences,
+        'last_seen', last_seen
+      ) ORDER BY last_seen DESC), '[]'::jsonb)
+      FROM (
+        SELECT
+          COALESCE(NULLIF(pe.message, ''), pe.error_code, pe.error_type) AS error,
+          count(*) AS occurrences,
+          max(pe.occurred_at) AS last_seen
+        FROM playback_errors pe
+        JOIN sessions s ON s.id = pe.session_id
+        GROUP BY 1
+        ORDER BY max(pe.occurred_at) DESC
+        LIMIT 5
+      ) errors
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_playback_analytics_summary(text, timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_playback_analytics_breakdown(text, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON VIEW playback_session_metrics IS 'Playback sessions with their buffering, error and quality aggregates';
+COMMENT ON FUNCTION get_playback_analytics_summary IS 'QoE summary per media and time range (admins only)';
+COMMENT ON FUNCTION get_playback_analytics_breakdown IS 'QoE distributions per media and time range (admins only)';
@@ -0,0 +1,183 @@
+/*
+  # Playback Retention
+
+  Audience retention and drop-off analysis per title (movie or music
+  track). Buffer events and errors now record the media position they
+  happened at, so they can be placed on the title's timeline next to the
+  drop-offs.
+
+  get_playback_retention returns, for one title and time range:
+  - retention: percent of views still watching at each second, from the
+    furthest position every view reached
+  - drop_offs, buffering, errors: counts per timeline bucket (about 100
+    buckets per title) for the heatmap
+*/
+
+-- =============================================
+-- 1. EVENT POSITIONS
+-- =============================================
+
+ALTER TABLE playback_buffer_events ADD COLUMN IF NOT EXISTS position numeric(12, 3);
+ALTER TABLE playback_errors ADD COLUMN IF NOT EXISTS position numeric(12, 3);
+
+CREATE INDEX IF NOT EXISTS idx_playback_drop_offs_position ON playback_drop_offs(session_id, position);
+
+-- =============================================
+-- 2. INGESTION
+-- =============================================
+
+-- Same as before, buffer events and errors now carry their position.
+-- Both ingestion functions store their events through this one.
+CREATE OR REPLACE FUNCTION insert_playback_events(p_batch jsonb, p_session_ids uuid[])
+RETURNS void AS $$
+BEGIN
+  INSERT INTO playback_buffer_events (id, session_id, occurred_at, position, duration_ms, reason, quality)
+  SELECT e.id, e.session_id, e.occurred_at, e.position, COALESCE(e.duration_ms, 0), COALESCE(e.reason, 'unknown'), e.quality
+  FROM jsonb_to_recordset(COALESCE(p_batch->'buffer_events', '[]'::jsonb)) AS e(
+    id uuid, session_id uuid, occurred_at timestamptz, position numeric, duration_ms integer, reason text, quality text
+  )
+  WHERE e.session_id = ANY (p_session_ids)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO playback_errors (id, session_id, occurred_at, position, error_type, error_code, message, recoverable)
+  SELECT e.id, e.session_id, e.occurred_at, e.position, COALESCE(e.error_type, 'unknown'), e.error_code, left(e.message, 1000), COALESCE(e.recoverable, false)
+  FROM jsonb_to_recordset(COALESCE(p_batch->'errors', '[]'::jsonb)) AS e(
+    id uuid, session_id uuid, occurred_at timestamptz, position numeric, error_type text, error_code text, message text, recoverable boolean
+  )
+  WHERE e.session_id = ANY (p_session_ids)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO playback_drop_offs (id, session_id, occurred_at, position, reason, context)
+  SELECT e.id, e.session_id, e.occurred_at, COALESCE(e.position, 0), COALESCE(e.reason, 'user_action'), e.context
+  FROM jsonb_to_recordset(COALESCE(p_batch->'drop_offs', '[]'::jsonb)) AS e(
+    id uuid, session_id uuid, occurred_at timestamptz, position numeric, reason text, context jsonb
+  )
+  WHERE e.session_id = ANY (p_session_ids)
+  ON CONFLICT (id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- 3. RETENTION
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_playback_retention(
+  p_media_id text,
+  p_start timestamptz DEFAULT now() - interval '7 days',
+  p_end timestamptz DEFAULT now()
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_views bigint;
+  v_reported_duration numeric;
+  v_furthest numeric;
+  v_duration integer;
+  v_bucket_seconds integer;
+  v_bucket_count integer;
+  v_result jsonb;
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  SELECT count(*), max(media_duration), max(max_position)
+  INTO v_views, v_reported_duration, v_furthest
+  FROM playback_sessions
+  WHERE media_id = p_media_id
+    AND started_at >= p_start
+    AND started_at < p_end
+    AND watch_time > 0;
+
+  -- Prefer the duration players reported, fall back to the catalog
+  v_duration := ceil(COALESCE(
+    v_reported_duration,
+    (SELECT NULLIF(duration, 0) FROM movies WHERE id::text = p_media_id),
+    (SELECT NULLIF(duration, 0) FROM music WHERE id::text = p_media_id),
+    v_furthest,
+    0
+  ))::integer;
+
+  IF v_views = 0 OR v_duration <= 0 THEN
+    RETURN jsonb_build_object(
+      'duration', GREATEST(v_duration, 0),
+      'views', v_views,
+      'bucket_seconds', 1,
+      'retention', '[]'::jsonb,
+      'drop_offs', '[]'::jsonb,
+      'buffering', '[]'::jsonb,
+      'errors', '[]'::jsonb
+    );
+  END IF;
+
+  v_bucket_seconds := GREATEST(1, ceil(v_duration / 100.0)::integer);
+  v_bucket_count := ceil(v_duration::numeric / v_bucket_seconds)::integer;
+
+  WITH views AS (
+    SELECT id, max_position
+    FROM playback_sessions
+    WHERE media_id = p_media_id
+      AND started_at >= p_start
+      AND started_at < p_end
+      AND watch_time > 0
+  )
+  SELECT jsonb_build_object(
+    'duration', v_duration,
+    'views', v_views,
+    'bucket_seconds', v_bucket_seconds,
+    -- Views that reached second s are the ones whose furthest position is
+    -- at or beyond it: a cumulative count from the end of the title
+    'retention', (
+      SELECT jsonb_agg(round(100.0 * still_watching / v_views, 2) ORDER BY second)
+      FROM (
+        SELECT
+          seconds.second,
+          sum(COALESCE(reach.views, 0)) OVER (ORDER BY seconds.second DESC) AS still_watching
+        FROM generate_series(0, v_duration) AS seconds(second)
+        LEFT JOIN (
+          SELECT LEAST(floor(max_position)::integer, v_duration) AS second, count(*) AS views
+          FROM views
+          GROUP BY 1
+        ) reach ON reach.second = seconds.second
+      ) curve
+    ),
+    'drop_offs', (
+      SELECT jsonb_agg(COALESCE(d.count, 0) ORDER BY buckets.bucket)
+      FROM generate_series(0, v_bucket_count - 1) AS buckets(bucket)
+      LEFT JOIN (
+        SELECT LEAST(floor(position / v_bucket_seconds)::integer, v_bucket_count - 1) AS bucket, count(*) AS count
+        FROM playback_drop_offs
+        WHERE session_id IN (SELECT id FROM views)
+        GROUP BY 1
+      ) d ON d.bucket = buckets.bucket
+    ),
+    'buffering', (
+      SELECT jsonb_agg(jsonb_build_object('count', COALESCE(b.count, 0), 'ms', COALESCE(b.ms, 0)) ORDER BY buckets.bucket)
+      FROM generate_series(0, v_bucket_count - 1) AS buckets(bucket)
+      LEFT JOIN (
+        SELECT LEAST(floor(position / v_bucket_seconds)::integer, v_bucket_count - 1) AS bucket, count(*) AS count, sum(duration_ms) AS ms
+        FROM playback_buffer_events
+        WHERE session_id IN (SELECT id FROM views)
+          AND position IS NOT NULL
+        GROUP BY 1
+      ) b ON b.bucket = buckets.bucket
+    ),
+    'errors', (
+      SELECT jsonb_agg(COALESCE(e.count, 0) ORDER BY buckets.bucket)
+      FROM generate_series(0, v_bucket_count - 1) AS buckets(bucket)
+      LEFT JOIN (
+        SELECT LEAST(floor(position / v_bucket_seconds)::integer, v_bucket_count - 1) AS bucket, count(*) AS count
+        FROM playback_errors
+        WHERE session_id IN (SELECT id FROM views)
+          AND position IS NOT NULL
+        GROUP BY 1
+      ) e ON e.bucket = buckets.bucket
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_playback_retention(text, timestamptz, timestamptz) TO authenticated;
+
+COMMENT ON FUNCTION get_playback_retention IS 'Retention curve and drop-off/buffering/error heatmap of one title (admins only)';
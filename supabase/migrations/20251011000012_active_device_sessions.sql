@@ -0,0 +1,115 @@
+/*
+  # Active Device Sessions
+
+  Count of devices that were active recently, for the live viewers monitor
+  in StreamingAdmin. device_sessions is only readable by its owner, so
+  admins get the count through a SECURITY DEFINER function instead of a
+  broader SELECT policy.
+
+  Live viewers themselves are not stored. Players send their open playback
+  sessions to publish_live_viewers with every heartbeat, and playback errors
+  to report_live_playback_error; both stamp the signed-in user and broadcast
+  on the private "live-viewers" Realtime channel. Only admins may join that
+  channel, and nobody may send on it directly, so viewers can't read each
+  other's sessions or announce entries for another user.
+*/
+
+-- =============================================
+-- 1. ACTIVE DEVICES
+-- =============================================
+
+CREATE OR REPLACE FUNCTION get_active_device_session_count(p_window_minutes integer DEFAULT 15)
+RETURNS bigint AS $$
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  RETURN (
+    SELECT count(*)
+    FROM device_sessions
+    WHERE last_active >= now() - make_interval(mins => GREATEST(p_window_minutes, 1))
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_active_device_session_count(integer) TO authenticated;
+
+-- =============================================
+-- 2. LIVE VIEWERS CHANNEL
+-- =============================================
+
+-- Receiving broadcasts on the private channel; without an INSERT policy
+-- clients can't send on it, only the functions below can
+CREATE POLICY "Admins can receive live viewers"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.topic() = 'live-viewers'
+    AND realtime.messages.extension = 'broadcast'
+    AND public.is_admin_by_id(auth.uid())
+  );
+
+-- Replaces the caller's sessions in one tab; an empty list takes the tab
+-- off the monitor
+CREATE OR REPLACE FUNCTION publish_live_viewers(p_tab_id uuid, p_viewers jsonb)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_viewers jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF jsonb_typeof(p_viewers) <> 'array' OR jsonb_array_length(p_viewers) > 20 THEN
+    RAISE EXCEPTION 'Expected a list of at most 20 playback sessions';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(viewer || jsonb_build_object('userId', v_user_id, 'updatedAt', now())), '[]')
+  INTO v_viewers
+  FROM jsonb_array_elements(p_viewers) AS viewer
+  WHERE jsonb_typeof(viewer) = 'object';
+
+  PERFORM realtime.send(
+    jsonb_build_object('tabId', p_tab_id, 'userId', v_user_id, 'viewers', v_viewers),
+    'live_viewers',
+    'live-viewers',
+    true
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION report_live_playback_error(p_error jsonb)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF jsonb_typeof(p_error) <> 'object' THEN
+    RAISE EXCEPTION 'Expected a playback error';
+  END IF;
+
+  PERFORM realtime.send(
+    p_error || jsonb_build_object(
+      'userId', v_user_id,
+      'message', left(COALESCE(p_error->>'message', ''), 500)
+    ),
+    'playback_error',
+    'live-viewers',
+    true
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_live_viewers(uuid, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION report_live_playback_error(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION publish_live_viewers(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION report_live_playback_error(jsonb) TO authenticated;
+
+COMMENT ON FUNCTION get_active_device_session_count IS 'Devices active within the last p_window_minutes (admins only)';
+COMMENT ON FUNCTION publish_live_viewers IS 'Broadcasts the caller''s playback sessions of one tab to the admins'' live viewers channel';
+COMMENT ON FUNCTION report_live_playback_error IS 'Broadcasts a playback error of the caller to the admins'' live viewers channel';
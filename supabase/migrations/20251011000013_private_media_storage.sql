@@ -0,0 +1,302 @@
+/*
+  # Private Media Storage
+
+  The media bucket stops being public. Movies, music, HLS/DASH packages and
+  subtitles are only reachable through short-lived signed URLs, which the
+  player requests per playback session:
+
+  1. create_playback_grant checks that the viewer is signed in, owns the
+     profile they watch with and that the profile may see the title (the
+     server side twin of isContentAllowed). Without a profile, the title
+     has to be allowed for every profile of the account. It returns a grant that lists
+     the storage paths of that one title and expires after 15 minutes.
+  2. While the grant is valid, the storage read policy lets the viewer
+     sign those paths (createSignedUrls). The player renews the grant, and
+     with it the checks, for as long as it keeps playing.
+
+  Content columns now hold object paths inside the media bucket instead of
+  public URLs; absolute URLs (e.g. external sample videos) are played as
+  they are.
+
+  Artwork (album covers, thumbnails) has to stay embeddable in <img> tags
+  and moves to the new public "artwork" bucket. Covers uploaded into
+  media/album-art before this migration keep their path there: their URLs
+  are pointed at the artwork bucket below, and `npm run artwork:copy`
+  (worker/copyAlbumArt.ts) copies the objects over. Storage objects can't be
+  copied from SQL, so run it once after this migration.
+*/
+
+-- =============================================
+-- 1. BUCKETS
+-- =============================================
+
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'media';
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'artwork',
+  'artwork',
+  true,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- =============================================
+-- 2. OBJECT PATHS
+-- =============================================
+
+-- Object path inside the media bucket for a stored media reference: bare
+-- paths as they are, storage URLs (public, signed or authenticated) reduced
+-- to their path, NULL for any other absolute URL
+CREATE OR REPLACE FUNCTION media_object_path(p_url text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_url IS NULL OR p_url = '' THEN NULL
+    WHEN p_url ~ '/storage/v1/object/(public|sign|authenticated)/media/' THEN
+      split_part(regexp_replace(p_url, '^.*/storage/v1/object/(public|sign|authenticated)/media/', ''), '?', 1)
+    WHEN p_url ~ '^[a-zA-Z][a-zA-Z0-9+.-]*:' THEN NULL
+    ELSE p_url
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE movies SET video_url = media_object_path(video_url)
+WHERE video_url LIKE '%/storage/v1/object/public/media/%';
+
+UPDATE movies SET hls_url = media_object_path(hls_url)
+WHERE hls_url LIKE '%/storage/v1/object/public/media/%';
+
+UPDATE movies SET dash_url = media_object_path(dash_url)
+WHERE dash_url LIKE '%/storage/v1/object/public/media/%';
+
+UPDATE music SET audio_url = media_object_path(audio_url)
+WHERE audio_url LIKE '%/storage/v1/object/public/media/%';
+
+UPDATE movie_subtitles SET url = storage_path
+WHERE url LIKE '%/storage/v1/object/public/media/%';
+
+-- Queued jobs would otherwise try to fetch their input over the public URL
+UPDATE transcoding_jobs SET input_url = media_object_path(input_url)
+WHERE input_url LIKE '%/storage/v1/object/public/media/%';
+
+-- Covers are copied to the same path in the artwork bucket, see above
+UPDATE music
+SET album_art_url = replace(album_art_url, '/storage/v1/object/public/media/album-art/', '/storage/v1/object/public/artwork/album-art/')
+WHERE album_art_url LIKE '%/storage/v1/object/public/media/album-art/%';
+
+-- =============================================
+-- 3. PLAYBACK GRANTS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS playback_grants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  profile_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE,
+  media_id uuid NOT NULL,
+  media_type text NOT NULL CHECK (media_type IN ('movie', 'music')),
+  object_patterns text[] NOT NULL, -- LIKE patterns of the readable object names
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_playback_grants_user ON playback_grants(user_id, expires_at DESC);
+
+ALTER TABLE playback_grants ENABLE ROW LEVEL SECURITY;
+
+-- Grants are only created through create_playback_grant
+CREATE POLICY "Users can view own playback grants"
+  ON playback_grants FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own playback grants"
+  ON playback_grants FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+GRANT SELECT, DELETE ON playback_grants TO authenticated;
+
+-- =============================================
+-- 4. STORAGE POLICIES
+-- =============================================
+
+DROP POLICY IF EXISTS "Public read access for media files" ON storage.objects;
+
+CREATE POLICY "Admins and uploaders can read media files" ON storage.objects
+FOR SELECT TO authenticated USING (
+  bucket_id = 'media'
+  AND (
+    owner = auth.uid() OR is_admin_by_id(auth.uid())
+  )
+);
+
+CREATE POLICY "Viewers can read media of their playback grants" ON storage.objects
+FOR SELECT TO authenticated USING (
+  bucket_id = 'media'
+  AND EXISTS (
+    SELECT 1
+    FROM playback_grants g
+    WHERE g.user_id = auth.uid()
+      AND g.expires_at > now()
+      AND objects.name LIKE ANY (g.object_patterns)
+  )
+);
+
+CREATE POLICY "Public read access for artwork" ON storage.objects
+FOR SELECT USING (bucket_id = 'artwork');
+
+CREATE POLICY "Authenticated users can upload artwork" ON storage.objects
+FOR INSERT WITH CHECK (
+  bucket_id = 'artwork'
+  AND auth.role() = 'authenticated'
+);
+
+CREATE POLICY "Users can update their own artwork" ON storage.objects
+FOR UPDATE USING (
+  bucket_id = 'artwork'
+  AND (
+    owner = auth.uid() OR is_admin_by_id(auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their own artwork" ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'artwork'
+  AND (
+    owner = auth.uid() OR is_admin_by_id(auth.uid())
+  )
+);
+
+-- =============================================
+-- 5. FUNCTIONS
+-- =============================================
+
+-- Same rules as personalizationService.isContentAllowed, minus the time
+-- restrictions which depend on the viewer's local clock
+CREATE OR REPLACE FUNCTION is_content_allowed(
+  p_profile_id uuid,
+  p_content_id uuid,
+  p_content_type text,
+  p_genre text
+)
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM user_profiles p
+    LEFT JOIN parental_controls pc ON pc.profile_id = p.id
+    WHERE p.id = p_profile_id
+      AND p.is_kids_profile
+      AND (
+        EXISTS (
+          SELECT 1
+          FROM content_ratings cr
+          WHERE cr.content_id = p_content_id
+            AND cr.content_type = p_content_type
+            AND cr.age_rating > LEAST(p.age_rating_limit, pc.max_age_rating)
+        )
+        OR (p_genre IS NOT NULL AND p_genre = ANY (COALESCE(pc.blocked_genres, '{}')))
+        OR p_content_id = ANY (COALESCE(pc.blocked_content, '{}'))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Issues or renews (p_grant_id) the grant of one playback session.
+-- Manifests grant their whole directory, the segments and variant
+-- playlists next to them; everything else is granted by exact path.
+CREATE OR REPLACE FUNCTION create_playback_grant(
+  p_media_id uuid,
+  p_media_type text,
+  p_profile_id uuid DEFAULT NULL,
+  p_grant_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_paths text[];
+  v_genre text;
+  v_patterns text[];
+  v_grant_id uuid;
+  v_expires_at timestamptz := now() + interval '15 minutes';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_media_type = 'movie' THEN
+    SELECT
+      ARRAY[media_object_path(m.video_url), media_object_path(m.hls_url), media_object_path(m.dash_url)]
+        || COALESCE((SELECT array_agg(s.storage_path) FROM movie_subtitles s WHERE s.movie_id = m.id), '{}'),
+      m.category
+    INTO v_paths, v_genre
+    FROM movies m
+    WHERE m.id = p_media_id;
+  ELSIF p_media_type = 'music' THEN
+    SELECT ARRAY[media_object_path(mu.audio_url)], mu.genre
+    INTO v_paths, v_genre
+    FROM music mu
+    WHERE mu.id = p_media_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown media type: %', p_media_type;
+  END IF;
+
+  IF v_paths IS NULL THEN
+    RAISE EXCEPTION 'Media not found';
+  END IF;
+
+  IF p_profile_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = p_profile_id AND user_id = v_user_id) THEN
+      RAISE EXCEPTION 'Access denied: Profile does not belong to the current user';
+    END IF;
+
+    IF NOT is_content_allowed(p_profile_id, p_media_id, p_media_type, v_genre) THEN
+      RAISE EXCEPTION 'Access denied: Content is not available for this profile';
+    END IF;
+  -- No profile picked: the strictest profile of the account decides, so
+  -- leaving the profile out can't get around a kids profile's limits
+  ELSIF EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_id = v_user_id
+      AND NOT is_content_allowed(id, p_media_id, p_media_type, v_genre)
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Content is not available for every profile of this account';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT
+    CASE
+      WHEN path ~ '\.(m3u8|mpd)$' THEN replace(replace(replace(regexp_replace(path, '[^/]*$', ''), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      ELSE replace(replace(replace(path, '\', '\\'), '%', '\%'), '_', '\_')
+    END
+  ), '{}')
+  INTO v_patterns
+  FROM unnest(v_paths) AS path
+  WHERE path IS NOT NULL;
+
+  DELETE FROM playback_grants
+  WHERE user_id = v_user_id
+    AND expires_at < now() - interval '1 hour';
+
+  UPDATE playback_grants
+  SET expires_at = v_expires_at,
+      object_patterns = v_patterns
+  WHERE id = p_grant_id
+    AND user_id = v_user_id
+    AND media_id = p_media_id
+  RETURNING id INTO v_grant_id;
+
+  IF v_grant_id IS NULL THEN
+    INSERT INTO playback_grants (user_id, profile_id, media_id, media_type, object_patterns, expires_at)
+    VALUES (v_user_id, p_profile_id, p_media_id, p_media_type, v_patterns, v_expires_at)
+    RETURNING id INTO v_grant_id;
+  END IF;
+
+  RETURN jsonb_build_object('grant_id', v_grant_id, 'expires_at', v_expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_playback_grant(uuid, text, uuid, uuid) TO authenticated;
+
+COMMENT ON TABLE playback_grants IS 'Short-lived permissions to sign the media files of one title';
+COMMENT ON FUNCTION create_playback_grant IS 'Checks auth and profile restrictions, then issues or renews a playback grant';
+COMMENT ON FUNCTION media_object_path IS 'Object path in the media bucket of a stored media reference';
@@ -0,0 +1,120 @@
+/*
+  # Trick-play Thumbnails
+
+  Transcoding jobs can render sprite sheets of frames sampled every few
+  seconds, plus a WebVTT thumbnails track whose cues point at the tiles
+  (sprite-001.jpg#xywh=x,y,w,h). The player shows them as seek previews and
+  movie cards use them for hover scrubbing.
+
+  The sprites show frames from the whole film, so they are stored in the
+  private media bucket next to the HLS/DASH output and read like the rest
+  of the movie: thumbnails_vtt_url holds the track's object path, and
+  create_playback_grant now grants the track's directory with it.
+*/
+
+-- =============================================
+-- 1. MOVIE COLUMN
+-- =============================================
+
+ALTER TABLE movies
+  ADD COLUMN IF NOT EXISTS thumbnails_vtt_url text;
+
+-- =============================================
+-- 2. PLAYBACK GRANTS
+-- =============================================
+
+-- Same as before, plus the thumbnails track and the sprite sheets next to it
+CREATE OR REPLACE FUNCTION create_playback_grant(
+  p_media_id uuid,
+  p_media_type text,
+  p_profile_id uuid DEFAULT NULL,
+  p_grant_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_paths text[];
+  v_thumbnails text;
+  v_genre text;
+  v_patterns text[];
+  v_grant_id uuid;
+  v_expires_at timestamptz := now() + interval '15 minutes';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF p_media_type = 'movie' THEN
+    SELECT
+      ARRAY[media_object_path(m.video_url), media_object_path(m.hls_url), media_object_path(m.dash_url)]
+        || COALESCE((SELECT array_agg(s.storage_path) FROM movie_subtitles s WHERE s.movie_id = m.id), '{}'),
+      media_object_path(m.thumbnails_vtt_url),
+      m.category
+    INTO v_paths, v_thumbnails, v_genre
+    FROM movies m
+    WHERE m.id = p_media_id;
+  ELSIF p_media_type = 'music' THEN
+    SELECT ARRAY[media_object_path(mu.audio_url)], mu.genre
+    INTO v_paths, v_genre
+    FROM music mu
+    WHERE mu.id = p_media_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown media type: %', p_media_type;
+  END IF;
+
+  IF v_paths IS NULL THEN
+    RAISE EXCEPTION 'Media not found';
+  END IF;
+
+  IF p_profile_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = p_profile_id AND user_id = v_user_id) THEN
+      RAISE EXCEPTION 'Access denied: Profile does not belong to the current user';
+    END IF;
+
+    IF NOT is_content_allowed(p_profile_id, p_media_id, p_media_type, v_genre) THEN
+      RAISE EXCEPTION 'Access denied: Content is not available for this profile';
+    END IF;
+  -- No profile picked: the strictest profile of the account decides, so
+  -- leaving the profile out can't get around a kids profile's limits
+  ELSIF EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_id = v_user_id
+      AND NOT is_content_allowed(id, p_media_id, p_media_type, v_genre)
+  ) THEN
+    RAISE EXCEPTION 'Access denied: Content is not available for every profile of this account';
+  END IF;
+
+  -- Manifests and the thumbnails track grant their whole directory
+  SELECT COALESCE(array_agg(DISTINCT
+    CASE
+      WHEN path ~ '\.(m3u8|mpd)$' OR path = v_thumbnails THEN replace(replace(replace(regexp_replace(path, '[^/]*$', ''), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      ELSE replace(replace(replace(path, '\', '\\'), '%', '\%'), '_', '\_')
+    END
+  ), '{}')
+  INTO v_patterns
+  FROM unnest(v_paths || v_thumbnails) AS path
+  WHERE path IS NOT NULL;
+
+  DELETE FROM playback_grants
+  WHERE user_id = v_user_id
+    AND expires_at < now() - interval '1 hour';
+
+  UPDATE playback_grants
+  SET expires_at = v_expires_at,
+      object_patterns = v_patterns
+  WHERE id = p_grant_id
+    AND user_id = v_user_id
+    AND media_id = p_media_id
+  RETURNING id INTO v_grant_id;
+
+  IF v_grant_id IS NULL THEN
+    INSERT INTO playback_grants (user_id, profile_id, media_id, media_type, object_patterns, expires_at)
+    VALUES (v_user_id, p_profile_id, p_media_id, p_media_type, v_patterns, v_expires_at)
+    RETURNING id INTO v_grant_id;
+  END IF;
+
+  RETURN jsonb_build_object('grant_id', v_grant_id, 'expires_at', v_expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN movies.thumbnails_vtt_url IS 'Object path in the media bucket of the WebVTT thumbnails track for seek previews';
@@ -0,0 +1,95 @@
+/*
+  # Stored Thumbnail Variants
+
+  Movie thumbnails are stored once in the public artwork bucket instead of
+  being generated again in every browser:
+
+  1. Every poster is saved in three sizes (card, hero, OG image) plus a
+     BlurHash that cards paint while the image loads. thumbnail_url keeps
+     pointing at the hero size for existing readers.
+  2. Viewers can't update movies, so the first browser that generates a
+     thumbnail for a movie without one saves it through
+     save_generated_thumbnail. Later calls return the stored thumbnail.
+
+  Uploads used to store blob: URLs, which only ever worked in the
+  uploader's tab; those are cleared so the movies get a real thumbnail.
+*/
+
+-- =============================================
+-- 1. MOVIE COLUMNS
+-- =============================================
+
+ALTER TABLE movies
+  ADD COLUMN IF NOT EXISTS thumbnail_sizes jsonb,
+  ADD COLUMN IF NOT EXISTS thumbnail_blurhash text;
+
+UPDATE movies
+SET thumbnail_url = NULL
+WHERE thumbnail_url LIKE 'blob:%'
+   OR thumbnail_url LIKE 'data:%';
+
+-- =============================================
+-- 2. FUNCTIONS
+-- =============================================
+
+-- Only artwork uploaded by the thumbnail service is accepted
+CREATE OR REPLACE FUNCTION is_generated_thumbnail_url(p_url text)
+RETURNS boolean AS $$
+  SELECT p_url IS NOT NULL
+    AND p_url ~ '/storage/v1/object/public/artwork/thumbnails/[^?#]+$';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION save_generated_thumbnail(
+  p_movie_id uuid,
+  p_sizes jsonb,
+  p_blurhash text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF jsonb_typeof(p_sizes) IS DISTINCT FROM 'object'
+    OR NOT is_generated_thumbnail_url(p_sizes->>'card')
+    OR NOT is_generated_thumbnail_url(p_sizes->>'hero')
+    OR NOT is_generated_thumbnail_url(p_sizes->>'og') THEN
+    RAISE EXCEPTION 'Thumbnail sizes must be generated thumbnails in the artwork bucket';
+  END IF;
+
+  IF p_blurhash IS NOT NULL AND length(p_blurhash) > 100 THEN
+    RAISE EXCEPTION 'Invalid BlurHash';
+  END IF;
+
+  -- First thumbnail wins
+  UPDATE movies
+  SET thumbnail_url = p_sizes->>'hero',
+      thumbnail_sizes = jsonb_build_object('card', p_sizes->>'card', 'hero', p_sizes->>'hero', 'og', p_sizes->>'og'),
+      thumbnail_blurhash = p_blurhash
+  WHERE id = p_movie_id
+    AND (thumbnail_url IS NULL OR thumbnail_url = '');
+
+  SELECT jsonb_build_object(
+    'thumbnail_url', m.thumbnail_url,
+    'thumbnail_sizes', m.thumbnail_sizes,
+    'thumbnail_blurhash', m.thumbnail_blurhash
+  )
+  INTO v_result
+  FROM movies m
+  WHERE m.id = p_movie_id;
+
+  IF v_result IS NULL THEN
+    RAISE EXCEPTION 'Movie not found';
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_generated_thumbnail(uuid, jsonb, text) TO authenticated;
+
+COMMENT ON COLUMN movies.thumbnail_sizes IS 'Public URLs of the card, hero and og sizes of the thumbnail';
+COMMENT ON COLUMN movies.thumbnail_blurhash IS 'BlurHash placeholder of the thumbnail';
+COMMENT ON FUNCTION save_generated_thumbnail IS 'Stores a browser generated thumbnail for a movie that has none, returns the stored thumbnail';
@@ -0,0 +1,264 @@
+/*
+  # TV Series
+
+  Shows are published as series made of numbered seasons and episodes.
+
+  1. series and seasons hold the show's own metadata.
+  2. Every episode points at a movies row that carries its media, so
+     transcoding, subtitles, skip markers, thumbnails and playback sessions
+     work for episodes unchanged. The episode row only adds the numbering.
+  3. movies.is_episode is kept in sync by a trigger so the movie catalog can
+     leave episodes out.
+  4. get_next_episode returns the episode after a given one, moving on to the
+     next season after a season's last episode. The player uses it for
+     "Up Next" and Continue Watching for finished episodes.
+  5. reorder_episodes renumbers a season from the admin episode list.
+*/
+
+-- =============================================
+-- 1. CREATE TABLES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  poster_url text,
+  genre text,
+  release_year integer,
+  rating numeric(3, 1) CHECK (rating >= 0 AND rating <= 10),
+  uploaded_by text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  series_id uuid NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+  season_number integer NOT NULL CHECK (season_number > 0),
+  title text,
+  description text,
+  release_year integer,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (series_id, season_number)
+);
+
+CREATE TABLE IF NOT EXISTS episodes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id uuid NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  movie_id uuid NOT NULL UNIQUE REFERENCES movies(id) ON DELETE CASCADE,
+  episode_number integer NOT NULL CHECK (episode_number > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (season_id, episode_number) DEFERRABLE INITIALLY IMMEDIATE
+);
+
+ALTER TABLE movies
+  ADD COLUMN IF NOT EXISTS is_episode boolean NOT NULL DEFAULT false;
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_seasons_series_id ON seasons(series_id, season_number);
+CREATE INDEX IF NOT EXISTS idx_episodes_season_id ON episodes(season_id, episode_number);
+CREATE INDEX IF NOT EXISTS idx_movies_is_episode ON movies(is_episode);
+
+-- =============================================
+-- 3. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE episodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view series"
+  ON series FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert series"
+  ON series FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update series"
+  ON series FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete series"
+  ON series FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "All users can view seasons"
+  ON seasons FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert seasons"
+  ON seasons FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update seasons"
+  ON seasons FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete seasons"
+  ON seasons FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "All users can view episodes"
+  ON episodes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert episodes"
+  ON episodes FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update episodes"
+  ON episodes FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete episodes"
+  ON episodes FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+GRANT ALL ON series TO authenticated;
+GRANT ALL ON seasons TO authenticated;
+GRANT ALL ON episodes TO authenticated;
+
+-- =============================================
+-- 4. TRIGGERS
+-- =============================================
+
+CREATE TRIGGER update_series_updated_at
+  BEFORE UPDATE ON series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_seasons_updated_at
+  BEFORE UPDATE ON seasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_episodes_updated_at
+  BEFORE UPDATE ON episodes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Flags the movie behind an episode so the catalog can skip it
+CREATE OR REPLACE FUNCTION sync_movie_is_episode()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE movies SET is_episode = false WHERE id = OLD.movie_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE movies SET is_episode = true WHERE id = NEW.movie_id;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_episode_movie
+  AFTER INSERT OR UPDATE OF movie_id OR DELETE ON episodes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_movie_is_episode();
+
+-- =============================================
+-- 5. FUNCTIONS
+-- =============================================
+
+-- The episode after the one playing p_movie_id, or no row after the finale
+CREATE OR REPLACE FUNCTION get_next_episode(p_movie_id uuid)
+RETURNS TABLE (
+  episode_id uuid,
+  movie_id uuid,
+  series_id uuid,
+  series_title text,
+  season_number integer,
+  episode_number integer,
+  title text,
+  thumbnail_url text,
+  duration integer
+) AS $$
+  WITH current_episode AS (
+    SELECT s.series_id, s.season_number, e.episode_number
+    FROM episodes e
+    JOIN seasons s ON s.id = e.season_id
+    WHERE e.movie_id = p_movie_id
+  )
+  SELECT
+    e.id,
+    e.movie_id,
+    s.series_id,
+    sr.title,
+    s.season_number,
+    e.episode_number,
+    m.title,
+    COALESCE(m.thumbnail_sizes->>'card', m.thumbnail_url),
+    m.duration
+  FROM current_episode c
+  JOIN seasons s ON s.series_id = c.series_id
+  JOIN episodes e ON e.season_id = s.id
+  JOIN series sr ON sr.id = s.series_id
+  JOIN movies m ON m.id = e.movie_id
+  WHERE (s.season_number, e.episode_number) > (c.season_number, c.episode_number)
+  ORDER BY s.season_number, e.episode_number
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_next_episode(uuid) TO authenticated;
+
+-- Renumbers a season's episodes 1..n in the given order. Numbers are
+-- swapped within one statement, so the unique check waits for the end.
+CREATE OR REPLACE FUNCTION reorder_episodes(p_season_id uuid, p_episode_ids uuid[])
+RETURNS SETOF episodes AS $$
+BEGIN
+  IF NOT is_admin_by_id(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required';
+  END IF;
+
+  IF (SELECT count(*) FROM episodes WHERE season_id = p_season_id) <> cardinality(p_episode_ids)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_episode_ids) AS ordered(id)
+      WHERE NOT EXISTS (SELECT 1 FROM episodes e WHERE e.id = ordered.id AND e.season_id = p_season_id)
+    ) THEN
+    RAISE EXCEPTION 'The order must list every episode of the season once';
+  END IF;
+
+  SET CONSTRAINTS ALL DEFERRED;
+
+  RETURN QUERY
+  UPDATE episodes e
+  SET episode_number = ordered.position
+  FROM unnest(p_episode_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE e.id = ordered.id
+  RETURNING e.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION reorder_episodes(uuid, uuid[]) TO authenticated;
+
+COMMENT ON TABLE series IS 'TV shows, made of seasons';
+COMMENT ON TABLE seasons IS 'Numbered seasons of a series';
+COMMENT ON TABLE episodes IS 'Numbered episodes of a season, each played from a movies row';
+COMMENT ON COLUMN movies.is_episode IS 'Set while the movie is an episode of a series, kept out of the movie catalog';
+COMMENT ON FUNCTION get_next_episode IS 'Episode following the one played from a movie, across seasons';
+COMMENT ON FUNCTION reorder_episodes IS 'Renumber the episodes of a season in the given order';
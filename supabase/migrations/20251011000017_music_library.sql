@@ -0,0 +1,332 @@
+/*
+  # Music Library: Artists and Albums
+
+  Tracks stored artist and album as free text, so "Artist" and "artist "
+  were two artists and albums had no order or shared cover art.
+
+  1. artists and albums become rows of their own. Names are matched on a
+     key that ignores case and extra whitespace.
+  2. music gains artist_id, album_id, track_number and disc_number. The
+     artist and album text columns stay as the display names, so existing
+     readers keep working.
+  3. Existing rows are de-duplicated: the most used spelling of a name wins,
+     albums take the first cover art found on their tracks, and tracks are
+     numbered in upload order.
+  4. A trigger resolves artist and album text to rows on every insert and
+     update, creating them as needed, so uploads and admin edits don't have
+     to know about the new tables. Renaming an artist or album, or changing
+     album art, flows back to its tracks.
+  5. Artists and albums left without tracks are removed.
+*/
+
+-- =============================================
+-- 1. CREATE TABLES
+-- =============================================
+
+-- "  The  Artist " -> "The Artist"
+CREATE OR REPLACE FUNCTION library_display_name(p_name text)
+RETURNS text AS $$
+  SELECT btrim(regexp_replace(COALESCE(p_name, ''), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- "  The  Artist " -> "the artist", what names are matched on
+CREATE OR REPLACE FUNCTION library_name_key(p_name text)
+RETURNS text AS $$
+  SELECT lower(library_display_name(p_name));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS artists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (library_display_name(name) <> ''),
+  name_key text GENERATED ALWAYS AS (library_name_key(name)) STORED UNIQUE,
+  image_url text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS albums (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  artist_id uuid NOT NULL REFERENCES artists(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (library_display_name(title) <> ''),
+  title_key text GENERATED ALWAYS AS (library_name_key(title)) STORED,
+  release_date date,
+  album_art_url text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (artist_id, title_key)
+);
+
+ALTER TABLE music
+  ADD COLUMN IF NOT EXISTS artist_id uuid REFERENCES artists(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS album_id uuid REFERENCES albums(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS track_number integer CHECK (track_number > 0),
+  ADD COLUMN IF NOT EXISTS disc_number integer NOT NULL DEFAULT 1 CHECK (disc_number > 0);
+
+-- =============================================
+-- 2. DE-DUPLICATE EXISTING ROWS
+-- =============================================
+
+-- One artist per name key, spelled the way most tracks spell it
+INSERT INTO artists (name)
+SELECT DISTINCT ON (library_name_key(artist)) library_display_name(artist)
+FROM music
+WHERE library_name_key(artist) <> ''
+GROUP BY library_name_key(artist), library_display_name(artist)
+ORDER BY library_name_key(artist), count(*) DESC, library_display_name(artist)
+ON CONFLICT (name_key) DO NOTHING;
+
+UPDATE music m
+SET artist_id = a.id
+FROM artists a
+WHERE a.name_key = library_name_key(m.artist);
+
+-- One album per artist and title key, spelled the same way
+INSERT INTO albums (artist_id, title)
+SELECT DISTINCT ON (artist_id, library_name_key(album)) artist_id, library_display_name(album)
+FROM music
+WHERE artist_id IS NOT NULL AND library_name_key(album) <> ''
+GROUP BY artist_id, library_name_key(album), library_display_name(album)
+ORDER BY artist_id, library_name_key(album), count(*) DESC, library_display_name(album)
+ON CONFLICT (artist_id, title_key) DO NOTHING;
+
+UPDATE music m
+SET album_id = al.id
+FROM albums al
+WHERE al.artist_id = m.artist_id
+  AND al.title_key = library_name_key(m.album);
+
+-- The album's cover is the first one uploaded with any of its tracks
+UPDATE albums al
+SET album_art_url = art.album_art_url
+FROM (
+  SELECT DISTINCT ON (album_id) album_id, album_art_url
+  FROM music
+  WHERE album_id IS NOT NULL AND album_art_url IS NOT NULL
+  ORDER BY album_id, created_at
+) art
+WHERE al.id = art.album_id;
+
+-- Tracks show the canonical names and their album's cover when they have none
+UPDATE music m
+SET artist = a.name
+FROM artists a
+WHERE a.id = m.artist_id AND m.artist IS DISTINCT FROM a.name;
+
+UPDATE music m
+SET album = al.title,
+    album_art_url = COALESCE(m.album_art_url, al.album_art_url)
+FROM albums al
+WHERE al.id = m.album_id;
+
+-- Without tags to go on, tracks are numbered in upload order
+UPDATE music m
+SET track_number = numbered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY album_id ORDER BY created_at, title) AS position
+  FROM music
+  WHERE album_id IS NOT NULL
+) numbered
+WHERE m.id = numbered.id AND m.track_number IS NULL;
+
+-- =============================================
+-- 3. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_albums_artist_id ON albums(artist_id);
+CREATE INDEX IF NOT EXISTS idx_music_artist_id ON music(artist_id);
+CREATE INDEX IF NOT EXISTS idx_music_album_order ON music(album_id, disc_number, track_number);
+
+-- =============================================
+-- 4. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE artists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE albums ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All users can view artists"
+  ON artists FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert artists"
+  ON artists FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update artists"
+  ON artists FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete artists"
+  ON artists FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "All users can view albums"
+  ON albums FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can insert albums"
+  ON albums FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can update albums"
+  ON albums FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Only admins can delete albums"
+  ON albums FOR DELETE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+GRANT ALL ON artists TO authenticated;
+GRANT ALL ON albums TO authenticated;
+
+-- =============================================
+-- 5. TRIGGERS
+-- =============================================
+
+CREATE TRIGGER update_artists_updated_at
+  BEFORE UPDATE ON artists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_albums_updated_at
+  BEFORE UPDATE ON albums
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Points a track at its artist and album rows, creating them on first use,
+-- and rewrites the text columns to the canonical names
+CREATE OR REPLACE FUNCTION resolve_music_library()
+RETURNS trigger AS $$
+DECLARE
+  v_artist artists%ROWTYPE;
+  v_album albums%ROWTYPE;
+BEGIN
+  IF library_name_key(NEW.artist) = '' THEN
+    NEW.artist_id := NULL;
+    NEW.album_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO artists (name)
+  VALUES (library_display_name(NEW.artist))
+  ON CONFLICT (name_key) DO NOTHING;
+
+  SELECT * INTO v_artist FROM artists WHERE name_key = library_name_key(NEW.artist);
+  NEW.artist_id := v_artist.id;
+  NEW.artist := v_artist.name;
+
+  IF library_name_key(NEW.album) = '' THEN
+    NEW.album_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO albums (artist_id, title, album_art_url)
+  VALUES (v_artist.id, library_display_name(NEW.album), NEW.album_art_url)
+  ON CONFLICT (artist_id, title_key) DO NOTHING;
+
+  SELECT * INTO v_album
+  FROM albums
+  WHERE artist_id = v_artist.id AND title_key = library_name_key(NEW.album);
+
+  NEW.album_id := v_album.id;
+  NEW.album := v_album.title;
+
+  -- The album shares its cover with tracks uploaded without one, and takes
+  -- the first cover a track brings
+  IF v_album.album_art_url IS NULL AND NEW.album_art_url IS NOT NULL THEN
+    UPDATE albums SET album_art_url = NEW.album_art_url WHERE id = v_album.id;
+  END IF;
+  NEW.album_art_url := COALESCE(NEW.album_art_url, v_album.album_art_url);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER resolve_music_library
+  BEFORE INSERT OR UPDATE OF artist, album ON music
+  FOR EACH ROW
+  EXECUTE FUNCTION resolve_music_library();
+
+-- Removes the artist and album a track left if nothing else uses them
+CREATE OR REPLACE FUNCTION prune_music_library()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.album_id IS NOT NULL
+    AND OLD.album_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN NEW.album_id END)
+    AND NOT EXISTS (SELECT 1 FROM music WHERE album_id = OLD.album_id) THEN
+    DELETE FROM albums WHERE id = OLD.album_id;
+  END IF;
+
+  IF OLD.artist_id IS NOT NULL
+    AND OLD.artist_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN NEW.artist_id END)
+    AND NOT EXISTS (SELECT 1 FROM music WHERE artist_id = OLD.artist_id)
+    AND NOT EXISTS (SELECT 1 FROM albums WHERE artist_id = OLD.artist_id) THEN
+    DELETE FROM artists WHERE id = OLD.artist_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Edits name the text columns; the ids they resolve to are set by the
+-- BEFORE trigger, which doesn't count towards the column list
+CREATE TRIGGER prune_music_library
+  AFTER UPDATE OF artist, album, artist_id, album_id OR DELETE ON music
+  FOR EACH ROW
+  EXECUTE FUNCTION prune_music_library();
+
+-- Renames reach the tracks' display columns; the music trigger then
+-- resolves them back to the same row
+CREATE OR REPLACE FUNCTION sync_artist_name_to_music()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE music SET artist = NEW.name WHERE artist_id = NEW.id AND artist IS DISTINCT FROM NEW.name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_artist_name
+  AFTER UPDATE OF name ON artists
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_artist_name_to_music();
+
+CREATE OR REPLACE FUNCTION sync_album_to_music()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    UPDATE music SET album = NEW.title WHERE album_id = NEW.id;
+  END IF;
+
+  -- Tracks that showed the album's old cover, or none, show the new one
+  IF NEW.album_art_url IS DISTINCT FROM OLD.album_art_url THEN
+    UPDATE music
+    SET album_art_url = NEW.album_art_url
+    WHERE album_id = NEW.id
+      AND (album_art_url IS NULL OR album_art_url = OLD.album_art_url);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_album
+  AFTER UPDATE OF title, album_art_url ON albums
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_album_to_music();
+
+COMMENT ON TABLE artists IS 'Music artists, one per name ignoring case and whitespace';
+COMMENT ON TABLE albums IS 'Albums of an artist with release date and shared cover art';
+COMMENT ON COLUMN music.artist IS 'Display name of the artist, kept in step with artists.name';
+COMMENT ON COLUMN music.album IS 'Display title of the album, kept in step with albums.title';
+COMMENT ON COLUMN music.track_number IS 'Position on the disc';
+COMMENT ON COLUMN music.disc_number IS 'Disc of a multi-disc album, 1 otherwise';
+COMMENT ON FUNCTION resolve_music_library IS 'Resolve a track''s artist and album text to artists and albums rows';
@@ -0,0 +1,229 @@
+/*
+  # Playlists
+
+  Users collect tracks and movies into ordered playlists.
+
+  1. playlists belong to the user who created them. Private playlists are
+     seen only by their owner; public ones by every signed-in user, which is
+     what makes their share links work.
+  2. playlist_items hold either a movie or a track, referenced by foreign key
+     so deleting the title removes it from every playlist. position orders
+     the items; gaps left by removals are closed on the next reorder.
+  3. can_view_playlist and can_edit_playlist carry the access rules so the
+     item policies and functions share them.
+  4. add_playlist_item appends an item; reorder_playlist_items renumbers
+     a playlist in the given order.
+*/
+
+-- =============================================
+-- 1. CREATE TABLES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS playlists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  description text,
+  is_public boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS playlist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  playlist_id uuid NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+  content_type text NOT NULL CHECK (content_type IN ('movie', 'music')),
+  movie_id uuid REFERENCES movies(id) ON DELETE CASCADE,
+  music_id uuid REFERENCES music(id) ON DELETE CASCADE,
+  position integer NOT NULL CHECK (position > 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (content_type = 'movie' AND movie_id IS NOT NULL AND music_id IS NULL)
+    OR (content_type = 'music' AND music_id IS NOT NULL AND movie_id IS NULL)
+  ),
+  UNIQUE (playlist_id, position) DEFERRABLE INITIALLY IMMEDIATE
+);
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_playlists_user_id ON playlists(user_id);
+CREATE INDEX IF NOT EXISTS idx_playlist_items_playlist_id ON playlist_items(playlist_id, position);
+CREATE INDEX IF NOT EXISTS idx_playlist_items_movie_id ON playlist_items(movie_id);
+CREATE INDEX IF NOT EXISTS idx_playlist_items_music_id ON playlist_items(music_id);
+
+-- =============================================
+-- 3. ACCESS FUNCTIONS
+-- =============================================
+
+-- SECURITY DEFINER so the item policies can read playlists without
+-- recursing into their policies
+CREATE OR REPLACE FUNCTION can_view_playlist(p_playlist_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM playlists
+    WHERE id = p_playlist_id
+      AND (is_public OR user_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_playlist(p_playlist_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM playlists
+    WHERE id = p_playlist_id
+      AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION can_view_playlist(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_playlist(uuid) TO authenticated;
+
+-- =============================================
+-- 4. ROW LEVEL SECURITY
+-- =============================================
+
+ALTER TABLE playlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE playlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view public and own playlists"
+  ON playlists FOR SELECT
+  TO authenticated
+  USING (is_public OR user_id = auth.uid());
+
+CREATE POLICY "Users can create own playlists"
+  ON playlists FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own playlists"
+  ON playlists FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own playlists"
+  ON playlists FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view items of visible playlists"
+  ON playlist_items FOR SELECT
+  TO authenticated
+  USING (can_view_playlist(playlist_id));
+
+CREATE POLICY "Editors can add playlist items"
+  ON playlist_items FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_playlist(playlist_id));
+
+CREATE POLICY "Editors can update playlist items"
+  ON playlist_items FOR UPDATE
+  TO authenticated
+  USING (can_edit_playlist(playlist_id))
+  WITH CHECK (can_edit_playlist(playlist_id));
+
+CREATE POLICY "Editors can remove playlist items"
+  ON playlist_items FOR DELETE
+  TO authenticated
+  USING (can_edit_playlist(playlist_id));
+
+GRANT ALL ON playlists TO authenticated;
+GRANT ALL ON playlist_items TO authenticated;
+
+-- =============================================
+-- 5. TRIGGERS
+-- =============================================
+
+CREATE TRIGGER update_playlists_updated_at
+  BEFORE UPDATE ON playlists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Item changes count as changes to the playlist, for "recently updated"
+CREATE OR REPLACE FUNCTION touch_playlist()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE playlists SET updated_at = now()
+  WHERE id = COALESCE(NEW.playlist_id, OLD.playlist_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER touch_playlist_on_item_change
+  AFTER INSERT OR DELETE ON playlist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_playlist();
+
+-- =============================================
+-- 6. FUNCTIONS
+-- =============================================
+
+-- Appends a movie or track to the end of a playlist
+CREATE OR REPLACE FUNCTION add_playlist_item(
+  p_playlist_id uuid,
+  p_content_type text,
+  p_content_id uuid
+)
+RETURNS playlist_items AS $$
+DECLARE
+  v_item playlist_items;
+BEGIN
+  IF NOT can_edit_playlist(p_playlist_id) THEN
+    RAISE EXCEPTION 'Access denied: you cannot edit this playlist';
+  END IF;
+
+  INSERT INTO playlist_items (playlist_id, content_type, movie_id, music_id, position)
+  SELECT
+    p_playlist_id,
+    p_content_type,
+    CASE WHEN p_content_type = 'movie' THEN p_content_id END,
+    CASE WHEN p_content_type = 'music' THEN p_content_id END,
+    COALESCE(max(position), 0) + 1
+  FROM playlist_items
+  WHERE playlist_id = p_playlist_id
+  RETURNING * INTO v_item;
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION add_playlist_item(uuid, text, uuid) TO authenticated;
+
+-- Renumbers a playlist's items 1..n in the given order. Positions are
+-- swapped within one statement, so the unique check waits for the end.
+CREATE OR REPLACE FUNCTION reorder_playlist_items(p_playlist_id uuid, p_item_ids uuid[])
+RETURNS SETOF playlist_items AS $$
+BEGIN
+  IF NOT can_edit_playlist(p_playlist_id) THEN
+    RAISE EXCEPTION 'Access denied: you cannot edit this playlist';
+  END IF;
+
+  IF (SELECT count(*) FROM playlist_items WHERE playlist_id = p_playlist_id) <> cardinality(p_item_ids)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_item_ids) AS ordered(id)
+      WHERE NOT EXISTS (SELECT 1 FROM playlist_items i WHERE i.id = ordered.id AND i.playlist_id = p_playlist_id)
+    ) THEN
+    RAISE EXCEPTION 'The order must list every item of the playlist once';
+  END IF;
+
+  SET CONSTRAINTS ALL DEFERRED;
+
+  RETURN QUERY
+  UPDATE playlist_items i
+  SET position = ordered.position
+  FROM unnest(p_item_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE i.id = ordered.id
+  RETURNING i.*;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION reorder_playlist_items(uuid, uuid[]) TO authenticated;
+
+COMMENT ON TABLE playlists IS 'User playlists of movies and tracks, private unless is_public';
+COMMENT ON TABLE playlist_items IS 'Ordered movies and tracks of a playlist';
+COMMENT ON FUNCTION can_view_playlist IS 'Whether the current user may see a playlist and its items';
+COMMENT ON FUNCTION can_edit_playlist IS 'Whether the current user may change a playlist''s items';
+COMMENT ON FUNCTION add_playlist_item IS 'Append a movie or track to a playlist';
+COMMENT ON FUNCTION reorder_playlist_items IS 'Renumber the items of a playlist in the given order';
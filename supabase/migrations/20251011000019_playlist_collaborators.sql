@@ -0,0 +1,271 @@
+/*
+  # Playlist Collaborators
+
+  Owners share playlists with other accounts, which then edit them together.
+
+  1. playlist_collaborators invites an email address as an editor or a
+     viewer. Invites match accounts on confirmed email, so someone without
+     an account yet gets access once they sign up with that address and
+     confirm it. Signing up with the address alone doesn't claim the invite.
+  2. Editors add, remove and reorder items; viewers only see and play a
+     private playlist. Renaming, visibility, deleting and invites stay with
+     the owner. Collaborators may leave a playlist themselves.
+  3. playlist_items.added_by records who added each item; a trigger sets it
+     on insert and keeps it from being changed. get_playlist_members
+     resolves owner and collaborator emails for members of the playlist, so
+     the attribution is not shown to viewers of a public link.
+  4. playlists and playlist_items are published to realtime so open playlist
+     pages pick up each other's changes.
+  5. Appends and reorders take a per-playlist lock, since two editors can now
+     change the same playlist at once.
+*/
+
+-- =============================================
+-- 1. CREATE TABLES
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS playlist_collaborators (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  playlist_id uuid NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email = lower(btrim(email)) AND email LIKE '%@%'),
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('editor', 'viewer')),
+  invited_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (playlist_id, email)
+);
+
+ALTER TABLE playlist_items
+  ADD COLUMN IF NOT EXISTS added_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Items added so far were added by the owner, the only one who could
+UPDATE playlist_items i
+SET added_by = p.user_id
+FROM playlists p
+WHERE p.id = i.playlist_id
+  AND i.added_by IS NULL;
+
+-- =============================================
+-- 2. CREATE INDEXES
+-- =============================================
+
+CREATE INDEX IF NOT EXISTS idx_playlist_collaborators_email ON playlist_collaborators(email);
+
+-- =============================================
+-- 3. ACCESS FUNCTIONS
+-- =============================================
+
+-- Email of the current user once confirmed, null before; what invites
+-- are matched on
+CREATE OR REPLACE FUNCTION current_confirmed_email()
+RETURNS text AS $$
+  SELECT lower(email) FROM auth.users
+  WHERE id = auth.uid()
+    AND email_confirmed_at IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Role of the current user on a playlist: 'owner', 'editor', 'viewer' or null
+CREATE OR REPLACE FUNCTION playlist_role(p_playlist_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p.user_id = auth.uid() THEN 'owner'
+    ELSE (
+      SELECT c.role FROM playlist_collaborators c
+      WHERE c.playlist_id = p.id
+        AND c.email = current_confirmed_email()
+    )
+  END
+  FROM playlists p
+  WHERE p.id = p_playlist_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_view_playlist(p_playlist_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM playlists
+    WHERE id = p_playlist_id
+      AND (is_public OR playlist_role(id) IS NOT NULL)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_edit_playlist(p_playlist_id uuid)
+RETURNS boolean AS $$
+  SELECT COALESCE(playlist_role(p_playlist_id) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_confirmed_email() TO authenticated;
+GRANT EXECUTE ON FUNCTION playlist_role(uuid) TO authenticated;
+
+-- =============================================
+-- 4. ROW LEVEL SECURITY
+-- =============================================
+
+DROP POLICY IF EXISTS "Users can view public and own playlists" ON playlists;
+
+CREATE POLICY "Users can view public, own and shared playlists"
+  ON playlists FOR SELECT
+  TO authenticated
+  USING (can_view_playlist(id));
+
+ALTER TABLE playlist_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view playlist collaborators"
+  ON playlist_collaborators FOR SELECT
+  TO authenticated
+  USING (playlist_role(playlist_id) IS NOT NULL);
+
+CREATE POLICY "Owners can invite collaborators"
+  ON playlist_collaborators FOR INSERT
+  TO authenticated
+  WITH CHECK (playlist_role(playlist_id) = 'owner');
+
+CREATE POLICY "Owners can change collaborator roles"
+  ON playlist_collaborators FOR UPDATE
+  TO authenticated
+  USING (playlist_role(playlist_id) = 'owner')
+  WITH CHECK (playlist_role(playlist_id) = 'owner');
+
+CREATE POLICY "Owners can remove collaborators and collaborators can leave"
+  ON playlist_collaborators FOR DELETE
+  TO authenticated
+  USING (
+    playlist_role(playlist_id) = 'owner'
+    OR email = current_confirmed_email()
+  );
+
+GRANT ALL ON playlist_collaborators TO authenticated;
+
+-- =============================================
+-- 5. TRIGGERS
+-- =============================================
+
+-- Editors may update items (positions), so attribution is enforced here
+-- rather than trusted from the client: inserts are attributed to the
+-- current user, and signed-in users can't change added_by afterwards.
+-- Without a user (service role, ON DELETE SET NULL of a deleted account)
+-- it stays writable.
+CREATE OR REPLACE FUNCTION protect_playlist_item_added_by()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.added_by := COALESCE(auth.uid(), NEW.added_by);
+  ELSIF NEW.added_by IS DISTINCT FROM OLD.added_by AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'added_by of a playlist item cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_playlist_item_added_by
+  BEFORE INSERT OR UPDATE ON playlist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_playlist_item_added_by();
+
+-- =============================================
+-- 6. FUNCTIONS
+-- =============================================
+
+-- Owner and collaborators with their emails, for members only. user_id is
+-- null for invites no account has claimed with a confirmed email yet.
+CREATE OR REPLACE FUNCTION get_playlist_members(p_playlist_id uuid)
+RETURNS TABLE (
+  collaborator_id uuid,
+  user_id uuid,
+  email text,
+  role text
+) AS $$
+BEGIN
+  IF playlist_role(p_playlist_id) IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT NULL::uuid, u.id, lower(u.email)::text, 'owner'::text
+  FROM playlists p
+  JOIN auth.users u ON u.id = p.user_id
+  WHERE p.id = p_playlist_id
+  UNION ALL
+  SELECT c.id, u.id, c.email, c.role
+  FROM playlist_collaborators c
+  LEFT JOIN auth.users u ON lower(u.email) = c.email AND u.email_confirmed_at IS NOT NULL
+  WHERE c.playlist_id = p_playlist_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_playlist_members(uuid) TO authenticated;
+
+-- As before, now serialized per playlist so concurrent appends get
+-- distinct positions
+CREATE OR REPLACE FUNCTION add_playlist_item(
+  p_playlist_id uuid,
+  p_content_type text,
+  p_content_id uuid
+)
+RETURNS playlist_items AS $$
+DECLARE
+  v_item playlist_items;
+BEGIN
+  IF NOT can_edit_playlist(p_playlist_id) THEN
+    RAISE EXCEPTION 'Access denied: you cannot edit this playlist';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('playlist:' || p_playlist_id::text));
+
+  INSERT INTO playlist_items (playlist_id, content_type, movie_id, music_id, position)
+  SELECT
+    p_playlist_id,
+    p_content_type,
+    CASE WHEN p_content_type = 'movie' THEN p_content_id END,
+    CASE WHEN p_content_type = 'music' THEN p_content_id END,
+    COALESCE(max(position), 0) + 1
+  FROM playlist_items
+  WHERE playlist_id = p_playlist_id
+  RETURNING * INTO v_item;
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- As before, under the same lock. An order made from a stale copy of the
+-- playlist fails the check instead of dropping someone's change.
+CREATE OR REPLACE FUNCTION reorder_playlist_items(p_playlist_id uuid, p_item_ids uuid[])
+RETURNS SETOF playlist_items AS $$
+BEGIN
+  IF NOT can_edit_playlist(p_playlist_id) THEN
+    RAISE EXCEPTION 'Access denied: you cannot edit this playlist';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('playlist:' || p_playlist_id::text));
+
+  IF (SELECT count(*) FROM playlist_items WHERE playlist_id = p_playlist_id) <> cardinality(p_item_ids)
+    OR EXISTS (
+      SELECT 1 FROM unnest(p_item_ids) AS ordered(id)
+      WHERE NOT EXISTS (SELECT 1 FROM playlist_items i WHERE i.id = ordered.id AND i.playlist_id = p_playlist_id)
+    ) THEN
+    RAISE EXCEPTION 'The order must list every item of the playlist once';
+  END IF;
+
+  SET CONSTRAINTS ALL DEFERRED;
+
+  RETURN QUERY
+  UPDATE playlist_items i
+  SET position = ordered.position
+  FROM unnest(p_item_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE i.id = ordered.id
+  RETURNING i.*;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- =============================================
+-- 7. REALTIME
+-- =============================================
+
+-- Item changes and renames are pushed to open playlist pages through
+-- postgres_changes, which applies the SELECT policies above
+ALTER PUBLICATION supabase_realtime ADD TABLE playlists;
+ALTER PUBLICATION supabase_realtime ADD TABLE playlist_items;
+
+COMMENT ON TABLE playlist_collaborators IS 'Accounts, by email, invited to edit or view a playlist';
+COMMENT ON COLUMN playlist_items.added_by IS 'User who added the item';
+COMMENT ON FUNCTION current_confirmed_email IS 'Confirmed email of the current user, which playlist invites match on';
+COMMENT ON FUNCTION playlist_role IS 'Role of the current user on a playlist: owner, editor, viewer or null';
+COMMENT ON FUNCTION get_playlist_members IS 'Owner and collaborators of a playlist with their emails, for its members';
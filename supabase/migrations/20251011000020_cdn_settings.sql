@@ -0,0 +1,265 @@
+/*
+  # CDN Settings
+
+  The CDN the player streams from is the same for every viewer, so the CDN
+  tab of the streaming admin saves it here instead of in the admin's
+  browser. Every signed-in player reads the row to build its sources: the
+  endpoint, then the failover endpoints in order, then the origin.
+
+  Serving through the CDN is off and the endpoint empty until an admin
+  configures them, so playback goes straight to the origin by default.
+
+  The URL signing key and the API (or purge) token never reach a browser.
+  They are kept in Supabase Vault and the row only names the secrets:
+  - sign_cdn_urls signs CDN URLs in the database, for the objects the
+    viewer's playback grants cover.
+  - Purges, cache warming and health checks are queued in cdn_tasks and run
+    by the CDN worker (worker/cdnWorker.ts), which reads the secrets
+    through get_cdn_secrets.
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- =============================================
+-- 1. SETTINGS
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS cdn_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id), -- single row
+  enabled boolean NOT NULL DEFAULT false,
+  provider text NOT NULL DEFAULT 'custom' CHECK (provider IN ('cloudflare', 'aws', 'azure', 'custom')),
+  endpoint text NOT NULL DEFAULT '',
+  failover_endpoints text[] NOT NULL DEFAULT '{}',
+  cache_ttl integer NOT NULL DEFAULT 3600 CHECK (cache_ttl >= 60),
+  ssl_enabled boolean NOT NULL DEFAULT true,
+  health_path text,
+  purge_url text,
+  zone_id text,
+  api_base_url text,
+  signing_key_secret text, -- Vault secret names, never the secrets
+  api_token_secret text,
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT enabled OR endpoint <> '')
+);
+
+INSERT INTO cdn_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE cdn_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view CDN settings"
+  ON cdn_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update CDN settings"
+  ON cdn_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()))
+  WITH CHECK (is_admin_by_id(auth.uid()));
+
+GRANT SELECT, UPDATE ON cdn_settings TO authenticated;
+
+-- =============================================
+-- 2. URL SIGNING
+-- =============================================
+
+-- encodeURIComponent of every segment of a path, so the path signed here is
+-- the pathname of the URL the browser requests
+CREATE OR REPLACE FUNCTION uri_encode_path(p_path text)
+RETURNS text AS $$
+  SELECT COALESCE(string_agg(
+    CASE
+      WHEN ch ~ '^[A-Za-z0-9_.!~*''()/-]$' THEN ch
+      ELSE upper(regexp_replace(encode(convert_to(ch, 'UTF8'), 'hex'), '(..)', '%\1', 'g'))
+    END,
+    '' ORDER BY ord
+  ), '')
+  FROM regexp_split_to_table(p_path, '') WITH ORDINALITY AS chars(ch, ord);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- CDN URLs of media objects on one of the configured endpoints, in the
+-- format of the provider's adapter (cdnAdapters.ts):
+--   custom origin ?expires=<unix seconds>&token=<base64url HMAC-SHA256 of path + expires>
+--   cloudflare    ?verify=<issued at>-<base64 HMAC-SHA256 of path + issued at>
+-- Unsigned when no signing key is set. Viewers can only sign objects their
+-- playback grants cover, admins any object (the CDN tab's signing test).
+CREATE OR REPLACE FUNCTION sign_cdn_urls(p_endpoint text, p_object_paths text[])
+RETURNS TABLE (object_path text, url text, expires_at timestamptz) AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_is_admin boolean;
+  v_settings cdn_settings;
+  v_endpoint text := rtrim(trim(p_endpoint), '/');
+  v_key text;
+  v_now bigint := extract(epoch FROM now())::bigint;
+  v_path text;
+  v_url text;
+  v_pathname text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  v_is_admin := is_admin_by_id(v_user_id);
+
+  SELECT * INTO v_settings FROM cdn_settings WHERE id;
+
+  IF NOT COALESCE(v_settings.enabled OR v_is_admin, false) THEN
+    RAISE EXCEPTION 'The CDN is not enabled';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM unnest(array_prepend(v_settings.endpoint, v_settings.failover_endpoints)) AS endpoint
+    WHERE rtrim(trim(endpoint), '/') = v_endpoint
+  ) THEN
+    RAISE EXCEPTION 'Unknown CDN endpoint: %', p_endpoint;
+  END IF;
+
+  IF v_settings.ssl_enabled THEN
+    v_endpoint := regexp_replace(v_endpoint, '^http:', 'https:');
+  END IF;
+
+  IF v_settings.signing_key_secret IS NOT NULL THEN
+    SELECT decrypted_secret INTO v_key
+    FROM vault.decrypted_secrets
+    WHERE name = v_settings.signing_key_secret;
+
+    IF v_key IS NULL THEN
+      RAISE EXCEPTION 'CDN signing key "%" is not in Vault', v_settings.signing_key_secret;
+    END IF;
+  END IF;
+
+  FOREACH v_path IN ARRAY p_object_paths LOOP
+    IF NOT v_is_admin AND NOT EXISTS (
+      SELECT 1
+      FROM playback_grants g
+      WHERE g.user_id = v_user_id
+        AND g.expires_at > now()
+        AND v_path LIKE ANY (g.object_patterns)
+    ) THEN
+      RAISE EXCEPTION 'Access denied: % is not part of a playback grant', v_path;
+    END IF;
+
+    -- The CDN proxies the project's storage URLs path for path
+    v_url := v_endpoint || '/storage/v1/object/sign/media/' || uri_encode_path(v_path);
+    v_pathname := regexp_replace(v_url, '^[a-zA-Z][a-zA-Z0-9+.-]*://[^/]*', '');
+
+    object_path := v_path;
+    expires_at := to_timestamp(v_now + v_settings.cache_ttl);
+
+    IF v_key IS NULL THEN
+      url := v_url;
+    ELSIF v_settings.provider = 'cloudflare' THEN
+      url := v_url || '?verify=' || v_now || '-' || replace(replace(replace(
+        encode(extensions.hmac(v_pathname || v_now, v_key, 'sha256'), 'base64'),
+        '+', '%2B'), '/', '%2F'), '=', '%3D');
+    ELSE
+      url := v_url || '?expires=' || (v_now + v_settings.cache_ttl) || '&token=' || rtrim(translate(
+        encode(extensions.hmac(v_pathname || (v_now + v_settings.cache_ttl), v_key, 'sha256'), 'base64'),
+        '+/', '-_'), '=');
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sign_cdn_urls(text, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sign_cdn_urls(text, text[]) TO authenticated;
+
+-- =============================================
+-- 3. CDN TASKS
+-- =============================================
+
+-- Purges, warming and health checks the CDN tab asks the CDN worker for
+CREATE TABLE IF NOT EXISTS cdn_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  action text NOT NULL CHECK (action IN ('purge', 'purge_all', 'warm', 'health')),
+  paths text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  result jsonb,
+  error text,
+  requested_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_cdn_tasks_pending
+  ON cdn_tasks(created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE cdn_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view CDN tasks"
+  ON cdn_tasks FOR SELECT
+  TO authenticated
+  USING (is_admin_by_id(auth.uid()));
+
+CREATE POLICY "Admins can queue CDN tasks"
+  ON cdn_tasks FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin_by_id(auth.uid()) AND status = 'pending');
+
+GRANT SELECT, INSERT ON cdn_tasks TO authenticated;
+
+-- =============================================
+-- 4. WORKER FUNCTIONS (service role only)
+-- =============================================
+
+-- Claim the oldest pending task. Tasks nobody finished in time are failed,
+-- the admin who queued them stopped waiting long ago.
+CREATE OR REPLACE FUNCTION claim_cdn_task()
+RETURNS SETOF cdn_tasks AS $$
+BEGIN
+  UPDATE cdn_tasks
+  SET status = 'failed',
+      error = 'No CDN worker finished the task in time',
+      completed_at = now()
+  WHERE (status = 'pending' AND created_at < now() - interval '5 minutes')
+     OR (status = 'running' AND started_at < now() - interval '15 minutes');
+
+  DELETE FROM cdn_tasks
+  WHERE completed_at < now() - interval '1 day';
+
+  RETURN QUERY
+  UPDATE cdn_tasks
+  SET status = 'running',
+      started_at = now()
+  WHERE id = (
+    SELECT id FROM cdn_tasks
+    WHERE status = 'pending'
+    ORDER BY created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The secrets the settings row names, for the CDN worker's adapter
+CREATE OR REPLACE FUNCTION get_cdn_secrets()
+RETURNS jsonb AS $$
+DECLARE
+  v_settings cdn_settings;
+BEGIN
+  SELECT * INTO v_settings FROM cdn_settings WHERE id;
+
+  RETURN jsonb_build_object(
+    'signingKey', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = v_settings.signing_key_secret),
+    'apiToken', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = v_settings.api_token_secret)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_cdn_task() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_cdn_secrets() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE cdn_settings IS 'Single-row CDN configuration shared by the player and the CDN admin tab';
+COMMENT ON COLUMN cdn_settings.failover_endpoints IS 'Endpoints played from in order when the endpoint fails';
+COMMENT ON COLUMN cdn_settings.signing_key_secret IS 'Name of the Vault secret CDN URLs are signed with, unsigned when NULL';
+COMMENT ON COLUMN cdn_settings.api_token_secret IS 'Name of the Vault secret holding the Cloudflare API token or the purge URL bearer token';
+COMMENT ON TABLE cdn_tasks IS 'CDN purges, warming and health checks queued for the CDN worker';
+COMMENT ON FUNCTION sign_cdn_urls IS 'Signs CDN URLs of granted media objects with the signing key held in Vault';
+COMMENT ON FUNCTION uri_encode_path IS 'Percent-encodes a path like encodeURIComponent, keeping the slashes';
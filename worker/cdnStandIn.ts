@@ -0,0 +1,153 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Local stand-in for a Cloudflare zone, to try the CDN adapter without an
+// account. Run with `npm run cdn:standin` and point the CDN tab at it:
+//   endpoint     http://localhost:8787
+//   API base URL http://localhost:8787/client/v4
+//   zone ID      anything, API token secret: a Vault secret holding
+//                $CDN_STANDIN_TOKEN (default "standin-token")
+// The signing key secret has to hold CDN_STANDIN_SIGNING_KEY.
+// Edge requests are answered from an in-memory cache filled from
+// CDN_STANDIN_ORIGIN (or with a placeholder body when none is set) and report
+// cf-cache-status. With CDN_STANDIN_SIGNING_KEY set, edge requests need a
+// valid ?verify= token like the is_timed_hmac_valid_v0 WAF rule would check.
+
+const PORT = parseInt(process.env.CDN_STANDIN_PORT || '8787');
+const ORIGIN = process.env.CDN_STANDIN_ORIGIN?.replace(/\/+$/, '');
+const API_TOKEN = process.env.CDN_STANDIN_TOKEN || 'standin-token';
+const SIGNING_KEY = process.env.CDN_STANDIN_SIGNING_KEY;
+const SIGNED_URL_TTL = parseInt(process.env.CDN_STANDIN_SIGNED_URL_TTL || '3600');
+const API_PREFIX = '/client/v4/zones/';
+
+interface CachedObject {
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+const cache = new Map<string, CachedObject>();
+
+const log = (message: string) => {
+  console.log(`[cdn stand-in] ${message}`);
+};
+
+const send = (res: ServerResponse, status: number, body: string | Buffer, headers: { [name: string]: string } = {}) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, HEAD, POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'cf-cache-status',
+    ...headers
+  });
+  res.end(res.req.method === 'HEAD' ? undefined : body);
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: object) => {
+  send(res, status, JSON.stringify(payload), { 'Content-Type': 'application/json' });
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// verify=<issued at>-<base64 HMAC-SHA256 of path + issued at>
+const isValidToken = (path: string, verify: string | null): boolean => {
+  if (!SIGNING_KEY) return true;
+  if (!verify) return false;
+
+  const separator = verify.indexOf('-');
+  const issuedAt = parseInt(verify.slice(0, separator));
+  if (separator < 0 || isNaN(issuedAt) || Date.now() / 1000 - issuedAt > SIGNED_URL_TTL) return false;
+
+  const expected = createHmac('sha256', SIGNING_KEY).update(`${path}${issuedAt}`).digest();
+  const actual = Buffer.from(verify.slice(separator + 1), 'base64');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const fetchFromOrigin = async (path: string): Promise<CachedObject> => {
+  if (!ORIGIN) {
+    return { status: 200, contentType: 'text/plain', body: Buffer.from(`stand-in object ${path}\n`) };
+  }
+
+  const response = await fetch(`${ORIGIN}${path}`);
+  return {
+    status: response.status,
+    contentType: response.headers.get('content-type') || 'application/octet-stream',
+    body: Buffer.from(await response.arrayBuffer())
+  };
+};
+
+const handleEdge = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  if (!isValidToken(url.pathname, url.searchParams.get('verify'))) {
+    send(res, 403, 'Invalid or expired token\n');
+    return;
+  }
+
+  const cached = cache.get(url.pathname);
+  if (cached) {
+    send(res, cached.status, cached.body, { 'Content-Type': cached.contentType, 'cf-cache-status': 'HIT' });
+    return;
+  }
+
+  const fetched = await fetchFromOrigin(url.pathname);
+  if (fetched.status === 200) {
+    cache.set(url.pathname, fetched);
+  }
+  send(res, fetched.status, fetched.body, { 'Content-Type': fetched.contentType, 'cf-cache-status': 'MISS' });
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  if (req.headers.authorization !== `Bearer ${API_TOKEN}`) {
+    sendJson(res, 403, { success: false, errors: [{ code: 10000, message: 'Authentication error' }], result: null });
+    return;
+  }
+
+  const [zoneId, action] = url.pathname.slice(API_PREFIX.length).split('/');
+
+  if (req.method === 'GET' && !action) {
+    sendJson(res, 200, { success: true, errors: [], result: { id: zoneId, status: 'active', paused: false } });
+    return;
+  }
+
+  if (req.method === 'POST' && action === 'purge_cache') {
+    const body = JSON.parse((await readBody(req)) || '{}') as { purge_everything?: boolean; files?: string[] };
+    if (body.purge_everything) {
+      log(`purged everything (${cache.size} objects)`);
+      cache.clear();
+    } else {
+      const files = body.files || [];
+      files.forEach(file => cache.delete(new URL(file).pathname));
+      log(`purged ${files.length} files`);
+    }
+    sendJson(res, 200, { success: true, errors: [], result: { id: zoneId } });
+    return;
+  }
+
+  sendJson(res, 404, { success: false, errors: [{ code: 7003, message: 'Unknown route' }], result: null });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+
+  try {
+    if (req.method === 'OPTIONS') {
+      send(res, 204, '');
+    } else if (url.pathname.startsWith(API_PREFIX)) {
+      await handleApi(req, res, url);
+    } else {
+      await handleEdge(req, res, url);
+    }
+  } catch (error) {
+    log(`request failed: ${error instanceof Error ? error.message : error}`);
+    send(res, 502, 'Bad gateway\n');
+  }
+});
+
+server.listen(PORT, () => {
+  log(`listening on http://localhost:${PORT}${ORIGIN ? `, origin ${ORIGIN}` : ''}`);
+});
@@ -0,0 +1,121 @@
+import { cdnConfigFromRow, createCdnAdapter, type CdnAdapter } from '../src/lib/cdnAdapters';
+import type { CdnSettingsRow, CdnTaskRow } from '../src/lib/streamingService';
+import { supabaseAdmin } from './supabaseAdmin';
+
+// CDN worker
+// Runs the purges, cache warming and health checks admins queue in the CDN
+// tab (cdn_tasks). The signing key and API token are read from Vault for
+// every task and never leave the server. Run with `npm run cdn:worker`.
+
+const POLL_INTERVAL_MS = parseInt(process.env.CDN_WORKER_POLL_INTERVAL_MS || '1000');
+
+let shuttingDown = false;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const log = (message: string, ...details: unknown[]) => {
+  console.log(`[cdn worker] ${message}`, ...details);
+};
+
+const claimNextTask = async (): Promise<CdnTaskRow | null> => {
+  const { data, error } = await supabaseAdmin.rpc('claim_cdn_task');
+
+  if (error) throw new Error(`Failed to claim task: ${error.message}`);
+  return data && data.length > 0 ? (data[0] as CdnTaskRow) : null;
+};
+
+// Settings as saved now, with the secrets they name
+const loadAdapter = async (): Promise<CdnAdapter> => {
+  const [settings, secrets] = await Promise.all([
+    supabaseAdmin.from('cdn_settings').select('*').eq('id', true).single(),
+    supabaseAdmin.rpc('get_cdn_secrets')
+  ]);
+
+  if (settings.error) throw new Error(`Failed to load CDN settings: ${settings.error.message}`);
+  if (secrets.error) throw new Error(`Failed to load CDN secrets: ${secrets.error.message}`);
+
+  const config = cdnConfigFromRow(settings.data as CdnSettingsRow);
+  if (!config.endpoint) {
+    throw new Error('Set the CDN endpoint first');
+  }
+
+  const { signingKey, apiToken } = secrets.data as { signingKey: string | null; apiToken: string | null };
+  return createCdnAdapter({
+    ...config,
+    signingKey: signingKey ?? undefined,
+    apiToken: apiToken ?? undefined
+  });
+};
+
+const runTask = async (task: CdnTaskRow): Promise<unknown> => {
+  const adapter = await loadAdapter();
+
+  switch (task.action) {
+    case 'health':
+      return adapter.healthCheck();
+    case 'purge':
+      await adapter.purge(task.paths);
+      return null;
+    case 'purge_all':
+      await adapter.purge('all');
+      return null;
+    case 'warm':
+      return adapter.prefetch(task.paths);
+  }
+};
+
+const finishTask = async (taskId: string, updates: Partial<CdnTaskRow>) => {
+  const { error } = await supabaseAdmin
+    .from('cdn_tasks')
+    .update({ ...updates, completed_at: new Date().toISOString() })
+    .eq('id', taskId)
+    .eq('status', 'running');
+
+  if (error) throw new Error(`Failed to update task ${taskId}: ${error.message}`);
+};
+
+const processTask = async (task: CdnTaskRow) => {
+  log(`Task ${task.id}: ${task.action}${task.paths.length > 0 ? ` (${task.paths.length} paths)` : ''}`);
+
+  try {
+    const result = await runTask(task);
+    await finishTask(task.id, { status: 'completed', result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`Task ${task.id} failed: ${message}`);
+    await finishTask(task.id, { status: 'failed', error: message });
+  }
+};
+
+const main = async () => {
+  log('Started');
+
+  while (!shuttingDown) {
+    try {
+      const task = await claimNextTask();
+      if (task) {
+        await processTask(task);
+        continue;
+      }
+    } catch (error) {
+      log('Polling error', error);
+    }
+
+    await delay(POLL_INTERVAL_MS);
+  }
+
+  log('Stopped');
+};
+
+const stop = () => {
+  log('Shutting down after the current task');
+  shuttingDown = true;
+};
+
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+main().catch(error => {
+  log('Worker crashed', error);
+  process.exit(1);
+});
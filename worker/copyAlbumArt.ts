@@ -0,0 +1,62 @@
+import { ARTWORK_BUCKET, MEDIA_BUCKET, supabaseAdmin } from './supabaseAdmin';
+
+// One-off copy of the album covers uploaded before the media bucket went
+// private (migration 20251011000013) into the public artwork bucket, where
+// the migration points their URLs. Run once after migrating with
+// `npm run artwork:copy`; covers already copied are skipped, so it is safe
+// to run again. The originals stay in the media bucket.
+
+const FOLDER = 'album-art';
+const PAGE_SIZE = 1000;
+
+const log = (message: string, ...details: unknown[]) => {
+  console.log(`[album art] ${message}`, ...details);
+};
+
+const listCovers = async (): Promise<string[]> => {
+  const names: string[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin.storage
+      .from(MEDIA_BUCKET)
+      .list(FOLDER, { limit: PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+    if (error) throw new Error(`Failed to list ${MEDIA_BUCKET}/${FOLDER}: ${error.message}`);
+
+    // Folders come back without an id
+    names.push(...data.filter(object => object.id).map(object => `${FOLDER}/${object.name}`));
+    if (data.length < PAGE_SIZE) return names;
+  }
+};
+
+const main = async () => {
+  const covers = await listCovers();
+  log(`Copying ${covers.length} covers to the ${ARTWORK_BUCKET} bucket`);
+
+  let copied = 0;
+  let skipped = 0;
+  const failed: string[] = [];
+
+  for (const path of covers) {
+    const { error } = await supabaseAdmin.storage
+      .from(MEDIA_BUCKET)
+      .copy(path, path, { destinationBucket: ARTWORK_BUCKET });
+
+    if (!error) {
+      copied++;
+    } else if (/already exists/i.test(error.message)) {
+      skipped++;
+    } else {
+      failed.push(path);
+      log(`Failed to copy ${path}: ${error.message}`);
+    }
+  }
+
+  log(`Done: ${copied} copied, ${skipped} already there, ${failed.length} failed`);
+  if (failed.length > 0) process.exit(1);
+};
+
+main().catch(error => {
+  log('Copy failed', error);
+  process.exit(1);
+});
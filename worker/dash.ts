@@ -0,0 +1,40 @@
+import { mkdir, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { VideoFormat } from '../src/lib/streamingService';
+import { segmentDash } from './ffmpeg';
+
+// MPEG-DASH packaging
+// Repackages encoded mp4 renditions as fragmented MP4 segments that all
+// representations share one directory for, described by a single MPD.
+
+const SEGMENT_SECONDS = 6;
+
+export const DASH_CONTENT_TYPES: { [extension: string]: string } = {
+  mpd: 'application/dash+xml',
+  m4s: 'video/iso.segment'
+};
+
+export interface DashPackage {
+  rootDir: string;
+  manifest: string; // File name of the MPD inside rootDir
+  files: string[]; // Every file to publish, relative to rootDir
+}
+
+// renditionPaths maps every encoded format to its local file
+export const packageDash = async (
+  renditionPaths: Map<VideoFormat, string>,
+  rootDir: string,
+  signal?: AbortSignal
+): Promise<DashPackage> => {
+  await mkdir(rootDir, { recursive: true });
+
+  // Representations are numbered in input order, lowest bitrate first
+  const inputs = [...renditionPaths]
+    .sort(([a], [b]) => a.bitrate - b.bitrate)
+    .map(([, inputPath]) => inputPath);
+
+  const manifest = 'manifest.mpd';
+  await segmentDash(inputs, join(rootDir, manifest), SEGMENT_SECONDS, signal);
+
+  return { rootDir, manifest, files: await readdir(rootDir) };
+};
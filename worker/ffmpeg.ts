@@ -0,0 +1,268 @@
+import { spawn } from 'node:child_process';
+import type { VideoFormat } from '../src/lib/streamingService';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+
+export interface ProbeResult {
+  duration: number;
+  width: number;
+  height: number;
+  videoCodec?: string;
+  videoProfile?: string;
+  videoLevel?: number;
+  audioCodec?: string;
+}
+
+// Subset of ffprobe's -show_streams output
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  profile?: string;
+  level?: number;
+  width?: number;
+  height?: number;
+}
+
+// Keyframe interval in seconds. Every rendition shares it so adaptive
+// players can switch between renditions on segment boundaries.
+export const KEYFRAME_INTERVAL_SECONDS = 2;
+
+const VIDEO_ENCODERS: { [codec: string]: string } = {
+  h264: 'libx264',
+  h265: 'libx265',
+  hevc: 'libx265',
+  vp9: 'libvpx-vp9'
+};
+
+// Spawn a process and resolve with its stdout. When onLine is given, stdout
+// is streamed line by line instead, so callers can follow ffmpeg's -progress
+// output. Aborting the signal kills the process.
+const run = (
+  command: string,
+  args: string[],
+  onLine?: (line: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'], signal, killSignal: 'SIGKILL' });
+    let stdout = '';
+    let stderr = '';
+    let pending = '';
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      if (onLine) {
+        const lines = (pending + text).split('\n');
+        pending = lines.pop() || '';
+        lines.forEach(line => onLine(line.trim()));
+      } else {
+        stdout += text;
+      }
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      // Keep only the tail, ffmpeg is chatty on long inputs
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        const lastLine = stderr.trim().split('\n').pop() || 'no output';
+        reject(new Error(`${command} exited with code ${code}: ${lastLine}`));
+      }
+    });
+  });
+};
+
+export const probe = async (inputPath: string): Promise<ProbeResult> => {
+  const output = await run(FFPROBE_PATH, [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    inputPath
+  ]);
+
+  const parsed = JSON.parse(output);
+  const streams: ProbeStream[] = parsed.streams || [];
+  const video = streams.find(stream => stream.codec_type === 'video');
+  const audio = streams.find(stream => stream.codec_type === 'audio');
+
+  return {
+    duration: parseFloat(parsed.format?.duration) || 0,
+    width: video?.width || 0,
+    height: video?.height || 0,
+    videoCodec: video?.codec_name,
+    videoProfile: video?.profile,
+    videoLevel: video?.level,
+    audioCodec: audio?.codec_name
+  };
+};
+
+export const parseResolution = (resolution: string): { width: number; height: number } | null => {
+  const match = resolution.match(/^(\d+)x(\d+)$/);
+  return match ? { width: parseInt(match[1]), height: parseInt(match[2]) } : null;
+};
+
+// Encoder arguments for one rendition. Renditions without a fixed resolution
+// or bitrate ("auto") keep the source size and use constant quality instead.
+export const buildRenditionArgs = (format: VideoFormat): string[] => {
+  const args: string[] = ['-c:v', VIDEO_ENCODERS[format.codec] || 'libx264'];
+
+  const size = parseResolution(format.resolution);
+  if (size) {
+    args.push(
+      '-vf',
+      `scale=${size.width}:${size.height}:force_original_aspect_ratio=decrease,scale=trunc(iw/2)*2:trunc(ih/2)*2`
+    );
+  }
+
+  args.push('-force_key_frames', `expr:gte(t,n_forced*${KEYFRAME_INTERVAL_SECONDS})`);
+  if (args[1] === 'libx264' || args[1] === 'libx265') {
+    args.push('-sc_threshold', '0');
+  }
+
+  if (format.bitrate > 0) {
+    args.push(
+      '-b:v', `${format.bitrate}`,
+      '-maxrate', `${Math.round(format.bitrate * 1.07)}`,
+      '-bufsize', `${format.bitrate * 2}`
+    );
+  } else {
+    args.push('-crf', '23');
+  }
+
+  if (format.container === 'webm') {
+    args.push('-c:a', 'libopus', '-b:a', '128k');
+  } else {
+    args.push('-c:a', 'aac', '-b:a', '128k', '-pix_fmt', 'yuv420p', '-movflags', '+faststart');
+  }
+
+  return args;
+};
+
+export const transcodeRendition = async (
+  inputPath: string,
+  outputPath: string,
+  format: VideoFormat,
+  duration: number,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const args = [
+    '-hide_banner',
+    '-y',
+    '-i', inputPath,
+    ...buildRenditionArgs(format),
+    '-progress', 'pipe:1',
+    '-nostats',
+    outputPath
+  ];
+
+  await run(FFMPEG_PATH, args, (line) => {
+    // out_time_us is the position written so far, in microseconds
+    const match = line.match(/^out_time_(?:us|ms)=(\d+)$/);
+    if (match && duration > 0) {
+      const seconds = parseInt(match[1]) / 1_000_000;
+      onProgress(Math.min(1, seconds / duration));
+    }
+  }, signal);
+
+  onProgress(1);
+};
+
+// Split an encoded rendition into MPEG-TS segments with a VOD media playlist.
+// Streams are copied, the rendition's keyframes define the segment boundaries.
+export const segmentHls = async (
+  inputPath: string,
+  playlistPath: string,
+  segmentPattern: string,
+  segmentSeconds: number,
+  signal?: AbortSignal
+): Promise<void> => {
+  await run(FFMPEG_PATH, [
+    '-hide_banner',
+    '-y',
+    '-i', inputPath,
+    '-c', 'copy',
+    '-f', 'hls',
+    '-hls_time', `${segmentSeconds}`,
+    '-hls_playlist_type', 'vod',
+    '-hls_flags', 'independent_segments',
+    '-hls_segment_filename', segmentPattern,
+    playlistPath
+  ], undefined, signal);
+};
+
+// Package encoded renditions as fragmented MP4 with an MPD manifest. All
+// video renditions become representations of one adaptation set; the audio
+// of the first input is shared by every representation.
+export const segmentDash = async (
+  inputPaths: string[],
+  manifestPath: string,
+  segmentSeconds: number,
+  signal?: AbortSignal
+): Promise<void> => {
+  const args = ['-hide_banner', '-y'];
+  inputPaths.forEach(inputPath => args.push('-i', inputPath));
+  inputPaths.forEach((_inputPath, index) => args.push('-map', `${index}:v:0`));
+  args.push('-map', '0:a:0?');
+
+  await run(FFMPEG_PATH, [
+    ...args,
+    '-c', 'copy',
+    '-f', 'dash',
+    '-seg_duration', `${segmentSeconds}`,
+    '-use_template', '1',
+    '-use_timeline', '1',
+    '-init_seg_name', 'init-$RepresentationID$.m4s',
+    '-media_seg_name', 'chunk-$RepresentationID$-$Number%05d$.m4s',
+    '-adaptation_sets', 'id=0,streams=v id=1,streams=a',
+    manifestPath
+  ], undefined, signal);
+};
+
+// Encode a standalone audio track (dub, audio description) to the same
+// stereo AAC the video renditions carry
+export const encodeAudioRendition = async (
+  inputPath: string,
+  outputPath: string,
+  signal?: AbortSignal
+): Promise<void> => {
+  await run(FFMPEG_PATH, [
+    '-hide_banner',
+    '-y',
+    '-i', inputPath,
+    '-vn',
+    '-c:a', 'aac',
+    '-b:a', '128k',
+    '-ac', '2',
+    '-movflags', '+faststart',
+    outputPath
+  ], undefined, signal);
+};
+
+// Sample one frame every intervalSeconds, scaled to one tile, and lay the
+// tiles out row by row on JPEG sprite sheets (outputPattern numbers them)
+export const renderSpriteSheets = async (
+  inputPath: string,
+  outputPattern: string,
+  intervalSeconds: number,
+  tile: { width: number; height: number; columns: number; rows: number },
+  signal?: AbortSignal
+): Promise<void> => {
+  await run(FFMPEG_PATH, [
+    '-hide_banner',
+    '-y',
+    '-i', inputPath,
+    '-an',
+    '-sn',
+    '-vf', `fps=1/${intervalSeconds},scale=${tile.width}:${tile.height},tile=${tile.columns}x${tile.rows}`,
+    '-q:v', '5',
+    outputPattern
+  ], undefined, signal);
+};
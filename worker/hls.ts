@@ -0,0 +1,209 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { VideoFormat } from '../src/lib/streamingService';
+import { probe, segmentHls, type ProbeResult } from './ffmpeg';
+
+// HLS packaging
+// Segments encoded mp4 renditions into MPEG-TS media playlists and writes a
+// master playlist that lists every rendition as a variant stream, plus any
+// alternate audio renditions.
+
+const SEGMENT_SECONDS = 6;
+
+export const HLS_CONTENT_TYPES: { [extension: string]: string } = {
+  m3u8: 'application/vnd.apple.mpegurl',
+  ts: 'video/mp2t'
+};
+
+export interface HlsVariant {
+  format: VideoFormat;
+  directory: string; // Relative to the package root
+  bandwidth: number; // Peak segment bitrate, bits per second
+  averageBandwidth: number;
+  width: number;
+  height: number;
+  codecs: string;
+}
+
+// Alternate audio rendition (dub or audio description) listed with
+// EXT-X-MEDIA; the audio muxed into the variants stays the default
+export interface HlsAudioInput {
+  id: string;
+  language: string;
+  name: string;
+  isAudioDescription: boolean;
+  path: string; // Local AAC file
+}
+
+export interface HlsPackage {
+  rootDir: string;
+  masterPlaylist: string; // File name of the master playlist inside rootDir
+  variants: HlsVariant[];
+  files: string[]; // Every file to publish, relative to rootDir
+}
+
+// RFC 6381 profile_idc/constraint bytes as reported by ffprobe
+const AVC_PROFILES: { [profile: string]: string } = {
+  'Constrained Baseline': '42E0',
+  'Baseline': '4200',
+  'Main': '4D40',
+  'High': '6400'
+};
+
+const codecString = (info: ProbeResult): string => {
+  const codecs: string[] = [];
+
+  if (info.videoCodec === 'h264') {
+    const profile = AVC_PROFILES[info.videoProfile || ''] || AVC_PROFILES.High;
+    const level = (info.videoLevel && info.videoLevel > 0 ? info.videoLevel : 40).toString(16).toUpperCase().padStart(2, '0');
+    codecs.push(`avc1.${profile}${level}`);
+  } else if (info.videoCodec === 'hevc') {
+    codecs.push('hvc1.1.6.L120.90');
+  }
+
+  if (info.audioCodec === 'aac') {
+    codecs.push('mp4a.40.2');
+  }
+
+  return codecs.join(',');
+};
+
+// Measure peak and average bitrate from the segments listed in a media
+// playlist. BANDWIDTH must not be lower than any segment's actual bitrate.
+const measureBandwidth = async (variantDir: string, playlist: string) => {
+  const lines = playlist.split('\n').map(line => line.trim());
+  let peak = 0;
+  let totalBits = 0;
+  let totalSeconds = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(/^#EXTINF:([\d.]+)/);
+    const segment = lines[index + 1];
+    if (!match || !segment || segment.startsWith('#')) continue;
+
+    const seconds = parseFloat(match[1]);
+    const bits = (await stat(join(variantDir, segment))).size * 8;
+    totalBits += bits;
+    totalSeconds += seconds;
+    if (seconds > 0) {
+      peak = Math.max(peak, bits / seconds);
+    }
+  }
+
+  const average = totalSeconds > 0 ? totalBits / totalSeconds : 0;
+  return { bandwidth: Math.ceil(peak || average), averageBandwidth: Math.ceil(average) };
+};
+
+const AUDIO_GROUP = 'audio';
+
+const audioDirectory = (audio: HlsAudioInput) => `audio-${audio.id}`;
+
+export const buildMasterPlaylist = (variants: HlsVariant[], audioRenditions: HlsAudioInput[] = []): string => {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3', '#EXT-X-INDEPENDENT-SEGMENTS'];
+
+  if (audioRenditions.length > 0) {
+    // No URI: the original audio is the one muxed into each variant
+    lines.push(`#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="${AUDIO_GROUP}",NAME="Original",DEFAULT=YES,AUTOSELECT=YES`);
+
+    audioRenditions.forEach(audio => {
+      const attributes = [
+        'TYPE=AUDIO',
+        `GROUP-ID="${AUDIO_GROUP}"`,
+        `LANGUAGE="${audio.language}"`,
+        `NAME="${audio.name.replace(/"/g, "'")}"`,
+        'DEFAULT=NO',
+        // Players must not switch to audio description on their own
+        `AUTOSELECT=${audio.isAudioDescription ? 'NO' : 'YES'}`
+      ];
+      if (audio.isAudioDescription) {
+        attributes.push('CHARACTERISTICS="public.accessibility.describes-video"');
+      }
+      attributes.push(`URI="${audioDirectory(audio)}/index.m3u8"`);
+      lines.push(`#EXT-X-MEDIA:${attributes.join(',')}`);
+    });
+  }
+
+  // Players start with the first variant, so list them lowest bitrate first
+  [...variants].sort((a, b) => a.bandwidth - b.bandwidth).forEach(variant => {
+    const attributes = [
+      `BANDWIDTH=${variant.bandwidth}`,
+      `AVERAGE-BANDWIDTH=${variant.averageBandwidth}`,
+      `RESOLUTION=${variant.width}x${variant.height}`
+    ];
+    if (variant.codecs) {
+      attributes.push(`CODECS="${variant.codecs}"`);
+    }
+    attributes.push(`NAME="${variant.format.name}"`);
+    if (audioRenditions.length > 0) {
+      attributes.push(`AUDIO="${AUDIO_GROUP}"`);
+    }
+
+    lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`);
+    lines.push(`${variant.directory}/index.m3u8`);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+// renditionPaths maps every encoded format to its local file
+export const packageHls = async (
+  renditionPaths: Map<VideoFormat, string>,
+  rootDir: string,
+  signal?: AbortSignal,
+  audioRenditions: HlsAudioInput[] = []
+): Promise<HlsPackage> => {
+  const variants: HlsVariant[] = [];
+  const files: string[] = [];
+
+  for (const [format, inputPath] of renditionPaths) {
+    const directory = format.id;
+    const variantDir = join(rootDir, directory);
+    await mkdir(variantDir, { recursive: true });
+
+    await segmentHls(
+      inputPath,
+      join(variantDir, 'index.m3u8'),
+      join(variantDir, 'segment_%05d.ts'),
+      SEGMENT_SECONDS,
+      signal
+    );
+
+    const playlist = await readFile(join(variantDir, 'index.m3u8'), 'utf8');
+    const info = await probe(inputPath);
+
+    variants.push({
+      format,
+      directory,
+      width: info.width,
+      height: info.height,
+      codecs: codecString(info),
+      ...(await measureBandwidth(variantDir, playlist))
+    });
+
+    const entries = await readdir(variantDir);
+    entries.forEach(entry => files.push(`${directory}/${entry}`));
+  }
+
+  for (const audio of audioRenditions) {
+    const directory = audioDirectory(audio);
+    const audioDir = join(rootDir, directory);
+    await mkdir(audioDir, { recursive: true });
+
+    await segmentHls(
+      audio.path,
+      join(audioDir, 'index.m3u8'),
+      join(audioDir, 'segment_%05d.ts'),
+      SEGMENT_SECONDS,
+      signal
+    );
+
+    const entries = await readdir(audioDir);
+    entries.forEach(entry => files.push(`${directory}/${entry}`));
+  }
+
+  const masterPlaylist = 'master.m3u8';
+  await writeFile(join(rootDir, masterPlaylist), buildMasterPlaylist(variants, audioRenditions));
+  files.push(masterPlaylist);
+
+  return { rootDir, masterPlaylist, variants, files };
+};
@@ -0,0 +1,390 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { hostname, tmpdir } from 'node:os';
+import { extname, join } from 'node:path';
+import type { TranscodingJobRow, VideoFormat } from '../src/lib/streamingService';
+import { MEDIA_BUCKET, supabaseAdmin } from './supabaseAdmin';
+import { encodeAudioRendition, probe, transcodeRendition } from './ffmpeg';
+import { HLS_CONTENT_TYPES, packageHls, type HlsAudioInput } from './hls';
+import { DASH_CONTENT_TYPES, packageDash } from './dash';
+import { TRICKPLAY_CONTENT_TYPES, packageTrickPlay } from './trickplay';
+
+// Transcoding worker
+// Leases jobs from the transcoding_jobs queue, runs ffmpeg for every rendition
+// of a job and uploads the results to the media bucket. Run with `npm run worker`.
+
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`;
+const WORKER_CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || '1');
+const POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '5000');
+const LEASE_SECONDS = parseInt(process.env.WORKER_LEASE_SECONDS || '60');
+const PROGRESS_UPDATE_INTERVAL_MS = 1000;
+
+const CONTENT_TYPES: { [container: string]: string } = {
+  mp4: 'video/mp4',
+  webm: 'video/webm'
+};
+
+// Errors that will fail again on retry go straight to the dead-letter state
+class PermanentJobError extends Error {}
+
+let shuttingDown = false;
+const runningJobs = new Set<Promise<void>>();
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const log = (message: string, ...details: unknown[]) => {
+  console.log(`[transcoder ${WORKER_ID}] ${message}`, ...details);
+};
+
+// Adaptive manifests (m3u8/mpd) are packaged from the encoded renditions,
+// they are not encoded on their own
+const isRendition = (format: VideoFormat) => format.container in CONTENT_TYPES;
+
+// MPEG-TS segments can only carry the H.264/HEVC mp4 renditions
+const isHlsRendition = (format: VideoFormat) => format.container === 'mp4' && format.codec !== 'vp9';
+
+// DASH representations share one audio track, so only the mp4 renditions
+// (all AAC) are packaged together
+const isDashRendition = (format: VideoFormat) => format.container === 'mp4';
+
+// Updates only apply while this worker still holds the job
+const updateJob = async (jobId: string, updates: Partial<TranscodingJobRow>) => {
+  const { error } = await supabaseAdmin
+    .from('transcoding_jobs')
+    .update(updates)
+    .eq('id', jobId)
+    .eq('worker_id', WORKER_ID);
+
+  if (error) throw new Error(`Failed to update job ${jobId}: ${error.message}`);
+};
+
+const claimNextJob = async (): Promise<TranscodingJobRow | null> => {
+  const { data, error } = await supabaseAdmin.rpc('claim_transcoding_job', {
+    p_worker_id: WORKER_ID,
+    p_lease_seconds: LEASE_SECONDS
+  });
+
+  if (error) throw new Error(`Failed to claim job: ${error.message}`);
+  return data && data.length > 0 ? (data[0] as TranscodingJobRow) : null;
+};
+
+// Renew the lease while the job runs. Aborts the controller when the job was
+// cancelled, deleted or handed to another worker.
+const startHeartbeat = (jobId: string, controller: AbortController) => {
+  return setInterval(async () => {
+    const { data, error } = await supabaseAdmin.rpc('renew_transcoding_job_lease', {
+      p_job_id: jobId,
+      p_worker_id: WORKER_ID,
+      p_lease_seconds: LEASE_SECONDS
+    });
+
+    if (error) {
+      // Transient; the job is only lost once the lease actually expires
+      log(`Lease renewal failed for job ${jobId}`, error);
+    } else if (data === false) {
+      controller.abort();
+    }
+  }, (LEASE_SECONDS * 1000) / 3);
+};
+
+const downloadInput = async (inputUrl: string, destination: string) => {
+  if (/^https?:\/\//.test(inputUrl)) {
+    const response = await fetch(inputUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download input: HTTP ${response.status}`);
+    }
+    await writeFile(destination, Buffer.from(await response.arrayBuffer()));
+    return;
+  }
+
+  const { data, error } = await supabaseAdmin.storage.from(MEDIA_BUCKET).download(inputUrl);
+  if (error || !data) {
+    throw new Error(`Failed to download input: ${error?.message || 'empty file'}`);
+  }
+  await writeFile(destination, Buffer.from(await data.arrayBuffer()));
+};
+
+// The media bucket is private, players sign the stored path per playback
+// session
+const uploadOutput = async (filePath: string, storagePath: string, contentType: string): Promise<string> => {
+  const { error } = await supabaseAdmin.storage
+    .from(MEDIA_BUCKET)
+    .upload(storagePath, await readFile(filePath), { contentType, upsert: true });
+
+  if (error) throw new Error(`Failed to upload ${storagePath}: ${error.message}`);
+  return storagePath;
+};
+
+// Upload a packaged manifest with its segments. Returns the storage path of
+// every file and the total size.
+const uploadPackage = async (
+  rootDir: string,
+  files: string[],
+  storagePrefix: string,
+  contentTypes: { [extension: string]: string }
+) => {
+  const urls: { [file: string]: string } = {};
+  let size = 0;
+
+  for (const file of files) {
+    const filePath = join(rootDir, file);
+    urls[file] = await uploadOutput(filePath, `${storagePrefix}/${file}`, contentTypes[extname(file).slice(1)]);
+    size += (await stat(filePath)).size;
+  }
+
+  return { urls, size };
+};
+
+// Download and encode the movie's extra dubs and audio-description tracks
+const prepareAudioTracks = async (movieId: string, workDir: string, signal: AbortSignal): Promise<HlsAudioInput[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('movie_audio_tracks')
+    .select('id, language, label, is_audio_description, source_path')
+    .eq('movie_id', movieId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to load audio tracks for movie ${movieId}: ${error.message}`);
+
+  const tracks: HlsAudioInput[] = [];
+  for (const track of data || []) {
+    const sourcePath = join(workDir, `audio-source-${track.id}`);
+    const outputPath = join(workDir, `audio-${track.id}.m4a`);
+
+    await downloadInput(track.source_path, sourcePath);
+    await encodeAudioRendition(sourcePath, outputPath, signal);
+
+    tracks.push({
+      id: track.id,
+      language: track.language,
+      name: track.label,
+      isAudioDescription: track.is_audio_description,
+      path: outputPath
+    });
+  }
+
+  return tracks;
+};
+
+// Point the movie at the HLS master playlist (or the MPD, or the best
+// progressive rendition) and record both manifests for the player, which
+// picks one by the movie's preferred_manifest setting
+const publishToMovie = async (movieId: string, formats: VideoFormat[], duration: number) => {
+  const hlsUrl = formats.find(format => format.container === 'm3u8')?.url;
+  const dashUrl = formats.find(format => format.container === 'mpd')?.url;
+  const best = formats
+    .filter(format => isRendition(format) && format.url)
+    .sort((a, b) => b.bitrate - a.bitrate)[0];
+  const thumbnailsUrl = formats.find(format => format.container === 'vtt')?.url;
+  const videoUrl = hlsUrl || dashUrl || best?.url;
+  if (!videoUrl) return;
+
+  const { error } = await supabaseAdmin
+    .from('movies')
+    .update({
+      video_url: videoUrl,
+      hls_url: hlsUrl || null,
+      dash_url: dashUrl || null,
+      ...(thumbnailsUrl && { thumbnails_vtt_url: thumbnailsUrl }),
+      duration: Math.round(duration)
+    })
+    .eq('id', movieId);
+
+  if (error) throw new Error(`Failed to update movie ${movieId}: ${error.message}`);
+};
+
+const processJob = async (job: TranscodingJobRow) => {
+  let workDir: string | undefined;
+  const formats: VideoFormat[] = job.output_formats.map(format => ({ ...format }));
+  const renditions = formats.filter(isRendition);
+  const hlsFormat = formats.find(format => format.container === 'm3u8');
+  const dashFormat = formats.find(format => format.container === 'mpd');
+  const controller = new AbortController();
+  const heartbeat = startHeartbeat(job.id, controller);
+
+  log(`Processing job ${job.id} (attempt ${job.attempts}/${job.max_attempts}, ${renditions.length} renditions)`);
+
+  try {
+    workDir = await mkdtemp(join(tmpdir(), `transcode-${job.id}-`));
+
+    if (renditions.length === 0) {
+      throw new PermanentJobError('Job has no encodable output formats');
+    }
+
+    const inputPath = join(workDir, 'source');
+    await downloadInput(job.input_url, inputPath);
+    const source = await probe(inputPath);
+    const { duration } = source;
+
+    // Audio-only sources have nothing to preview
+    const thumbnailsFormat = source.height > 0
+      ? formats.find(format => format.container === 'vtt')
+      : undefined;
+
+    let lastProgress = 0;
+    let lastUpdate = 0;
+    const reportProgress = async (progress: number) => {
+      const now = Date.now();
+      if (progress <= lastProgress || now - lastUpdate < PROGRESS_UPDATE_INTERVAL_MS) return;
+      lastProgress = progress;
+      lastUpdate = now;
+      await updateJob(job.id, { progress }).catch(error => log('Progress update failed', error));
+    };
+
+    // Packaging and the trick-play sprites count as one more step each
+    const steps = renditions.length + (hlsFormat || dashFormat ? 1 : 0) + (thumbnailsFormat ? 1 : 0);
+    const renditionPaths = new Map<VideoFormat, string>();
+
+    for (let index = 0; index < renditions.length; index++) {
+      const format = renditions[index];
+      const outputPath = join(workDir, `${format.id}.${format.container}`);
+
+      await transcodeRendition(inputPath, outputPath, format, duration, (fraction) => {
+        // Overall progress stops at 99 until all uploads have finished
+        reportProgress(Math.min(99, Math.floor(((index + fraction) / steps) * 100)));
+      }, controller.signal);
+      controller.signal.throwIfAborted();
+
+      format.url = await uploadOutput(
+        outputPath,
+        `transcoded/${job.id}/${format.id}.${format.container}`,
+        CONTENT_TYPES[format.container]
+      );
+      format.size = (await stat(outputPath)).size;
+      format.duration = duration;
+      renditionPaths.set(format, outputPath);
+    }
+
+    if (hlsFormat) {
+      const hlsRenditions = new Map([...renditionPaths].filter(([format]) => isHlsRendition(format)));
+      if (hlsRenditions.size === 0) {
+        throw new PermanentJobError('HLS output needs at least one H.264 or HEVC mp4 rendition');
+      }
+
+      const hlsDir = join(workDir, 'hls');
+      const audioTracks = job.movie_id
+        ? await prepareAudioTracks(job.movie_id, workDir, controller.signal)
+        : [];
+      const hls = await packageHls(hlsRenditions, hlsDir, controller.signal, audioTracks);
+      controller.signal.throwIfAborted();
+
+      const uploaded = await uploadPackage(hlsDir, hls.files, `transcoded/${job.id}/hls`, HLS_CONTENT_TYPES);
+      hlsFormat.url = uploaded.urls[hls.masterPlaylist];
+      hlsFormat.size = uploaded.size;
+      hlsFormat.duration = duration;
+      hlsFormat.bitrate = Math.max(...hls.variants.map(variant => variant.bandwidth));
+    }
+
+    if (dashFormat) {
+      const dashRenditions = new Map([...renditionPaths].filter(([format]) => isDashRendition(format)));
+      if (dashRenditions.size === 0) {
+        throw new PermanentJobError('DASH output needs at least one mp4 rendition');
+      }
+
+      const dashDir = join(workDir, 'dash');
+      const dash = await packageDash(dashRenditions, dashDir, controller.signal);
+      controller.signal.throwIfAborted();
+
+      const uploaded = await uploadPackage(dashDir, dash.files, `transcoded/${job.id}/dash`, DASH_CONTENT_TYPES);
+      dashFormat.url = uploaded.urls[dash.manifest];
+      dashFormat.size = uploaded.size;
+      dashFormat.duration = duration;
+      dashFormat.bitrate = Math.max(...[...dashRenditions.keys()].map(format => format.bitrate));
+    }
+
+    if (thumbnailsFormat) {
+      const trickPlayDir = join(workDir, 'thumbnails');
+      const trickPlay = await packageTrickPlay(inputPath, trickPlayDir, source, controller.signal);
+      controller.signal.throwIfAborted();
+
+      // Next to the HLS/DASH output, granted and signed with it
+      const uploaded = await uploadPackage(
+        trickPlayDir,
+        trickPlay.files,
+        `transcoded/${job.id}/thumbnails`,
+        TRICKPLAY_CONTENT_TYPES
+      );
+      thumbnailsFormat.url = uploaded.urls[trickPlay.track];
+      thumbnailsFormat.resolution = `${trickPlay.tile.width}x${trickPlay.tile.height}`;
+      thumbnailsFormat.size = uploaded.size;
+      thumbnailsFormat.duration = duration;
+    }
+
+    controller.signal.throwIfAborted();
+
+    if (job.movie_id) {
+      await publishToMovie(job.movie_id, formats, duration);
+    }
+
+    await updateJob(job.id, {
+      status: 'completed',
+      progress: 100,
+      output_formats: formats,
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null
+    });
+    log(`Job ${job.id} completed`);
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? 'Stopped: job was cancelled or its lease was lost'
+      : error instanceof Error ? error.message : 'Unknown error';
+
+    // Decides between retry with backoff, dead-letter and cancelled
+    const { data: status, error: failError } = await supabaseAdmin.rpc('fail_transcoding_job', {
+      p_job_id: job.id,
+      p_worker_id: WORKER_ID,
+      p_error: message,
+      p_retryable: !(error instanceof PermanentJobError)
+    });
+
+    if (failError) {
+      log(`Failed to record failure for job ${job.id}`, failError);
+    } else {
+      log(`Job ${job.id} stopped (${status || 'no longer owned'}): ${message}`);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true }).catch(error => log(`Failed to clean up ${workDir}`, error));
+    }
+  }
+};
+
+const main = async () => {
+  log(`Started (concurrency ${WORKER_CONCURRENCY})`);
+
+  while (!shuttingDown) {
+    if (runningJobs.size < WORKER_CONCURRENCY) {
+      try {
+        const job = await claimNextJob();
+        if (job) {
+          // A job that throws must not take down the loop or the other jobs
+          const task: Promise<void> = processJob(job)
+            .catch(error => log(`Job ${job.id} crashed`, error))
+            .finally(() => runningJobs.delete(task));
+          runningJobs.add(task);
+          continue;
+        }
+      } catch (error) {
+        log('Polling error', error);
+      }
+    }
+
+    // Wake up on the next poll or as soon as a slot frees up
+    await Promise.race([delay(POLL_INTERVAL_MS), ...runningJobs]);
+  }
+
+  await Promise.all(runningJobs);
+  log('Stopped');
+};
+
+const stop = () => {
+  log('Shutting down after the current jobs');
+  shuttingDown = true;
+};
+
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
+
+main().catch(error => {
+  log('Worker crashed', error);
+  process.exit(1);
+});
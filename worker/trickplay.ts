@@ -0,0 +1,71 @@
+import { mkdir, readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { renderSpriteSheets } from './ffmpeg';
+
+// Trick-play thumbnails
+// Renders a frame every few seconds onto sprite sheets and writes a WebVTT
+// thumbnails track with one cue per tile (sprite-001.jpg#xywh=x,y,w,h),
+// which players use for seek previews.
+
+const INTERVAL_SECONDS = 10;
+const TILE_WIDTH = 160;
+const COLUMNS = 10;
+const ROWS = 10;
+
+export const TRICKPLAY_CONTENT_TYPES: { [extension: string]: string } = {
+  jpg: 'image/jpeg',
+  vtt: 'text/vtt'
+};
+
+export interface TrickPlayPackage {
+  rootDir: string;
+  track: string; // File name of the WebVTT track inside rootDir
+  tile: { width: number; height: number };
+  files: string[]; // Every file to publish, relative to rootDir
+}
+
+const vttTime = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toFixed(3).padStart(6, '0')}`;
+};
+
+export const packageTrickPlay = async (
+  inputPath: string,
+  rootDir: string,
+  source: { duration: number; width: number; height: number },
+  signal?: AbortSignal
+): Promise<TrickPlayPackage> => {
+  await mkdir(rootDir, { recursive: true });
+
+  // Tiles keep the source's aspect ratio, heights are even for the scaler
+  const tileHeight = source.width > 0 && source.height > 0
+    ? Math.max(2, Math.round((TILE_WIDTH * source.height) / source.width / 2) * 2)
+    : 90;
+  const tile = { width: TILE_WIDTH, height: tileHeight, columns: COLUMNS, rows: ROWS };
+  await renderSpriteSheets(inputPath, join(rootDir, 'sprite-%03d.jpg'), INTERVAL_SECONDS, tile, signal);
+
+  const tilesPerSheet = COLUMNS * ROWS;
+  const tileCount = Math.max(1, Math.ceil(source.duration / INTERVAL_SECONDS));
+  const cues: string[] = [];
+
+  for (let index = 0; index < tileCount; index++) {
+    const sheet = Math.floor(index / tilesPerSheet) + 1;
+    const position = index % tilesPerSheet;
+    const x = (position % COLUMNS) * tile.width;
+    const y = Math.floor(position / COLUMNS) * tile.height;
+    const start = index * INTERVAL_SECONDS;
+    const end = Math.min(source.duration, start + INTERVAL_SECONDS);
+
+    cues.push(
+      `${vttTime(start)} --> ${vttTime(Math.max(end, start + 0.001))}\n` +
+      `sprite-${sheet.toString().padStart(3, '0')}.jpg#xywh=${x},${y},${tile.width},${tile.height}`
+    );
+  }
+
+  const track = 'thumbnails.vtt';
+  await writeFile(join(rootDir, track), `WEBVTT\n\n${cues.join('\n\n')}\n`);
+
+  return { rootDir, track, tile: { width: tile.width, height: tile.height }, files: await readdir(rootDir) };
+};